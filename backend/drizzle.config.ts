@@ -2,7 +2,6 @@ import type { Config } from 'drizzle-kit';
 
 export default {
   schema: './src/db/schema.ts',
-  out: './src/db/migrations',
   driver: 'better-sqlite',
   dbCredentials: {
     url: './data/tcloud.db',
@@ -4,8 +4,20 @@ import { config } from '../config.js';
 import { authMiddleware, devAuthMiddleware } from './middleware/auth.js';
 import filesRoutes from './routes/files.routes.js';
 import linksRoutes from './routes/links.routes.js';
+import notesRoutes from './routes/notes.routes.js';
+import itemsRoutes from './routes/items.routes.js';
 import sharesRoutes from './routes/shares.routes.js';
 import publicRoutes from './routes/public.routes.js';
+import foldersRoutes from './routes/folders.routes.js';
+import exportsRoutes from './routes/exports.routes.js';
+import exportDownloadRoutes from './routes/export-download.routes.js';
+import catalogRoutes from './routes/catalog.routes.js';
+import thumbsRoutes from './routes/thumbs.routes.js';
+import settingsRoutes from './routes/settings.routes.js';
+import spacesRoutes from './routes/spaces.routes.js';
+import jobsRoutes from './routes/jobs.routes.js';
+import { createWebhookHandler } from '../bot/index.js';
+import { IMPORT_BODY_LIMIT } from '../constants.js';
 
 const app = express();
 
@@ -38,7 +50,8 @@ app.use(
   })
 );
 
-// Parse JSON bodies
+// Parse JSON bodies (catalog import has its own limit and accepts CSV - registered first)
+app.use('/api/import', express.json({ limit: IMPORT_BODY_LIMIT }), express.text({ type: 'text/csv', limit: IMPORT_BODY_LIMIT }));
 app.use(express.json());
 
 // Health check endpoint (no auth required)
@@ -49,17 +62,32 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Telegram updates in webhook mode (checked by secret token, not by Mini App auth)
+if (config.bot.mode === 'webhook') {
+  app.post(config.bot.webhookPath, createWebhookHandler());
+}
+
 // Choose auth middleware based on environment
 const auth = process.env.NODE_ENV === 'production' ? authMiddleware : devAuthMiddleware;
 
 // Public routes (NO authentication required)
 app.use('/share', publicRoutes);
+app.use('/export', exportDownloadRoutes); // signed archive download
+app.use('/api/thumbs', thumbsRoutes); // signed preview URLs for <img>
 
 // API routes (require authentication)
 app.use('/api/files', auth, filesRoutes);
 app.use('/api/files', auth, sharesRoutes); // for POST/GET /:id/share
 app.use('/api/shares', auth, sharesRoutes); // for DELETE /:token
 app.use('/api/links', auth, linksRoutes);
+app.use('/api/notes', auth, notesRoutes);
+app.use('/api/items', auth, itemsRoutes);
+app.use('/api/folders', auth, foldersRoutes);
+app.use('/api/exports', auth, exportsRoutes);
+app.use('/api/settings', auth, settingsRoutes);
+app.use('/api/spaces', auth, spacesRoutes);
+app.use('/api/jobs', auth, jobsRoutes);
+app.use('/api', auth, catalogRoutes); // GET /api/export, POST /api/import (metadata only)
 
 // 404 handler
 app.use((req, res) => {
@@ -0,0 +1,8 @@
+/**
+ * Parse ?folderId= query param (undefined if missing or invalid)
+ */
+export function parseFolderId(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const id = parseInt(value, 10);
+  return isNaN(id) ? undefined : id;
+}
@@ -0,0 +1,85 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { buildCatalog, catalogToCsv, parseCatalogCsv, importCatalog } from '../../services/catalog.service.js';
+import { MAX_IMPORT_ROWS } from '../../constants.js';
+
+const router = Router();
+
+/**
+ * GET /api/export?format=json|csv
+ * Metadata-only export of the library: files and links (including trash),
+ * favorites, captions and shares. Binary export is /api/exports (ZIP)
+ */
+router.get('/export', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const format = (req.query.format as string) || 'json';
+
+  if (format !== 'json' && format !== 'csv') {
+    res.status(400).json({ error: 'Format must be json or csv' });
+    return;
+  }
+
+  try {
+    const catalog = await buildCatalog(telegramUser.id);
+    const date = catalog.exportedAt.slice(0, 10);
+
+    res.setHeader('Content-Disposition', `attachment; filename="t-cloud-catalog-${date}.${format}"`);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.send(catalogToCsv(catalog));
+      return;
+    }
+
+    res.json(catalog);
+  } catch (error) {
+    console.error('[API] Error exporting catalog:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/import
+ * Re-create files and links from a catalog exported by GET /api/export
+ * Body: JSON catalog ({ files, links }) or CSV with Content-Type: text/csv
+ * Conflicts (already existing files/links) are reported per row and do not abort the import
+ */
+router.post('/import', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  let data: { files?: unknown[]; links?: unknown[] };
+  if (typeof req.body === 'string') {
+    data = parseCatalogCsv(req.body);
+  } else if (req.body && typeof req.body === 'object') {
+    data = req.body as { files?: unknown[]; links?: unknown[] };
+  } else {
+    res.status(400).json({ error: 'Catalog must be JSON or CSV' });
+    return;
+  }
+
+  if ((data.files !== undefined && !Array.isArray(data.files)) ||
+      (data.links !== undefined && !Array.isArray(data.links))) {
+    res.status(400).json({ error: 'files and links must be arrays' });
+    return;
+  }
+
+  const rowCount = (data.files?.length || 0) + (data.links?.length || 0);
+  if (rowCount === 0) {
+    res.status(400).json({ error: 'Catalog is empty' });
+    return;
+  }
+  if (rowCount > MAX_IMPORT_ROWS) {
+    res.status(400).json({ error: `Maximum ${MAX_IMPORT_ROWS} rows per import` });
+    return;
+  }
+
+  try {
+    const report = await importCatalog(telegramUser.id, data);
+    res.json({ success: true, ...report });
+  } catch (error) {
+    console.error('[API] Error importing catalog:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import { ExportJobsRepository } from '../../db/repositories/export-jobs.repository.js';
+import { verifyExportSignature } from '../../services/export.service.js';
+
+const router = Router();
+const jobsRepo = new ExportJobsRepository();
+
+/**
+ * GET /export/:id/download?expires=...&sig=...
+ * Download export archive by signed URL (NO authentication - the link is opened in browser)
+ */
+router.get('/:id/download', async (req: Request, res: Response) => {
+  const jobId = parseInt(req.params.id, 10);
+  const expires = parseInt(String(req.query.expires || ''), 10);
+  const sig = String(req.query.sig || '');
+
+  if (isNaN(jobId) || !verifyExportSignature(jobId, expires, sig)) {
+    res.status(403).send('Link is invalid or expired');
+    return;
+  }
+
+  try {
+    const job = await jobsRepo.findById(jobId);
+    if (!job || job.status !== 'done' || !job.archivePath || !fs.existsSync(job.archivePath)) {
+      res.status(404).send('Archive not found');
+      return;
+    }
+
+    const date = (job.finishedAt || job.createdAt).toISOString().slice(0, 10);
+    res.download(job.archivePath, `t-cloud-export-${date}.zip`, (error) => {
+      if (error && !res.headersSent) {
+        console.error('[Export] Download error:', error);
+        res.status(500).send('Download failed');
+      }
+    });
+  } catch (error) {
+    console.error('[Export] Download error:', error);
+    res.status(500).send('Download failed');
+  }
+});
+
+export default router;
@@ -0,0 +1,96 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { ExportJobsRepository } from '../../db/repositories/export-jobs.repository.js';
+import { ExportJob } from '../../db/schema.js';
+import { startExportJob, getExportDownloadUrl } from '../../services/export.service.js';
+
+const router = Router();
+const jobsRepo = new ExportJobsRepository();
+
+/**
+ * Convert job to API response (without server-side archive path)
+ */
+function toJobResponse(job: ExportJob) {
+  const download = getExportDownloadUrl(job);
+
+  return {
+    id: job.id,
+    status: job.status,
+    totalFiles: job.totalFiles,
+    processedFiles: job.processedFiles,
+    skippedFiles: job.skippedFiles,
+    archiveSize: job.archiveSize,
+    error: job.error,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+    downloadUrl: download?.url || null,
+    expiresAt: download?.expiresAt || null,
+  };
+}
+
+/**
+ * POST /api/exports
+ * Start export of the whole archive (ZIP with files + manifest.json)
+ */
+router.post('/', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const activeJob = await jobsRepo.findActive(telegramUser.id);
+    if (activeJob) {
+      res.status(409).json({ error: 'EXPORT_IN_PROGRESS', job: toJobResponse(activeJob) });
+      return;
+    }
+
+    const job = await startExportJob(telegramUser.id);
+    res.status(201).json({ job: toJobResponse(job) });
+  } catch (error) {
+    console.error('[API] Error starting export:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/exports/latest
+ * Get the most recent export job (null if user never exported)
+ */
+router.get('/latest', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const job = await jobsRepo.findLatest(telegramUser.id);
+    res.json({ job: job ? toJobResponse(job) : null });
+  } catch (error) {
+    console.error('[API] Error fetching latest export:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/exports/:id
+ * Get export job progress
+ */
+router.get('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const jobId = parseInt(req.params.id, 10);
+
+  if (isNaN(jobId)) {
+    res.status(400).json({ error: 'Invalid export ID' });
+    return;
+  }
+
+  try {
+    const job = await jobsRepo.findByIdForUser(jobId, telegramUser.id);
+    if (!job) {
+      res.status(404).json({ error: 'Export not found' });
+      return;
+    }
+
+    res.json({ job: toJobResponse(job) });
+  } catch (error) {
+    console.error('[API] Error fetching export:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,66 +1,38 @@
 import { Router, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.js';
+import { parseFolderId } from '../route-utils.js';
 import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { FoldersRepository } from '../../db/repositories/folders.repository.js';
+import { TagsRepository, normalizeTag } from '../../db/repositories/tags.repository.js';
+import { SpacesRepository, canDeleteInSpace } from '../../db/repositories/spaces.repository.js';
 import { ThumbnailService } from '../../services/thumbnail.service.js';
+import { parseEntities } from '../../services/message-entities.service.js';
+import {
+  getCaptionForMedia,
+  needsSeparateMessage,
+  sendCaptionAsText,
+  sendFileByFileId,
+} from '../../services/file-sender.service.js';
+import { enqueueJob, toJobResponse } from '../../services/job-queue.service.js';
+import { streamFileContent } from '../streaming.js';
 import { MediaType } from '../../types/index.js';
 import { bot } from '../../bot/index.js';
 import { config } from '../../config.js';
 import { getUserDictionary } from '../../db/index.js';
 import {
-  PHOTO_CAPTION_LIMIT,
   DEFAULT_CAPTION_LIMIT,
-  TEXT_MESSAGE_LIMIT,
   DEFAULT_PAGE_SIZE,
   DEFAULT_SEARCH_LIMIT,
   MAX_PAGE_SIZE,
-  MAX_BATCH_SIZE
+  MAX_BATCH_SIZE,
+  MAX_TAGS_PER_REQUEST
 } from '../../constants.js';
 
 const router = Router();
 const filesRepo = new FilesRepository();
-
-// Check if caption fits the limit
-function getCaptionForMedia(caption: string | null | undefined, mediaType: string): string | undefined {
-  if (!caption) return undefined;
-  const limit = mediaType === 'photo' ? PHOTO_CAPTION_LIMIT : DEFAULT_CAPTION_LIMIT;
-  if (caption.length <= limit) return caption;
-  // Caption too long - will be sent separately
-  return undefined;
-}
-
-// Check if caption needs to be sent separately
-function needsSeparateMessage(caption: string | null | undefined, mediaType: string): boolean {
-  if (!caption) return false;
-  const limit = mediaType === 'photo' ? PHOTO_CAPTION_LIMIT : DEFAULT_CAPTION_LIMIT;
-  return caption.length > limit;
-}
-
-// Send long caption as separate text message(s)
-async function sendCaptionAsText(chatId: number, caption: string): Promise<void> {
-  // Split into chunks if needed
-  const chunks: string[] = [];
-  let remaining = caption;
-  while (remaining.length > 0) {
-    if (remaining.length <= TEXT_MESSAGE_LIMIT) {
-      chunks.push(remaining);
-      break;
-    }
-    // Find a good break point (newline or space)
-    let breakPoint = remaining.lastIndexOf('\n', TEXT_MESSAGE_LIMIT);
-    if (breakPoint === -1 || breakPoint < TEXT_MESSAGE_LIMIT / 2) {
-      breakPoint = remaining.lastIndexOf(' ', TEXT_MESSAGE_LIMIT);
-    }
-    if (breakPoint === -1 || breakPoint < TEXT_MESSAGE_LIMIT / 2) {
-      breakPoint = TEXT_MESSAGE_LIMIT;
-    }
-    chunks.push(remaining.substring(0, breakPoint));
-    remaining = remaining.substring(breakPoint).trimStart();
-  }
-
-  for (const chunk of chunks) {
-    await bot.api.sendMessage(chatId, chunk);
-  }
-}
+const foldersRepo = new FoldersRepository();
+const tagsRepo = new TagsRepository();
+const spacesRepo = new SpacesRepository();
 
 // Lazy init thumbnail service (bot needs to be initialized first)
 let thumbnailService: ThumbnailService | null = null;
@@ -71,6 +43,17 @@ function getThumbnailService(): ThumbnailService {
   return thumbnailService;
 }
 
+// Normalize a list of tags, dropping invalid ones and duplicates
+function parseTags(values: unknown[]): string[] {
+  const tags = new Set<string>();
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const tag = normalizeTag(value);
+    if (tag) tags.add(tag);
+  }
+  return Array.from(tags);
+}
+
 // Add hasShare flag to files array
 function addShareStatus<T extends { id: number }>(
   files: T[],
@@ -89,6 +72,7 @@ router.get('/', async (req, res: Response) => {
   const { telegramUser } = req as AuthenticatedRequest;
   const {
     type,
+    folderId,
     page = '1',
     limit = String(DEFAULT_PAGE_SIZE),
   } = req.query;
@@ -102,6 +86,7 @@ router.get('/', async (req, res: Response) => {
 
     const result = await filesRepo.findByUser(telegramUser.id, {
       mediaType: type as MediaType | undefined,
+      folderId: parseFolderId(folderId),
       limit: limitNum,
       offset,
     });
@@ -110,16 +95,10 @@ router.get('/', async (req, res: Response) => {
 
     // Add thumbnail URLs
     const service = getThumbnailService();
-    const itemsWithThumbnails = await Promise.all(
-      result.items.map(async (file) => ({
-        ...file,
-        thumbnailUrl: await service.getThumbnailUrl(
-          file.thumbnailFileId,
-          file.fileId,
-          file.mediaType as MediaType
-        ),
-      }))
-    );
+    const itemsWithThumbnails = result.items.map((file) => ({
+      ...file,
+      thumbnailUrl: service.getThumbnailUrl(file),
+    }));
 
     // Add hasShare flag for instant UI
     const itemsWithShareStatus = addShareStatus(itemsWithThumbnails, telegramUser.id);
@@ -178,14 +157,16 @@ router.get('/by-date', async (req, res: Response) => {
  *   - from: filter by forward_from_name (optional)
  *   - chat: filter by forward_from_chat_title (optional)
  *   - mimeType: filter by MIME type (optional, e.g., "image/jpeg" for .jpg files)
+ *   - folderId: filter by folder (optional, direct children only)
+ *   - tags: comma-separated tags, file must have all of them (optional)
  */
 router.get('/search', async (req, res: Response) => {
   const { telegramUser } = req as AuthenticatedRequest;
-  const { q, limit = String(DEFAULT_SEARCH_LIMIT), type, deleted, dateFrom, dateTo, sizeMin, sizeMax, from, chat, mimeType } = req.query;
+  const { q, limit = String(DEFAULT_SEARCH_LIMIT), type, deleted, dateFrom, dateTo, sizeMin, sizeMax, from, chat, mimeType, folderId, tags } = req.query;
 
   // At least q or one filter is required
   const hasQuery = q && typeof q === 'string' && q.trim().length > 0;
-  const hasFilters = dateFrom || dateTo || sizeMin || sizeMax || from || chat || mimeType;
+  const hasFilters = dateFrom || dateTo || sizeMin || sizeMax || from || chat || mimeType || folderId || tags;
 
   if (!hasQuery && !hasFilters) {
     res.status(400).json({ error: 'Query parameter "q" or at least one filter is required' });
@@ -206,6 +187,8 @@ router.get('/search', async (req, res: Response) => {
       fromName?: string;
       fromChat?: string;
       mimeType?: string;
+      folderId?: number;
+      tags?: string[];
     } = {};
 
     if (type && typeof type === 'string') {
@@ -257,6 +240,17 @@ router.get('/search', async (req, res: Response) => {
       searchOptions.mimeType = mimeType;
     }
 
+    // Folder filter
+    searchOptions.folderId = parseFolderId(folderId);
+
+    // Tag filter (#tag in search input)
+    if (tags && typeof tags === 'string') {
+      const parsedTags = parseTags(tags.split(','));
+      if (parsedTags.length > 0) {
+        searchOptions.tags = parsedTags;
+      }
+    }
+
     // Use search with snippets to show where match occurred
     const files = filesRepo.searchWithSnippets(
       telegramUser.id,
@@ -267,16 +261,10 @@ router.get('/search', async (req, res: Response) => {
 
     // Add thumbnail URLs
     const service = getThumbnailService();
-    const itemsWithThumbnails = await Promise.all(
-      files.map(async (file) => ({
-        ...file,
-        thumbnailUrl: await service.getThumbnailUrl(
-          file.thumbnailFileId,
-          file.fileId,
-          file.mediaType as MediaType
-        ),
-      }))
-    );
+    const itemsWithThumbnails = files.map((file) => ({
+      ...file,
+      thumbnailUrl: service.getThumbnailUrl(file),
+    }));
 
     // Add hasShare flag for instant UI
     const itemsWithShareStatus = addShareStatus(itemsWithThumbnails, telegramUser.id);
@@ -290,14 +278,20 @@ router.get('/search', async (req, res: Response) => {
 
 /**
  * GET /api/files/stats
- * Get category statistics
+ * Get file statistics: { categories: CategoryStats[], folderCount: number }
+ * With ?folderId= categories count files directly inside that folder
+ * and folderCount - its direct subfolders; otherwise all files and all folders
  */
 router.get('/stats', async (req, res: Response) => {
   const { telegramUser } = req as AuthenticatedRequest;
+  const folderId = parseFolderId(req.query.folderId);
 
   try {
-    const stats = await filesRepo.getCategoryStats(telegramUser.id);
-    res.json(stats);
+    const [categories, folderCount] = await Promise.all([
+      filesRepo.getCategoryStats(telegramUser.id, folderId),
+      foldersRepo.getCount(telegramUser.id, folderId),
+    ]);
+    res.json({ categories, folderCount });
   } catch (error) {
     console.error('[API] Error fetching stats:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -336,16 +330,10 @@ router.get('/trash', async (req, res: Response) => {
 
     // Add thumbnail URLs
     const service = getThumbnailService();
-    const itemsWithThumbnails = await Promise.all(
-      files.map(async (file) => ({
-        ...file,
-        thumbnailUrl: await service.getThumbnailUrl(
-          file.thumbnailFileId,
-          file.fileId,
-          file.mediaType as MediaType
-        ),
-      }))
-    );
+    const itemsWithThumbnails = files.map((file) => ({
+      ...file,
+      thumbnailUrl: service.getThumbnailUrl(file),
+    }));
 
     res.json({ items: itemsWithThumbnails, total: itemsWithThumbnails.length });
   } catch (error) {
@@ -397,6 +385,44 @@ router.post('/delete-many', async (req, res: Response) => {
   }
 });
 
+/**
+ * POST /api/files/move-many
+ * Move multiple files into a folder
+ * Body: { fileIds: number[], folderId: number | null } (null = root)
+ */
+router.post('/move-many', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { fileIds, folderId } = req.body as { fileIds: number[]; folderId: number | null };
+
+  if (!Array.isArray(fileIds) || fileIds.length === 0) {
+    res.status(400).json({ error: 'fileIds array is required' });
+    return;
+  }
+
+  if (fileIds.length > MAX_BATCH_SIZE) {
+    res.status(400).json({ error: `Maximum ${MAX_BATCH_SIZE} files per request` });
+    return;
+  }
+
+  if (folderId !== null && typeof folderId !== 'number') {
+    res.status(400).json({ error: 'folderId must be a number or null' });
+    return;
+  }
+
+  try {
+    if (folderId !== null && !(await foldersRepo.findById(folderId, telegramUser.id))) {
+      res.status(404).json({ error: 'Folder not found' });
+      return;
+    }
+
+    const movedCount = filesRepo.moveToFolder(fileIds, telegramUser.id, folderId);
+    res.json({ success: true, moved: movedCount });
+  } catch (error) {
+    console.error('[API] Error moving files:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/files/autocomplete/dictionary
  * Get all unique words from user's files for autocomplete
@@ -435,16 +461,10 @@ router.get('/shared', async (req, res: Response) => {
 
     // Add thumbnail URLs
     const service = getThumbnailService();
-    const itemsWithThumbnails = await Promise.all(
-      files.map(async (file) => ({
-        ...file,
-        thumbnailUrl: await service.getThumbnailUrl(
-          file.thumbnailFileId,
-          file.fileId,
-          file.mediaType as MediaType
-        ),
-      }))
-    );
+    const itemsWithThumbnails = files.map((file) => ({
+      ...file,
+      thumbnailUrl: service.getThumbnailUrl(file),
+    }));
 
     // All shared files have hasShare=true by definition
     const itemsWithShareStatus = itemsWithThumbnails.map(f => ({ ...f, hasShare: true }));
@@ -476,6 +496,7 @@ router.get('/shared/count', async (req, res: Response) => {
 /**
  * PATCH /api/files/caption
  * Update caption for one or more files
+ * Caption formatting is moved to the edited text, entities touched by the edit are dropped
  */
 router.patch('/caption', async (req, res: Response) => {
   const { telegramUser } = req as unknown as AuthenticatedRequest;
@@ -523,6 +544,75 @@ router.patch('/caption', async (req, res: Response) => {
   }
 });
 
+// ==================== TAGS ====================
+
+/**
+ * GET /api/files/tags
+ * Get all tags of the user with file counts
+ */
+router.get('/tags', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const tags = tagsRepo.getUserTags(telegramUser.id);
+    res.json({ items: tags, total: tags.length });
+  } catch (error) {
+    console.error('[API] Error fetching tags:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/files/tags/add
+ * POST /api/files/tags/remove
+ * Add or remove tags on multiple files
+ * Body: { fileIds: number[], tags: string[] } (tags with or without leading #)
+ */
+router.post('/tags/:action(add|remove)', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { fileIds, tags } = req.body as { fileIds: number[]; tags: string[] };
+  const isAdd = req.params.action === 'add';
+
+  if (!Array.isArray(fileIds) || fileIds.length === 0) {
+    res.status(400).json({ error: 'fileIds array is required' });
+    return;
+  }
+
+  if (fileIds.length > MAX_BATCH_SIZE) {
+    res.status(400).json({ error: `Maximum ${MAX_BATCH_SIZE} files per request` });
+    return;
+  }
+
+  if (!Array.isArray(tags) || tags.length === 0) {
+    res.status(400).json({ error: 'tags array is required' });
+    return;
+  }
+
+  if (tags.length > MAX_TAGS_PER_REQUEST) {
+    res.status(400).json({ error: `Maximum ${MAX_TAGS_PER_REQUEST} tags per request` });
+    return;
+  }
+
+  const normalizedTags = parseTags(tags);
+  if (normalizedTags.length === 0) {
+    res.status(400).json({ error: 'Tags may contain only letters, digits and _' });
+    return;
+  }
+
+  try {
+    const changed = isAdd
+      ? tagsRepo.addToFiles(fileIds, telegramUser.id, normalizedTags)
+      : tagsRepo.removeFromFiles(fileIds, telegramUser.id, normalizedTags);
+
+    console.log('[Files]', isAdd ? 'Added' : 'Removed', changed, 'tags, user:', telegramUser.id);
+
+    res.json({ success: true, tags: normalizedTags, [isAdd ? 'added' : 'removed']: changed });
+  } catch (error) {
+    console.error('[API] Error updating tags:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // ==================== FAVORITES ====================
 
 /**
@@ -542,16 +632,10 @@ router.get('/favorites', async (req, res: Response) => {
 
     // Add thumbnail URLs
     const service = getThumbnailService();
-    const itemsWithThumbnails = await Promise.all(
-      result.items.map(async (file) => ({
-        ...file,
-        thumbnailUrl: await service.getThumbnailUrl(
-          file.thumbnailFileId,
-          file.fileId,
-          file.mediaType as MediaType
-        ),
-      }))
-    );
+    const itemsWithThumbnails = result.items.map((file) => ({
+      ...file,
+      thumbnailUrl: service.getThumbnailUrl(file),
+    }));
 
     // Add hasShare flag
     const itemsWithShareStatus = addShareStatus(itemsWithThumbnails, telegramUser.id);
@@ -632,21 +716,19 @@ router.get('/:id', async (req, res: Response) => {
   }
 
   try {
-    const file = await filesRepo.findById(fileId);
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
 
-    if (!file || file.userId !== telegramUser.id) {
+    if (!file) {
       res.status(404).json({ error: 'File not found' });
       return;
     }
 
     const service = getThumbnailService();
-    const thumbnailUrl = await service.getThumbnailUrl(
-      file.thumbnailFileId,
-      file.fileId,
-      file.mediaType as MediaType
-    );
+    const thumbnailUrl = service.getThumbnailUrl(file);
+
+    const tags = tagsRepo.getForFile(file.id);
 
-    res.json({ ...file, thumbnailUrl });
+    res.json({ ...file, thumbnailUrl, tags });
   } catch (error) {
     console.error('[API] Error fetching file:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -655,8 +737,8 @@ router.get('/:id', async (req, res: Response) => {
 
 /**
  * GET /api/files/:id/video-url
- * Get streaming URL for video files (video and video_note)
- * URL is valid for ~1 hour from Telegram CDN
+ * Check availability of video file (video and video_note)
+ * Playback goes through /video-stream
  */
 router.get('/:id/video-url', async (req, res: Response) => {
   const { telegramUser } = req as unknown as AuthenticatedRequest;
@@ -668,9 +750,9 @@ router.get('/:id/video-url', async (req, res: Response) => {
   }
 
   try {
-    const file = await filesRepo.findById(fileId);
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
 
-    if (!file || file.userId !== telegramUser.id) {
+    if (!file) {
       res.status(404).json({ error: 'File not found' });
       return;
     }
@@ -682,15 +764,16 @@ router.get('/:id/video-url', async (req, res: Response) => {
     }
 
     const service = getThumbnailService();
-    const videoUrl = await service.getFileUrl(file.fileId);
+    const location = await service.getFileLocation(file.fileId);
 
-    if (!videoUrl) {
+    if (!location) {
       res.status(410).json({ error: 'VIDEO_UNAVAILABLE' });
       return;
     }
 
+    // Ссылку Telegram (с токеном бота) не отдаём - клиент играет через /video-stream
     res.json({
-      videoUrl,
+      available: true,
       expiresIn: 3600,
       mimeType: file.mimeType || 'video/mp4',
     });
@@ -714,9 +797,9 @@ router.get('/:id/audio-url', async (req, res: Response) => {
   }
 
   try {
-    const file = await filesRepo.findById(fileId);
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
 
-    if (!file || file.userId !== telegramUser.id) {
+    if (!file) {
       res.status(404).json({ error: 'File not found' });
       return;
     }
@@ -728,9 +811,9 @@ router.get('/:id/audio-url', async (req, res: Response) => {
     }
 
     const service = getThumbnailService();
-    const audioUrl = await service.getFileUrl(file.fileId);
+    const location = await service.getFileLocation(file.fileId);
 
-    if (!audioUrl) {
+    if (!location) {
       res.status(410).json({ error: 'AUDIO_UNAVAILABLE' });
       return;
     }
@@ -749,6 +832,7 @@ router.get('/:id/audio-url', async (req, res: Response) => {
 /**
  * GET /api/files/:id/audio-stream
  * Stream audio through our server (bypass CDN blocking in Russia)
+ * Supports Range requests (206 Partial Content)
  * Auth via query param: ?initData=...
  */
 router.get('/:id/audio-stream', async (req, res: Response) => {
@@ -761,9 +845,9 @@ router.get('/:id/audio-stream', async (req, res: Response) => {
   }
 
   try {
-    const file = await filesRepo.findById(fileId);
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
 
-    if (!file || file.userId !== telegramUser.id) {
+    if (!file) {
       res.status(404).json({ error: 'File not found' });
       return;
     }
@@ -773,61 +857,14 @@ router.get('/:id/audio-stream', async (req, res: Response) => {
       return;
     }
 
-    const service = getThumbnailService();
-    const audioUrl = await service.getFileUrl(file.fileId);
+    // Telegram CDN, при недоступности - mirror store; поддерживает Range (перемотка, iOS Safari)
+    const streamed = await streamFileContent(req, res, file, file.mimeType || 'audio/mpeg');
 
-    if (!audioUrl) {
+    if (!streamed) {
       res.status(410).json({ error: 'AUDIO_UNAVAILABLE' });
       return;
     }
 
-    console.log('[API] Streaming audio:', file.id, file.fileName);
-
-    // Fetch audio from Telegram CDN
-    const audioResponse = await fetch(audioUrl);
-
-    if (!audioResponse.ok || !audioResponse.body) {
-      res.status(502).json({ error: 'Failed to fetch audio from CDN' });
-      return;
-    }
-
-    // Set headers for streaming
-    res.setHeader('Content-Type', file.mimeType || 'audio/mpeg');
-    const contentLength = audioResponse.headers.get('content-length');
-    if (contentLength) {
-      res.setHeader('Content-Length', contentLength);
-    }
-    res.setHeader('Accept-Ranges', 'bytes');
-    res.setHeader('Cache-Control', 'public, max-age=3600');
-
-    // Stream the audio using Node.js streams
-    const reader = audioResponse.body.getReader();
-
-    const pump = async (): Promise<void> => {
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          // Check if client disconnected
-          if (res.destroyed) {
-            reader.cancel();
-            break;
-          }
-
-          res.write(Buffer.from(value));
-        }
-        res.end();
-      } catch (streamError) {
-        console.error('[API] Audio stream error:', streamError);
-        if (!res.destroyed) {
-          res.end();
-        }
-      }
-    };
-
-    await pump();
-
   } catch (error) {
     console.error('[API] Error streaming audio:', error);
     if (!res.headersSent) {
@@ -839,6 +876,8 @@ router.get('/:id/audio-stream', async (req, res: Response) => {
 /**
  * GET /api/files/:id/video-stream
  * Stream video through our server (bypass CDN blocking in Russia)
+ * Also serves GIFs and stickers for animated previews in the grid
+ * Supports Range requests (206 Partial Content)
  * Auth via query param: ?initData=...
  */
 router.get('/:id/video-stream', async (req, res: Response) => {
@@ -851,73 +890,27 @@ router.get('/:id/video-stream', async (req, res: Response) => {
   }
 
   try {
-    const file = await filesRepo.findById(fileId);
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
 
-    if (!file || file.userId !== telegramUser.id) {
+    if (!file) {
       res.status(404).json({ error: 'File not found' });
       return;
     }
 
-    if (!['video', 'video_note'].includes(file.mediaType)) {
+    // animation и sticker (WebM/WebP) - анимированные превью в сетке
+    if (!['video', 'video_note', 'animation', 'sticker'].includes(file.mediaType)) {
       res.status(400).json({ error: 'File is not a video' });
       return;
     }
 
-    const service = getThumbnailService();
-    const videoUrl = await service.getFileUrl(file.fileId);
+    // Telegram CDN, при недоступности - mirror store; поддерживает Range (перемотка, iOS Safari)
+    const streamed = await streamFileContent(req, res, file, file.mimeType || 'video/mp4');
 
-    if (!videoUrl) {
+    if (!streamed) {
       res.status(410).json({ error: 'VIDEO_UNAVAILABLE' });
       return;
     }
 
-    console.log('[API] Streaming video:', file.id, file.fileName);
-
-    // Fetch video from Telegram CDN
-    const videoResponse = await fetch(videoUrl);
-
-    if (!videoResponse.ok || !videoResponse.body) {
-      res.status(502).json({ error: 'Failed to fetch video from CDN' });
-      return;
-    }
-
-    // Set headers for streaming
-    res.setHeader('Content-Type', file.mimeType || 'video/mp4');
-    const contentLength = videoResponse.headers.get('content-length');
-    if (contentLength) {
-      res.setHeader('Content-Length', contentLength);
-    }
-    res.setHeader('Accept-Ranges', 'bytes');
-    res.setHeader('Cache-Control', 'public, max-age=3600');
-
-    // Stream the video using Node.js streams
-    const reader = videoResponse.body.getReader();
-
-    const pump = async (): Promise<void> => {
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          // Check if client disconnected
-          if (res.destroyed) {
-            reader.cancel();
-            break;
-          }
-
-          res.write(Buffer.from(value));
-        }
-        res.end();
-      } catch (streamError) {
-        console.error('[API] Stream error:', streamError);
-        if (!res.destroyed) {
-          res.end();
-        }
-      }
-    };
-
-    await pump();
-
   } catch (error) {
     console.error('[API] Error streaming video:', error);
     if (!res.headersSent) {
@@ -926,16 +919,10 @@ router.get('/:id/video-stream', async (req, res: Response) => {
   }
 });
 
-// Лимиты для предотвращения бана от Telegram
-const MAX_FILES_PER_REQUEST = 20;
-const DELAY_BETWEEN_SENDS_MS = 300; // 300ms между отправками
-
-// Утилита для задержки
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 /**
  * POST /api/files/send
- * Send multiple files to user via bot
+ * Send multiple files to user via bot - in background (send_files job)
+ * Returns the job; progress is polled with GET /api/jobs/:id
  */
 router.post('/send', async (req, res: Response) => {
   const { telegramUser } = req as unknown as AuthenticatedRequest;
@@ -946,119 +933,33 @@ router.post('/send', async (req, res: Response) => {
     return;
   }
 
-  // Лимит на количество файлов
-  if (fileIds.length > MAX_FILES_PER_REQUEST) {
+  if (fileIds.length > MAX_BATCH_SIZE) {
     res.status(400).json({
-      error: `Maximum ${MAX_FILES_PER_REQUEST} files per request allowed`
+      error: `Maximum ${MAX_BATCH_SIZE} files per request allowed`
     });
     return;
   }
 
-  console.log('[Files] Sending files to user:', telegramUser.id, 'files:', fileIds);
-
-  try {
-    const sentFiles: number[] = [];
-    const errors: string[] = [];
-
-    for (let i = 0; i < fileIds.length; i++) {
-      const id = fileIds[i];
-      const file = await filesRepo.findById(id);
-
-      if (!file || file.userId !== telegramUser.id) {
-        errors.push(`File ${id} not found`);
-        continue;
-      }
+  if (!fileIds.every(id => Number.isInteger(id))) {
+    res.status(400).json({ error: 'fileIds must be integers' });
+    return;
+  }
 
-      const mediaType = file.mediaType as MediaType;
-      const caption = getCaptionForMedia(file.caption, mediaType);
-      const sendCaptionSeparately = needsSeparateMessage(file.caption, mediaType);
-
-      try {
-        // Всегда используем sendFileByFileId чтобы отправить наш caption из БД
-        // (copyMessage отправляет оригинальный caption, игнорируя наш)
-        await sendFileByFileId(telegramUser.id, file.fileId, mediaType, caption);
-        console.log('[Files] Sent via file_id with caption:', file.id, file.fileName);
-
-        // Отправка длинного caption отдельно (если caption был обрезан)
-        if (sendCaptionSeparately && file.caption) {
-          await sendCaptionAsText(telegramUser.id, file.caption);
-        }
-
-        sentFiles.push(id);
-
-        // Задержка между отправками (кроме последней)
-        if (i < fileIds.length - 1) {
-          await delay(DELAY_BETWEEN_SENDS_MS);
-        }
-      } catch (sendError) {
-        const errMsg = sendError instanceof Error ? sendError.message : String(sendError);
-
-        if (errMsg.includes('VOICE_MESSAGES_FORBIDDEN')) {
-          console.log('[Files] Voice messages forbidden for file:', id);
-          errors.push(`VOICE_FORBIDDEN:${id}`);
-        } else {
-          console.error('[Files] Error sending file:', id, sendError);
-          errors.push(`Failed to send file ${id}`);
-        }
-      }
-    }
+  console.log('[Files] Queueing files for user:', telegramUser.id, 'files:', fileIds);
 
-    res.json({
-      success: sentFiles.length === fileIds.length,
-      sent: sentFiles,
-      errors: errors.length > 0 ? errors : undefined,
+  try {
+    const job = await enqueueJob('send_files', { chatId: telegramUser.id, fileIds }, {
+      userId: telegramUser.id,
+      total: fileIds.length,
     });
+
+    res.status(202).json({ job: toJobResponse(job) });
   } catch (error) {
     console.error('[API] Error sending files:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-/**
- * Send file by file_id based on media type
- * If photo/video fails with type mismatch, fallback to document
- */
-async function sendFileByFileId(
-  chatId: number,
-  fileId: string,
-  mediaType: MediaType,
-  caption?: string
-): Promise<void> {
-  try {
-    switch (mediaType) {
-      case 'photo':
-        await bot.api.sendPhoto(chatId, fileId, { caption });
-        break;
-      case 'video':
-        await bot.api.sendVideo(chatId, fileId, { caption });
-        break;
-      case 'document':
-        await bot.api.sendDocument(chatId, fileId, { caption });
-        break;
-      case 'audio':
-        await bot.api.sendAudio(chatId, fileId, { caption });
-        break;
-      case 'voice':
-        await bot.api.sendVoice(chatId, fileId, { caption });
-        break;
-      case 'video_note':
-        await bot.api.sendVideoNote(chatId, fileId);
-        break;
-      default:
-        await bot.api.sendDocument(chatId, fileId, { caption });
-    }
-  } catch (error: unknown) {
-    // If photo/video fails with type mismatch, try as document
-    const errMsg = error instanceof Error ? error.message : String(error);
-    if (errMsg.includes("can't use file of type") && (mediaType === 'photo' || mediaType === 'video')) {
-      console.log('[Files] Type mismatch, sending as document instead');
-      await bot.api.sendDocument(chatId, fileId, { caption });
-    } else {
-      throw error;
-    }
-  }
-}
-
 /**
  * POST /api/files/:id/send
  * Send single file to user via bot
@@ -1073,21 +974,23 @@ router.post('/:id/send', async (req, res: Response) => {
   }
 
   try {
-    const file = await filesRepo.findById(fileId);
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
 
-    if (!file || file.userId !== telegramUser.id) {
+    // Файлы из корзины не отправляем (их видят только владелец и админы пространства)
+    if (!file || file.deletedAt) {
       res.status(404).json({ error: 'File not found' });
       return;
     }
 
     const mediaType = file.mediaType as MediaType;
     const caption = getCaptionForMedia(file.caption, mediaType);
+    const captionEntities = parseEntities(file.captionEntities);
     const sendCaptionSeparately = needsSeparateMessage(file.caption, mediaType);
 
     // Всегда используем sendFileByFileId чтобы отправить наш caption из БД
     // (copyMessage отправляет оригинальный caption, игнорируя наш)
     try {
-      await sendFileByFileId(telegramUser.id, file.fileId, mediaType, caption);
+      await sendFileByFileId(telegramUser.id, file.fileId, mediaType, caption, caption ? captionEntities : undefined);
       console.log('[Files] Sent via file_id with caption:', file.id);
     } catch (sendError) {
       const errMsg = sendError instanceof Error ? sendError.message : String(sendError);
@@ -1105,7 +1008,7 @@ router.post('/:id/send', async (req, res: Response) => {
 
     // Send caption as separate message if it was too long
     if (sendCaptionSeparately && file.caption) {
-      await sendCaptionAsText(telegramUser.id, file.caption);
+      await sendCaptionAsText(telegramUser.id, file.caption, captionEntities);
     }
 
     console.log('[Files] Sent file:', file.id, file.fileName);
@@ -1201,6 +1104,81 @@ router.post('/:id/favorite', async (req, res: Response) => {
   }
 });
 
+/**
+ * GET /api/files/:id/captions
+ * Previous captions of a file, newest first (space files - for all members)
+ */
+router.get('/:id/captions', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const fileId = parseInt(req.params.id, 10);
+
+  if (isNaN(fileId)) {
+    res.status(400).json({ error: 'Invalid file ID' });
+    return;
+  }
+
+  try {
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
+    if (!file) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    const items = await filesRepo.getCaptionHistory(fileId);
+    res.json({ items });
+  } catch (error) {
+    console.error('[API] Error fetching caption history:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/files/:id/captions/:entryId/revert
+ * Restore a previous caption (the current one goes to history)
+ * Space files can be reverted by space admins only
+ */
+router.post('/:id/captions/:entryId/revert', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const fileId = parseInt(req.params.id, 10);
+  const entryId = parseInt(req.params.entryId, 10);
+
+  if (isNaN(fileId) || isNaN(entryId)) {
+    res.status(400).json({ error: 'Invalid ID' });
+    return;
+  }
+
+  try {
+    const file = await filesRepo.findAccessible(fileId, telegramUser.id);
+    if (!file || file.deletedAt) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    if (file.userId !== telegramUser.id) {
+      const member = await spacesRepo.getMember(file.userId, telegramUser.id);
+      if (!member || !canDeleteInSpace(member.role)) {
+        res.status(403).json({ error: 'Only space admins can revert captions' });
+        return;
+      }
+    }
+
+    const entry = await filesRepo.findCaptionHistoryEntry(fileId, entryId);
+    if (!entry) {
+      res.status(404).json({ error: 'Caption version not found' });
+      return;
+    }
+
+    // Форматирование версии восстанавливаем как было (без сдвига сущностей)
+    filesRepo.updateCaption([fileId], file.userId, entry.caption, parseEntities(entry.captionEntities) ?? [], 'revert');
+
+    const updated = await filesRepo.findById(fileId);
+    res.json({ success: true, caption: updated?.caption ?? null, captionEntities: updated?.captionEntities ?? null });
+  } catch (error) {
+    console.error('[API] Error reverting caption:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * DELETE /api/files/:id/permanent
  * Permanently delete a file (hard delete)
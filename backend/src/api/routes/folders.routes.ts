@@ -0,0 +1,168 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { FoldersRepository } from '../../db/repositories/folders.repository.js';
+import { MAX_FOLDER_NAME_LENGTH } from '../../constants.js';
+
+const router = Router();
+const foldersRepo = new FoldersRepository();
+
+/**
+ * Validate folder name from request body
+ * Returns trimmed name or null if invalid
+ */
+function parseFolderName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.trim();
+  if (trimmed.length === 0 || trimmed.length > MAX_FOLDER_NAME_LENGTH) return null;
+  return trimmed;
+}
+
+/**
+ * GET /api/folders
+ * Get all folders of the authenticated user (flat list with parentId and counts)
+ */
+router.get('/', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const folders = foldersRepo.findByUser(telegramUser.id);
+    res.json({ items: folders, total: folders.length });
+  } catch (error) {
+    console.error('[API] Error fetching folders:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/folders
+ * Create a folder
+ * Body: { name: string, parentId?: number | null }
+ */
+router.post('/', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { name, parentId = null } = req.body as { name: unknown; parentId?: number | null };
+
+  const folderName = parseFolderName(name);
+  if (!folderName) {
+    res.status(400).json({ error: `Folder name must be 1-${MAX_FOLDER_NAME_LENGTH} characters` });
+    return;
+  }
+
+  if (parentId !== null && typeof parentId !== 'number') {
+    res.status(400).json({ error: 'parentId must be a number or null' });
+    return;
+  }
+
+  try {
+    if (parentId !== null) {
+      const parent = await foldersRepo.findById(parentId, telegramUser.id);
+      if (!parent) {
+        res.status(404).json({ error: 'Parent folder not found' });
+        return;
+      }
+    }
+
+    const folder = await foldersRepo.create(telegramUser.id, folderName, parentId);
+    res.status(201).json(folder);
+  } catch (error) {
+    console.error('[API] Error creating folder:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/folders/:id
+ * Rename and/or move a folder
+ * Body: { name?: string, parentId?: number | null }
+ */
+router.patch('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const folderId = parseInt(req.params.id, 10);
+  const { name, parentId } = req.body as { name?: unknown; parentId?: number | null };
+
+  if (isNaN(folderId)) {
+    res.status(400).json({ error: 'Invalid folder ID' });
+    return;
+  }
+
+  if (name === undefined && parentId === undefined) {
+    res.status(400).json({ error: 'name or parentId is required' });
+    return;
+  }
+
+  const folderName = name !== undefined ? parseFolderName(name) : null;
+  if (name !== undefined && !folderName) {
+    res.status(400).json({ error: `Folder name must be 1-${MAX_FOLDER_NAME_LENGTH} characters` });
+    return;
+  }
+
+  if (parentId !== undefined && parentId !== null && typeof parentId !== 'number') {
+    res.status(400).json({ error: 'parentId must be a number or null' });
+    return;
+  }
+
+  try {
+    const folder = await foldersRepo.findById(folderId, telegramUser.id);
+    if (!folder) {
+      res.status(404).json({ error: 'Folder not found' });
+      return;
+    }
+
+    if (parentId !== undefined && parentId !== null) {
+      const parent = await foldersRepo.findById(parentId, telegramUser.id);
+      if (!parent) {
+        res.status(404).json({ error: 'Parent folder not found' });
+        return;
+      }
+
+      // Нельзя переместить папку внутрь самой себя или своей подпапки
+      if (foldersRepo.isDescendantOrSelf(parentId, folderId)) {
+        res.status(400).json({ error: 'Cannot move a folder into itself' });
+        return;
+      }
+    }
+
+    if (folderName) {
+      await foldersRepo.rename(folderId, telegramUser.id, folderName);
+    }
+    if (parentId !== undefined) {
+      await foldersRepo.move(folderId, telegramUser.id, parentId);
+    }
+
+    const updated = await foldersRepo.findById(folderId, telegramUser.id);
+    res.json(updated);
+  } catch (error) {
+    console.error('[API] Error updating folder:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/folders/:id
+ * Delete a folder. Subfolders and all content (files, links, notes, items) move up to the parent folder
+ */
+router.delete('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const folderId = parseInt(req.params.id, 10);
+
+  if (isNaN(folderId)) {
+    res.status(400).json({ error: 'Invalid folder ID' });
+    return;
+  }
+
+  try {
+    const deleted = foldersRepo.delete(folderId, telegramUser.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Folder not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error deleting folder:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
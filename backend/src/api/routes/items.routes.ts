@@ -0,0 +1,386 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { parseFolderId } from '../route-utils.js';
+import { ItemsRepository } from '../../db/repositories/items.repository.js';
+import { FoldersRepository } from '../../db/repositories/folders.repository.js';
+import { searchItemsWithSnippets } from '../../db/index.js';
+import { Item } from '../../db/schema.js';
+import { bot } from '../../bot/index.js';
+import { ItemKind, LocationData, VenueData, ContactData, PollData } from '../../types/index.js';
+import { MAX_BATCH_SIZE, MAX_PAGE_SIZE } from '../../constants.js';
+
+const router = Router();
+const itemsRepo = new ItemsRepository();
+const foldersRepo = new FoldersRepository();
+
+const ITEM_KINDS: ItemKind[] = ['location', 'venue', 'contact', 'poll'];
+
+// Parse ?kind=location,venue (unknown kinds are ignored, undefined = all kinds)
+function parseKinds(value: unknown): ItemKind[] | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const kinds = value.split(',').filter((kind): kind is ItemKind => ITEM_KINDS.includes(kind as ItemKind));
+  return kinds.length > 0 ? kinds : undefined;
+}
+
+/**
+ * Re-send an item with the Bot API method of its kind
+ */
+async function sendItem(chatId: number, item: Item): Promise<void> {
+  switch (item.kind as ItemKind) {
+    case 'location': {
+      const data = JSON.parse(item.data) as LocationData;
+      await bot.api.sendLocation(chatId, data.latitude, data.longitude, {
+        horizontal_accuracy: data.horizontalAccuracy,
+      });
+      break;
+    }
+    case 'venue': {
+      const data = JSON.parse(item.data) as VenueData;
+      await bot.api.sendVenue(chatId, data.latitude, data.longitude, data.title, data.address, {
+        foursquare_id: data.foursquareId,
+        foursquare_type: data.foursquareType,
+        google_place_id: data.googlePlaceId,
+        google_place_type: data.googlePlaceType,
+      });
+      break;
+    }
+    case 'contact': {
+      const data = JSON.parse(item.data) as ContactData;
+      await bot.api.sendContact(chatId, data.phoneNumber, data.firstName, {
+        last_name: data.lastName,
+        vcard: data.vcard,
+      });
+      break;
+    }
+    case 'poll': {
+      // Отправляется новый опрос с теми же вариантами (голоса не переносятся)
+      const data = JSON.parse(item.data) as PollData;
+      const isQuiz = data.type === 'quiz' && data.correctOptionId !== undefined;
+      await bot.api.sendPoll(chatId, data.question, data.options.map(text => ({ text })), {
+        is_anonymous: data.isAnonymous,
+        type: isQuiz ? 'quiz' : 'regular',
+        allows_multiple_answers: isQuiz ? undefined : data.allowsMultipleAnswers,
+        correct_option_id: isQuiz ? data.correctOptionId : undefined,
+        explanation: isQuiz ? data.explanation : undefined,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown item kind: ${item.kind}`);
+  }
+}
+
+/**
+ * GET /api/items
+ * Get items for the authenticated user
+ * Query: kind=location,venue (optional)
+ */
+router.get('/', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+  const { page = '1', limit = '20', kind, folderId } = req.query;
+
+  try {
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = Math.min(parseInt(limit as string, 10), MAX_PAGE_SIZE);
+    const offset = (pageNum - 1) * limitNum;
+
+    const result = await itemsRepo.findByUser(telegramUser.id, {
+      kinds: parseKinds(kind),
+      folderId: parseFolderId(folderId),
+      limit: limitNum,
+      offset,
+    });
+
+    res.json({
+      items: result.items,
+      total: result.total,
+      page: pageNum,
+      totalPages: Math.ceil(result.total / limitNum),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching items:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/items/trash
+ * Get deleted items (trash) for the authenticated user
+ */
+router.get('/trash', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+
+  try {
+    const items = await itemsRepo.findDeleted(telegramUser.id);
+    res.json({ items, total: items.length });
+  } catch (error) {
+    console.error('[API] Error fetching items trash:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/items/count
+ * Get count of non-deleted items (total and per kind)
+ */
+router.get('/count', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+
+  try {
+    const byKind = itemsRepo.getCountsByKind(telegramUser.id);
+    const count = Object.values(byKind).reduce((sum, value) => sum + value, 0);
+    res.json({ count, byKind });
+  } catch (error) {
+    console.error('[API] Error fetching items count:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/items/trash/count
+ * Get count of items in trash
+ */
+router.get('/trash/count', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+
+  try {
+    const count = await itemsRepo.getTrashCount(telegramUser.id);
+    res.json({ count });
+  } catch (error) {
+    console.error('[API] Error fetching items trash count:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/items/search
+ * Full-text search in items (names, addresses, phones, vCards, poll options)
+ */
+router.get('/search', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+  const { q, kind, limit = '50' } = req.query;
+
+  if (!q || typeof q !== 'string') {
+    res.status(400).json({ error: 'Query parameter "q" is required' });
+    return;
+  }
+
+  try {
+    const limitNum = Math.min(parseInt(limit as string, 10), MAX_PAGE_SIZE);
+    const items = searchItemsWithSnippets(telegramUser.id, q, parseKinds(kind), limitNum);
+    res.json({ items, total: items.length });
+  } catch (error) {
+    console.error('[API] Error searching items:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/items/delete-many
+ * Soft delete multiple items (move to trash)
+ */
+router.post('/delete-many', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { itemIds } = req.body as { itemIds: number[] };
+
+  if (!Array.isArray(itemIds) || itemIds.length === 0) {
+    res.status(400).json({ error: 'itemIds array is required' });
+    return;
+  }
+
+  if (itemIds.length > MAX_BATCH_SIZE) {
+    res.status(400).json({ error: `Maximum ${MAX_BATCH_SIZE} items per request` });
+    return;
+  }
+
+  try {
+    const deletedCount = await itemsRepo.softDeleteMany(itemIds, telegramUser.id);
+    res.json({ success: true, deleted: deletedCount });
+  } catch (error) {
+    console.error('[API] Error deleting items:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/items/move-many
+ * Move multiple items into a folder
+ * Body: { itemIds: number[], folderId: number | null } (null = root)
+ */
+router.post('/move-many', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { itemIds, folderId } = req.body as { itemIds: number[]; folderId: number | null };
+
+  if (!Array.isArray(itemIds) || itemIds.length === 0) {
+    res.status(400).json({ error: 'itemIds array is required' });
+    return;
+  }
+
+  if (itemIds.length > MAX_BATCH_SIZE) {
+    res.status(400).json({ error: `Maximum ${MAX_BATCH_SIZE} items per request` });
+    return;
+  }
+
+  if (folderId !== null && typeof folderId !== 'number') {
+    res.status(400).json({ error: 'folderId must be a number or null' });
+    return;
+  }
+
+  try {
+    if (folderId !== null && !(await foldersRepo.findById(folderId, telegramUser.id))) {
+      res.status(404).json({ error: 'Folder not found' });
+      return;
+    }
+
+    const movedCount = itemsRepo.moveToFolder(itemIds, telegramUser.id, folderId);
+    res.json({ success: true, moved: movedCount });
+  } catch (error) {
+    console.error('[API] Error moving items:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/items/:id
+ * Get a single item by ID
+ */
+router.get('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const itemId = parseInt(req.params.id, 10);
+
+  if (isNaN(itemId)) {
+    res.status(400).json({ error: 'Invalid item ID' });
+    return;
+  }
+
+  try {
+    const item = await itemsRepo.findById(itemId);
+
+    if (!item || item.userId !== telegramUser.id) {
+      res.status(404).json({ error: 'Item not found' });
+      return;
+    }
+
+    res.json(item);
+  } catch (error) {
+    console.error('[API] Error fetching item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/items/:id/send
+ * Send item back to the user's chat with the bot (sendLocation / sendVenue / sendContact / sendPoll)
+ */
+router.post('/:id/send', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const itemId = parseInt(req.params.id, 10);
+
+  if (isNaN(itemId)) {
+    res.status(400).json({ error: 'Invalid item ID' });
+    return;
+  }
+
+  try {
+    const item = await itemsRepo.findById(itemId);
+
+    if (!item || item.userId !== telegramUser.id || item.deletedAt) {
+      res.status(404).json({ error: 'Item not found' });
+      return;
+    }
+
+    await sendItem(telegramUser.id, item);
+
+    console.log('[Items] Sent item:', item.id, item.kind);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error sending item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/items/:id
+ * Soft delete an item (move to trash)
+ */
+router.delete('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const itemId = parseInt(req.params.id, 10);
+
+  if (isNaN(itemId)) {
+    res.status(400).json({ error: 'Invalid item ID' });
+    return;
+  }
+
+  try {
+    const deleted = await itemsRepo.softDelete(itemId, telegramUser.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Item not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error deleting item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/items/:id/restore
+ * Restore an item from trash
+ */
+router.post('/:id/restore', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const itemId = parseInt(req.params.id, 10);
+
+  if (isNaN(itemId)) {
+    res.status(400).json({ error: 'Invalid item ID' });
+    return;
+  }
+
+  try {
+    const restored = await itemsRepo.restore(itemId, telegramUser.id);
+
+    if (!restored) {
+      res.status(404).json({ error: 'Item not found in trash' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error restoring item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/items/:id/permanent
+ * Permanently delete an item (hard delete)
+ */
+router.delete('/:id/permanent', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const itemId = parseInt(req.params.id, 10);
+
+  if (isNaN(itemId)) {
+    res.status(400).json({ error: 'Invalid item ID' });
+    return;
+  }
+
+  try {
+    const deleted = await itemsRepo.hardDelete(itemId, telegramUser.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Item not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error permanently deleting item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,52 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { JobsRepository } from '../../db/repositories/jobs.repository.js';
+import { toJobResponse } from '../../services/job-queue.service.js';
+
+const router = Router();
+const jobsRepo = new JobsRepository();
+
+/**
+ * GET /api/jobs
+ * Pending and running jobs of the user (e.g. batch sends to resume progress after reload)
+ */
+router.get('/', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const jobs = await jobsRepo.findActiveForUser(telegramUser.id);
+    res.json({ items: jobs.map(toJobResponse) });
+  } catch (error) {
+    console.error('[API] Error fetching jobs:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Job status and progress
+ */
+router.get('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const jobId = parseInt(req.params.id, 10);
+
+  if (isNaN(jobId)) {
+    res.status(400).json({ error: 'Invalid job ID' });
+    return;
+  }
+
+  try {
+    const job = await jobsRepo.findByIdForUser(jobId, telegramUser.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.json({ job: toJobResponse(job) });
+  } catch (error) {
+    console.error('[API] Error fetching job:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,10 +1,13 @@
 import { Router, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.js';
+import { parseFolderId } from '../route-utils.js';
 import { LinksRepository } from '../../db/repositories/links.repository.js';
+import { FoldersRepository } from '../../db/repositories/folders.repository.js';
 import { searchLinksWithSnippets } from '../../db/index.js';
 
 const router = Router();
 const linksRepo = new LinksRepository();
+const foldersRepo = new FoldersRepository();
 
 /**
  * GET /api/links
@@ -12,7 +15,7 @@ const linksRepo = new LinksRepository();
  */
 router.get('/', async (req, res: Response) => {
   const { telegramUser } = req as AuthenticatedRequest;
-  const { page = '1', limit = '20' } = req.query;
+  const { page = '1', limit = '20', folderId } = req.query;
 
   try {
     const pageNum = parseInt(page as string, 10);
@@ -20,6 +23,7 @@ router.get('/', async (req, res: Response) => {
     const offset = (pageNum - 1) * limitNum;
 
     const result = await linksRepo.findByUser(telegramUser.id, {
+      folderId: parseFolderId(folderId),
       limit: limitNum,
       offset,
     });
@@ -138,6 +142,44 @@ router.post('/delete-many', async (req, res: Response) => {
   }
 });
 
+/**
+ * POST /api/links/move-many
+ * Move multiple links into a folder
+ * Body: { linkIds: number[], folderId: number | null } (null = root)
+ */
+router.post('/move-many', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { linkIds, folderId } = req.body as { linkIds: number[]; folderId: number | null };
+
+  if (!Array.isArray(linkIds) || linkIds.length === 0) {
+    res.status(400).json({ error: 'linkIds array is required' });
+    return;
+  }
+
+  if (linkIds.length > 100) {
+    res.status(400).json({ error: 'Maximum 100 links per request' });
+    return;
+  }
+
+  if (folderId !== null && typeof folderId !== 'number') {
+    res.status(400).json({ error: 'folderId must be a number or null' });
+    return;
+  }
+
+  try {
+    if (folderId !== null && !(await foldersRepo.findById(folderId, telegramUser.id))) {
+      res.status(404).json({ error: 'Folder not found' });
+      return;
+    }
+
+    const movedCount = linksRepo.moveToFolder(linkIds, telegramUser.id, folderId);
+    res.json({ success: true, moved: movedCount });
+  } catch (error) {
+    console.error('[API] Error moving links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/links/:id
  * Get a single link by ID
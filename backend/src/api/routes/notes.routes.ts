@@ -0,0 +1,371 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { parseFolderId } from '../route-utils.js';
+import { NotesRepository } from '../../db/repositories/notes.repository.js';
+import { FoldersRepository } from '../../db/repositories/folders.repository.js';
+import { searchNotesWithSnippets } from '../../db/index.js';
+import { parseEntities } from '../../services/message-entities.service.js';
+import { bot } from '../../bot/index.js';
+import { TEXT_MESSAGE_LIMIT, MAX_BATCH_SIZE, MAX_PAGE_SIZE } from '../../constants.js';
+
+const router = Router();
+const notesRepo = new NotesRepository();
+const foldersRepo = new FoldersRepository();
+
+/**
+ * GET /api/notes
+ * Get notes for the authenticated user
+ */
+router.get('/', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+  const { page = '1', limit = '20', folderId } = req.query;
+
+  try {
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = Math.min(parseInt(limit as string, 10), MAX_PAGE_SIZE);
+    const offset = (pageNum - 1) * limitNum;
+
+    const result = await notesRepo.findByUser(telegramUser.id, {
+      folderId: parseFolderId(folderId),
+      limit: limitNum,
+      offset,
+    });
+
+    res.json({
+      items: result.items,
+      total: result.total,
+      page: pageNum,
+      totalPages: Math.ceil(result.total / limitNum),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching notes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/notes/trash
+ * Get deleted notes (trash) for the authenticated user
+ */
+router.get('/trash', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+
+  try {
+    const notes = await notesRepo.findDeleted(telegramUser.id);
+    res.json({ items: notes, total: notes.length });
+  } catch (error) {
+    console.error('[API] Error fetching notes trash:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/notes/count
+ * Get total count of non-deleted notes
+ */
+router.get('/count', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+
+  try {
+    const count = await notesRepo.getCount(telegramUser.id);
+    res.json({ count });
+  } catch (error) {
+    console.error('[API] Error fetching notes count:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/notes/trash/count
+ * Get count of notes in trash
+ */
+router.get('/trash/count', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+
+  try {
+    const count = await notesRepo.getTrashCount(telegramUser.id);
+    res.json({ count });
+  } catch (error) {
+    console.error('[API] Error fetching notes trash count:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/notes/search
+ * Full-text search in notes
+ */
+router.get('/search', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+  const { q, limit = '50' } = req.query;
+
+  if (!q || typeof q !== 'string') {
+    res.status(400).json({ error: 'Query parameter "q" is required' });
+    return;
+  }
+
+  try {
+    const limitNum = Math.min(parseInt(limit as string, 10), MAX_PAGE_SIZE);
+    const notes = searchNotesWithSnippets(telegramUser.id, q, limitNum);
+    res.json({ items: notes, total: notes.length });
+  } catch (error) {
+    console.error('[API] Error searching notes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/notes/delete-many
+ * Soft delete multiple notes (move to trash)
+ */
+router.post('/delete-many', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { noteIds } = req.body as { noteIds: number[] };
+
+  if (!Array.isArray(noteIds) || noteIds.length === 0) {
+    res.status(400).json({ error: 'noteIds array is required' });
+    return;
+  }
+
+  if (noteIds.length > MAX_BATCH_SIZE) {
+    res.status(400).json({ error: `Maximum ${MAX_BATCH_SIZE} notes per request` });
+    return;
+  }
+
+  try {
+    const deletedCount = await notesRepo.softDeleteMany(noteIds, telegramUser.id);
+    res.json({ success: true, deleted: deletedCount });
+  } catch (error) {
+    console.error('[API] Error deleting notes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/notes/move-many
+ * Move multiple notes into a folder
+ * Body: { noteIds: number[], folderId: number | null } (null = root)
+ */
+router.post('/move-many', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { noteIds, folderId } = req.body as { noteIds: number[]; folderId: number | null };
+
+  if (!Array.isArray(noteIds) || noteIds.length === 0) {
+    res.status(400).json({ error: 'noteIds array is required' });
+    return;
+  }
+
+  if (noteIds.length > MAX_BATCH_SIZE) {
+    res.status(400).json({ error: `Maximum ${MAX_BATCH_SIZE} notes per request` });
+    return;
+  }
+
+  if (folderId !== null && typeof folderId !== 'number') {
+    res.status(400).json({ error: 'folderId must be a number or null' });
+    return;
+  }
+
+  try {
+    if (folderId !== null && !(await foldersRepo.findById(folderId, telegramUser.id))) {
+      res.status(404).json({ error: 'Folder not found' });
+      return;
+    }
+
+    const movedCount = notesRepo.moveToFolder(noteIds, telegramUser.id, folderId);
+    res.json({ success: true, moved: movedCount });
+  } catch (error) {
+    console.error('[API] Error moving notes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/notes/:id
+ * Get a single note by ID
+ */
+router.get('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const noteId = parseInt(req.params.id, 10);
+
+  if (isNaN(noteId)) {
+    res.status(400).json({ error: 'Invalid note ID' });
+    return;
+  }
+
+  try {
+    const note = await notesRepo.findById(noteId);
+
+    if (!note || note.userId !== telegramUser.id) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json(note);
+  } catch (error) {
+    console.error('[API] Error fetching note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/notes/:id
+ * Edit note text (Mini App editor works with plain text - formatting is dropped)
+ * Body: { text: string }
+ */
+router.patch('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const noteId = parseInt(req.params.id, 10);
+  const { text } = req.body as { text: string };
+
+  if (isNaN(noteId)) {
+    res.status(400).json({ error: 'Invalid note ID' });
+    return;
+  }
+
+  if (typeof text !== 'string' || !text.trim()) {
+    res.status(400).json({ error: 'text must be a non-empty string' });
+    return;
+  }
+
+  // Заметка отправляется обратно одним сообщением
+  if (text.length > TEXT_MESSAGE_LIMIT) {
+    res.status(400).json({ error: `text exceeds maximum length of ${TEXT_MESSAGE_LIMIT}` });
+    return;
+  }
+
+  try {
+    const note = await notesRepo.findById(noteId);
+    if (!note || note.userId !== telegramUser.id) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    // Форматирование сдвигается вслед за правкой текста
+    if (!notesRepo.updateText(noteId, telegramUser.id, text)) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json(await notesRepo.findById(noteId));
+  } catch (error) {
+    console.error('[API] Error updating note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/notes/:id/send
+ * Send note back to the user's chat with the bot (formatting preserved)
+ */
+router.post('/:id/send', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const noteId = parseInt(req.params.id, 10);
+
+  if (isNaN(noteId)) {
+    res.status(400).json({ error: 'Invalid note ID' });
+    return;
+  }
+
+  try {
+    const note = await notesRepo.findById(noteId);
+
+    if (!note || note.userId !== telegramUser.id || note.deletedAt) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    await bot.api.sendMessage(telegramUser.id, note.text, { entities: parseEntities(note.entities) });
+
+    console.log('[Notes] Sent note:', note.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error sending note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/notes/:id
+ * Soft delete a note (move to trash)
+ */
+router.delete('/:id', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const noteId = parseInt(req.params.id, 10);
+
+  if (isNaN(noteId)) {
+    res.status(400).json({ error: 'Invalid note ID' });
+    return;
+  }
+
+  try {
+    const deleted = await notesRepo.softDelete(noteId, telegramUser.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error deleting note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/notes/:id/restore
+ * Restore a note from trash
+ */
+router.post('/:id/restore', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const noteId = parseInt(req.params.id, 10);
+
+  if (isNaN(noteId)) {
+    res.status(400).json({ error: 'Invalid note ID' });
+    return;
+  }
+
+  try {
+    const restored = await notesRepo.restore(noteId, telegramUser.id);
+
+    if (!restored) {
+      res.status(404).json({ error: 'Note not found in trash' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error restoring note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/notes/:id/permanent
+ * Permanently delete a note (hard delete)
+ */
+router.delete('/:id/permanent', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const noteId = parseInt(req.params.id, 10);
+
+  if (isNaN(noteId)) {
+    res.status(400).json({ error: 'Invalid note ID' });
+    return;
+  }
+
+  try {
+    const deleted = await notesRepo.hardDelete(noteId, telegramUser.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error permanently deleting note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
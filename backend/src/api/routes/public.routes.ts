@@ -2,15 +2,22 @@ import { Router, Request, Response } from 'express';
 import { sqlite, deactivateExpiredShares } from '../../db/index.js';
 import { FilesRepository } from '../../db/repositories/files.repository.js';
 import { ThumbnailService } from '../../services/thumbnail.service.js';
+import { openFileContent } from '../../services/storage/index.js';
+import { streamFileContent } from '../streaming.js';
 import { bot } from '../../bot/index.js';
 import { config } from '../../config.js';
+import { Translator, createTranslator, localeFromAcceptLanguage } from '../../i18n/index.js';
 
 const router = Router();
 const filesRepo = new FilesRepository();
 
 const BOT_USERNAME = process.env.BOT_USERNAME || 'FC_Cloud_Bot';
 const WEB_URL = process.env.WEB_URL || 'https://api.factchain-traker.online';
-const MAX_WEB_DOWNLOAD_SIZE = 50 * 1024 * 1024; // 50 MB limit for web downloads
+const MAX_WEB_DOWNLOAD_SIZE = 50 * 1024 * 1024; // 50 MB limit for web downloads (no limit with local Bot API server)
+
+function canDownloadOnWeb(fileSize: number | null): boolean {
+  return config.bot.apiLocal || !fileSize || fileSize <= MAX_WEB_DOWNLOAD_SIZE;
+}
 
 // Simple in-memory rate limiter
 const rateLimits: Record<string, { count: number; resetAt: number }> = {};
@@ -80,13 +87,13 @@ function getFileTypeIcon(mediaType: string, mimeType?: string | null): string {
 }
 
 // Calculate time remaining until expiry
-function getTimeRemaining(expiresAt: number): string {
+function getTimeRemaining(t: Translator, expiresAt: number): string {
   const now = Math.floor(Date.now() / 1000);
   const diff = expiresAt - now;
-  if (diff <= 0) return 'Истекла';
-  if (diff < 3600) return `${Math.floor(diff / 60)} мин`;
-  if (diff < 86400) return `${Math.floor(diff / 3600)} ч`;
-  return `${Math.floor(diff / 86400)} дн`;
+  if (diff <= 0) return t('page.expired');
+  if (diff < 3600) return t('page.minutes', { count: Math.floor(diff / 60) });
+  if (diff < 86400) return t('page.hours', { count: Math.floor(diff / 3600) });
+  return t('page.days', { count: Math.floor(diff / 86400) });
 }
 
 interface ShareRow {
@@ -114,6 +121,7 @@ interface FileRow {
   width: number | null;
   height: number | null;
   thumbnail_file_id: string | null;
+  generated_thumbnail: string | null;
   caption: string | null;
   deleted_at: number | null;
 }
@@ -176,8 +184,12 @@ router.get('/:token', async (req: Request, res: Response) => {
   const { token } = req.params;
   const data = getShareData(token);
 
+  // Язык страницы - по браузеру получателя
+  const t = createTranslator(localeFromAcceptLanguage(req.headers['accept-language']));
+  res.vary('Accept-Language');
+
   if (!data) {
-    res.status(404).send(renderErrorPage('Ссылка недействительна', 'Файл не найден или ссылка истекла.'));
+    res.status(404).send(renderErrorPage(t, t('page.invalidTitle'), t('page.invalidMessage')));
     return;
   }
 
@@ -186,10 +198,10 @@ router.get('/:token', async (req: Request, res: Response) => {
   // Log view
   logDownload(share.id, 'web_view', ip, req.headers['user-agent'] || '');
 
-  const fileName = file.file_name || 'Файл';
+  const fileName = file.file_name || t('common.file');
   const fileSize = file.file_size ? formatFileSize(file.file_size) : '';
   const fileIcon = getFileTypeIcon(file.media_type, file.mime_type);
-  const canDownload = !file.file_size || file.file_size <= MAX_WEB_DOWNLOAD_SIZE;
+  const canDownload = canDownloadOnWeb(file.file_size);
   const previewUrl = `${WEB_URL}/share/${token}/preview`;
   const downloadUrl = `${WEB_URL}/share/${token}/download`;
   const videoStreamUrl = `${WEB_URL}/share/${token}/video-stream`;
@@ -199,7 +211,7 @@ router.get('/:token', async (req: Request, res: Response) => {
   // Expiry info
   let expiryInfo = '';
   if (share.expires_at) {
-    expiryInfo = getTimeRemaining(share.expires_at);
+    expiryInfo = getTimeRemaining(t, share.expires_at);
   }
 
   // Downloads info
@@ -208,7 +220,7 @@ router.get('/:token', async (req: Request, res: Response) => {
     downloadsInfo = `${share.use_count}/${share.max_recipients}`;
   }
 
-  res.send(renderSharePage({
+  res.send(renderSharePage(t, {
     token,
     fileName,
     fileSize,
@@ -259,7 +271,7 @@ router.get('/:token/info', async (req: Request, res: Response) => {
     expiresAt: share.expires_at,
     maxRecipients: share.max_recipients,
     useCount: share.use_count,
-    canDownload: !file.file_size || file.file_size <= MAX_WEB_DOWNLOAD_SIZE,
+    canDownload: canDownloadOnWeb(file.file_size),
   });
 });
 
@@ -284,13 +296,16 @@ router.get('/:token/preview', async (req: Request, res: Response) => {
 
   const { file } = data;
 
-  // Get thumbnail URL
+  // Signed proxy URL - never redirect to Telegram (file URL contains the bot token)
   const thumbnailService = new ThumbnailService(bot, config.botToken);
-  const thumbnailUrl = await thumbnailService.getThumbnailUrl(
-    file.thumbnail_file_id,
-    file.file_id,
-    file.media_type as any
-  );
+  const thumbnailUrl = thumbnailService.getThumbnailUrl({
+    id: file.id,
+    fileId: file.file_id,
+    fileUniqueId: file.file_unique_id,
+    thumbnailFileId: file.thumbnail_file_id,
+    generatedThumbnail: file.generated_thumbnail,
+    mediaType: file.media_type,
+  });
 
   if (thumbnailUrl) {
     res.redirect(thumbnailUrl);
@@ -302,7 +317,7 @@ router.get('/:token/preview', async (req: Request, res: Response) => {
 
 /**
  * GET /share/:token/video-stream
- * Stream video for inline playback on share page
+ * Stream video for inline playback on share page (supports Range requests)
  */
 router.get('/:token/video-stream', async (req: Request, res: Response) => {
   const ip = getClientIp(req);
@@ -328,56 +343,18 @@ router.get('/:token/video-stream', async (req: Request, res: Response) => {
   }
 
   try {
-    // Get file from Telegram
-    const telegramFile = await bot.api.getFile(file.file_id);
-    if (!telegramFile.file_path) {
-      res.status(500).send('Failed to get file');
-      return;
-    }
-
-    // Get file URL
-    const fileUrl = `https://api.telegram.org/file/bot${config.botToken}/${telegramFile.file_path}`;
-
-    // Fetch video
-    const videoResponse = await fetch(fileUrl);
-    if (!videoResponse.ok || !videoResponse.body) {
+    // Telegram или mirror store; Range пробрасывается (перемотка, iOS Safari)
+    const streamed = await streamFileContent(req, res, {
+      id: file.id,
+      fileId: file.file_id,
+      fileUniqueId: file.file_unique_id,
+      fileSize: file.file_size,
+    }, file.mime_type || 'video/mp4');
+
+    if (!streamed) {
       res.status(502).send('Failed to fetch video');
       return;
     }
-
-    // Set headers for streaming
-    res.setHeader('Content-Type', file.mime_type || 'video/mp4');
-    const contentLength = videoResponse.headers.get('content-length');
-    if (contentLength) {
-      res.setHeader('Content-Length', contentLength);
-    }
-    res.setHeader('Accept-Ranges', 'bytes');
-    res.setHeader('Cache-Control', 'public, max-age=3600');
-
-    // Stream the video
-    const reader = videoResponse.body.getReader();
-
-    const pump = async (): Promise<void> => {
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          if (res.destroyed) {
-            reader.cancel();
-            break;
-          }
-          res.write(Buffer.from(value));
-        }
-        res.end();
-      } catch (streamError) {
-        console.error('[Public] Stream error:', streamError);
-        if (!res.destroyed) {
-          res.end();
-        }
-      }
-    };
-
-    await pump();
   } catch (error) {
     console.error('[Public] Video stream error:', error);
     if (!res.headersSent) {
@@ -408,28 +385,16 @@ router.get('/:token/download', async (req: Request, res: Response) => {
   const { share, file } = data;
 
   // Check file size limit
-  if (file.file_size && file.file_size > MAX_WEB_DOWNLOAD_SIZE) {
+  if (!canDownloadOnWeb(file.file_size)) {
     res.status(400).send(`File too large for web download. Maximum size: ${formatFileSize(MAX_WEB_DOWNLOAD_SIZE)}. Please use Telegram to download.`);
     return;
   }
 
   try {
-    
-
-    // Get file from Telegram
-    const telegramFile = await bot.api.getFile(file.file_id);
-    if (!telegramFile.file_path) {
-      res.status(500).send('Failed to get file from Telegram');
-      return;
-    }
-
-    // Get file URL
-    const fileUrl = `https://api.telegram.org/file/bot${config.botToken}/${telegramFile.file_path}`;
-
-    // Fetch file
-    const fileResponse = await fetch(fileUrl);
-    if (!fileResponse.ok) {
-      res.status(500).send('Failed to download file from Telegram');
+    // Get file from Telegram (or mirror store if Telegram lost it)
+    const content = await openFileContent({ fileId: file.file_id, fileUniqueId: file.file_unique_id });
+    if (!content) {
+      res.status(500).send('Failed to download file');
       return;
     }
 
@@ -451,11 +416,7 @@ router.get('/:token/download', async (req: Request, res: Response) => {
     }
 
     // Stream file to response
-    const reader = fileResponse.body?.getReader();
-    if (!reader) {
-      res.status(500).send('Failed to read file');
-      return;
-    }
+    const reader = content.body.getReader();
 
     const pump = async () => {
       while (true) {
@@ -474,7 +435,7 @@ router.get('/:token/download', async (req: Request, res: Response) => {
 });
 
 // Render share page HTML
-function renderSharePage(params: {
+function renderSharePage(t: Translator, params: {
   token: string;
   fileName: string;
   fileSize: string;
@@ -503,13 +464,13 @@ function renderSharePage(params: {
     : '16 / 9';
 
   return `<!DOCTYPE html>
-<html lang="ru">
+<html lang="${t.locale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${escapeHtml(params.fileName)} - FC-Cloud</title>
   <meta property="og:title" content="${escapeHtml(params.fileName)} - FC-Cloud">
-  <meta property="og:description" content="${params.caption ? escapeHtml(params.caption.slice(0, 200)) : 'Скачать файл через FC-Cloud'}">
+  <meta property="og:description" content="${params.caption ? escapeHtml(params.caption.slice(0, 200)) : t('page.description')}">
   <meta property="og:image" content="${params.previewUrl}">
   <meta property="og:type" content="website">
   <meta name="twitter:card" content="summary_large_image">
@@ -972,14 +933,14 @@ function renderSharePage(params: {
             class="media-image"
             src="${params.previewUrl}"
             alt="${escapeHtml(params.fileName)}"
-            onerror="this.parentElement.innerHTML='<div class=\\'file-icon-preview\\'><span class=\\'icon\\'>${params.fileIcon}</span><span class=\\'type\\'>Изображение недоступно</span></div>'"
+            onerror="this.parentElement.innerHTML='<div class=\\'file-icon-preview\\'><span class=\\'icon\\'>${params.fileIcon}</span><span class=\\'type\\'>${t('page.imageUnavailable')}</span></div>'"
           >
         </div>
         ` : `
         <div class="media">
           <div class="file-icon-preview">
             <span class="icon">${params.fileIcon}</span>
-            <span class="type">${params.mimeType ? escapeHtml(params.mimeType.split('/')[1] || params.mimeType) : 'Файл'}</span>
+            <span class="type">${params.mimeType ? escapeHtml(params.mimeType.split('/')[1] || params.mimeType) : t('common.file')}</span>
           </div>
         </div>
         `}
@@ -1011,11 +972,10 @@ function renderSharePage(params: {
                   <polyline points="7 10 12 15 17 10"/>
                   <line x1="12" y1="15" x2="12" y2="3"/>
                 </svg>
-                Скачать файл
+                ${t('page.download')}
               </a>`
             : `<div class="no-download">
-                Файл слишком большой для браузера.<br>
-                Скачайте через Telegram.
+                ${t('page.tooLarge')}
               </div>`
           }
 
@@ -1047,12 +1007,12 @@ function renderSharePage(params: {
 
     <!-- CTA -->
     <div class="cta">
-      <div class="cta-text">Хотите своё облако для файлов?</div>
+      <div class="cta-text">${t('page.cta')}</div>
       <a href="${params.telegramUrl}" class="telegram-btn">
         <svg viewBox="0 0 24 24" fill="currentColor">
           <path d="M11.944 0A12 12 0 1 0 24 12 12.01 12.01 0 0 0 11.944 0zm5.768 7.93l-1.975 9.413c-.15.664-.55.82-1.115.51l-3.056-2.254-1.474 1.42c-.163.163-.3.3-.614.3l.22-3.106 5.643-5.1c.246-.22-.054-.342-.382-.124l-6.978 4.392-3.006-.938c-.653-.205-.667-.653.137-.967l11.744-4.527c.545-.198 1.022.132.856.963z"/>
         </svg>
-        Открыть в Telegram
+        ${t('page.openTelegram')}
       </a>
     </div>
   </div>
@@ -1087,9 +1047,9 @@ function renderSharePage(params: {
 }
 
 // Render error page
-function renderErrorPage(title: string, message: string): string {
+function renderErrorPage(t: Translator, title: string, message: string): string {
   return `<!DOCTYPE html>
-<html lang="ru">
+<html lang="${t.locale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -0,0 +1,106 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { SettingsRepository } from '../../db/repositories/settings.repository.js';
+import { UsersRepository } from '../../db/repositories/users.repository.js';
+import { UserSettings } from '../../types/index.js';
+import { LOCALES } from '../../i18n/index.js';
+import { MAX_TRASH_RETENTION_DAYS, MAX_SHARE_EXPIRY_HOURS } from '../../constants.js';
+
+const router = Router();
+const settingsRepo = new SettingsRepository();
+const usersRepo = new UsersRepository();
+
+const BOOLEAN_SETTINGS = ['silentMode', 'saveLinks', 'saveStickers', 'notifyDuplicates'] as const;
+
+function isIntInRange(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+}
+
+/**
+ * Validate PATCH body: only known settings with valid values (unknown keys are ignored)
+ * Returns error message if some value is invalid
+ */
+function parseSettingsChanges(body: Record<string, unknown>): { changes: Partial<UserSettings> } | { error: string } {
+  const changes: Partial<UserSettings> = {};
+
+  for (const key of BOOLEAN_SETTINGS) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== 'boolean') {
+      return { error: `${key} must be a boolean` };
+    }
+    changes[key] = body[key] as boolean;
+  }
+
+  if (body.trashRetentionDays !== undefined) {
+    if (!isIntInRange(body.trashRetentionDays, MAX_TRASH_RETENTION_DAYS)) {
+      return { error: `trashRetentionDays must be an integer 1-${MAX_TRASH_RETENTION_DAYS}` };
+    }
+    changes.trashRetentionDays = body.trashRetentionDays;
+  }
+
+  if (body.defaultShareExpiryHours !== undefined) {
+    if (body.defaultShareExpiryHours !== null && !isIntInRange(body.defaultShareExpiryHours, MAX_SHARE_EXPIRY_HOURS)) {
+      return { error: `defaultShareExpiryHours must be null or an integer 1-${MAX_SHARE_EXPIRY_HOURS}` };
+    }
+    changes.defaultShareExpiryHours = body.defaultShareExpiryHours;
+  }
+
+  if (body.language !== undefined) {
+    if (body.language !== null && !LOCALES.includes(body.language as never)) {
+      return { error: `language must be null or one of: ${LOCALES.join(', ')}` };
+    }
+    changes.language = body.language as UserSettings['language'];
+  }
+
+  return { changes };
+}
+
+/**
+ * GET /api/settings
+ * Get settings of the authenticated user (defaults if never changed)
+ */
+router.get('/', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const settings = await settingsRepo.get(telegramUser.id);
+    res.json(settings);
+  } catch (error) {
+    console.error('[API] Error fetching settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/settings
+ * Change some settings, returns all settings
+ * Body: { silentMode?, saveLinks?, saveStickers?, notifyDuplicates?, trashRetentionDays?, defaultShareExpiryHours?, language? }
+ */
+router.patch('/', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+    res.status(400).json({ error: 'Settings object is required' });
+    return;
+  }
+
+  const parsed = parseSettingsChanges(req.body);
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    // Mini App можно открыть до первого сообщения боту - user_settings ссылается на users
+    await usersRepo.upsert(telegramUser);
+    const settings = await settingsRepo.update(telegramUser.id, parsed.changes);
+
+    console.log('[Settings] Updated for user:', telegramUser.id, Object.keys(parsed.changes).join(', '));
+    res.json(settings);
+  } catch (error) {
+    console.error('[API] Error updating settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,10 +2,12 @@ import { Router, Response } from 'express';
 import crypto from 'crypto';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { SettingsRepository } from '../../db/repositories/settings.repository.js';
 import { sqlite, deactivateExpiredShares } from '../../db/index.js';
 
 const router = Router();
 const filesRepo = new FilesRepository();
+const settingsRepo = new SettingsRepository();
 
 const BOT_USERNAME = process.env.BOT_USERNAME || 'FC_Cloud_Bot';
 const WEB_URL = process.env.WEB_URL || 'https://api.factchain-traker.online';
@@ -89,7 +91,7 @@ router.post('/:id/share', async (req, res: Response) => {
 
   const { maxRecipients, expiresIn } = req.body as {
     maxRecipients?: number;
-    expiresIn?: number; // hours
+    expiresIn?: number | null; // hours, null - бессрочно, не передан - из настроек пользователя
   };
 
   try {
@@ -129,8 +131,11 @@ router.post('/:id/share', async (req, res: Response) => {
     const token = crypto.randomBytes(12).toString('base64url');
 
     // Calculate expiration timestamp
-    const expiresAt = expiresIn
-      ? Math.floor(Date.now() / 1000) + expiresIn * 3600
+    const expiresInHours = expiresIn === undefined
+      ? (await settingsRepo.get(telegramUser.id)).defaultShareExpiryHours
+      : expiresIn;
+    const expiresAt = expiresInHours
+      ? Math.floor(Date.now() / 1000) + expiresInHours * 3600
       : null;
 
     // Create share
@@ -0,0 +1,324 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { SpacesRepository, canDeleteInSpace } from '../../db/repositories/spaces.repository.js';
+import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { LinksRepository } from '../../db/repositories/links.repository.js';
+import { ThumbnailService } from '../../services/thumbnail.service.js';
+import { MediaType } from '../../types/index.js';
+import { bot } from '../../bot/index.js';
+import { config } from '../../config.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../../constants.js';
+
+const router = Router();
+const spacesRepo = new SpacesRepository();
+const filesRepo = new FilesRepository();
+const linksRepo = new LinksRepository();
+
+// Lazy init thumbnail service (bot needs to be initialized first)
+let thumbnailService: ThumbnailService | null = null;
+function getThumbnailService(): ThumbnailService {
+  if (!thumbnailService) {
+    thumbnailService = new ThumbnailService(bot, config.botToken);
+  }
+  return thumbnailService;
+}
+
+/**
+ * Membership of the user in the space from :id
+ * Non-members get 404 - as if the space does not exist
+ */
+async function getMembership(spaceIdParam: string, userId: number) {
+  const spaceId = parseInt(spaceIdParam, 10);
+  if (isNaN(spaceId)) return null;
+  return spacesRepo.getMember(spaceId, userId);
+}
+
+// Parse ?page= and ?limit= (same defaults as /api/files)
+function parsePage(query: { page?: unknown; limit?: unknown }): { pageNum: number; limitNum: number; offset: number } {
+  const pageNum = Math.max(parseInt(String(query.page ?? '1'), 10) || 1, 1);
+  const limitNum = Math.min(parseInt(String(query.limit ?? DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  return { pageNum, limitNum, offset: (pageNum - 1) * limitNum };
+}
+
+/**
+ * GET /api/spaces
+ * Groups and channels the user is a member of, with role and counts
+ */
+router.get('/', async (req, res: Response) => {
+  const { telegramUser } = req as AuthenticatedRequest;
+
+  try {
+    const items = spacesRepo.findByMember(telegramUser.id);
+    res.json({ items });
+  } catch (error) {
+    console.error('[API] Error fetching spaces:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/spaces/:id/files
+ * Files of a space (same shape as GET /api/files)
+ */
+router.get('/:id/files', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const { type } = req.query;
+
+  try {
+    const member = await getMembership(req.params.id, telegramUser.id);
+    if (!member) {
+      res.status(404).json({ error: 'Space not found' });
+      return;
+    }
+
+    const { pageNum, limitNum, offset } = parsePage(req.query);
+    const result = await filesRepo.findByUser(member.spaceId, {
+      mediaType: type as MediaType | undefined,
+      limit: limitNum,
+      offset,
+    });
+
+    const service = getThumbnailService();
+    const items = result.items.map((file) => ({
+      ...file,
+      thumbnailUrl: service.getThumbnailUrl(file),
+      hasShare: false, // публичные ссылки на файлы пространства не создаются
+    }));
+
+    res.json({
+      items,
+      total: result.total,
+      page: pageNum,
+      totalPages: Math.ceil(result.total / limitNum),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching space files:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/spaces/:id/links
+ * Links of a space
+ */
+router.get('/:id/links', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const member = await getMembership(req.params.id, telegramUser.id);
+    if (!member) {
+      res.status(404).json({ error: 'Space not found' });
+      return;
+    }
+
+    const { pageNum, limitNum, offset } = parsePage(req.query);
+    const result = await linksRepo.findByUser(member.spaceId, { limit: limitNum, offset });
+
+    res.json({
+      items: result.items,
+      total: result.total,
+      page: pageNum,
+      totalPages: Math.ceil(result.total / limitNum),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching space links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/spaces/:id/files/:fileId
+ * Move a file of the space to trash (space admins only)
+ */
+router.delete('/:id/files/:fileId', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const fileId = parseInt(req.params.fileId, 10);
+
+  if (isNaN(fileId)) {
+    res.status(400).json({ error: 'Invalid file ID' });
+    return;
+  }
+
+  try {
+    const member = await getMembership(req.params.id, telegramUser.id);
+    if (!member) {
+      res.status(404).json({ error: 'Space not found' });
+      return;
+    }
+
+    if (!canDeleteInSpace(member.role)) {
+      res.status(403).json({ error: 'Only space admins can delete' });
+      return;
+    }
+
+    const deleted = await filesRepo.softDelete(fileId, member.spaceId);
+    if (!deleted) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    console.log('[Spaces] File', fileId, 'deleted from space', member.spaceId, 'by', telegramUser.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error deleting space file:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/spaces/:id/links/:linkId
+ * Move a link of the space to trash (space admins only)
+ */
+router.delete('/:id/links/:linkId', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const linkId = parseInt(req.params.linkId, 10);
+
+  if (isNaN(linkId)) {
+    res.status(400).json({ error: 'Invalid link ID' });
+    return;
+  }
+
+  try {
+    const member = await getMembership(req.params.id, telegramUser.id);
+    if (!member) {
+      res.status(404).json({ error: 'Space not found' });
+      return;
+    }
+
+    if (!canDeleteInSpace(member.role)) {
+      res.status(403).json({ error: 'Only space admins can delete' });
+      return;
+    }
+
+    const deleted = await linksRepo.softDelete(linkId, member.spaceId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Link not found' });
+      return;
+    }
+
+    console.log('[Spaces] Link', linkId, 'deleted from space', member.spaceId, 'by', telegramUser.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error deleting space link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/spaces/:id/trash
+ * Deleted files and links of a space (space admins only)
+ */
+router.get('/:id/trash', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+
+  try {
+    const member = await getMembership(req.params.id, telegramUser.id);
+    if (!member) {
+      res.status(404).json({ error: 'Space not found' });
+      return;
+    }
+
+    if (!canDeleteInSpace(member.role)) {
+      res.status(403).json({ error: 'Only space admins can view trash' });
+      return;
+    }
+
+    const [files, links] = await Promise.all([
+      filesRepo.findDeleted(member.spaceId),
+      linksRepo.findDeleted(member.spaceId),
+    ]);
+
+    const service = getThumbnailService();
+    res.json({
+      files: files.map((file) => ({
+        ...file,
+        thumbnailUrl: service.getThumbnailUrl(file),
+        hasShare: false,
+      })),
+      links,
+    });
+  } catch (error) {
+    console.error('[API] Error fetching space trash:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/spaces/:id/files/:fileId/restore
+ * Restore a file of the space from trash (space admins only)
+ */
+router.post('/:id/files/:fileId/restore', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const fileId = parseInt(req.params.fileId, 10);
+
+  if (isNaN(fileId)) {
+    res.status(400).json({ error: 'Invalid file ID' });
+    return;
+  }
+
+  try {
+    const member = await getMembership(req.params.id, telegramUser.id);
+    if (!member) {
+      res.status(404).json({ error: 'Space not found' });
+      return;
+    }
+
+    if (!canDeleteInSpace(member.role)) {
+      res.status(403).json({ error: 'Only space admins can restore' });
+      return;
+    }
+
+    const restored = await filesRepo.restore(fileId, member.spaceId);
+    if (!restored) {
+      res.status(404).json({ error: 'File not found in trash' });
+      return;
+    }
+
+    console.log('[Spaces] File', fileId, 'restored in space', member.spaceId, 'by', telegramUser.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error restoring space file:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/spaces/:id/links/:linkId/restore
+ * Restore a link of the space from trash (space admins only)
+ */
+router.post('/:id/links/:linkId/restore', async (req, res: Response) => {
+  const { telegramUser } = req as unknown as AuthenticatedRequest;
+  const linkId = parseInt(req.params.linkId, 10);
+
+  if (isNaN(linkId)) {
+    res.status(400).json({ error: 'Invalid link ID' });
+    return;
+  }
+
+  try {
+    const member = await getMembership(req.params.id, telegramUser.id);
+    if (!member) {
+      res.status(404).json({ error: 'Space not found' });
+      return;
+    }
+
+    if (!canDeleteInSpace(member.role)) {
+      res.status(403).json({ error: 'Only space admins can restore' });
+      return;
+    }
+
+    const restored = await linksRepo.restore(linkId, member.spaceId);
+    if (!restored) {
+      res.status(404).json({ error: 'Link not found in trash' });
+      return;
+    }
+
+    console.log('[Spaces] Link', linkId, 'restored in space', member.spaceId, 'by', telegramUser.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error restoring space link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
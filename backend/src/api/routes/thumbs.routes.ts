@@ -0,0 +1,84 @@
+import { Router, Request, Response } from 'express';
+import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { ThumbnailService } from '../../services/thumbnail.service.js';
+import {
+  getThumbnail,
+  getThumbEtag,
+  pickThumbWidth,
+  THUMB_CONTENT_TYPE,
+} from '../../services/thumbnail-cache.service.js';
+import { bot } from '../../bot/index.js';
+import { config } from '../../config.js';
+import { THUMB_MAX_AGE_SECONDS } from '../../constants.js';
+
+const router = Router();
+const filesRepo = new FilesRepository();
+
+let thumbnailService: ThumbnailService | null = null;
+function getThumbnailService(): ThumbnailService {
+  if (!thumbnailService) {
+    thumbnailService = new ThumbnailService(bot, config.botToken);
+  }
+  return thumbnailService;
+}
+
+/**
+ * GET /api/thumbs/:id?sig=...&w=320
+ * Resized preview of a file from on-disk cache
+ * NO authentication - <img> can't send headers, access is checked by URL signature
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  const fileId = parseInt(req.params.id, 10);
+  const sig = String(req.query.sig || '');
+
+  if (isNaN(fileId) || !getThumbnailService().verifyThumbnailSignature(fileId, sig)) {
+    res.status(403).send('Invalid signature');
+    return;
+  }
+
+  const width = pickThumbWidth(parseInt(String(req.query.w || ''), 10));
+
+  try {
+    const file = await filesRepo.findById(fileId);
+    if (!file) {
+      res.status(404).send('Not found');
+      return;
+    }
+
+    const etag = getThumbEtag(file, width);
+    const cacheControl = `private, max-age=${THUMB_MAX_AGE_SECONDS}, immutable`;
+
+    if (req.headers['if-none-match'] === etag) {
+      res.set({ 'ETag': etag, 'Cache-Control': cacheControl });
+      res.status(304).end();
+      return;
+    }
+
+    const thumbPath = await getThumbnail(file, width);
+    if (!thumbPath) {
+      res.status(404).send('No preview available');
+      return;
+    }
+
+    res.sendFile(thumbPath, {
+      headers: {
+        'Content-Type': THUMB_CONTENT_TYPE,
+        'ETag': etag,
+        'Cache-Control': cacheControl,
+      },
+      cacheControl: false,
+      etag: false,
+      lastModified: false,
+    }, (error) => {
+      if (error && !res.headersSent) {
+        console.error('[Thumbs] Send error:', error);
+        res.status(500).send('Failed to send preview');
+      }
+    });
+  } catch (error) {
+    console.error('[Thumbs] Error serving preview:', error);
+    res.status(500).send('Failed to build preview');
+  }
+});
+
+export default router;
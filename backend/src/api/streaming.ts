@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  openFileContent,
+  sliceStream,
+  ByteRange,
+  RangeNotSatisfiableError,
+} from '../services/storage/index.js';
+
+/**
+ * Parse Range request header against known file size
+ * Only a single range is supported - multipart ranges and garbage are ignored (full content)
+ */
+export function parseRangeHeader(
+  header: string | undefined,
+  size: number | null
+): ByteRange | 'unsatisfiable' | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) return null;
+
+  // bytes=-500 - последние 500 байт, без размера файла не посчитать
+  if (!match[1]) {
+    if (size === null) return null;
+    const length = parseInt(match[2], 10);
+    if (length === 0) return 'unsatisfiable';
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : undefined;
+  if (end !== undefined && end < start) return null;
+
+  if (size === null) return { start, end };
+  if (start >= size) return 'unsatisfiable';
+  return { start, end: Math.min(end ?? size - 1, size - 1) };
+}
+
+function sendRangeNotSatisfiable(res: Response, size: number | null): void {
+  if (size !== null) {
+    res.setHeader('Content-Range', `bytes */${size}`);
+  }
+  res.status(416).end();
+}
+
+/**
+ * Stream file content (Telegram or mirror) to the response with HTTP Range support:
+ * Range is forwarded upstream, answer is 206 with Content-Range (or 416)
+ *
+ * Returns false if the file is unavailable - nothing is sent, caller responds itself
+ */
+export async function streamFileContent(
+  req: Request,
+  res: Response,
+  file: { id: number; fileId: string; fileUniqueId: string; fileSize: number | null },
+  contentType: string
+): Promise<boolean> {
+  const range = parseRangeHeader(req.headers.range, file.fileSize);
+  if (range === 'unsatisfiable') {
+    sendRangeNotSatisfiable(res, file.fileSize);
+    return true;
+  }
+
+  let content;
+  try {
+    content = await openFileContent(file, range ?? undefined);
+  } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) {
+      sendRangeNotSatisfiable(res, error.total ?? file.fileSize);
+      return true;
+    }
+    throw error;
+  }
+
+  if (!content) return false;
+
+  let body = content.body;
+  let partial = content.range;
+
+  // Источник проигнорировал Range - вырезаем нужный кусок из полного потока
+  if (range && !partial) {
+    const total = content.size ?? file.fileSize;
+    if (total !== null) {
+      if (range.start >= total) {
+        await body.cancel();
+        sendRangeNotSatisfiable(res, total);
+        return true;
+      }
+      const end = Math.min(range.end ?? total - 1, total - 1);
+      body = sliceStream(body, range.start, end);
+      partial = { start: range.start, end, total };
+    }
+  }
+
+  console.log(
+    '[API] Streaming file:', file.id, 'from', content.source,
+    partial ? `bytes ${partial.start}-${partial.end}/${partial.total ?? '*'}` : '(full)'
+  );
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+
+  if (partial) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${partial.start}-${partial.end}/${partial.total ?? '*'}`);
+    res.setHeader('Content-Length', partial.end - partial.start + 1);
+  } else if (content.size !== null) {
+    res.setHeader('Content-Length', content.size);
+  }
+
+  try {
+    await pipeline(Readable.fromWeb(body as import('stream/web').ReadableStream<Uint8Array>), res);
+  } catch (error: any) {
+    // Клиент закрыл соединение (перемотка, закрытие плеера) - это нормально
+    if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      console.error('[API] Stream error:', error);
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,64 @@
+import { Bot, Context } from 'grammy';
+import { Message } from '@grammyjs/types';
+import { IngestionService, extractAutoTags } from '../../services/ingestion.service.js';
+import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { TagsRepository } from '../../db/repositories/tags.repository.js';
+import { mirrorFile } from '../../services/storage/index.js';
+import { wakeThumbnailWorker } from '../../services/thumbnail-worker.service.js';
+
+/**
+ * Setup handlers for messages edited in Telegram: caption edits and media swaps
+ * are synced to the saved file (private chat and shared spaces of groups/channels)
+ */
+export function setupEditHandlers(bot: Bot<Context>): void {
+  const ingestionService = new IngestionService();
+  const filesRepo = new FilesRepository();
+  const tagsRepo = new TagsRepository();
+
+  const syncEditedMessage = async (msg: Message) => {
+    // Владелец файла: в личном чате - пользователь, в группе/канале - пространство чата
+    const ownerId = msg.chat.type === 'private' ? msg.from?.id : msg.chat.id;
+    if (!ownerId) return;
+
+    const file = await filesRepo.findByMessage(ownerId, msg.chat.id, msg.message_id);
+    if (!file) return; // сообщение не сохранялось (или уже в корзине)
+
+    const media = ingestionService.extractMedia(msg, { stickerLibrary: true });
+    if (!media) return;
+
+    // Заменили само вложение (editMessageMedia) - обновляем file_id и метаданные
+    if (media.fileUniqueId !== file.fileUniqueId) {
+      const updated = filesRepo.replaceMedia(file.id, media);
+      if (!updated) {
+        console.log('[Edit] New media of message', msg.message_id, 'is already saved, keeping the old one');
+      } else {
+        mirrorFile(updated).catch((error) => {
+          console.error('[Storage] Failed to mirror file:', updated.id, error);
+        });
+        if (!updated.thumbnailFileId && updated.mediaType !== 'photo') {
+          wakeThumbnailWorker();
+        }
+        console.log('[Edit] Media replaced for file', file.id);
+      }
+    }
+
+    const caption = media.caption || null;
+    if (caption === (file.caption || null) && (media.captionEntities ?? null) === file.captionEntities) return;
+
+    // Подпись альбома скопирована на остальные файлы - правим все копии
+    const ids = file.mediaGroupId && file.caption
+      ? filesRepo.getGroupFileIds(ownerId, file.mediaGroupId, file.caption)
+      : [file.id];
+    filesRepo.updateCaption(ids, ownerId, caption, msg.caption_entities ?? [], 'telegram');
+    tagsRepo.addToFiles(ids, ownerId, extractAutoTags(caption, msg.caption_entities, undefined));
+    console.log('[Edit] Caption synced for', ids.length, 'file(s) of message', msg.message_id);
+  };
+
+  bot.on('edited_message', async (ctx) => {
+    await syncEditedMessage(ctx.editedMessage);
+  });
+
+  bot.on('edited_channel_post', async (ctx) => {
+    await syncEditedMessage(ctx.editedChannelPost);
+  });
+}
@@ -0,0 +1,145 @@
+import { Bot, Context, InlineQueryResultBuilder } from 'grammy';
+import type { InlineQueryResult } from 'grammy/types';
+import {
+  searchFilesWithSnippets,
+  searchLinksWithSnippets,
+  SearchResult,
+  LinkSearchResult,
+} from '../../db/index.js';
+import { parseSearchQuery } from '../../services/search-query.service.js';
+import { parseEntities, sliceEntities } from '../../services/message-entities.service.js';
+import { getSendMethodByFileId } from '../send-method.js';
+import { getTranslator } from '../locale.js';
+import { Translator, MessageKey } from '../../i18n/index.js';
+import { INLINE_PAGE_SIZE, INLINE_CACHE_TIME_SECONDS, PHOTO_CAPTION_LIMIT } from '../../constants.js';
+
+const TYPE_TITLES: Record<string, MessageKey> = {
+  photo: 'type.photo',
+  video: 'type.video',
+  document: 'type.document',
+  audio: 'type.audio',
+  voice: 'type.voice',
+  animation: 'type.animation',
+  sticker: 'type.sticker',
+};
+
+/**
+ * Pagination offset: files first, then links
+ * '' = start, 'f:20' = files from 20, 'l:5' = links from 5
+ */
+function parseOffset(offset: string): { source: 'files' | 'links'; position: number } {
+  const match = /^([fl]):(\d+)$/.exec(offset);
+  if (!match) return { source: 'files', position: 0 };
+  return { source: match[1] === 'l' ? 'links' : 'files', position: parseInt(match[2], 10) };
+}
+
+/**
+ * Build cached result by file_id (Telegram sends the stored file itself)
+ * Returns null for types without inline result (video_note)
+ */
+function buildFileResult(t: Translator, file: SearchResult): InlineQueryResult | null {
+  const id = `f${file.id}`;
+  const title = file.fileName || file.caption?.split('\n')[0].slice(0, 64) || t(TYPE_TITLES[file.mediaType] ?? 'common.file');
+  const description = file.matchedSnippet ? file.matchedSnippet.replace(/\*\*/g, '') : file.caption || undefined;
+  const caption = file.caption?.slice(0, PHOTO_CAPTION_LIMIT) || undefined;
+  // Форматирование - только в пределах обрезанной подписи
+  const caption_entities = caption ? sliceEntities(parseEntities(file.captionEntities), 0, caption.length) : undefined;
+
+  // Тип результата - по префиксу file_id (фото без сжатия хранятся как документы)
+  switch (getSendMethodByFileId(file.fileId, file.mediaType)) {
+    case 'photo':
+      return InlineQueryResultBuilder.photoCached(id, file.fileId, { title, description, caption, caption_entities });
+    case 'video':
+      return InlineQueryResultBuilder.videoCached(id, title, file.fileId, { description, caption, caption_entities });
+    case 'document':
+      return InlineQueryResultBuilder.documentCached(id, title, file.fileId, { description, caption, caption_entities });
+    case 'audio':
+      return InlineQueryResultBuilder.audioCached(id, file.fileId, { caption, caption_entities });
+    case 'voice':
+      return InlineQueryResultBuilder.voiceCached(id, title, file.fileId, { caption, caption_entities });
+    case 'animation':
+      // GIF и MP4 без звука - разные типы inline-результатов
+      return file.mimeType === 'image/gif'
+        ? InlineQueryResultBuilder.gifCached(id, file.fileId, { title, caption, caption_entities })
+        : InlineQueryResultBuilder.mpeg4gifCached(id, file.fileId, { title, caption, caption_entities });
+    case 'sticker':
+      return InlineQueryResultBuilder.stickerCached(id, file.fileId);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Link as an article: message with title and URL (Telegram builds the preview)
+ */
+function buildLinkResult(link: LinkSearchResult): InlineQueryResult {
+  const title = link.title || link.url;
+
+  return InlineQueryResultBuilder.article(`l${link.id}`, title, {
+    description: link.description || link.siteName || link.url,
+    url: link.url,
+    thumbnail_url: link.imageUrl || undefined,
+  }).text(link.title ? `${link.title}\n${link.url}` : link.url);
+}
+
+/**
+ * Setup inline mode: @bot query - search saved files and links, send into any chat
+ * Query syntax is the same as in Mini App search (see search-query.service.ts)
+ */
+export function setupInlineHandlers(bot: Bot<Context>): void {
+  bot.on('inline_query', async (ctx) => {
+    const userId = ctx.from.id;
+    const { text, options, hasFilters } = parseSearchQuery(ctx.inlineQuery.query);
+    const offset = parseOffset(ctx.inlineQuery.offset);
+    const t = await getTranslator(ctx);
+
+    const results: InlineQueryResult[] = [];
+    let nextOffset = '';
+
+    try {
+      // Пустой запрос - последние файлы
+      let fileCount = 0;
+      let linksFrom: number | null = offset.source === 'links' ? offset.position : null;
+
+      if (offset.source === 'files') {
+        const files = searchFilesWithSnippets(userId, text, INLINE_PAGE_SIZE + 1, {
+          ...options,
+          offset: offset.position,
+        });
+        const page = files.slice(0, INLINE_PAGE_SIZE);
+        fileCount = page.length;
+
+        for (const file of page) {
+          const result = buildFileResult(t, file);
+          if (result) results.push(result);
+        }
+
+        if (files.length > INLINE_PAGE_SIZE) {
+          nextOffset = `f:${offset.position + INLINE_PAGE_SIZE}`;
+        } else {
+          linksFrom = 0;
+        }
+      }
+
+      // Ссылки - только для текстового запроса без файловых фильтров
+      if (linksFrom !== null && text && !hasFilters) {
+        const room = INLINE_PAGE_SIZE - fileCount;
+        const links = searchLinksWithSnippets(userId, text, room + 1, linksFrom);
+        results.push(...links.slice(0, room).map(buildLinkResult));
+
+        if (links.length > room) {
+          nextOffset = `l:${linksFrom + room}`;
+        }
+      }
+
+      await ctx.answerInlineQuery(results, {
+        cache_time: INLINE_CACHE_TIME_SECONDS,
+        is_personal: true,
+        next_offset: nextOffset,
+        button: { text: t('common.openStorage'), start_parameter: 'inline' },
+      });
+    } catch (error) {
+      console.error('[Inline] Error answering inline query:', error);
+    }
+  });
+}
@@ -0,0 +1,330 @@
+import { Bot, Context, InlineKeyboard } from 'grammy';
+import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { LinksRepository } from '../../db/repositories/links.repository.js';
+import { NotesRepository } from '../../db/repositories/notes.repository.js';
+import { ItemsRepository } from '../../db/repositories/items.repository.js';
+import { File } from '../../db/schema.js';
+import { getMediaEmoji } from '../../services/ingestion.service.js';
+import { parseSearchQuery } from '../../services/search-query.service.js';
+import { sendByFileId } from './retrieval.handler.js';
+import { MediaType } from '../../types/index.js';
+import { Translator, MessageKey, DATE_LOCALES } from '../../i18n/index.js';
+import { getTranslator } from '../locale.js';
+import { BOT_LIST_PAGE_SIZE } from '../../constants.js';
+
+/**
+ * List view: recent | fav | trash | s<id> (search session)
+ */
+type ListView = string;
+
+interface ListPage {
+  title: string;
+  items: File[];
+  page: number;
+  hasNext: boolean;
+  totalPages: number | null; // null - неизвестно (поиск)
+}
+
+const CATEGORY_LABELS: Record<string, MessageKey> = {
+  photo: 'category.photo',
+  video: 'category.video',
+  document: 'category.document',
+  audio: 'category.audio',
+  voice: 'category.voice',
+  video_note: 'category.video_note',
+  animation: 'category.animation',
+  sticker: 'category.sticker',
+};
+
+// Поисковые запросы не влезают в callback_data (64 байта) - храним в памяти
+// После рестарта старые кнопки поиска просят повторить /search
+const SEARCH_SESSIONS_LIMIT = 500;
+const searchSessions = new Map<string, { userId: number; query: string }>();
+let searchSessionCounter = 0;
+
+function createSearchSession(userId: number, query: string): ListView {
+  const id = (++searchSessionCounter).toString(36);
+  searchSessions.set(id, { userId, query });
+  if (searchSessions.size > SEARCH_SESSIONS_LIMIT) {
+    searchSessions.delete(searchSessions.keys().next().value!);
+  }
+  return `s${id}`;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/**
+ * Load one page of a list view
+ * Returns null if the search session is gone (bot restarted)
+ */
+async function loadPage(
+  t: Translator,
+  filesRepo: FilesRepository,
+  userId: number,
+  view: ListView,
+  page: number
+): Promise<ListPage | null> {
+  const offset = page * BOT_LIST_PAGE_SIZE;
+
+  if (view === 'recent') {
+    const { items, total } = await filesRepo.findByUser(userId, { limit: BOT_LIST_PAGE_SIZE, offset });
+    const totalPages = Math.ceil(total / BOT_LIST_PAGE_SIZE);
+    return { title: t('library.recent'), items, page, hasNext: page + 1 < totalPages, totalPages };
+  }
+
+  if (view === 'fav') {
+    const { items, total } = await filesRepo.findFavorites(userId, BOT_LIST_PAGE_SIZE, offset);
+    const totalPages = Math.ceil(total / BOT_LIST_PAGE_SIZE);
+    return { title: t('library.favorites'), items, page, hasNext: page + 1 < totalPages, totalPages };
+  }
+
+  if (view === 'trash') {
+    const deleted = await filesRepo.findDeleted(userId);
+    const totalPages = Math.ceil(deleted.length / BOT_LIST_PAGE_SIZE);
+    const items = deleted.slice(offset, offset + BOT_LIST_PAGE_SIZE);
+    return { title: t('library.trash'), items, page, hasNext: page + 1 < totalPages, totalPages };
+  }
+
+  const session = searchSessions.get(view.slice(1));
+  if (!view.startsWith('s') || !session || session.userId !== userId) {
+    return null;
+  }
+
+  const { text, options } = parseSearchQuery(session.query);
+  const found = filesRepo.searchWithSnippets(userId, text, BOT_LIST_PAGE_SIZE + 1, { ...options, offset });
+  return {
+    title: `🔍 ${session.query}`,
+    items: found.slice(0, BOT_LIST_PAGE_SIZE),
+    page,
+    hasNext: found.length > BOT_LIST_PAGE_SIZE,
+    totalPages: null,
+  };
+}
+
+/**
+ * Render list page: numbered items + keyboard (actions per item, navigation)
+ */
+function renderPage(t: Translator, view: ListView, list: ListPage): { text: string; keyboard: InlineKeyboard } {
+  const keyboard = new InlineKeyboard();
+
+  if (list.items.length === 0) {
+    const emptyText = t(view === 'trash' ? 'library.trashEmpty' : view.startsWith('s') ? 'library.nothingFound' : 'library.empty');
+    return { text: `${list.title}\n\n${emptyText}`, keyboard };
+  }
+
+  const lines = list.items.map((file, i) => {
+    const n = list.page * BOT_LIST_PAGE_SIZE + i + 1;
+    const category = CATEGORY_LABELS[file.mediaType];
+    const name = file.fileName || file.caption?.split('\n')[0].slice(0, 60) || (category ? t(category) : t('common.file'));
+    const details = [
+      file.fileSize ? formatFileSize(file.fileSize) : null,
+      file.createdAt.toLocaleDateString(DATE_LOCALES[t.locale]),
+    ].filter(Boolean).join(' · ');
+    return `${n}. ${getMediaEmoji(file.mediaType as MediaType)} ${name}\n     ${details}`;
+  });
+
+  list.items.forEach((file, i) => {
+    const n = list.page * BOT_LIST_PAGE_SIZE + i + 1;
+    const state = `${view}:${list.page}`;
+
+    if (view === 'trash') {
+      keyboard.text(t('library.restore', { n }), `lib:res:${file.id}:${state}`).row();
+      return;
+    }
+
+    keyboard
+      .text(`📤 ${n}`, `lib:send:${file.id}`)
+      .text(file.isFavorite ? '⭐' : '☆', `lib:fav:${file.id}:${state}`)
+      .text('🗑', `lib:del:${file.id}:${state}`)
+      .row();
+  });
+
+  // Навигация
+  if (list.page > 0 || list.hasNext) {
+    if (list.page > 0) {
+      keyboard.text('◀️', `lib:page:${view}:${list.page - 1}`);
+    }
+    const position = list.totalPages ? `${list.page + 1}/${list.totalPages}` : `${list.page + 1}`;
+    keyboard.text(position, 'lib:noop');
+    if (list.hasNext) {
+      keyboard.text('▶️', `lib:page:${view}:${list.page + 1}`);
+    }
+  }
+
+  return { text: `${list.title}\n\n${lines.join('\n\n')}`, keyboard };
+}
+
+/**
+ * Setup chat-side library commands: /search, /recent, /favorites, /stats, /trash
+ * Quick access without opening the Mini App (e.g. Telegram Desktop)
+ */
+export function setupLibraryHandlers(bot: Bot<Context>): void {
+  const filesRepo = new FilesRepository();
+  const linksRepo = new LinksRepository();
+  const notesRepo = new NotesRepository();
+  const itemsRepo = new ItemsRepository();
+
+  const replyWithList = async (ctx: Context, view: ListView) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const t = await getTranslator(ctx);
+    try {
+      const list = await loadPage(t, filesRepo, userId, view, 0);
+      if (!list) return;
+      const { text, keyboard } = renderPage(t, view, list);
+      await ctx.reply(text, { reply_markup: keyboard });
+    } catch (error) {
+      console.error('[Library] Error rendering list:', error);
+      await ctx.reply(t('library.loadFailed'));
+    }
+  };
+
+  // Re-render list in the same message (after paging or an action)
+  const updateList = async (ctx: Context, t: Translator, userId: number, view: ListView, page: number) => {
+    let list = await loadPage(t, filesRepo, userId, view, page);
+    if (!list) {
+      await ctx.answerCallbackQuery({ text: t('library.searchExpired'), show_alert: true });
+      return false;
+    }
+
+    // Удалили последний элемент на странице - показываем предыдущую
+    if (list.items.length === 0 && page > 0) {
+      list = (await loadPage(t, filesRepo, userId, view, page - 1))!;
+    }
+
+    const { text, keyboard } = renderPage(t, view, list);
+    try {
+      await ctx.editMessageText(text, { reply_markup: keyboard });
+    } catch (error: any) {
+      if (!error.description?.includes('message is not modified')) throw error;
+    }
+    return true;
+  };
+
+  bot.command('search', async (ctx) => {
+    const query = ctx.match.trim();
+    if (!query) {
+      await ctx.reply((await getTranslator(ctx))('library.searchUsage'));
+      return;
+    }
+    await replyWithList(ctx, createSearchSession(ctx.from!.id, query));
+  });
+
+  bot.command('recent', (ctx) => replyWithList(ctx, 'recent'));
+  bot.command('favorites', (ctx) => replyWithList(ctx, 'fav'));
+  bot.command('trash', (ctx) => replyWithList(ctx, 'trash'));
+
+  bot.command('stats', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const t = await getTranslator(ctx);
+    try {
+      const [stats, linksCount, notesCount, favoritesCount, trashCount] = await Promise.all([
+        filesRepo.getCategoryStats(userId),
+        linksRepo.getCount(userId),
+        notesRepo.getCount(userId),
+        filesRepo.getFavoritesCount(userId),
+        filesRepo.getTrashCount(userId),
+      ]);
+
+      const itemCounts = itemsRepo.getCountsByKind(userId);
+      const total = stats.reduce((sum, s) => sum + s.count, 0);
+      const lines = stats
+        .filter(s => s.count > 0)
+        .sort((a, b) => b.count - a.count)
+        .map(s => {
+          const category = CATEGORY_LABELS[s.mediaType];
+          return `${getMediaEmoji(s.mediaType)} ${category ? t(category) : s.mediaType}: ${s.count}`;
+        });
+
+      await ctx.reply([
+        t('stats.title'),
+        '',
+        t('stats.totalFiles', { count: total }),
+        ...lines,
+        t('stats.links', { count: linksCount }),
+        t('stats.notes', { count: notesCount }),
+        t('stats.places', { count: itemCounts.location + itemCounts.venue }),
+        t('stats.contacts', { count: itemCounts.contact }),
+        t('stats.polls', { count: itemCounts.poll }),
+        '',
+        t('stats.favorites', { count: favoritesCount }),
+        t('stats.trash', { count: trashCount }),
+      ].join('\n'));
+    } catch (error) {
+      console.error('[Library] Error fetching stats:', error);
+      await ctx.reply(t('stats.failed'));
+    }
+  });
+
+  bot.callbackQuery('lib:noop', (ctx) => ctx.answerCallbackQuery());
+
+  bot.callbackQuery(/^lib:page:(\w+):(\d+)$/, async (ctx) => {
+    const t = await getTranslator(ctx);
+    try {
+      if (await updateList(ctx, t, ctx.from.id, ctx.match[1], parseInt(ctx.match[2], 10))) {
+        await ctx.answerCallbackQuery();
+      }
+    } catch (error) {
+      console.error('[Library] Paging failed:', error);
+      await ctx.answerCallbackQuery({ text: t('common.error') });
+    }
+  });
+
+  bot.callbackQuery(/^lib:send:(\d+)$/, async (ctx) => {
+    const t = await getTranslator(ctx);
+    const file = await filesRepo.findById(parseInt(ctx.match[1], 10));
+    if (!file || file.userId !== ctx.from.id || file.deletedAt) {
+      await ctx.answerCallbackQuery({ text: t('common.fileNotFound') });
+      return;
+    }
+
+    try {
+      await sendByFileId(ctx, file);
+      await ctx.answerCallbackQuery({ text: t('common.sent') });
+    } catch (error) {
+      console.error('[Library] Send failed:', error);
+      await ctx.answerCallbackQuery({ text: t('common.sendFailed') });
+    }
+  });
+
+  // Действия над файлом: избранное, удаление, восстановление - затем перерисовка списка
+  bot.callbackQuery(/^lib:(fav|del|res):(\d+):(\w+):(\d+)$/, async (ctx) => {
+    const [, action, fileIdStr, view, pageStr] = ctx.match;
+    const userId = ctx.from.id;
+    const fileId = parseInt(fileIdStr, 10);
+    const t = await getTranslator(ctx);
+
+    try {
+      let notice: MessageKey;
+      if (action === 'fav') {
+        const isFavorite = filesRepo.toggleFavorite(fileId, userId);
+        if (isFavorite === null) {
+          await ctx.answerCallbackQuery({ text: t('common.fileNotFound') });
+          return;
+        }
+        notice = isFavorite ? 'edit.favorited' : 'edit.unfavorited';
+      } else if (action === 'del') {
+        const deleted = await filesRepo.softDelete(fileId, userId);
+        notice = deleted ? 'edit.trashed' : 'common.fileNotFound';
+      } else {
+        const restored = await filesRepo.restore(fileId, userId);
+        notice = restored ? 'edit.restored' : 'common.fileNotFound';
+      }
+
+      if (await updateList(ctx, t, userId, view, parseInt(pageStr, 10))) {
+        await ctx.answerCallbackQuery({ text: t(notice) });
+      }
+    } catch (error) {
+      console.error(`[Library] Action ${action} failed:`, error);
+      await ctx.answerCallbackQuery({ text: t('common.error') });
+    }
+  });
+}
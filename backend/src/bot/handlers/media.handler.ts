@@ -1,11 +1,17 @@
 import { Bot, Context } from 'grammy';
-import { IngestionService, getMediaEmoji } from '../../services/ingestion.service.js';
+import { IngestionService, getMediaEmoji, extractAutoTags } from '../../services/ingestion.service.js';
 import { FilesRepository } from '../../db/repositories/files.repository.js';
 import { UsersRepository } from '../../db/repositories/users.repository.js';
+import { TagsRepository } from '../../db/repositories/tags.repository.js';
+import { ItemsRepository } from '../../db/repositories/items.repository.js';
+import { SettingsRepository } from '../../db/repositories/settings.repository.js';
+import { mirrorFile } from '../../services/storage/index.js';
+import { wakeThumbnailWorker } from '../../services/thumbnail-worker.service.js';
 import { MediaType } from '../../types/index.js';
+import { TelegramReaction, confirmSaved, confirmDuplicate } from '../reactions.js';
+import { translatorFor } from '../locale.js';
 
 // Реакции по типу медиа (только поддерживаемые Telegram)
-type TelegramReaction = '👍' | '❤' | '🔥' | '🎉' | '👏' | '😁' | '🤩' | '👀' | '🙏' | '💯';
 const MEDIA_REACTIONS: Record<MediaType, TelegramReaction> = {
   photo: '❤',
   video: '🔥',
@@ -13,7 +19,14 @@ const MEDIA_REACTIONS: Record<MediaType, TelegramReaction> = {
   audio: '🎉',
   voice: '👏',
   video_note: '👀',
+  animation: '😁',
+  sticker: '🤩',
   link: '💯',
+  note: '✍',
+  location: '👌',
+  venue: '👌',
+  contact: '🤝',
+  poll: '🤔',
 };
 
 /**
@@ -23,8 +36,12 @@ export function setupMediaHandlers(bot: Bot<Context>): void {
   const ingestionService = new IngestionService();
   const filesRepo = new FilesRepository();
   const usersRepo = new UsersRepository();
+  const tagsRepo = new TagsRepository();
+  const itemsRepo = new ItemsRepository();
+  const settingsRepo = new SettingsRepository();
 
-  // Universal handler for all media types (animation и sticker игнорируются)
+  // Universal handler for all media types
+  // animation и sticker - только если пользователь включил библиотеку GIF (/gifs)
   bot.on(
     [
       'message:photo',
@@ -33,6 +50,8 @@ export function setupMediaHandlers(bot: Bot<Context>): void {
       'message:audio',
       'message:voice',
       'message:video_note',
+      'message:animation',
+      'message:sticker',
     ],
     async (ctx) => {
       const msg = ctx.message;
@@ -49,10 +68,16 @@ export function setupMediaHandlers(bot: Bot<Context>): void {
         language_code: ctx.from.language_code,
       });
 
+      const settings = await settingsRepo.get(userId);
+      const t = translatorFor(ctx, settings);
+
+      // Стикеры без включённой библиотеки молча пропускаем
+      if (msg.sticker && !settings.saveStickers) return;
+
       // Extract media metadata
-      const media = ingestionService.extractMedia(msg);
+      const media = ingestionService.extractMedia(msg, { stickerLibrary: settings.saveStickers });
       if (!media) {
-        await ctx.reply('❌ Не удалось обработать файл');
+        await ctx.reply(t('save.fileFailed'));
         return;
       }
 
@@ -72,30 +97,92 @@ export function setupMediaHandlers(bot: Bot<Context>): void {
         height: media.height,
         thumbnailFileId: media.thumbnailFileId,
         caption: media.caption,
+        captionEntities: media.captionEntities,
+        emoji: media.emoji,
         forwardFromName: media.forwardFromName,
         forwardFromChatTitle: media.forwardFromChatTitle,
+        mediaGroupId: media.mediaGroupId,
       });
 
       if (!savedFile) {
         // Duplicate file - ставим реакцию "уже есть"
-        try {
-          await ctx.react('👀');
-        } catch {
-          // Если реакции не поддерживаются - отвечаем текстом
-          await ctx.reply('📁 Уже сохранён');
-        }
+        await confirmDuplicate(ctx, settings, t('save.duplicateFile'));
         return;
       }
 
-      // Успешно сохранено - ставим тематическую реакцию
-      const reaction = MEDIA_REACTIONS[media.mediaType as MediaType] || '✅';
-      try {
-        await ctx.react(reaction);
-      } catch {
-        // Если реакции не поддерживаются - отвечаем текстом
-        const emoji = getMediaEmoji(media.mediaType);
-        await ctx.reply(`${emoji} Сохранено!`);
+      // Auto-tags из #хештегов и канала-источника
+      if (media.tags && media.tags.length > 0) {
+        tagsRepo.addToFiles([savedFile.id], userId, media.tags);
+      }
+
+      // Альбом: каждое фото приходит отдельным сообщением, подпись - только у одного
+      // Копируем подпись и её #теги на все файлы альбома
+      if (media.mediaGroupId) {
+        const groupCaption = filesRepo.syncGroupCaption(userId, media.mediaGroupId);
+        if (groupCaption) {
+          const groupTags = extractAutoTags(groupCaption, undefined, undefined);
+          tagsRepo.addToFiles(filesRepo.getGroupFileIds(userId, media.mediaGroupId), userId, groupTags);
+        }
+      }
+
+      // Mirror mode: копия во вторичное хранилище (в фоне, не задерживаем ответ)
+      mirrorFile(savedFile).catch((error) => {
+        console.error('[Storage] Failed to mirror file:', savedFile.id, error);
+      });
+
+      // Telegram не прислал превью - сгенерируем сами
+      if (!savedFile.thumbnailFileId && savedFile.mediaType !== 'photo') {
+        wakeThumbnailWorker();
       }
+
+      // Успешно сохранено - ставим тематическую реакцию
+      const reaction = MEDIA_REACTIONS[media.mediaType as MediaType] || '👍';
+      await confirmSaved(ctx, settings, reaction, t('save.saved', { emoji: getMediaEmoji(media.mediaType) }));
     }
   );
+
+  // Structured messages: geo points, venues, contacts, polls (venue also matches message:location)
+  bot.on(['message:location', 'message:contact', 'message:poll'], async (ctx) => {
+    const msg = ctx.message;
+    const userId = ctx.from?.id;
+
+    if (!userId) return;
+
+    await usersRepo.upsert({
+      id: userId,
+      first_name: ctx.from.first_name,
+      last_name: ctx.from.last_name,
+      username: ctx.from.username,
+      language_code: ctx.from.language_code,
+    });
+
+    const settings = await settingsRepo.get(userId);
+    const t = translatorFor(ctx, settings);
+
+    const item = ingestionService.extractItem(msg);
+    if (!item) {
+      await ctx.reply(t('save.messageFailed'));
+      return;
+    }
+
+    const savedItem = await itemsRepo.create({
+      userId,
+      kind: item.kind,
+      title: item.title,
+      description: item.description,
+      details: item.details,
+      data: JSON.stringify(item.data),
+      originalMessageId: msg.message_id,
+      chatId: msg.chat.id,
+      forwardFromName: item.forwardFromName,
+      forwardFromChatTitle: item.forwardFromChatTitle,
+    });
+
+    if (!savedItem) {
+      await confirmDuplicate(ctx, settings, t('save.duplicate'));
+      return;
+    }
+
+    await confirmSaved(ctx, settings, MEDIA_REACTIONS[item.kind], t('save.saved', { emoji: getMediaEmoji(item.kind) }));
+  });
 }
@@ -1,6 +1,8 @@
 import { Bot, Context } from 'grammy';
 import { FilesRepository } from '../../db/repositories/files.repository.js';
 import { MediaType } from '../../types/index.js';
+import { parseEntities } from '../../services/message-entities.service.js';
+import { getTranslator } from '../locale.js';
 
 /**
  * Setup handlers for file retrieval (sending files back to user)
@@ -16,16 +18,17 @@ export function setupRetrievalHandlers(bot: Bot<Context>): void {
 
     const fileId = parseInt(data.replace('send_file:', ''), 10);
     const userId = ctx.from?.id;
+    const t = await getTranslator(ctx);
 
     if (!userId || isNaN(fileId)) {
-      await ctx.answerCallbackQuery({ text: 'Ошибка' });
+      await ctx.answerCallbackQuery({ text: t('common.error') });
       return;
     }
 
     const file = await filesRepo.findById(fileId);
 
     if (!file || file.userId !== userId) {
-      await ctx.answerCallbackQuery({ text: 'Файл не найден' });
+      await ctx.answerCallbackQuery({ text: t('common.fileNotFound') });
       return;
     }
 
@@ -33,10 +36,10 @@ export function setupRetrievalHandlers(bot: Bot<Context>): void {
       // Всегда используем sendByFileId чтобы отправить наш caption из БД
       // (copyMessage отправляет оригинальный caption, игнорируя наш)
       await sendByFileId(ctx, file);
-      await ctx.answerCallbackQuery({ text: '✅ Отправлено!' });
+      await ctx.answerCallbackQuery({ text: t('common.sent') });
     } catch (error) {
       console.error('[Retrieval] Send by file_id failed:', error);
-      await ctx.answerCallbackQuery({ text: '❌ Не удалось отправить' });
+      await ctx.answerCallbackQuery({ text: t('common.sendFailed') });
     }
   });
 
@@ -44,22 +47,23 @@ export function setupRetrievalHandlers(bot: Bot<Context>): void {
   bot.command('get', async (ctx) => {
     const fileIdStr = ctx.match;
     const userId = ctx.from?.id;
+    const t = await getTranslator(ctx);
 
     if (!fileIdStr || !userId) {
-      await ctx.reply('Использование: /get <id файла>');
+      await ctx.reply(t('get.usage'));
       return;
     }
 
     const fileId = parseInt(fileIdStr, 10);
     if (isNaN(fileId)) {
-      await ctx.reply('Неверный ID файла');
+      await ctx.reply(t('get.invalidId'));
       return;
     }
 
     const file = await filesRepo.findById(fileId);
 
     if (!file || file.userId !== userId) {
-      await ctx.reply('Файл не найден');
+      await ctx.reply(t('common.fileNotFound'));
       return;
     }
 
@@ -68,7 +72,7 @@ export function setupRetrievalHandlers(bot: Bot<Context>): void {
       await sendByFileId(ctx, file);
     } catch (error) {
       console.error('[Retrieval] /get command failed:', error);
-      await ctx.reply('Не удалось отправить файл');
+      await ctx.reply(t('get.sendFailed'));
     }
   });
 }
@@ -76,12 +80,13 @@ export function setupRetrievalHandlers(bot: Bot<Context>): void {
 /**
  * Send file by file_id based on media type
  */
-async function sendByFileId(
+export async function sendByFileId(
   ctx: Context,
-  file: { fileId: string; mediaType: string; caption?: string | null }
+  file: { fileId: string; mediaType: string; caption?: string | null; captionEntities?: string | null }
 ): Promise<void> {
   const options = {
     caption: file.caption || undefined,
+    caption_entities: file.caption ? parseEntities(file.captionEntities) : undefined,
   };
 
   switch (file.mediaType as MediaType) {
@@ -103,6 +108,12 @@ async function sendByFileId(
     case 'video_note':
       await ctx.replyWithVideoNote(file.fileId);
       break;
+    case 'animation':
+      await ctx.replyWithAnimation(file.fileId, options);
+      break;
+    case 'sticker':
+      await ctx.replyWithSticker(file.fileId);
+      break;
     default:
       await ctx.replyWithDocument(file.fileId, options);
   }
@@ -0,0 +1,139 @@
+import { Bot, Context, InlineKeyboard } from 'grammy';
+import { UsersRepository } from '../../db/repositories/users.repository.js';
+import { SettingsRepository } from '../../db/repositories/settings.repository.js';
+import { UserSettings, Locale } from '../../types/index.js';
+import { Translator } from '../../i18n/index.js';
+import { translatorFor } from '../locale.js';
+import { TRASH_RETENTION_PRESETS, SHARE_EXPIRY_PRESETS } from '../../constants.js';
+
+type BooleanSetting = 'silentMode' | 'saveLinks' | 'saveStickers' | 'notifyDuplicates';
+
+// callback_data -> переключаемая настройка
+const TOGGLES: Record<string, BooleanSetting> = {
+  silent: 'silentMode',
+  links: 'saveLinks',
+  gifs: 'saveStickers',
+  dups: 'notifyDuplicates',
+};
+
+// Выбор языка по кругу: как в Telegram -> русский -> английский
+const LANGUAGE_PRESETS: (Locale | null)[] = [null, 'ru', 'en'];
+
+function formatShareExpiry(t: Translator, hours: number | null): string {
+  if (hours === null) return t('settings.never');
+  return hours % 24 === 0 ? t('common.days', { count: hours / 24 }) : t('common.hours', { count: hours });
+}
+
+function formatLanguage(t: Translator, language: Locale | null): string {
+  return language ? t(`settings.languageName.${language}`) : t('settings.languageAuto');
+}
+
+// Следующее значение по кругу (значение не из списка - первое)
+function nextPreset<T>(presets: readonly T[], current: unknown): T {
+  return presets[(presets.findIndex(value => value === current) + 1) % presets.length];
+}
+
+/**
+ * Settings message: short description + one button per setting (tap = toggle / next value)
+ */
+function renderSettings(t: Translator, settings: UserSettings): { text: string; keyboard: InlineKeyboard } {
+  const onOff = (value: boolean) => t(value ? 'common.on' : 'common.off');
+
+  const keyboard = new InlineKeyboard()
+    .text(t('settings.silentMode', { value: onOff(settings.silentMode) }), 'settings:silent').row()
+    .text(t('settings.saveLinks', { value: onOff(settings.saveLinks) }), 'settings:links').row()
+    .text(t('settings.saveStickers', { value: onOff(settings.saveStickers) }), 'settings:gifs').row()
+    .text(t('settings.notifyDuplicates', { value: onOff(settings.notifyDuplicates) }), 'settings:dups').row()
+    .text(t('settings.trashRetention', { value: t('common.days', { count: settings.trashRetentionDays }) }), 'settings:trash').row()
+    .text(t('settings.shareExpiry', { value: formatShareExpiry(t, settings.defaultShareExpiryHours) }), 'settings:share').row()
+    .text(t('settings.language', { value: formatLanguage(t, settings.language) }), 'settings:lang');
+
+  const text = [t('settings.title'), '', t('settings.description')].join('\n');
+
+  return { text, keyboard };
+}
+
+/**
+ * Setup /settings menu (inline keyboard) and /gifs shortcut
+ * The same settings are available in the Mini App (GET/PATCH /api/settings)
+ */
+export function setupSettingsHandlers(bot: Bot<Context>): void {
+  const usersRepo = new UsersRepository();
+  const settingsRepo = new SettingsRepository();
+
+  // Строка user_settings ссылается на users - создаём пользователя заранее
+  const ensureUser = (ctx: Context) => usersRepo.upsert({
+    id: ctx.from!.id,
+    first_name: ctx.from!.first_name,
+    last_name: ctx.from!.last_name,
+    username: ctx.from!.username,
+    language_code: ctx.from!.language_code,
+  });
+
+  bot.command('settings', async (ctx) => {
+    if (!ctx.from) return;
+
+    try {
+      await ensureUser(ctx);
+      const settings = await settingsRepo.get(ctx.from.id);
+      const { text, keyboard } = renderSettings(translatorFor(ctx, settings), settings);
+      await ctx.reply(text, { reply_markup: keyboard });
+    } catch (error) {
+      console.error('[Settings] Error rendering settings:', error);
+      await ctx.reply(translatorFor(ctx)('settings.loadFailed'));
+    }
+  });
+
+  bot.callbackQuery(/^settings:(\w+)$/, async (ctx) => {
+    const key = ctx.match[1];
+    const userId = ctx.from.id;
+
+    try {
+      await ensureUser(ctx);
+      const current = await settingsRepo.get(userId);
+
+      let changes: Partial<UserSettings>;
+      if (TOGGLES[key]) {
+        changes = { [TOGGLES[key]]: !current[TOGGLES[key]] };
+      } else if (key === 'trash') {
+        changes = { trashRetentionDays: nextPreset(TRASH_RETENTION_PRESETS, current.trashRetentionDays) };
+      } else if (key === 'share') {
+        changes = { defaultShareExpiryHours: nextPreset(SHARE_EXPIRY_PRESETS, current.defaultShareExpiryHours) };
+      } else if (key === 'lang') {
+        changes = { language: nextPreset(LANGUAGE_PRESETS, current.language) };
+      } else {
+        await ctx.answerCallbackQuery();
+        return;
+      }
+
+      // Меню перерисовывается уже на новом языке
+      const settings = await settingsRepo.update(userId, changes);
+      const t = translatorFor(ctx, settings);
+      const { text, keyboard } = renderSettings(t, settings);
+      await ctx.editMessageText(text, { reply_markup: keyboard });
+      await ctx.answerCallbackQuery({ text: t('settings.saved') });
+    } catch (error) {
+      console.error(`[Settings] Failed to change ${key}:`, error);
+      await ctx.answerCallbackQuery({ text: translatorFor(ctx)('common.error') });
+    }
+  });
+
+  // /gifs [on|off] - библиотека GIF и стикеров (без аргумента - переключить)
+  bot.command('gifs', async (ctx) => {
+    if (!ctx.from) return;
+
+    try {
+      await ensureUser(ctx);
+      const current = await settingsRepo.get(ctx.from.id);
+
+      const arg = ctx.match.trim().toLowerCase();
+      const enabled = arg === 'on' ? true : arg === 'off' ? false : !current.saveStickers;
+      await settingsRepo.update(ctx.from.id, { saveStickers: enabled });
+
+      await ctx.reply(translatorFor(ctx, current)(enabled ? 'gifs.enabled' : 'gifs.disabled'));
+    } catch (error) {
+      console.error('[Settings] Error toggling sticker library:', error);
+      await ctx.reply(translatorFor(ctx)('settings.changeFailed'));
+    }
+  });
+}
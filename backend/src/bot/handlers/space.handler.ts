@@ -0,0 +1,233 @@
+import { Bot, Context } from 'grammy';
+import { ChatMember, User } from '@grammyjs/types';
+import { IngestionService, extractAutoTags } from '../../services/ingestion.service.js';
+import { LinkParserService } from '../../services/link-parser.service.js';
+import { SpacesRepository } from '../../db/repositories/spaces.repository.js';
+import { UsersRepository } from '../../db/repositories/users.repository.js';
+import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { LinksRepository } from '../../db/repositories/links.repository.js';
+import { TagsRepository } from '../../db/repositories/tags.repository.js';
+import { mirrorFile } from '../../services/storage/index.js';
+import { wakeThumbnailWorker } from '../../services/thumbnail-worker.service.js';
+import { enqueueJob } from '../../services/job-queue.service.js';
+import { Space } from '../../db/schema.js';
+import { SpaceRole } from '../../types/index.js';
+
+// В пространства попадают только файлы - голосовые, кружки, GIF и стикеры в рабочих чатах это переписка
+const SPACE_MEDIA = ['photo', 'video', 'document', 'audio'] as const;
+
+/**
+ * Chat member status -> role in the space (null - not a member anymore)
+ */
+function roleFromStatus(member: ChatMember): SpaceRole | null {
+  switch (member.status) {
+    case 'creator':
+    case 'administrator':
+      return 'admin';
+    case 'member':
+      return 'member';
+    case 'restricted':
+      return member.is_member ? 'member' : null;
+    default:
+      return null; // left, kicked
+  }
+}
+
+/**
+ * Setup handlers for groups and channels: content posted there goes to the shared space of the chat
+ * Must be registered before private chat handlers - group messages stop here
+ */
+export function setupSpaceHandlers(bot: Bot<Context>): void {
+  const ingestionService = new IngestionService();
+  const linkParser = new LinkParserService();
+  const spacesRepo = new SpacesRepository();
+  const usersRepo = new UsersRepository();
+  const filesRepo = new FilesRepository();
+  const linksRepo = new LinksRepository();
+  const tagsRepo = new TagsRepository();
+
+  const saveUser = (user: User) => usersRepo.upsert({
+    id: user.id,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    username: user.username,
+    language_code: user.language_code,
+  });
+
+  /**
+   * Administrators of the chat become admins of the space
+   * (for channels the bot must be an administrator itself)
+   */
+  const syncAdministrators = async (ctx: Context, spaceId: number) => {
+    try {
+      const administrators = await ctx.api.getChatAdministrators(spaceId);
+      const people = administrators.filter(member => !member.user.is_bot);
+      for (const member of people) {
+        await saveUser(member.user);
+      }
+      await spacesRepo.syncAdmins(spaceId, people.map(member => member.user.id));
+    } catch (error) {
+      console.error('[Spaces] Failed to load administrators:', spaceId, error);
+    }
+  };
+
+  /**
+   * Space of the current chat; created on the first message if the bot
+   * was added before spaces existed, reactivated if the bot is back
+   */
+  const ensureSpace = async (ctx: Context): Promise<Space | null> => {
+    const chat = ctx.chat;
+    if (!chat || chat.type === 'private') return null;
+
+    const existing = await spacesRepo.findById(chat.id);
+    if (existing?.isActive && existing.title === chat.title) return existing;
+
+    const space = await spacesRepo.upsert({ id: chat.id, type: chat.type, title: chat.title });
+    if (!existing) {
+      await syncAdministrators(ctx, space.id);
+    }
+    return space;
+  };
+
+  /**
+   * Sender of a group message joins the space as a member
+   * (anonymous admins and channel signatures come from bots - skipped)
+   */
+  const addSender = async (ctx: Context, spaceId: number) => {
+    const from = ctx.from;
+    if (!from || from.is_bot) return;
+
+    await saveUser(from);
+    await spacesRepo.addMember(spaceId, from.id);
+  };
+
+  // Бота добавили / удалили / повысили в группе или канале
+  bot.on('my_chat_member', async (ctx) => {
+    const chat = ctx.chat;
+    if (chat.type === 'private') return; // пользователь заблокировал / разблокировал бота
+
+    const status = ctx.myChatMember.new_chat_member.status;
+    if (status === 'left' || status === 'kicked') {
+      await spacesRepo.deactivate(chat.id);
+      console.log('[Spaces] Bot removed from', chat.id);
+      return;
+    }
+
+    await saveUser(ctx.myChatMember.from);
+    const space = await spacesRepo.upsert(
+      { id: chat.id, type: chat.type, title: chat.title },
+      ctx.myChatMember.from.id
+    );
+    await syncAdministrators(ctx, space.id);
+    // Добавивший бота видит пространство, даже если он не администратор
+    await addSender(ctx, space.id);
+    console.log('[Spaces] Bot added to', chat.type, chat.id, 'as', status);
+  });
+
+  // Участники чата (нужен allowed_updates: chat_member и бот-администратор)
+  bot.on('chat_member', async (ctx) => {
+    const member = ctx.chatMember.new_chat_member;
+    if (member.user.is_bot) return;
+
+    const space = await spacesRepo.findById(ctx.chat.id);
+    if (!space) return;
+
+    const role = roleFromStatus(member);
+    if (role) {
+      await saveUser(member.user);
+      await spacesRepo.setMember(space.id, member.user.id, role);
+    } else {
+      await spacesRepo.removeMember(space.id, member.user.id);
+    }
+  });
+
+  const spaceChats = bot.chatType(['group', 'supergroup', 'channel']);
+
+  // Файлы из группы или канала - в пространство чата (молча, без реакций и ответов)
+  spaceChats.on(
+    SPACE_MEDIA.flatMap(type => [`message:${type}`, `channel_post:${type}`] as const),
+    async (ctx) => {
+      const msg = ctx.msg;
+      // GIF приходит и с полем document
+      if (msg.animation) return;
+
+      const space = await ensureSpace(ctx);
+      if (!space) return;
+      await addSender(ctx, space.id);
+
+      const media = ingestionService.extractMedia(msg);
+      if (!media) return;
+
+      const savedFile = await filesRepo.create({
+        userId: space.id,
+        fileId: media.fileId,
+        fileUniqueId: media.fileUniqueId,
+        originalMessageId: msg.message_id,
+        chatId: msg.chat.id,
+        mediaType: media.mediaType,
+        mimeType: media.mimeType,
+        fileName: media.fileName,
+        fileSize: media.fileSize,
+        duration: media.duration,
+        width: media.width,
+        height: media.height,
+        thumbnailFileId: media.thumbnailFileId,
+        caption: media.caption,
+        captionEntities: media.captionEntities,
+        forwardFromName: media.forwardFromName,
+        forwardFromChatTitle: media.forwardFromChatTitle,
+        mediaGroupId: media.mediaGroupId,
+      });
+
+      // Тот же файл уже есть в пространстве
+      if (!savedFile) return;
+
+      if (media.tags && media.tags.length > 0) {
+        tagsRepo.addToFiles([savedFile.id], space.id, media.tags);
+      }
+
+      // Альбом: подпись только у одного сообщения (как в media.handler.ts)
+      if (media.mediaGroupId) {
+        const groupCaption = filesRepo.syncGroupCaption(space.id, media.mediaGroupId);
+        if (groupCaption) {
+          const groupTags = extractAutoTags(groupCaption, undefined, undefined);
+          tagsRepo.addToFiles(filesRepo.getGroupFileIds(space.id, media.mediaGroupId), space.id, groupTags);
+        }
+      }
+
+      mirrorFile(savedFile).catch((error) => {
+        console.error('[Storage] Failed to mirror file:', savedFile.id, error);
+      });
+
+      if (!savedFile.thumbnailFileId && savedFile.mediaType !== 'photo') {
+        wakeThumbnailWorker();
+      }
+    }
+  );
+
+  // Ссылки из группы или канала; текст без ссылок - обычная переписка, не сохраняем
+  spaceChats.on(['message:text', 'channel_post:text'], async (ctx) => {
+    const urls = linkParser.extractUrls(ctx.msg.text);
+    if (urls.length === 0) return;
+
+    const space = await ensureSpace(ctx);
+    if (!space) return;
+    await addSender(ctx, space.id);
+
+    const savedIds: number[] = [];
+    for (const url of urls) {
+      if (await linksRepo.findByUrl(space.id, url)) continue;
+
+      const link = await linksRepo.create({ userId: space.id, url });
+      savedIds.push(link.id);
+    }
+
+    // Превью (OpenGraph) - в фоне
+    if (savedIds.length > 0) {
+      await enqueueJob('parse_links', { linkIds: savedIds }, { userId: space.id, total: savedIds.length });
+    }
+  });
+
+  // Остальные сообщения групп и каналов не доходят до обработчиков личного чата
+  spaceChats.on(['message', 'channel_post'], () => {});
+}
@@ -2,34 +2,154 @@ import { Bot, Context } from 'grammy';
 import { LinkParserService } from '../../services/link-parser.service.js';
 import { LinksRepository } from '../../db/repositories/links.repository.js';
 import { UsersRepository } from '../../db/repositories/users.repository.js';
+import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { NotesRepository } from '../../db/repositories/notes.repository.js';
+import { SettingsRepository } from '../../db/repositories/settings.repository.js';
+import { TagsRepository, normalizeTag } from '../../db/repositories/tags.repository.js';
+import { IngestionService, extractAutoTags } from '../../services/ingestion.service.js';
+import { sliceEntities } from '../../services/message-entities.service.js';
+import { enqueueJob } from '../../services/job-queue.service.js';
+import { TelegramReaction, reactOrReply, confirmSaved, confirmDuplicate } from '../reactions.js';
+import { getTranslator, translatorFor } from '../locale.js';
+import { DEFAULT_CAPTION_LIMIT } from '../../constants.js';
 
 // Реакция для ссылок (как в media.handler.ts)
-type TelegramReaction = '👍' | '❤' | '🔥' | '🎉' | '👏' | '😁' | '🤩' | '👀' | '🙏' | '💯';
 const LINK_REACTION: TelegramReaction = '💯';
+const NOTE_REACTION: TelegramReaction = '✍';
+// Ссылка не сохранена (автосохранение ссылок выключено)
+const LINK_SKIPPED_REACTION: TelegramReaction = '🤷';
 
 /**
- * Setup handlers for text messages (for URL extraction)
+ * Metadata edit sent as a reply to a saved message:
+ *   #work #invoice -#old  - add / remove tags
+ *   caption: новый текст  - replace caption (пустой - удалить)
+ *   /fav, /del            - toggle favorite, move to trash
+ */
+type MetadataEdit =
+  | { kind: 'tags'; add: string[]; remove: string[] }
+  | { kind: 'caption'; caption: string | null; offset: number }
+  | { kind: 'favorite' }
+  | { kind: 'delete' };
+
+function parseMetadataEdit(text: string): MetadataEdit | null {
+  const trimmed = text.trim();
+
+  const command = trimmed.match(/^\/(fav|del)(?:@\w+)?$/i);
+  if (command) {
+    return command[1].toLowerCase() === 'fav' ? { kind: 'favorite' } : { kind: 'delete' };
+  }
+
+  const captionMatch = trimmed.match(/^(?:caption|подпись):([\s\S]*)$/i);
+  if (captionMatch) {
+    const caption = captionMatch[1].trim() || null;
+    // Позиция подписи в исходном тексте - для переноса форматирования (после неё только пробелы)
+    return { kind: 'caption', caption, offset: caption ? text.lastIndexOf(caption) : 0 };
+  }
+
+  // Только хештеги - иначе это обычное сообщение
+  const words = trimmed.split(/\s+/);
+  const add: string[] = [];
+  const remove: string[] = [];
+  for (const word of words) {
+    const isRemoval = word.startsWith('-#');
+    if (!isRemoval && !word.startsWith('#')) return null;
+    const tag = normalizeTag(isRemoval ? word.slice(1) : word);
+    if (!tag) return null;
+    (isRemoval ? remove : add).push(tag);
+  }
+  return { kind: 'tags', add, remove };
+}
+
+/**
+ * Setup handlers for text messages: URLs are saved as links, other text as notes
  */
 export function setupTextHandlers(bot: Bot<Context>): void {
   const linkParser = new LinkParserService();
   const linksRepo = new LinksRepository();
   const usersRepo = new UsersRepository();
+  const filesRepo = new FilesRepository();
+  const tagsRepo = new TagsRepository();
+  const notesRepo = new NotesRepository();
+  const settingsRepo = new SettingsRepository();
+  const ingestionService = new IngestionService();
+
+  /**
+   * Apply metadata edit to the file saved from the replied message
+   * Returns false if the text is not an edit command
+   */
+  const handleReplyEdit = async (ctx: Context, userId: number, text: string, repliedMessageId: number) => {
+    const edit = parseMetadataEdit(text);
+    if (!edit) return false;
 
-  // Handle text messages with URLs
+    const t = await getTranslator(ctx);
+    const file = await filesRepo.findByMessage(userId, ctx.chat!.id, repliedMessageId);
+    if (!file) {
+      await reactOrReply(ctx, '🤷', t('edit.notSaved'));
+      return true;
+    }
+
+    switch (edit.kind) {
+      case 'tags': {
+        tagsRepo.addToFiles([file.id], userId, edit.add);
+        tagsRepo.removeFromFiles([file.id], userId, edit.remove);
+        const tags = tagsRepo.getForFile(file.id).map(tag => `#${tag}`).join(' ');
+        await reactOrReply(ctx, '👌', t('edit.tags', { tags: tags || t('common.none') }));
+        break;
+      }
+
+      case 'caption': {
+        if (edit.caption && edit.caption.length > DEFAULT_CAPTION_LIMIT) {
+          await ctx.reply(t('edit.captionTooLong', { limit: DEFAULT_CAPTION_LIMIT }));
+          break;
+        }
+        // Форматирование берём из сообщения с новой подписью
+        const entities = edit.caption
+          ? sliceEntities(ctx.message?.entities, edit.offset, edit.offset + edit.caption.length) ?? []
+          : undefined;
+        filesRepo.updateCaption([file.id], userId, edit.caption, entities, 'telegram');
+        // #хештеги из новой подписи - в теги (как при сохранении)
+        tagsRepo.addToFiles([file.id], userId, extractAutoTags(edit.caption, undefined, undefined));
+        await reactOrReply(ctx, '✍', t('edit.captionUpdated'));
+        break;
+      }
+
+      case 'favorite': {
+        const isFavorite = filesRepo.toggleFavorite(file.id, userId);
+        await reactOrReply(ctx, isFavorite ? '❤' : '👌', t(isFavorite ? 'edit.favorited' : 'edit.unfavorited'));
+        break;
+      }
+
+      case 'delete': {
+        await filesRepo.softDelete(file.id, userId);
+        await reactOrReply(ctx, '👌', t('edit.trashed'));
+        break;
+      }
+    }
+
+    return true;
+  };
+
+  // Handle text messages: links, notes and metadata edits in replies
   bot.on('message:text', async (ctx) => {
     const text = ctx.message.text;
     const userId = ctx.from?.id;
 
     if (!userId) return;
 
-    // Extract URLs from text
-    const urls = linkParser.extractUrls(text);
+    // Ответ на сохранённое сообщение - правка подписи, тегов, избранного
+    const repliedMessageId = ctx.message.reply_to_message?.message_id;
+    if (repliedMessageId && await handleReplyEdit(ctx, userId, text, repliedMessageId)) {
+      return;
+    }
 
-    if (urls.length === 0) {
-      // No URLs found, ignore the message
+    // Неизвестные команды не сохраняем
+    if (ctx.message.entities?.some(e => e.type === 'bot_command' && e.offset === 0)) {
       return;
     }
 
+    // Extract URLs from text
+    const urls = linkParser.extractUrls(text);
+
     // Ensure user exists in DB
     await usersRepo.upsert({
       id: userId,
@@ -39,46 +159,62 @@ export function setupTextHandlers(bot: Bot<Context>): void {
       language_code: ctx.from.language_code,
     });
 
-    // Parse OpenGraph for each URL
-    const parsedLinks = await linkParser.parseMultipleUrls(urls);
+    const settings = await settingsRepo.get(userId);
+    const t = translatorFor(ctx, settings);
+
+    // Автосохранение ссылок выключено - сообщение со ссылками не сохраняем ни ссылкой, ни заметкой
+    if (urls.length > 0 && !settings.saveLinks) {
+      if (!settings.silentMode) {
+        await reactOrReply(ctx, LINK_SKIPPED_REACTION, t('save.linksDisabled'));
+      }
+      return;
+    }
+
+    // Без ссылок - сохраняем как заметку (с форматированием)
+    if (urls.length === 0) {
+      const note = ingestionService.extractNote(ctx.message);
+      if (!note) return;
 
-    // Save links to database
-    let savedNew = 0;
+      const savedNote = await notesRepo.create({
+        userId,
+        text: note.text,
+        entities: note.entities,
+        originalMessageId: ctx.message.message_id,
+        chatId: ctx.chat.id,
+        forwardFromName: note.forwardFromName,
+        forwardFromChatTitle: note.forwardFromChatTitle,
+      });
+
+      if (savedNote) {
+        await confirmSaved(ctx, settings, NOTE_REACTION, t('save.noteSaved'));
+      } else {
+        await confirmDuplicate(ctx, settings, t('save.duplicateNote'));
+      }
+      return;
+    }
+
+    // Save links to database (OpenGraph preview is parsed in background)
+    const savedIds: number[] = [];
     let duplicates = 0;
 
-    for (const link of parsedLinks) {
+    for (const url of urls) {
       // Check for duplicate
-      const existing = await linksRepo.findByUrl(userId, link.url);
+      const existing = await linksRepo.findByUrl(userId, url);
       if (existing) {
         duplicates++;
         continue;
       }
 
-      await linksRepo.create({
-        userId,
-        url: link.url,
-        title: link.title,
-        description: link.description,
-        imageUrl: link.imageUrl,
-        siteName: link.siteName,
-      });
-      savedNew++;
+      const link = await linksRepo.create({ userId, url });
+      savedIds.push(link.id);
     }
 
     // Реакция вместо сообщения (как для файлов)
-    try {
-      if (savedNew > 0) {
-        await ctx.react(LINK_REACTION);
-      } else if (duplicates > 0) {
-        await ctx.react('👀'); // Уже сохранено
-      }
-    } catch {
-      // Fallback если реакции не поддерживаются
-      if (savedNew > 0) {
-        await ctx.reply(`🔗 Сохранено: ${savedNew}`);
-      } else if (duplicates > 0) {
-        await ctx.reply('📁 Уже сохранены');
-      }
+    if (savedIds.length > 0) {
+      await enqueueJob('parse_links', { linkIds: savedIds }, { userId, total: savedIds.length });
+      await confirmSaved(ctx, settings, LINK_REACTION, t('save.linksSaved', { count: savedIds.length }));
+    } else if (duplicates > 0) {
+      await confirmDuplicate(ctx, settings, t('save.duplicateLinks'));
     }
   });
 }
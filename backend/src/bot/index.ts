@@ -1,11 +1,21 @@
-import { Bot, GrammyError, HttpError } from 'grammy';
+import { Bot, BotError, Context, GrammyError, HttpError, API_CONSTANTS, webhookCallback } from 'grammy';
 import { config } from '../config.js';
 import { setupMediaHandlers } from './handlers/media.handler.js';
 import { setupTextHandlers } from './handlers/text.handler.js';
 import { setupRetrievalHandlers } from './handlers/retrieval.handler.js';
+import { setupInlineHandlers } from './handlers/inline.handler.js';
+import { setupLibraryHandlers } from './handlers/library.handler.js';
+import { setupSettingsHandlers } from './handlers/settings.handler.js';
+import { setupSpaceHandlers } from './handlers/space.handler.js';
+import { setupEditHandlers } from './handlers/edit.handler.js';
+import { sequentializeByChat } from './sequentialize.js';
 import { FilesRepository } from '../db/repositories/files.repository.js';
 import { UsersRepository } from '../db/repositories/users.repository.js';
 import { MediaType } from '../types/index.js';
+import { getSendMethodByFileId } from './send-method.js';
+import { parseEntities } from '../services/message-entities.service.js';
+import { getTranslator } from './locale.js';
+import { MessageKey, LOCALES, createTranslator } from '../i18n/index.js';
 import {
   getShareByToken,
   getFileForShare,
@@ -18,7 +28,7 @@ import {
 } from '../db/index.js';
 
 // Create bot instance
-export const bot = new Bot(config.botToken);
+export const bot = new Bot(config.botToken, { client: { apiRoot: config.bot.apiRoot } });
 
 // Users repository for ensuring users exist (foreign key requirement)
 const usersRepo = new UsersRepository();
@@ -28,7 +38,7 @@ const usersRepo = new UsersRepository();
  */
 interface ShareValidationResult {
   valid: boolean;
-  error?: string;
+  error?: MessageKey;
   share?: FileShare;
   file?: FileForShare;
 }
@@ -40,68 +50,44 @@ function validateShare(token: string, recipientId: number): ShareValidationResul
   // Get share by token
   const share = getShareByToken(token);
   if (!share) {
-    return { valid: false, error: '❌ Ссылка недействительна или истекла' };
+    return { valid: false, error: 'share.invalid' };
   }
 
   // Check expiration
   const now = Math.floor(Date.now() / 1000);
   if (share.expires_at !== null && share.expires_at <= now) {
-    return { valid: false, error: '❌ Срок действия ссылки истёк' };
+    return { valid: false, error: 'share.expired' };
   }
 
   // Check max recipients limit
   if (share.max_recipients !== null && share.use_count >= share.max_recipients) {
-    return { valid: false, error: '❌ Лимит получателей исчерпан' };
+    return { valid: false, error: 'share.limitReached' };
   }
 
   // Check if recipient is owner
   if (share.owner_id === recipientId) {
-    return { valid: false, error: '⚠️ Это ваш собственный файл' };
+    return { valid: false, error: 'share.ownFile' };
   }
 
   // Check if already received
   if (hasRecipientReceivedShare(share.id, recipientId)) {
-    return { valid: false, error: '⚠️ Вы уже получили этот файл' };
+    return { valid: false, error: 'share.alreadyReceived' };
   }
 
   // Get file
   const file = getFileForShare(share.file_id);
   if (!file) {
-    return { valid: false, error: '❌ Файл не найден' };
+    return { valid: false, error: 'share.fileNotFound' };
   }
 
   // Check if file deleted
   if (file.deleted_at !== null) {
-    return { valid: false, error: '❌ Файл был удалён владельцем' };
+    return { valid: false, error: 'share.fileDeleted' };
   }
 
   return { valid: true, share, file };
 }
 
-/**
- * Get send method by file_id prefix
- * Telegram file_id prefixes indicate the actual file type:
- * - AgAC = photo (compressed)
- * - BQA = document
- * - BAA = video
- * - CQA = audio
- * - AwA = voice
- * - DQA = video_note
- */
-function getSendMethodByFileId(fileId: string, fallbackMediaType: string): string {
-  const prefix = fileId.substring(0, 2);
-
-  if (prefix === 'Ag') return 'photo';
-  if (prefix === 'BA') return 'video';
-  if (prefix === 'BQ') return 'document';
-  if (prefix === 'CQ') return 'audio';
-  if (prefix === 'Aw') return 'voice';
-  if (prefix === 'DQ') return 'video_note';
-
-  // Fallback to saved media_type
-  return fallbackMediaType;
-}
-
 /**
  * Send file to user based on file_id prefix (not media_type)
  * This fixes the issue where files sent as documents (e.g., PNG without compression)
@@ -114,30 +100,37 @@ async function sendFileToUser(
 ): Promise<void> {
   // Determine send method by file_id prefix, not by media_type
   const sendMethod = getSendMethodByFileId(file.file_id, file.media_type);
+  const options = { caption, caption_entities: caption ? parseEntities(file.caption_entities) : undefined };
 
   // Helper to send by method type
   const sendByMethod = async (method: string): Promise<void> => {
     switch (method) {
       case 'photo':
-        await ctx.replyWithPhoto(file.file_id, { caption });
+        await ctx.replyWithPhoto(file.file_id, options);
         break;
       case 'video':
-        await ctx.replyWithVideo(file.file_id, { caption });
+        await ctx.replyWithVideo(file.file_id, options);
         break;
       case 'document':
-        await ctx.replyWithDocument(file.file_id, { caption });
+        await ctx.replyWithDocument(file.file_id, options);
         break;
       case 'audio':
-        await ctx.replyWithAudio(file.file_id, { caption });
+        await ctx.replyWithAudio(file.file_id, options);
         break;
       case 'voice':
-        await ctx.replyWithVoice(file.file_id, { caption });
+        await ctx.replyWithVoice(file.file_id, options);
         break;
       case 'video_note':
         await ctx.replyWithVideoNote(file.file_id);
         break;
+      case 'animation':
+        await ctx.replyWithAnimation(file.file_id, options);
+        break;
+      case 'sticker':
+        await ctx.replyWithSticker(file.file_id);
+        break;
       default:
-        await ctx.replyWithDocument(file.file_id, { caption });
+        await ctx.replyWithDocument(file.file_id, options);
     }
   };
 
@@ -150,7 +143,7 @@ async function sendFileToUser(
 
     if (sendMethod !== 'document') {
       // Fallback to document - works for most file types
-      await ctx.replyWithDocument(file.file_id, { caption });
+      await ctx.replyWithDocument(file.file_id, options);
     } else {
       // Already tried document, re-throw
       throw error;
@@ -162,6 +155,19 @@ async function sendFileToUser(
  * Setup all bot handlers
  */
 export function setupBot(): void {
+  // Ошибки обработчиков ловим здесь: bot.catch вызывается только при long polling,
+  // в режиме webhook ошибка ушла бы в Express необработанной
+  bot.use(async (ctx, next) => {
+    try {
+      await next();
+    } catch (error) {
+      logBotError(new BotError(error, ctx));
+    }
+  });
+
+  // Апдейты одного чата - строго по очереди (в режиме webhook они приходят параллельно)
+  bot.use(sequentializeByChat());
+
   // Share handler - must be BEFORE main /start handler
   bot.command('start', async (ctx, next) => {
     const payload = ctx.match;
@@ -172,9 +178,10 @@ export function setupBot(): void {
       return;
     }
 
+    const t = await getTranslator(ctx);
     const recipientId = ctx.from?.id;
     if (!recipientId) {
-      await ctx.reply('❌ Не удалось определить пользователя');
+      await ctx.reply(t('share.unknownUser'));
       return;
     }
 
@@ -184,13 +191,13 @@ export function setupBot(): void {
     // Validate share
     const validation = validateShare(token, recipientId);
     if (!validation.valid) {
-      await ctx.reply(validation.error!);
+      await ctx.reply(t(validation.error!));
       return;
     }
 
     const { share, file } = validation;
     if (!share || !file) {
-      await ctx.reply('❌ Файл не найден');
+      await ctx.reply(t('share.fileNotFound'));
       return;
     }
 
@@ -199,7 +206,7 @@ export function setupBot(): void {
       await sendFileToUser(ctx, file, file.caption || undefined);
     } catch (error) {
       console.error('[Bot] Error sending shared file:', error);
-      await ctx.reply('❌ Ошибка при отправке файла. Попробуйте позже.');
+      await ctx.reply(t('share.sendFailed'));
       return;
     }
 
@@ -218,14 +225,14 @@ export function setupBot(): void {
 
       const { created, restored } = copyFileToUser(file, recipientId);
       if (created || restored) {
-        await ctx.reply('📁 Файл добавлен в ваше облако');
+        await ctx.reply(t('share.addedToCloud'));
         console.log(`[Bot] File ${file.id} ${created ? 'copied' : 'restored'} to user ${recipientId}'s cloud`);
       }
       recordShareRecipient(share.id, recipientId);
       console.log(`[Bot] File shared successfully: file=${file.id}, recipient=${recipientId}`);
     } catch (copyError) {
       console.error('[Bot] Error copying file to cloud:', copyError);
-      await ctx.reply('⚠️ Файл отправлен, но не добавлен в облако. Сохраните его вручную.');
+      await ctx.reply(t('share.sentNotCopied'));
     }
   });
 
@@ -233,9 +240,10 @@ export function setupBot(): void {
   bot.callbackQuery(/^claim_(.+)$/, async (ctx) => {
     const token = ctx.match[1];
     const recipientId = ctx.from?.id;
+    const t = await getTranslator(ctx);
 
     if (!recipientId) {
-      await ctx.answerCallbackQuery({ text: '❌ Ошибка авторизации', show_alert: true });
+      await ctx.answerCallbackQuery({ text: t('share.authError'), show_alert: true });
       return;
     }
 
@@ -244,13 +252,13 @@ export function setupBot(): void {
     // Validate share again (in case something changed)
     const validation = validateShare(token, recipientId);
     if (!validation.valid) {
-      await ctx.answerCallbackQuery({ text: validation.error!, show_alert: true });
+      await ctx.answerCallbackQuery({ text: t(validation.error!), show_alert: true });
       return;
     }
 
     const { share, file } = validation;
     if (!share || !file) {
-      await ctx.answerCallbackQuery({ text: '❌ Файл не найден', show_alert: true });
+      await ctx.answerCallbackQuery({ text: t('share.fileNotFound'), show_alert: true });
       return;
     }
 
@@ -259,7 +267,7 @@ export function setupBot(): void {
       await sendFileToUser(ctx, file, file.caption || undefined);
     } catch (error) {
       console.error('[Bot] Error sending shared file:', error);
-      await ctx.answerCallbackQuery({ text: '❌ Ошибка при отправке файла', show_alert: true });
+      await ctx.answerCallbackQuery({ text: t('share.sendFailedShort'), show_alert: true });
       return;
     }
 
@@ -278,102 +286,41 @@ export function setupBot(): void {
 
       const { created, restored } = copyFileToUser(file, recipientId);
       if (created || restored) {
-        await ctx.reply('📁 Файл добавлен в ваше облако');
+        await ctx.reply(t('share.addedToCloud'));
         console.log(`[Bot] File ${file.id} ${created ? 'copied' : 'restored'} to user ${recipientId}'s cloud`);
       }
       recordShareRecipient(share.id, recipientId);
       console.log(`[Bot] File shared successfully: file=${file.id}, recipient=${recipientId}`);
-      await ctx.answerCallbackQuery({ text: '✅ Файл отправлен!' });
+      await ctx.answerCallbackQuery({ text: t('share.fileSent') });
     } catch (copyError) {
       console.error('[Bot] Error copying file to cloud:', copyError);
       // File was sent, just couldn't copy to cloud
-      await ctx.answerCallbackQuery({ text: '✅ Файл отправлен!' });
-      await ctx.reply('⚠️ Не удалось добавить в облако. Сохраните вручную.');
+      await ctx.answerCallbackQuery({ text: t('share.fileSent') });
+      await ctx.reply(t('share.copyFailed'));
     }
   });
 
   // /start command (main)
   bot.command('start', async (ctx) => {
+    const t = await getTranslator(ctx);
     const keyboard = {
       inline_keyboard: [
         [
           {
-            text: 'Открыть хранилище',
+            text: t('common.openStorage'),
             web_app: { url: config.miniAppUrl },
           },
         ],
       ],
     };
 
-    const welcomeMessage = `
-━━━━━━ FC-CLOUD ━━━━━━
-
-Бесплатное облако без лимитов.
-Храни файлы. Находи за секунду.
-
-▍ Как сохранить файл
-   Просто отправь или перешли мне:
-   • Фото и видео
-   • Документы и архивы
-   • Аудио и голосовые
-   • Ссылки
-
-▍ Поиск
-   Умный поиск по всему:
-   • По имени файла
-   • По подписи
-   • По отправителю
-   • По чату-источнику
-
-   Фильтры: тип, дата, размер
-
-▍ Шеринг
-   Создай ссылку на файл:
-   • Работает с любого аккаунта
-   • Лимит получателей
-   • Срок действия
-
-   └── Файл живёт в ссылке, не в аккаунте
-
-▍ Категории
-   ▸ Фото
-   ▸ Видео
-   ▸ Документы
-   ▸ Аудио
-   ▸ Голосовые
-   ▸ Ссылки
-
-━━━━━━━━━━━━━━━━━━━━━━
-
-▸ /start — Это меню
-▸ /help  — Краткая справка
-
-━━━━━━━━━━━━━━━━━━━━━━
-`.trim();
-
-    await ctx.reply(welcomeMessage, { reply_markup: keyboard });
+    await ctx.reply(t('start.welcome').trim(), { reply_markup: keyboard });
   });
 
   // /help command
   bot.command('help', async (ctx) => {
-    const helpMessage = `
-━━━━ КРАТКАЯ СПРАВКА ━━━━
-
-▸ Отправь файл — сохраню
-▸ Перешли из чата — тоже сохраню
-▸ Кинь ссылку — запомню с превью
-
-─────────────────────
-
-▍ Примеры поиска
-   договор     — по имени
-   .pdf        — по расширению
-   от:Вася     — по отправителю
-
-━━━━━━━━━━━━━━━━━━━━━━
-`.trim();
-
-    await ctx.reply(helpMessage);
+    const t = await getTranslator(ctx);
+    await ctx.reply(t('help.text', { username: ctx.me.username }).trim());
   });
 
   // Handle web_app_data from Mini App
@@ -399,29 +346,36 @@ export function setupBot(): void {
           // Send the file based on media type
           const mediaType = file.mediaType as MediaType;
           const caption = file.caption || undefined;
+          const options = { caption, caption_entities: caption ? parseEntities(file.captionEntities) : undefined };
 
           try {
             switch (mediaType) {
               case 'photo':
-                await ctx.replyWithPhoto(file.fileId, { caption });
+                await ctx.replyWithPhoto(file.fileId, options);
                 break;
               case 'video':
-                await ctx.replyWithVideo(file.fileId, { caption });
+                await ctx.replyWithVideo(file.fileId, options);
                 break;
               case 'document':
-                await ctx.replyWithDocument(file.fileId, { caption });
+                await ctx.replyWithDocument(file.fileId, options);
                 break;
               case 'audio':
-                await ctx.replyWithAudio(file.fileId, { caption });
+                await ctx.replyWithAudio(file.fileId, options);
                 break;
               case 'voice':
-                await ctx.replyWithVoice(file.fileId, { caption });
+                await ctx.replyWithVoice(file.fileId, options);
                 break;
               case 'video_note':
                 await ctx.replyWithVideoNote(file.fileId);
                 break;
+              case 'animation':
+                await ctx.replyWithAnimation(file.fileId, options);
+                break;
+              case 'sticker':
+                await ctx.replyWithSticker(file.fileId);
+                break;
               default:
-                await ctx.replyWithDocument(file.fileId, { caption });
+                await ctx.replyWithDocument(file.fileId, options);
             }
             console.log('[Bot] Sent file:', file.id, file.fileName);
           } catch (sendError) {
@@ -434,52 +388,102 @@ export function setupBot(): void {
     }
   });
 
-  // Setup handlers
+  // Setup handlers (groups and channels first - their messages go to shared spaces;
+  // library and settings commands before text - text handler stops on messages without URLs)
+  setupSpaceHandlers(bot);
+  setupEditHandlers(bot);
+  setupLibraryHandlers(bot);
+  setupSettingsHandlers(bot);
   setupMediaHandlers(bot);
   setupTextHandlers(bot);
   setupRetrievalHandlers(bot);
+  setupInlineHandlers(bot);
 
   // Error handling
-  bot.catch((err) => {
-    const ctx = err.ctx;
-    console.error(`[Bot] Error handling update ${ctx.update.update_id}:`);
-
-    const e = err.error;
-    if (e instanceof GrammyError) {
-      console.error('[Bot] Grammy error:', e.description);
-    } else if (e instanceof HttpError) {
-      console.error('[Bot] HTTP error:', e);
-    } else {
-      console.error('[Bot] Unknown error:', e);
-    }
-  });
+  bot.catch(logBotError);
+}
+
+/**
+ * Log an error of an update handler
+ */
+function logBotError(err: BotError<Context>): void {
+  const ctx = err.ctx;
+  console.error(`[Bot] Error handling update ${ctx.update.update_id}:`);
+
+  const e = err.error;
+  if (e instanceof GrammyError) {
+    console.error('[Bot] Grammy error:', e.description);
+  } else if (e instanceof HttpError) {
+    console.error('[Bot] HTTP error:', e);
+  } else {
+    console.error('[Bot] Unknown error:', e);
+  }
 }
 
+// Команды в меню бота (описания - commands.* в каталоге сообщений)
+const COMMANDS = ['start', 'search', 'recent', 'favorites', 'stats', 'trash', 'gifs', 'settings', 'help'] as const;
+
 /**
  * Start the bot
  */
 export async function startBot(): Promise<void> {
   setupBot();
 
-  // Set bot commands
-  await bot.api.setMyCommands([
-    { command: 'start', description: 'Открыть хранилище' },
-    { command: 'stats', description: 'Статистика хранилища' },
-    { command: 'help', description: 'Помощь' },
-  ]);
+  // Set bot commands: default list in English, own list for each other language
+  for (const locale of LOCALES) {
+    const t = createTranslator(locale);
+    const commands = COMMANDS.map(command => ({ command, description: t(`commands.${command}`) }));
+    await bot.api.setMyCommands(commands, locale === 'en' ? {} : { language_code: locale });
+  }
+
+  // chat_member не приходит по умолчанию - нужен для участников пространств
+  const allowedUpdates = [...API_CONSTANTS.DEFAULT_UPDATE_TYPES, 'chat_member'] as const;
+
+  if (config.bot.mode === 'webhook') {
+    // Updates come to the API server (see createWebhookHandler), Telegram only needs the URL
+    await bot.init();
+    const url = new URL(config.bot.webhookPath, config.bot.webhookUrl).toString();
+    await bot.api.setWebhook(url, {
+      allowed_updates: allowedUpdates,
+      secret_token: config.bot.webhookSecret,
+    });
+    console.log(`[Bot] Started as @${bot.botInfo.username}, webhook: ${url}`);
+    return;
+  }
 
   // Start polling
   bot.start({
+    allowed_updates: allowedUpdates,
     onStart: (botInfo) => {
       console.log(`[Bot] Started as @${botInfo.username}`);
     },
   });
 }
 
+/**
+ * Express handler for webhook updates (BOT_MODE=webhook)
+ * Requests without the right X-Telegram-Bot-Api-Secret-Token get 401.
+ * Slow updates (downloads, link previews) keep running after Telegram's timeout -
+ * the chat queue in sequentializeByChat keeps their order.
+ */
+export function createWebhookHandler() {
+  return webhookCallback(bot, 'express', {
+    secretToken: config.bot.webhookSecret,
+    onTimeout: 'return',
+  });
+}
+
 /**
  * Stop the bot
  */
 export async function stopBot(): Promise<void> {
-  await bot.stop();
+  if (config.bot.mode === 'webhook') {
+    // После удаления вебхука Telegram копит апдейты до следующего запуска
+    await bot.api.deleteWebhook().catch((error) => {
+      console.error('[Bot] Failed to delete webhook:', error);
+    });
+  } else {
+    await bot.stop();
+  }
   console.log('[Bot] Stopped');
 }
@@ -0,0 +1,21 @@
+import { Context } from 'grammy';
+import { SettingsRepository } from '../db/repositories/settings.repository.js';
+import { UserSettings } from '../types/index.js';
+import { Translator, createTranslator, resolveLocale } from '../i18n/index.js';
+
+const settingsRepo = new SettingsRepository();
+
+/**
+ * Translator for the sender of the update (language from settings, then Telegram)
+ */
+export function translatorFor(ctx: Context, settings?: Pick<UserSettings, 'language'>): Translator {
+  return createTranslator(resolveLocale(ctx.from?.language_code, settings?.language));
+}
+
+/**
+ * Same as translatorFor, loads settings of the sender
+ */
+export async function getTranslator(ctx: Context): Promise<Translator> {
+  const settings = ctx.from ? await settingsRepo.get(ctx.from.id) : undefined;
+  return translatorFor(ctx, settings);
+}
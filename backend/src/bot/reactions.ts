@@ -0,0 +1,41 @@
+import { Context } from 'grammy';
+import { UserSettings } from '../types/index.js';
+
+// Реакции, которые поддерживает Telegram (используемые ботом)
+export type TelegramReaction = '👍' | '❤' | '🔥' | '🎉' | '👏' | '😁' | '🤩' | '👀' | '🙏' | '💯' | '✍' | '👌' | '🤷' | '🤝' | '🤔';
+
+// Повторная отправка уже сохранённого
+const DUPLICATE_REACTION: TelegramReaction = '👀';
+
+/**
+ * Confirm with a reaction on the user's message
+ * Falls back to a text reply if reactions are not supported
+ */
+export async function reactOrReply(ctx: Context, reaction: TelegramReaction, fallbackText: string): Promise<void> {
+  try {
+    await ctx.react(reaction);
+  } catch {
+    await ctx.reply(fallbackText);
+  }
+}
+
+/**
+ * Confirm a successful save (nothing in silent mode)
+ */
+export async function confirmSaved(
+  ctx: Context,
+  settings: UserSettings,
+  reaction: TelegramReaction,
+  fallbackText: string
+): Promise<void> {
+  if (settings.silentMode) return;
+  await reactOrReply(ctx, reaction, fallbackText);
+}
+
+/**
+ * Tell that the content is already saved (unless silent mode or duplicate notices are off)
+ */
+export async function confirmDuplicate(ctx: Context, settings: UserSettings, fallbackText: string): Promise<void> {
+  if (settings.silentMode || !settings.notifyDuplicates) return;
+  await reactOrReply(ctx, DUPLICATE_REACTION, fallbackText);
+}
@@ -0,0 +1,27 @@
+/**
+ * Get send method by file_id prefix
+ * Telegram file_id prefixes indicate the actual file type:
+ * - AgAC = photo (compressed)
+ * - BQA = document
+ * - BAA = video
+ * - CQA = audio
+ * - AwA = voice
+ * - DQA = video_note
+ * - CgA = animation
+ * - CAA = sticker
+ */
+export function getSendMethodByFileId(fileId: string, fallbackMediaType: string): string {
+  const prefix = fileId.substring(0, 2);
+
+  if (prefix === 'Ag') return 'photo';
+  if (prefix === 'BA') return 'video';
+  if (prefix === 'BQ') return 'document';
+  if (prefix === 'CQ') return 'audio';
+  if (prefix === 'Aw') return 'voice';
+  if (prefix === 'DQ') return 'video_note';
+  if (prefix === 'Cg') return 'animation';
+  if (prefix === 'CA') return 'sticker';
+
+  // Fallback to saved media_type
+  return fallbackMediaType;
+}
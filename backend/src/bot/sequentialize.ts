@@ -0,0 +1,36 @@
+import { Context, NextFunction } from 'grammy';
+
+/**
+ * Process updates of one chat strictly one after another
+ *
+ * Long polling hands updates over one by one, webhook requests arrive in parallel.
+ * Duplicate detection (FilesRepository.create), album caption sync and reply edits
+ * expect the previous message of the chat to be fully handled - so updates
+ * are chained per chat (same idea as sequentialize() from @grammyjs/runner).
+ * Different chats are still handled concurrently.
+ */
+export function sequentializeByChat() {
+  const queues = new Map<number, Promise<void>>();
+
+  return async (ctx: Context, next: NextFunction): Promise<void> => {
+    const key = ctx.chat?.id ?? ctx.from?.id;
+    if (key === undefined) {
+      await next();
+      return;
+    }
+
+    const previous = queues.get(key) ?? Promise.resolve();
+    const current = previous.then(() => next());
+    // Ошибка одного апдейта не должна ломать очередь чата
+    const tail = current.catch(() => {});
+    queues.set(key, tail);
+
+    try {
+      await current;
+    } finally {
+      if (queues.get(key) === tail) {
+        queues.delete(key);
+      }
+    }
+  };
+}
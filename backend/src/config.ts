@@ -4,9 +4,45 @@ export const config = {
   botToken: process.env.BOT_TOKEN || '',
   miniAppUrl: process.env.MINI_APP_URL || 'http://localhost:5173',
   port: parseInt(process.env.PORT || '3000', 10),
+
+  // Telegram updates: 'polling' (default) or 'webhook' - served by the API server itself
+  bot: {
+    mode: (process.env.BOT_MODE === 'webhook' ? 'webhook' : 'polling') as 'polling' | 'webhook',
+    // Public HTTPS base URL of the API server, e.g. https://example.com
+    webhookUrl: process.env.WEBHOOK_URL || '',
+    webhookPath: process.env.WEBHOOK_PATH || '/telegram/webhook',
+    // Sent by Telegram in X-Telegram-Bot-Api-Secret-Token (A-Z, a-z, 0-9, _ and -)
+    webhookSecret: process.env.WEBHOOK_SECRET || '',
+    // Bot API server: cloud by default or a self-hosted telegram-bot-api, e.g. http://localhost:8081
+    apiRoot: (process.env.BOT_API_URL || 'https://api.telegram.org').replace(/\/+$/, ''),
+    // telegram-bot-api started with --local: no 20 MB download limit, getFile returns
+    // an absolute path on disk (the server's working dir must be mounted at the same path)
+    apiLocal: process.env.BOT_API_LOCAL === 'true',
+  },
+
+  // Mirror store for file content: '' (off), 'local' or 's3'
+  storage: {
+    mirror: process.env.STORAGE_MIRROR || '',
+    localDir: process.env.STORAGE_LOCAL_DIR || '',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    },
+  },
 };
 
 // Validate required config
 if (!config.botToken) {
   throw new Error('BOT_TOKEN is required in .env file');
 }
+
+if (config.bot.mode === 'webhook' && (!config.bot.webhookUrl || !config.bot.webhookSecret)) {
+  throw new Error('WEBHOOK_URL and WEBHOOK_SECRET are required for BOT_MODE=webhook');
+}
+
+if (config.bot.apiLocal && !process.env.BOT_API_URL) {
+  throw new Error('BOT_API_LOCAL=true requires BOT_API_URL of the local Bot API server');
+}
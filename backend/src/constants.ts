@@ -5,6 +5,11 @@ export const PHOTO_CAPTION_LIMIT = 1024;
 export const DEFAULT_CAPTION_LIMIT = 4096;
 export const TEXT_MESSAGE_LIMIT = 4096;
 
+/**
+ * Telegram album limit (sendMediaGroup accepts 2-10 items)
+ */
+export const MAX_MEDIA_GROUP_SIZE = 10;
+
 /**
  * Pagination defaults
  */
@@ -13,10 +18,90 @@ export const DEFAULT_SEARCH_LIMIT = 50;
 export const MAX_PAGE_SIZE = 100;
 export const MAX_BATCH_SIZE = 100;
 
+/**
+ * Inline mode (@bot query) - Telegram accepts up to 50 results per answer
+ */
+export const INLINE_PAGE_SIZE = 20;
+export const INLINE_CACHE_TIME_SECONDS = 10;
+
+/**
+ * Bot list commands (/recent, /search, ...) - items per message page
+ */
+export const BOT_LIST_PAGE_SIZE = 5;
+
+/**
+ * Folder limits
+ */
+export const MAX_FOLDER_NAME_LENGTH = 64;
+
+/**
+ * Tag limits
+ */
+export const MAX_TAG_LENGTH = 64;
+export const MAX_TAGS_PER_REQUEST = 20;
+
+/**
+ * Export settings
+ * Cloud Bot API getFile works only for files up to 20 MB - larger files are listed in manifest only
+ * (a local Bot API server has no such limit, see getDownloadLimit - there EXPORT_MAX_FILE_SIZE applies,
+ * files are streamed into the archive on our disk)
+ */
+export const BOT_API_DOWNLOAD_LIMIT = 20 * 1024 * 1024;
+export const EXPORT_MAX_FILE_SIZE = 1024 * 1024 * 1024;
+export const EXPORT_RETENTION_HOURS = 24;
+
+/**
+ * Thumbnail proxy settings
+ * Previews are resized to one of the standard widths (requested width is rounded up)
+ */
+export const THUMB_WIDTHS = [160, 320, 640, 1280] as const;
+export const THUMB_CACHE_MAX_BYTES = 300 * 1024 * 1024;
+export const THUMB_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Local preview generation for files without Telegram thumbnail
+ * Files are downloaded via Bot API one by one with a pause between them;
+ * failed files are retried with exponential backoff
+ */
+export const THUMB_WORKER_INTERVAL_MS = 30 * 1000;
+export const THUMB_WORKER_BATCH_SIZE = 10;
+export const THUMB_WORKER_DOWNLOAD_DELAY_MS = 2000;
+export const THUMB_WORKER_MAX_ATTEMPTS = 5;
+export const THUMB_WORKER_RETRY_BASE_MS = 5 * 60 * 1000;
+export const THUMB_RENDER_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Background job queue
+ * Due jobs are picked up every JOB_QUEUE_INTERVAL_MS (or right after enqueue);
+ * failed jobs are retried with exponential backoff, Telegram 429 pauses the job type for retry_after
+ * and reruns the job after exactly that time without spending an attempt
+ */
+export const JOB_QUEUE_INTERVAL_MS = 5 * 1000;
+export const JOB_MAX_ATTEMPTS = 5;
+export const JOB_RETRY_BASE_MS = 10 * 1000;
+export const JOB_RETENTION_DAYS = 7;
+export const SEND_DELAY_MS = 300; // пауза между сообщениями при пакетной отправке
+export const LINK_PARSE_CONCURRENCY = 3;
+
+/**
+ * Catalog (metadata) import limits
+ */
+export const MAX_IMPORT_ROWS = 10000;
+export const IMPORT_BODY_LIMIT = '20mb';
+
 /**
  * Trash settings (in days)
+ * TRASH_RETENTION_DAYS - default, users can change it in /settings
  */
 export const TRASH_RETENTION_DAYS = 30;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+/**
+ * User settings: presets offered by the /settings menu (API accepts any value in range)
+ */
+export const TRASH_RETENTION_PRESETS = [7, 30, 90, 365] as const;
+export const SHARE_EXPIRY_PRESETS = [null, 24, 168, 720] as const; // hours, null - бессрочно
+export const MAX_SHARE_EXPIRY_HOURS = 365 * 24;
 
 /**
  * Time constants (milliseconds)
@@ -4,6 +4,7 @@ import { sql } from 'drizzle-orm';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import * as schema from './schema.js';
+import { runMigrations, verifySchema } from './migrator.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const dbPath = path.join(__dirname, '../../data/tcloud.db');
@@ -19,172 +20,17 @@ sqlite.pragma('foreign_keys = ON');
 export const db = drizzle(sqlite, { schema });
 
 /**
- * Initialize database tables and FTS
+ * Initialize database: run migrations and verify schema
  */
 export async function initDatabase(): Promise<void> {
   console.log('[Database] Initializing...');
 
-  // Create tables if not exist
-  sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY,
-      first_name TEXT NOT NULL,
-      last_name TEXT,
-      username TEXT,
-      language_code TEXT,
-      created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
-      updated_at INTEGER DEFAULT (unixepoch()) NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS files (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL REFERENCES users(id),
-      file_id TEXT NOT NULL,
-      file_unique_id TEXT NOT NULL,
-      original_message_id INTEGER NOT NULL,
-      chat_id INTEGER NOT NULL,
-      media_type TEXT NOT NULL,
-      mime_type TEXT,
-      file_name TEXT,
-      file_size INTEGER,
-      duration INTEGER,
-      width INTEGER,
-      height INTEGER,
-      thumbnail_file_id TEXT,
-      caption TEXT,
-      forward_from_name TEXT,
-      forward_from_chat_title TEXT,
-      created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
-      UNIQUE(user_id, file_unique_id)
-    );
-
-    CREATE TABLE IF NOT EXISTS links (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL REFERENCES users(id),
-      url TEXT NOT NULL,
-      title TEXT,
-      description TEXT,
-      image_url TEXT,
-      site_name TEXT,
-      created_at INTEGER DEFAULT (unixepoch()) NOT NULL
-    );
-
-    -- Indexes
-    CREATE INDEX IF NOT EXISTS idx_files_user_type ON files(user_id, media_type);
-    CREATE INDEX IF NOT EXISTS idx_files_user_date ON files(user_id, created_at DESC);
-    CREATE INDEX IF NOT EXISTS idx_links_user_date ON links(user_id, created_at DESC);
-
-    -- Full-text search virtual table for files
-    CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
-      file_name,
-      caption,
-      forward_from_name,
-      forward_from_chat_title,
-      content='files',
-      content_rowid='id',
-      tokenize='unicode61 remove_diacritics 2'
-    );
-
-    -- Triggers to keep FTS in sync with files table
-    CREATE TRIGGER IF NOT EXISTS files_ai AFTER INSERT ON files BEGIN
-      INSERT INTO files_fts(rowid, file_name, caption, forward_from_name, forward_from_chat_title)
-      VALUES (NEW.id, NEW.file_name, NEW.caption, NEW.forward_from_name, NEW.forward_from_chat_title);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS files_ad AFTER DELETE ON files BEGIN
-      INSERT INTO files_fts(files_fts, rowid, file_name, caption, forward_from_name, forward_from_chat_title)
-      VALUES ('delete', OLD.id, OLD.file_name, OLD.caption, OLD.forward_from_name, OLD.forward_from_chat_title);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS files_au AFTER UPDATE ON files BEGIN
-      INSERT INTO files_fts(files_fts, rowid, file_name, caption, forward_from_name, forward_from_chat_title)
-      VALUES ('delete', OLD.id, OLD.file_name, OLD.caption, OLD.forward_from_name, OLD.forward_from_chat_title);
-      INSERT INTO files_fts(rowid, file_name, caption, forward_from_name, forward_from_chat_title)
-      VALUES (NEW.id, NEW.file_name, NEW.caption, NEW.forward_from_name, NEW.forward_from_chat_title);
-    END;
-    -- Full-text search virtual table for links
-    CREATE VIRTUAL TABLE IF NOT EXISTS links_fts USING fts5(
-      url,
-      title,
-      description,
-      site_name,
-      content='links',
-      content_rowid='id',
-      tokenize='unicode61 remove_diacritics 2'
-    );
-
-    -- Triggers to keep FTS in sync with links table
-    CREATE TRIGGER IF NOT EXISTS links_ai AFTER INSERT ON links BEGIN
-      INSERT INTO links_fts(rowid, url, title, description, site_name)
-      VALUES (NEW.id, NEW.url, NEW.title, NEW.description, NEW.site_name);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS links_ad AFTER DELETE ON links BEGIN
-      INSERT INTO links_fts(links_fts, rowid, url, title, description, site_name)
-      VALUES ('delete', OLD.id, OLD.url, OLD.title, OLD.description, OLD.site_name);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS links_au AFTER UPDATE ON links BEGIN
-      INSERT INTO links_fts(links_fts, rowid, url, title, description, site_name)
-      VALUES ('delete', OLD.id, OLD.url, OLD.title, OLD.description, OLD.site_name);
-      INSERT INTO links_fts(rowid, url, title, description, site_name)
-      VALUES (NEW.id, NEW.url, NEW.title, NEW.description, NEW.site_name);
-    END;
-
-    -- File sharing tables
-    CREATE TABLE IF NOT EXISTS file_shares (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
-      owner_id INTEGER NOT NULL REFERENCES users(id),
-      token TEXT NOT NULL UNIQUE,
-      max_recipients INTEGER DEFAULT NULL,
-      expires_at INTEGER DEFAULT NULL,
-      use_count INTEGER DEFAULT 0,
-      is_active INTEGER DEFAULT 1,
-      created_at INTEGER DEFAULT (unixepoch()),
-      updated_at INTEGER DEFAULT (unixepoch())
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_shares_token ON file_shares(token);
-    CREATE INDEX IF NOT EXISTS idx_shares_owner ON file_shares(owner_id);
-    CREATE INDEX IF NOT EXISTS idx_shares_file ON file_shares(file_id);
-
-    CREATE TABLE IF NOT EXISTS share_recipients (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      share_id INTEGER NOT NULL REFERENCES file_shares(id) ON DELETE CASCADE,
-      recipient_id INTEGER NOT NULL,
-      received_at INTEGER DEFAULT (unixepoch()),
-      UNIQUE(share_id, recipient_id)
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_recipients_share ON share_recipients(share_id);
-
-    -- Web share downloads tracking
-    CREATE TABLE IF NOT EXISTS share_downloads (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      share_id INTEGER NOT NULL REFERENCES file_shares(id) ON DELETE CASCADE,
-      download_type TEXT NOT NULL, -- 'telegram', 'web_view', 'web_download'
-      ip_address TEXT,
-      user_agent TEXT,
-      created_at INTEGER DEFAULT (unixepoch())
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_share_downloads_share ON share_downloads(share_id);
-  `);
-
-  // Migration: Add is_favorite column if not exists
-  try {
-    sqlite.exec(`ALTER TABLE files ADD COLUMN is_favorite INTEGER NOT NULL DEFAULT 0`);
-    console.log('[Database] Added is_favorite column');
-  } catch (e: any) {
-    // Column already exists - ignore
-    if (!e.message?.includes('duplicate column')) {
-      throw e;
-    }
+  // Apply pending schema migrations (see ./migrations), then make sure schema.ts matches
+  const { fromVersion, toVersion } = runMigrations(sqlite);
+  if (toVersion !== fromVersion) {
+    console.log(`[Database] Schema migrated from version ${fromVersion} to ${toVersion}`);
   }
-
-  // Create index for favorites
-  sqlite.exec(`CREATE INDEX IF NOT EXISTS idx_files_user_favorite ON files(user_id, is_favorite)`);
+  verifySchema(sqlite);
 
   console.log('[Database] Initialized successfully');
 }
@@ -214,6 +60,12 @@ export interface FileSearchOptions {
   fromChat?: string;
   // MIME type filter (for file extension search)
   mimeType?: string;
+  // Folder filter (files directly inside this folder)
+  folderId?: number;
+  // Tag filter (file must have ALL tags, normalized)
+  tags?: string[];
+  // Pagination (inline mode)
+  offset?: number;
 }
 
 /**
@@ -258,6 +110,9 @@ export function searchFilesWithSnippets(
       conditions.push(`(f.media_type = 'video' OR (f.media_type = 'document' AND f.mime_type LIKE 'video/%'))`);
     } else if (options.mediaType === 'document') {
       conditions.push(`f.media_type = 'document' AND (f.mime_type IS NULL OR (f.mime_type NOT LIKE 'image/%' AND f.mime_type NOT LIKE 'video/%'))`);
+    } else if (options.mediaType === 'animation') {
+      // Библиотека GIF: гифки и стикеры вместе
+      conditions.push(`f.media_type IN ('animation', 'sticker')`);
     } else {
       conditions.push('f.media_type = ?');
       params.push(options.mediaType);
@@ -300,11 +155,32 @@ export function searchFilesWithSnippets(
     params.push(options.mimeType);
   }
 
+  // Folder filter
+  if (options?.folderId !== undefined) {
+    conditions.push('f.folder_id = ?');
+    params.push(options.folderId);
+  }
+
+  // Tag filter - each tag must be present
+  if (options?.tags) {
+    for (const tag of options.tags) {
+      conditions.push('EXISTS (SELECT 1 FROM file_tags ft WHERE ft.file_id = f.id AND ft.tag = ?)');
+      params.push(tag);
+    }
+  }
+
   // Text query handling - supports prefix search
   // Всегда используем FTS5 - он корректно обрабатывает Unicode (кириллицу)
   // LIKE не работает для кириллицы т.к. SQLite LOWER() не поддерживает Unicode
   const trimmedQuery = query?.trim().toLowerCase() || '';
-  const hasFtsQuery = trimmedQuery.length > 0;
+  // Запрос из одних эмодзи ищем по emoji стикеров (unicode61 не индексирует эмодзи)
+  const isEmojiQuery = trimmedQuery.length > 0 && !/[\p{L}\p{N}]/u.test(trimmedQuery);
+  const hasFtsQuery = trimmedQuery.length > 0 && !isEmojiQuery;
+
+  if (isEmojiQuery) {
+    conditions.push('instr(f.emoji, ?) > 0');
+    params.push(trimmedQuery.replace(/\s+/g, ''));
+  }
 
   let sql: string;
   let rows: any[];
@@ -329,10 +205,10 @@ export function searchFilesWithSnippets(
       JOIN files_fts ON f.id = files_fts.rowid
       WHERE ${whereClause}
       ORDER BY rank
-      LIMIT ?
+      LIMIT ? OFFSET ?
     `;
 
-    params.push(limit);
+    params.push(limit, options?.offset ?? 0);
     const stmt = sqlite.prepare(sql);
     rows = stmt.all(...params) as any[];
   } else {
@@ -349,10 +225,10 @@ export function searchFilesWithSnippets(
       FROM files f
       WHERE ${whereClause}
       ORDER BY f.created_at DESC
-      LIMIT ?
+      LIMIT ? OFFSET ?
     `;
 
-    params.push(limit);
+    params.push(limit, options?.offset ?? 0);
     const stmt = sqlite.prepare(sql);
     rows = stmt.all(...params) as any[];
   }
@@ -393,9 +269,14 @@ export function searchFilesWithSnippets(
       height: row.height,
       thumbnailFileId: row.thumbnail_file_id,
       caption: row.caption,
+      captionEntities: row.caption_entities,
+      emoji: row.emoji,
       forwardFromName: row.forward_from_name,
       forwardFromChatTitle: row.forward_from_chat_title,
       isFavorite: Boolean(row.is_favorite),
+      folderId: row.folder_id,
+      mediaGroupId: row.media_group_id,
+      generatedThumbnail: row.generated_thumbnail,
       createdAt: row.created_at,
       matchedField,
       matchedSnippet,
@@ -415,7 +296,7 @@ export interface LinkSearchResult extends schema.Link {
 /**
  * Full-text search in links with snippets
  */
-export function searchLinksWithSnippets(userId: number, query: string, limit = 50): LinkSearchResult[] {
+export function searchLinksWithSnippets(userId: number, query: string, limit = 50, offset = 0): LinkSearchResult[] {
   const trimmedQuery = query?.trim() || '';
 
   // Пустой запрос - пустой результат
@@ -437,10 +318,10 @@ export function searchLinksWithSnippets(userId: number, query: string, limit = 5
     JOIN links_fts ON l.id = links_fts.rowid
     WHERE l.user_id = ? AND l.deleted_at IS NULL AND links_fts MATCH ?
     ORDER BY rank
-    LIMIT ?
+    LIMIT ? OFFSET ?
   `);
 
-  const rows = stmt.all(userId, ftsQuery, limit) as any[];
+  const rows = stmt.all(userId, ftsQuery, limit, offset) as any[];
 
   return rows.map(row => {
     let matchedField: 'url' | 'title' | 'description' | 'site_name' = 'url';
@@ -468,6 +349,7 @@ export function searchLinksWithSnippets(userId: number, query: string, limit = 5
       description: row.description,
       imageUrl: row.image_url,
       siteName: row.site_name,
+      folderId: row.folder_id,
       createdAt: row.created_at,
       deletedAt: row.deleted_at,
       matchedField,
@@ -476,6 +358,155 @@ export function searchLinksWithSnippets(userId: number, query: string, limit = 5
   });
 }
 
+/**
+ * Search result with match info for notes
+ */
+export interface NoteSearchResult extends schema.Note {
+  matchedField: 'text' | 'forward_from_name' | 'forward_from_chat_title';
+  matchedSnippet: string;
+}
+
+/**
+ * Full-text search in notes with snippets
+ */
+export function searchNotesWithSnippets(userId: number, query: string, limit = 50, offset = 0): NoteSearchResult[] {
+  const trimmedQuery = query?.trim() || '';
+
+  if (!trimmedQuery) {
+    return [];
+  }
+
+  const ftsQuery = escapeFtsQueryWithPrefix(trimmedQuery);
+
+  const stmt = sqlite.prepare(`
+    SELECT
+      n.*,
+      snippet(notes_fts, 0, '**', '**', '...', 16) as snippet_text,
+      snippet(notes_fts, 1, '**', '**', '...', 10) as snippet_from_name,
+      snippet(notes_fts, 2, '**', '**', '...', 10) as snippet_chat_title
+    FROM notes n
+    JOIN notes_fts ON n.id = notes_fts.rowid
+    WHERE n.user_id = ? AND n.deleted_at IS NULL AND notes_fts MATCH ?
+    ORDER BY rank
+    LIMIT ? OFFSET ?
+  `);
+
+  const rows = stmt.all(userId, ftsQuery, limit, offset) as any[];
+
+  return rows.map(row => {
+    let matchedField: NoteSearchResult['matchedField'] = 'text';
+    let matchedSnippet = row.snippet_text || '';
+
+    if (!matchedSnippet.includes('**')) {
+      if (row.snippet_from_name && row.snippet_from_name.includes('**')) {
+        matchedField = 'forward_from_name';
+        matchedSnippet = row.snippet_from_name;
+      } else if (row.snippet_chat_title && row.snippet_chat_title.includes('**')) {
+        matchedField = 'forward_from_chat_title';
+        matchedSnippet = row.snippet_chat_title;
+      }
+    }
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      text: row.text,
+      entities: row.entities,
+      originalMessageId: row.original_message_id,
+      chatId: row.chat_id,
+      forwardFromName: row.forward_from_name,
+      forwardFromChatTitle: row.forward_from_chat_title,
+      folderId: row.folder_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at,
+      matchedField,
+      matchedSnippet,
+    } as NoteSearchResult;
+  });
+}
+
+/**
+ * Search result with match info for items
+ */
+export interface ItemSearchResult extends schema.Item {
+  matchedField: 'title' | 'description' | 'details' | 'forward_from_name' | 'forward_from_chat_title';
+  matchedSnippet: string;
+}
+
+/**
+ * Full-text search in items (locations, venues, contacts, polls) with snippets
+ */
+export function searchItemsWithSnippets(
+  userId: number,
+  query: string,
+  kinds?: string[],
+  limit = 50,
+  offset = 0
+): ItemSearchResult[] {
+  const trimmedQuery = query?.trim() || '';
+
+  if (!trimmedQuery) {
+    return [];
+  }
+
+  const conditions = ['i.user_id = ?', 'i.deleted_at IS NULL', 'items_fts MATCH ?'];
+  const params: (string | number)[] = [userId, escapeFtsQueryWithPrefix(trimmedQuery)];
+
+  if (kinds && kinds.length > 0) {
+    conditions.push(`i.kind IN (${kinds.map(() => '?').join(',')})`);
+    params.push(...kinds);
+  }
+
+  const stmt = sqlite.prepare(`
+    SELECT
+      i.*,
+      snippet(items_fts, 0, '**', '**', '...', 10) as snippet_title,
+      snippet(items_fts, 1, '**', '**', '...', 10) as snippet_description,
+      snippet(items_fts, 2, '**', '**', '...', 10) as snippet_details,
+      snippet(items_fts, 3, '**', '**', '...', 10) as snippet_from_name,
+      snippet(items_fts, 4, '**', '**', '...', 10) as snippet_chat_title
+    FROM items i
+    JOIN items_fts ON i.id = items_fts.rowid
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY rank
+    LIMIT ? OFFSET ?
+  `);
+
+  const rows = stmt.all(...params, limit, offset) as any[];
+
+  return rows.map(row => {
+    // Первое поле с подсветкой совпадения
+    const snippets: [ItemSearchResult['matchedField'], string | null][] = [
+      ['title', row.snippet_title],
+      ['description', row.snippet_description],
+      ['details', row.snippet_details],
+      ['forward_from_name', row.snippet_from_name],
+      ['forward_from_chat_title', row.snippet_chat_title],
+    ];
+    const matched = snippets.find(([, snippet]) => snippet && snippet.includes('**'));
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      kind: row.kind,
+      title: row.title,
+      description: row.description,
+      details: row.details,
+      data: row.data,
+      originalMessageId: row.original_message_id,
+      chatId: row.chat_id,
+      forwardFromName: row.forward_from_name,
+      forwardFromChatTitle: row.forward_from_chat_title,
+      folderId: row.folder_id,
+      createdAt: row.created_at,
+      deletedAt: row.deleted_at,
+      matchedField: matched ? matched[0] : 'title',
+      matchedSnippet: matched ? matched[1] : row.snippet_title || '',
+    } as ItemSearchResult;
+  });
+}
+
 /**
  * Options for dictionary generation
  */
@@ -521,30 +552,30 @@ export function getUserDictionary(userId: number, options?: DictionaryOptions):
     return extMatch ? [extMatch[0]] : [];
   };
 
-  // Для файлов - строим динамический SQL с фильтром по типу
-  let sql = `
-    SELECT file_name, caption, forward_from_name, forward_from_chat_title
-    FROM files
-    WHERE user_id = ? AND deleted_at IS NULL
-  `;
+  // Для файлов - строим динамический WHERE с фильтром по типу
+  let where = `user_id = ? AND deleted_at IS NULL`;
   const params: any[] = [userId];
 
   if (options?.mediaType && options.mediaType !== 'shared') {
     // Фильтруем по типу (с учётом логики photo включает document+image/*)
     if (options.mediaType === 'photo') {
-      sql += ` AND (media_type = 'photo' OR (media_type = 'document' AND mime_type LIKE 'image/%'))`;
+      where += ` AND (media_type = 'photo' OR (media_type = 'document' AND mime_type LIKE 'image/%'))`;
     } else if (options.mediaType === 'video') {
-      sql += ` AND (media_type = 'video' OR (media_type = 'document' AND mime_type LIKE 'video/%'))`;
+      where += ` AND (media_type = 'video' OR (media_type = 'document' AND mime_type LIKE 'video/%'))`;
     } else if (options.mediaType === 'document') {
       // Документы без изображений и видео
-      sql += ` AND media_type = 'document' AND (mime_type IS NULL OR (mime_type NOT LIKE 'image/%' AND mime_type NOT LIKE 'video/%'))`;
+      where += ` AND media_type = 'document' AND (mime_type IS NULL OR (mime_type NOT LIKE 'image/%' AND mime_type NOT LIKE 'video/%'))`;
     } else {
-      sql += ` AND media_type = ?`;
+      where += ` AND media_type = ?`;
       params.push(options.mediaType);
     }
   }
 
-  const filesStmt = sqlite.prepare(sql);
+  const filesStmt = sqlite.prepare(`
+    SELECT file_name, caption, forward_from_name, forward_from_chat_title
+    FROM files
+    WHERE ${where}
+  `);
   const fileRows = filesStmt.all(...params) as {
     file_name: string | null;
     caption: string | null;
@@ -567,6 +598,14 @@ export function getUserDictionary(userId: number, options?: DictionaryOptions):
     extractExtensions(row.file_name).forEach(ext => wordSet.add(ext));
   }
 
+  // Добавляем теги файлов в виде #tag (подсказки для фильтра по тегу)
+  const tagsStmt = sqlite.prepare(`
+    SELECT DISTINCT tag FROM file_tags
+    WHERE file_id IN (SELECT id FROM files WHERE ${where})
+  `);
+  const tagRows = tagsStmt.all(...params) as { tag: string }[];
+  tagRows.forEach(row => wordSet.add(`#${row.tag}`));
+
   // Добавляем слова из ссылок если не указан конкретный тип файлов
   if (options?.includeLinks || !options?.mediaType) {
     const linksStmt = sqlite.prepare(`
@@ -626,6 +665,8 @@ export interface FileForShare {
   file_name: string | null;
   file_size: number | null;
   caption: string | null;
+  caption_entities: string | null;
+  emoji: string | null;
   media_type: string;
   mime_type: string | null;
   duration: number | null;
@@ -655,7 +696,7 @@ export function getFileForShare(fileId: number): FileForShare | null {
   const stmt = sqlite.prepare(`
     SELECT
       id, file_id, file_unique_id, original_message_id, chat_id,
-      file_name, file_size, caption, media_type, mime_type,
+      file_name, file_size, caption, caption_entities, emoji, media_type, mime_type,
       duration, width, height, thumbnail_file_id,
       forward_from_name, forward_from_chat_title, deleted_at
     FROM files
@@ -738,8 +779,8 @@ export function copyFileToUser(
     INSERT INTO files (
       user_id, file_id, file_unique_id, original_message_id, chat_id,
       media_type, mime_type, file_name, file_size, duration, width, height,
-      caption, thumbnail_file_id, forward_from_name, forward_from_chat_title
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      caption, caption_entities, emoji, thumbnail_file_id, forward_from_name, forward_from_chat_title
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const result = insertStmt.run(
@@ -756,6 +797,8 @@ export function copyFileToUser(
     sourceFile.width,
     sourceFile.height,
     sourceFile.caption,
+    sourceFile.caption_entities,
+    sourceFile.emoji,
     sourceFile.thumbnail_file_id,
     sourceFile.forward_from_name,
     sourceFile.forward_from_chat_title
@@ -0,0 +1,158 @@
+import { Migration } from './migration.js';
+
+/**
+ * Initial schema: users, files, links, FTS indexes and file sharing tables
+ * Uses IF NOT EXISTS - databases created before migrations already have these
+ */
+export const migration: Migration = {
+  version: 1,
+  name: 'initial',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY,
+        first_name TEXT NOT NULL,
+        last_name TEXT,
+        username TEXT,
+        language_code TEXT,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        file_id TEXT NOT NULL,
+        file_unique_id TEXT NOT NULL,
+        original_message_id INTEGER NOT NULL,
+        chat_id INTEGER NOT NULL,
+        media_type TEXT NOT NULL,
+        mime_type TEXT,
+        file_name TEXT,
+        file_size INTEGER,
+        duration INTEGER,
+        width INTEGER,
+        height INTEGER,
+        thumbnail_file_id TEXT,
+        caption TEXT,
+        forward_from_name TEXT,
+        forward_from_chat_title TEXT,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        UNIQUE(user_id, file_unique_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS links (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        url TEXT NOT NULL,
+        title TEXT,
+        description TEXT,
+        image_url TEXT,
+        site_name TEXT,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL
+      );
+
+      -- Indexes
+      CREATE INDEX IF NOT EXISTS idx_files_user_type ON files(user_id, media_type);
+      CREATE INDEX IF NOT EXISTS idx_files_user_date ON files(user_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_links_user_date ON links(user_id, created_at DESC);
+
+      -- Full-text search virtual table for files
+      CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
+        file_name,
+        caption,
+        forward_from_name,
+        forward_from_chat_title,
+        content='files',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+
+      -- Triggers to keep FTS in sync with files table
+      CREATE TRIGGER IF NOT EXISTS files_ai AFTER INSERT ON files BEGIN
+        INSERT INTO files_fts(rowid, file_name, caption, forward_from_name, forward_from_chat_title)
+        VALUES (NEW.id, NEW.file_name, NEW.caption, NEW.forward_from_name, NEW.forward_from_chat_title);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS files_ad AFTER DELETE ON files BEGIN
+        INSERT INTO files_fts(files_fts, rowid, file_name, caption, forward_from_name, forward_from_chat_title)
+        VALUES ('delete', OLD.id, OLD.file_name, OLD.caption, OLD.forward_from_name, OLD.forward_from_chat_title);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS files_au AFTER UPDATE ON files BEGIN
+        INSERT INTO files_fts(files_fts, rowid, file_name, caption, forward_from_name, forward_from_chat_title)
+        VALUES ('delete', OLD.id, OLD.file_name, OLD.caption, OLD.forward_from_name, OLD.forward_from_chat_title);
+        INSERT INTO files_fts(rowid, file_name, caption, forward_from_name, forward_from_chat_title)
+        VALUES (NEW.id, NEW.file_name, NEW.caption, NEW.forward_from_name, NEW.forward_from_chat_title);
+      END;
+      -- Full-text search virtual table for links
+      CREATE VIRTUAL TABLE IF NOT EXISTS links_fts USING fts5(
+        url,
+        title,
+        description,
+        site_name,
+        content='links',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+
+      -- Triggers to keep FTS in sync with links table
+      CREATE TRIGGER IF NOT EXISTS links_ai AFTER INSERT ON links BEGIN
+        INSERT INTO links_fts(rowid, url, title, description, site_name)
+        VALUES (NEW.id, NEW.url, NEW.title, NEW.description, NEW.site_name);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS links_ad AFTER DELETE ON links BEGIN
+        INSERT INTO links_fts(links_fts, rowid, url, title, description, site_name)
+        VALUES ('delete', OLD.id, OLD.url, OLD.title, OLD.description, OLD.site_name);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS links_au AFTER UPDATE ON links BEGIN
+        INSERT INTO links_fts(links_fts, rowid, url, title, description, site_name)
+        VALUES ('delete', OLD.id, OLD.url, OLD.title, OLD.description, OLD.site_name);
+        INSERT INTO links_fts(rowid, url, title, description, site_name)
+        VALUES (NEW.id, NEW.url, NEW.title, NEW.description, NEW.site_name);
+      END;
+
+      -- File sharing tables
+      CREATE TABLE IF NOT EXISTS file_shares (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        owner_id INTEGER NOT NULL REFERENCES users(id),
+        token TEXT NOT NULL UNIQUE,
+        max_recipients INTEGER DEFAULT NULL,
+        expires_at INTEGER DEFAULT NULL,
+        use_count INTEGER DEFAULT 0,
+        is_active INTEGER DEFAULT 1,
+        created_at INTEGER DEFAULT (unixepoch()),
+        updated_at INTEGER DEFAULT (unixepoch())
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_shares_token ON file_shares(token);
+      CREATE INDEX IF NOT EXISTS idx_shares_owner ON file_shares(owner_id);
+      CREATE INDEX IF NOT EXISTS idx_shares_file ON file_shares(file_id);
+
+      CREATE TABLE IF NOT EXISTS share_recipients (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        share_id INTEGER NOT NULL REFERENCES file_shares(id) ON DELETE CASCADE,
+        recipient_id INTEGER NOT NULL,
+        received_at INTEGER DEFAULT (unixepoch()),
+        UNIQUE(share_id, recipient_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_recipients_share ON share_recipients(share_id);
+
+      -- Web share downloads tracking
+      CREATE TABLE IF NOT EXISTS share_downloads (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        share_id INTEGER NOT NULL REFERENCES file_shares(id) ON DELETE CASCADE,
+        download_type TEXT NOT NULL, -- 'telegram', 'web_view', 'web_download'
+        ip_address TEXT,
+        user_agent TEXT,
+        created_at INTEGER DEFAULT (unixepoch())
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_share_downloads_share ON share_downloads(share_id);
+    `);
+  },
+};
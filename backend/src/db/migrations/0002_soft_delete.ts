@@ -0,0 +1,14 @@
+import { Migration, addColumnIfMissing } from './migration.js';
+
+/**
+ * Soft delete (trash) for files and links
+ * schema.ts declared deleted_at, but the old raw SQL never created it
+ */
+export const migration: Migration = {
+  version: 2,
+  name: 'soft_delete',
+  up(db) {
+    addColumnIfMissing(db, 'files', 'deleted_at INTEGER');
+    addColumnIfMissing(db, 'links', 'deleted_at INTEGER');
+  },
+};
@@ -0,0 +1,13 @@
+import { Migration, addColumnIfMissing } from './migration.js';
+
+/**
+ * Favorites flag for files
+ */
+export const migration: Migration = {
+  version: 3,
+  name: 'favorites',
+  up(db) {
+    addColumnIfMissing(db, 'files', 'is_favorite INTEGER NOT NULL DEFAULT 0');
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_files_user_favorite ON files(user_id, is_favorite)`);
+  },
+};
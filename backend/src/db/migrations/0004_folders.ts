@@ -0,0 +1,31 @@
+import { Migration, addColumnIfMissing } from './migration.js';
+
+/**
+ * Folders (user-defined collections, nested via parent_id)
+ */
+export const migration: Migration = {
+  version: 4,
+  name: 'folders',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS folders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        parent_id INTEGER REFERENCES folders(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_folders_user_parent ON folders(user_id, parent_id);
+    `);
+
+    addColumnIfMissing(db, 'files', 'folder_id INTEGER REFERENCES folders(id) ON DELETE SET NULL');
+    addColumnIfMissing(db, 'links', 'folder_id INTEGER REFERENCES folders(id) ON DELETE SET NULL');
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_files_user_folder ON files(user_id, folder_id);
+      CREATE INDEX IF NOT EXISTS idx_links_user_folder ON links(user_id, folder_id);
+    `);
+  },
+};
@@ -0,0 +1,13 @@
+import { Migration, addColumnIfMissing } from './migration.js';
+
+/**
+ * Albums: Telegram media_group_id on files
+ */
+export const migration: Migration = {
+  version: 5,
+  name: 'media_groups',
+  up(db) {
+    addColumnIfMissing(db, 'files', 'media_group_id TEXT');
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_files_user_media_group ON files(user_id, media_group_id)`);
+  },
+};
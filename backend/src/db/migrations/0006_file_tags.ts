@@ -0,0 +1,22 @@
+import { Migration } from './migration.js';
+
+/**
+ * File tags (normalized: lowercase, without leading #)
+ */
+export const migration: Migration = {
+  version: 6,
+  name: 'file_tags',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS file_tags (
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        tag TEXT NOT NULL,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        PRIMARY KEY (file_id, tag)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_file_tags_user_tag ON file_tags(user_id, tag);
+    `);
+  },
+};
@@ -0,0 +1,29 @@
+import { Migration } from './migration.js';
+
+/**
+ * Export jobs (ZIP archive of user's files and links)
+ */
+export const migration: Migration = {
+  version: 7,
+  name: 'export_jobs',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS export_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        status TEXT NOT NULL DEFAULT 'pending',
+        total_files INTEGER NOT NULL DEFAULT 0,
+        processed_files INTEGER NOT NULL DEFAULT 0,
+        skipped_files INTEGER NOT NULL DEFAULT 0,
+        archive_path TEXT,
+        archive_size INTEGER,
+        error TEXT,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        finished_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_export_jobs_user_date ON export_jobs(user_id, created_at DESC);
+    `);
+  },
+};
@@ -0,0 +1,15 @@
+import { Migration } from './migration.js';
+
+/**
+ * Mirror store info: which secondary store has a copy of the file
+ */
+export const migration: Migration = {
+  version: 8,
+  name: 'file_mirror',
+  up(db) {
+    db.exec(`
+      ALTER TABLE files ADD COLUMN mirror_provider TEXT;
+      ALTER TABLE files ADD COLUMN mirrored_at INTEGER;
+    `);
+  },
+};
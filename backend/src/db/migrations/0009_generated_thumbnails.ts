@@ -0,0 +1,17 @@
+import { Migration } from './migration.js';
+
+/**
+ * Locally generated previews for files without Telegram thumbnail
+ * (file name in data/previews + retry state of the generation worker)
+ */
+export const migration: Migration = {
+  version: 9,
+  name: 'generated_thumbnails',
+  up(db) {
+    db.exec(`
+      ALTER TABLE files ADD COLUMN generated_thumbnail TEXT;
+      ALTER TABLE files ADD COLUMN thumbnail_attempts INTEGER DEFAULT 0 NOT NULL;
+      ALTER TABLE files ADD COLUMN thumbnail_retry_at INTEGER;
+    `);
+  },
+};
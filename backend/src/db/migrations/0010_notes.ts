@@ -0,0 +1,58 @@
+import { Migration } from './migration.js';
+
+/**
+ * Notes - plain text messages saved from the bot chat
+ * (message entities as JSON, FTS index like for links)
+ */
+export const migration: Migration = {
+  version: 10,
+  name: 'notes',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        text TEXT NOT NULL,
+        entities TEXT,
+        original_message_id INTEGER NOT NULL,
+        chat_id INTEGER NOT NULL,
+        forward_from_name TEXT,
+        forward_from_chat_title TEXT,
+        folder_id INTEGER REFERENCES folders(id) ON DELETE SET NULL,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        deleted_at INTEGER
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_notes_user_message ON notes(user_id, chat_id, original_message_id);
+      CREATE INDEX IF NOT EXISTS idx_notes_user_date ON notes(user_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_notes_user_folder ON notes(user_id, folder_id);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+        text,
+        forward_from_name,
+        forward_from_chat_title,
+        content='notes',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS notes_ai AFTER INSERT ON notes BEGIN
+        INSERT INTO notes_fts(rowid, text, forward_from_name, forward_from_chat_title)
+        VALUES (NEW.id, NEW.text, NEW.forward_from_name, NEW.forward_from_chat_title);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS notes_ad AFTER DELETE ON notes BEGIN
+        INSERT INTO notes_fts(notes_fts, rowid, text, forward_from_name, forward_from_chat_title)
+        VALUES ('delete', OLD.id, OLD.text, OLD.forward_from_name, OLD.forward_from_chat_title);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS notes_au AFTER UPDATE ON notes BEGIN
+        INSERT INTO notes_fts(notes_fts, rowid, text, forward_from_name, forward_from_chat_title)
+        VALUES ('delete', OLD.id, OLD.text, OLD.forward_from_name, OLD.forward_from_chat_title);
+        INSERT INTO notes_fts(rowid, text, forward_from_name, forward_from_chat_title)
+        VALUES (NEW.id, NEW.text, NEW.forward_from_name, NEW.forward_from_chat_title);
+      END;
+    `);
+  },
+};
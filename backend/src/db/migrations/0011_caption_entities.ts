@@ -0,0 +1,14 @@
+import { Migration } from './migration.js';
+
+/**
+ * Caption formatting: Telegram caption_entities as JSON (bold, text links, spoilers, ...)
+ */
+export const migration: Migration = {
+  version: 11,
+  name: 'caption_entities',
+  up(db) {
+    db.exec(`
+      ALTER TABLE files ADD COLUMN caption_entities TEXT;
+    `);
+  },
+};
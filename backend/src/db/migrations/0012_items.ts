@@ -0,0 +1,63 @@
+import { Migration } from './migration.js';
+
+/**
+ * Items - structured messages saved from the bot chat: locations, venues, contacts, polls
+ * (kind-specific payload as JSON, title/description/details are indexed for search)
+ */
+export const migration: Migration = {
+  version: 12,
+  name: 'items',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        kind TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        details TEXT,
+        data TEXT NOT NULL,
+        original_message_id INTEGER NOT NULL,
+        chat_id INTEGER NOT NULL,
+        forward_from_name TEXT,
+        forward_from_chat_title TEXT,
+        folder_id INTEGER REFERENCES folders(id) ON DELETE SET NULL,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        deleted_at INTEGER
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_items_user_message ON items(user_id, chat_id, original_message_id);
+      CREATE INDEX IF NOT EXISTS idx_items_user_date ON items(user_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_items_user_kind ON items(user_id, kind);
+      CREATE INDEX IF NOT EXISTS idx_items_user_folder ON items(user_id, folder_id);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5(
+        title,
+        description,
+        details,
+        forward_from_name,
+        forward_from_chat_title,
+        content='items',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS items_ai AFTER INSERT ON items BEGIN
+        INSERT INTO items_fts(rowid, title, description, details, forward_from_name, forward_from_chat_title)
+        VALUES (NEW.id, NEW.title, NEW.description, NEW.details, NEW.forward_from_name, NEW.forward_from_chat_title);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS items_ad AFTER DELETE ON items BEGIN
+        INSERT INTO items_fts(items_fts, rowid, title, description, details, forward_from_name, forward_from_chat_title)
+        VALUES ('delete', OLD.id, OLD.title, OLD.description, OLD.details, OLD.forward_from_name, OLD.forward_from_chat_title);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS items_au AFTER UPDATE ON items BEGIN
+        INSERT INTO items_fts(items_fts, rowid, title, description, details, forward_from_name, forward_from_chat_title)
+        VALUES ('delete', OLD.id, OLD.title, OLD.description, OLD.details, OLD.forward_from_name, OLD.forward_from_chat_title);
+        INSERT INTO items_fts(rowid, title, description, details, forward_from_name, forward_from_chat_title)
+        VALUES (NEW.id, NEW.title, NEW.description, NEW.details, NEW.forward_from_name, NEW.forward_from_chat_title);
+      END;
+    `);
+  },
+};
@@ -0,0 +1,16 @@
+import { Migration } from './migration.js';
+
+/**
+ * GIF & sticker library (opt-in per user): users.save_stickers flag,
+ * sticker emoji for search (FTS tokenizer skips emoji, so it's a plain column)
+ */
+export const migration: Migration = {
+  version: 13,
+  name: 'sticker_library',
+  up(db) {
+    db.exec(`
+      ALTER TABLE users ADD COLUMN save_stickers INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE files ADD COLUMN emoji TEXT;
+    `);
+  },
+};
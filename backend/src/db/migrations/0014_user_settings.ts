@@ -0,0 +1,30 @@
+import { Migration } from './migration.js';
+
+/**
+ * Per-user settings (/settings in the bot, settings page in the Mini App)
+ * Row is created on the first change - missing row means defaults.
+ * users.save_stickers (0013) moves here
+ */
+export const migration: Migration = {
+  version: 14,
+  name: 'user_settings',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS user_settings (
+        user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        silent_mode INTEGER NOT NULL DEFAULT 0,
+        save_links INTEGER NOT NULL DEFAULT 1,
+        save_stickers INTEGER NOT NULL DEFAULT 0,
+        notify_duplicates INTEGER NOT NULL DEFAULT 1,
+        trash_retention_days INTEGER NOT NULL DEFAULT 30,
+        default_share_expiry_hours INTEGER,
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL
+      );
+
+      INSERT INTO user_settings (user_id, save_stickers)
+      SELECT id, save_stickers FROM users WHERE save_stickers = 1;
+
+      ALTER TABLE users DROP COLUMN save_stickers;
+    `);
+  },
+};
@@ -0,0 +1,15 @@
+import { Migration } from './migration.js';
+
+/**
+ * Interface language override (bot replies, Mini App)
+ * NULL - follow Telegram language_code
+ */
+export const migration: Migration = {
+  version: 15,
+  name: 'language',
+  up(db) {
+    db.exec(`
+      ALTER TABLE user_settings ADD COLUMN language TEXT;
+    `);
+  },
+};
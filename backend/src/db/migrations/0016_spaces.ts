@@ -0,0 +1,37 @@
+import { Migration } from './migration.js';
+
+/**
+ * Shared spaces: groups and channels the bot was added to.
+ * Space content is owned by the chat itself - files/links.user_id = chat id
+ * (Telegram chat ids are negative and never clash with user ids), so every
+ * per-owner query, dedup index and trash cleanup works for spaces unchanged.
+ * The chat gets a row in users for the foreign keys.
+ * space_members - who may open the space in the Mini App and with which role
+ */
+export const migration: Migration = {
+  version: 16,
+  name: 'spaces',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS spaces (
+        id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        added_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS space_members (
+        space_id INTEGER NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role TEXT NOT NULL DEFAULT 'member',
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        PRIMARY KEY (space_id, user_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_space_members_user ON space_members(user_id);
+    `);
+  },
+};
@@ -0,0 +1,23 @@
+import { Migration } from './migration.js';
+
+/**
+ * Caption history: previous captions of a file (edited in Telegram or in the Mini App)
+ */
+export const migration: Migration = {
+  version: 17,
+  name: 'caption_history',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS caption_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+        caption TEXT,
+        caption_entities TEXT,
+        source TEXT NOT NULL,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_caption_history_file ON caption_history(file_id, id);
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+import { Migration } from './migration.js';
+
+/**
+ * Background job queue: batch sends, link previews, maintenance
+ */
+export const migration: Migration = {
+  version: 18,
+  name: 'jobs',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER REFERENCES users(id),
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        run_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        progress_done INTEGER NOT NULL DEFAULT 0,
+        progress_total INTEGER NOT NULL DEFAULT 0,
+        result TEXT,
+        error TEXT,
+        created_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch()) NOT NULL,
+        finished_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+      CREATE INDEX IF NOT EXISTS idx_jobs_user_date ON jobs(user_id, created_at DESC);
+    `);
+  },
+};
@@ -0,0 +1,46 @@
+import { Migration } from './migration.js';
+import { migration as initial } from './0001_initial.js';
+import { migration as softDelete } from './0002_soft_delete.js';
+import { migration as favorites } from './0003_favorites.js';
+import { migration as folders } from './0004_folders.js';
+import { migration as mediaGroups } from './0005_media_groups.js';
+import { migration as fileTags } from './0006_file_tags.js';
+import { migration as exportJobs } from './0007_export_jobs.js';
+import { migration as fileMirror } from './0008_file_mirror.js';
+import { migration as generatedThumbnails } from './0009_generated_thumbnails.js';
+import { migration as notes } from './0010_notes.js';
+import { migration as captionEntities } from './0011_caption_entities.js';
+import { migration as items } from './0012_items.js';
+import { migration as stickerLibrary } from './0013_sticker_library.js';
+import { migration as userSettings } from './0014_user_settings.js';
+import { migration as language } from './0015_language.js';
+import { migration as spaces } from './0016_spaces.js';
+import { migration as captionHistory } from './0017_caption_history.js';
+import { migration as jobs } from './0018_jobs.js';
+
+/**
+ * All migrations in order. New migration = new file + entry here
+ * (never edit a migration that has been released)
+ */
+export const migrations: Migration[] = [
+  initial,
+  softDelete,
+  favorites,
+  folders,
+  mediaGroups,
+  fileTags,
+  exportJobs,
+  fileMirror,
+  generatedThumbnails,
+  notes,
+  captionEntities,
+  items,
+  stickerLibrary,
+  userSettings,
+  language,
+  spaces,
+  captionHistory,
+  jobs,
+];
+
+export type { Migration, SqliteDatabase } from './migration.js';
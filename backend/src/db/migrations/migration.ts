@@ -0,0 +1,33 @@
+import Database from 'better-sqlite3';
+
+export type SqliteDatabase = InstanceType<typeof Database>;
+
+/**
+ * Schema migration
+ * Versions are sequential integers, `up` runs inside a transaction
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SqliteDatabase) => void;
+}
+
+/**
+ * Check whether a table has a column
+ */
+export function hasColumn(db: SqliteDatabase, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some(c => c.name === column);
+}
+
+/**
+ * Add a column unless it already exists
+ * Needed by early migrations: databases created before schema_migrations
+ * existed may already have some of these columns
+ */
+export function addColumnIfMissing(db: SqliteDatabase, table: string, columnDef: string): void {
+  const column = columnDef.split(' ')[0];
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${columnDef}`);
+  }
+}
@@ -0,0 +1,169 @@
+import { getTableConfig, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { migrations, Migration, SqliteDatabase } from './migrations/index.js';
+import * as schema from './schema.js';
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1]?.version ?? 0;
+
+// Guard against typos in the migration list (duplicate or unordered versions)
+migrations.forEach((migration, i) => {
+  if (i > 0 && migration.version <= migrations[i - 1].version) {
+    throw new Error(`[Migrations] Version ${migration.version} (${migration.name}) is not greater than the previous one`);
+  }
+});
+
+// Thrown to roll back the dry-run transaction
+class DryRunRollback extends Error {}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: Migration[];
+  dryRun: boolean;
+}
+
+function hasMigrationsTable(db: SqliteDatabase): boolean {
+  return db.prepare(`
+    SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'
+  `).get() !== undefined;
+}
+
+function ensureMigrationsTable(db: SqliteDatabase): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER DEFAULT (unixepoch()) NOT NULL
+    )
+  `);
+}
+
+/**
+ * Get versions of applied migrations
+ */
+function getAppliedVersions(db: SqliteDatabase): Set<number> {
+  if (!hasMigrationsTable(db)) return new Set();
+  const rows = db.prepare(`SELECT version FROM schema_migrations`).all() as { version: number }[];
+  return new Set(rows.map(row => row.version));
+}
+
+/**
+ * Get current schema version of the database (0 = no migrations applied)
+ */
+export function getSchemaVersion(db: SqliteDatabase): number {
+  return Math.max(0, ...getAppliedVersions(db));
+}
+
+/**
+ * Get migrations that are not applied yet
+ */
+export function getPendingMigrations(db: SqliteDatabase): Migration[] {
+  const applied = getAppliedVersions(db);
+  return migrations.filter(migration => !applied.has(migration.version));
+}
+
+/**
+ * Apply pending migrations, each in its own transaction
+ *
+ * Refuses to run on a database migrated by newer code (unknown versions).
+ * In dry-run mode all pending migrations run in one transaction that is
+ * rolled back - the database is left untouched
+ */
+export function runMigrations(db: SqliteDatabase, options: { dryRun?: boolean } = {}): MigrationResult {
+  const { dryRun = false } = options;
+  const fromVersion = getSchemaVersion(db);
+
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `[Migrations] Database schema version ${fromVersion} is newer than this code supports (${LATEST_SCHEMA_VERSION}). ` +
+      'Refusing to start - deploy the newer version or restore a matching backup.'
+    );
+  }
+
+  const pending = getPendingMigrations(db);
+  const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [], dryRun };
+
+  const applyMigration = (migration: Migration) => {
+    try {
+      migration.up(db);
+    } catch (error: any) {
+      throw new Error(`[Migrations] ${String(migration.version).padStart(4, '0')}_${migration.name} failed: ${error.message}`);
+    }
+    db.prepare(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`).run(migration.version, migration.name);
+    result.applied.push(migration);
+    result.toVersion = migration.version;
+  };
+
+  if (dryRun) {
+    try {
+      db.transaction(() => {
+        ensureMigrationsTable(db);
+        pending.forEach(applyMigration);
+        // Check the would-be schema before rolling back
+        verifySchema(db);
+        throw new DryRunRollback();
+      })();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+    return result;
+  }
+
+  ensureMigrationsTable(db);
+  for (const migration of pending) {
+    db.transaction(() => applyMigration(migration))();
+    console.log(`[Migrations] Applied ${String(migration.version).padStart(4, '0')}_${migration.name}`);
+  }
+
+  return result;
+}
+
+/**
+ * Check that every table, column and index declared in schema.ts exists in the database
+ * Throws with the list of differences - schema.ts and migrations must not drift apart
+ */
+export function verifySchema(db: SqliteDatabase): void {
+  const problems: string[] = [];
+
+  const tables = (Object.values(schema) as unknown[]).filter(
+    (value): value is SQLiteTable => value instanceof SQLiteTable
+  );
+
+  for (const table of tables) {
+    const config = getTableConfig(table);
+    const dbColumns = db.prepare(`PRAGMA table_info(${config.name})`).all() as { name: string }[];
+
+    if (dbColumns.length === 0) {
+      problems.push(`missing table ${config.name}`);
+      continue;
+    }
+
+    const columnNames = new Set(dbColumns.map(c => c.name));
+    config.columns.forEach(column => {
+      if (!columnNames.has(column.name)) {
+        problems.push(`missing column ${config.name}.${column.name}`);
+      }
+    });
+
+    // Индексы сравниваем по колонкам, а не по имени:
+    // UNIQUE(...) в CREATE TABLE создаёт sqlite_autoindex_* вместо именованного индекса
+    const dbIndexes = (db.prepare(`PRAGMA index_list(${config.name})`).all() as { name: string; unique: number }[])
+      .map(index => ({
+        unique: index.unique === 1,
+        columns: (db.prepare(`PRAGMA index_info(${JSON.stringify(index.name)})`).all() as { name: string }[])
+          .map(c => c.name)
+          .join(','),
+      }));
+
+    config.indexes.forEach(index => {
+      const columns = index.config.columns.map(c => ('name' in c ? c.name : '')).join(',');
+      const found = dbIndexes.some(dbIndex => dbIndex.columns === columns && (!index.config.unique || dbIndex.unique));
+      if (!found) {
+        problems.push(`missing index ${index.config.name} on ${config.name}(${columns})`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`[Migrations] schema.ts does not match the database: ${problems.join('; ')}`);
+  }
+}
@@ -0,0 +1,142 @@
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { db, sqlite } from '../index.js';
+import { exportJobs, ExportJob } from '../schema.js';
+
+/**
+ * Repository for export (ZIP archive) jobs
+ */
+export class ExportJobsRepository {
+  /**
+   * Create a pending job
+   */
+  async create(userId: number): Promise<ExportJob> {
+    const result = await db.insert(exportJobs).values({ userId }).returning();
+    return result[0];
+  }
+
+  /**
+   * Find job by ID (without ownership check - used by the worker)
+   */
+  async findById(id: number): Promise<ExportJob | null> {
+    const result = await db.select().from(exportJobs).where(eq(exportJobs.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find job by ID (only if owned by user)
+   */
+  async findByIdForUser(id: number, userId: number): Promise<ExportJob | null> {
+    const result = await db
+      .select()
+      .from(exportJobs)
+      .where(and(eq(exportJobs.id, id), eq(exportJobs.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Get the most recent job of a user
+   */
+  async findLatest(userId: number): Promise<ExportJob | null> {
+    const result = await db
+      .select()
+      .from(exportJobs)
+      .where(eq(exportJobs.userId, userId))
+      .orderBy(desc(exportJobs.createdAt), desc(exportJobs.id))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Get pending or running job of a user (only one at a time is allowed)
+   */
+  async findActive(userId: number): Promise<ExportJob | null> {
+    const result = await db
+      .select()
+      .from(exportJobs)
+      .where(and(eq(exportJobs.userId, userId), inArray(exportJobs.status, ['pending', 'running'])))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Mark job as running with known total
+   */
+  markRunning(id: number, totalFiles: number): void {
+    sqlite.prepare(`
+      UPDATE export_jobs
+      SET status = 'running', total_files = ?, updated_at = unixepoch()
+      WHERE id = ?
+    `).run(totalFiles, id);
+  }
+
+  /**
+   * Update progress counters
+   */
+  updateProgress(id: number, processedFiles: number, skippedFiles: number): void {
+    sqlite.prepare(`
+      UPDATE export_jobs
+      SET processed_files = ?, skipped_files = ?, updated_at = unixepoch()
+      WHERE id = ?
+    `).run(processedFiles, skippedFiles, id);
+  }
+
+  /**
+   * Mark job as done with archive location
+   */
+  markDone(id: number, archivePath: string, archiveSize: number): void {
+    sqlite.prepare(`
+      UPDATE export_jobs
+      SET status = 'done', archive_path = ?, archive_size = ?,
+          updated_at = unixepoch(), finished_at = unixepoch()
+      WHERE id = ?
+    `).run(archivePath, archiveSize, id);
+  }
+
+  /**
+   * Mark job as failed
+   */
+  markFailed(id: number, error: string): void {
+    sqlite.prepare(`
+      UPDATE export_jobs
+      SET status = 'failed', error = ?, updated_at = unixepoch(), finished_at = unixepoch()
+      WHERE id = ?
+    `).run(error, id);
+  }
+
+  /**
+   * Fail jobs left pending/running by a previous process (archive is incomplete)
+   * Returns count of failed jobs
+   */
+  failInterrupted(): number {
+    const result = sqlite.prepare(`
+      UPDATE export_jobs
+      SET status = 'failed', error = 'INTERRUPTED', updated_at = unixepoch(), finished_at = unixepoch()
+      WHERE status IN ('pending', 'running')
+    `).run();
+    return result.changes;
+  }
+
+  /**
+   * Get finished jobs whose archive is older than the given date
+   */
+  findExpired(olderThan: Date): { id: number; archivePath: string | null }[] {
+    const rows = sqlite.prepare(`
+      SELECT id, archive_path FROM export_jobs
+      WHERE status = 'done' AND finished_at < ?
+    `).all(Math.floor(olderThan.getTime() / 1000)) as { id: number; archive_path: string | null }[];
+
+    return rows.map(row => ({ id: row.id, archivePath: row.archive_path }));
+  }
+
+  /**
+   * Mark job as expired (archive removed from disk)
+   */
+  markExpired(id: number): void {
+    sqlite.prepare(`
+      UPDATE export_jobs
+      SET status = 'expired', archive_path = NULL, updated_at = unixepoch()
+      WHERE id = ?
+    `).run(id);
+  }
+}
@@ -1,7 +1,10 @@
-import { eq, and, desc, sql, isNull, isNotNull, lt, or } from 'drizzle-orm';
+import { eq, and, desc, sql, isNull, isNotNull, lt, lte, or, inArray } from 'drizzle-orm';
+import { MessageEntity } from '@grammyjs/types';
 import { db, sqlite, searchFilesWithSnippets, SearchResult, FileSearchOptions } from '../index.js';
-import { files, NewFile, File } from '../schema.js';
-import { MediaType, CategoryStats } from '../../types/index.js';
+import { files, spaceMembers, captionHistory, NewFile, File, CaptionHistoryEntry } from '../schema.js';
+import { trashExpiryCutoff } from './settings.repository.js';
+import { MediaType, CategoryStats, CaptionEditSource } from '../../types/index.js';
+import { adjustEntitiesForEdit, parseEntities, serializeEntities } from '../../services/message-entities.service.js';
 
 /**
  * Repository for file operations
@@ -32,6 +35,38 @@ export class FilesRepository {
     return result[0] || null;
   }
 
+  /**
+   * Find file the user may open: own file or a file of a shared space
+   * the user is a member of (space content is owned by the chat id).
+   * Deleted space files are visible only to space admins (they manage the space trash);
+   * own deleted files are returned as is - callers decide what to do with trash
+   */
+  async findAccessible(id: number, userId: number): Promise<File | null> {
+    const memberSpaces = db
+      .select({ spaceId: spaceMembers.spaceId })
+      .from(spaceMembers)
+      .where(eq(spaceMembers.userId, userId));
+
+    const adminSpaces = db
+      .select({ spaceId: spaceMembers.spaceId })
+      .from(spaceMembers)
+      .where(and(eq(spaceMembers.userId, userId), eq(spaceMembers.role, 'admin')));
+
+    const result = await db
+      .select()
+      .from(files)
+      .where(and(
+        eq(files.id, id),
+        or(
+          eq(files.userId, userId),
+          and(inArray(files.userId, memberSpaces), isNull(files.deletedAt)),
+          inArray(files.userId, adminSpaces)
+        )
+      ))
+      .limit(1);
+    return result[0] || null;
+  }
+
   /**
    * Find file by unique ID for deduplication check
    */
@@ -44,6 +79,24 @@ export class FilesRepository {
     return result[0] || null;
   }
 
+  /**
+   * Find file by the chat message it was saved from (excludes deleted)
+   * Used when user replies to a saved message in the bot chat
+   */
+  async findByMessage(userId: number, chatId: number, messageId: number): Promise<File | null> {
+    const result = await db
+      .select()
+      .from(files)
+      .where(and(
+        eq(files.userId, userId),
+        eq(files.chatId, chatId),
+        eq(files.originalMessageId, messageId),
+        isNull(files.deletedAt)
+      ))
+      .limit(1);
+    return result[0] || null;
+  }
+
   /**
    * Get files for a user with optional filtering (excludes deleted)
    */
@@ -51,14 +104,19 @@ export class FilesRepository {
     userId: number,
     options: {
       mediaType?: MediaType;
+      folderId?: number;
       limit?: number;
       offset?: number;
     } = {}
   ): Promise<{ items: File[]; total: number }> {
-    const { mediaType, limit = 20, offset = 0 } = options;
+    const { mediaType, folderId, limit = 20, offset = 0 } = options;
 
-    // Base condition: user's files that are NOT deleted
-    const baseCondition = and(eq(files.userId, userId), isNull(files.deletedAt));
+    // Base condition: user's files that are NOT deleted (optionally inside a folder)
+    const baseCondition = and(
+      eq(files.userId, userId),
+      isNull(files.deletedAt),
+      folderId !== undefined ? eq(files.folderId, folderId) : undefined
+    );
 
     let whereCondition = baseCondition;
     if (mediaType === 'photo') {
@@ -92,6 +150,9 @@ export class FilesRepository {
         eq(files.mediaType, 'document'),
         sql`(${files.mimeType} IS NULL OR (${files.mimeType} NOT LIKE 'image/%' AND ${files.mimeType} NOT LIKE 'video/%'))`
       );
+    } else if (mediaType === 'animation') {
+      // Библиотека GIF: гифки и стикеры в одной категории
+      whereCondition = and(baseCondition, inArray(files.mediaType, ['animation', 'sticker']));
     } else if (mediaType) {
       whereCondition = and(baseCondition, eq(files.mediaType, mediaType));
     }
@@ -124,6 +185,83 @@ export class FilesRepository {
     return db.select().from(files).where(whereClause).orderBy(desc(files.createdAt));
   }
 
+  /**
+   * Remember that file content was copied to the mirror store
+   */
+  markMirrored(id: number, provider: string): void {
+    sqlite.prepare(`
+      UPDATE files SET mirror_provider = ?, mirrored_at = unixepoch() WHERE id = ?
+    `).run(provider, id);
+  }
+
+  /**
+   * Files that need a locally generated preview: no Telegram thumbnail,
+   * not generated yet, attempts left and retry time reached
+   * Files over the Bot API download limit can't be fetched and are skipped
+   */
+  async findNeedingThumbnail(options: {
+    mediaTypes: string[];
+    maxAttempts: number;
+    maxFileSize: number | null; // null - any size
+    limit: number;
+  }): Promise<File[]> {
+    return db
+      .select()
+      .from(files)
+      .where(
+        and(
+          isNull(files.thumbnailFileId),
+          isNull(files.generatedThumbnail),
+          isNull(files.deletedAt),
+          inArray(files.mediaType, options.mediaTypes),
+          lt(files.thumbnailAttempts, options.maxAttempts),
+          or(isNull(files.thumbnailRetryAt), lte(files.thumbnailRetryAt, new Date())),
+          options.maxFileSize !== null
+            ? or(isNull(files.fileSize), lte(files.fileSize, options.maxFileSize))
+            : undefined
+        )
+      )
+      .orderBy(desc(files.createdAt))
+      .limit(options.limit);
+  }
+
+  /**
+   * Save generated preview (file name in previews dir)
+   */
+  markThumbnailGenerated(id: number, generatedThumbnail: string): void {
+    sqlite.prepare(`
+      UPDATE files SET generated_thumbnail = ?, thumbnail_retry_at = NULL WHERE id = ?
+    `).run(generatedThumbnail, id);
+  }
+
+  /**
+   * Postpone preview generation
+   * countAttempt = false - not a failure of this file (e.g. renderer is not installed)
+   */
+  postponeThumbnail(id: number, retryAt: Date, countAttempt: boolean): void {
+    sqlite.prepare(`
+      UPDATE files
+      SET thumbnail_retry_at = ?, thumbnail_attempts = thumbnail_attempts + ?
+      WHERE id = ?
+    `).run(Math.floor(retryAt.getTime() / 1000), countAttempt ? 1 : 0, id);
+  }
+
+  /**
+   * Give up on preview generation (unsupported format)
+   */
+  skipThumbnail(id: number, maxAttempts: number): void {
+    sqlite.prepare(`
+      UPDATE files SET thumbnail_attempts = ?, thumbnail_retry_at = NULL WHERE id = ?
+    `).run(maxAttempts, id);
+  }
+
+  /**
+   * Get all files of a user including trash (for catalog export)
+   */
+  async findAllIncludingDeleted(userId: number): Promise<File[]> {
+    return db.select().from(files).where(eq(files.userId, userId)).orderBy(desc(files.createdAt));
+  }
+
   /**
    * Full-text search with match info (where found, snippet)
    */
@@ -139,8 +277,9 @@ export class FilesRepository {
   /**
    * Get category statistics for a user (excludes deleted)
    * Images/videos sent as documents are counted in 'photo'/'video' categories
+   * If folderId is given, only files directly inside that folder are counted
    */
-  async getCategoryStats(userId: number): Promise<CategoryStats[]> {
+  async getCategoryStats(userId: number, folderId?: number): Promise<CategoryStats[]> {
     // Use CASE to reclassify document images/videos
     const result = await db
       .select({
@@ -156,7 +295,11 @@ export class FilesRepository {
         count: sql<number>`count(*)`,
       })
       .from(files)
-      .where(and(eq(files.userId, userId), isNull(files.deletedAt)))
+      .where(and(
+        eq(files.userId, userId),
+        isNull(files.deletedAt),
+        folderId !== undefined ? eq(files.folderId, folderId) : undefined
+      ))
       .groupBy(sql`
         CASE
           WHEN ${files.mediaType} = 'document' AND ${files.mimeType} LIKE 'image/%'
@@ -244,12 +387,12 @@ export class FilesRepository {
   }
 
   /**
-   * Delete all files in trash older than specified date
+   * Delete all files that stayed in trash longer than the owner's retention period
    */
-  async cleanupOldDeleted(olderThan: Date): Promise<number> {
+  async cleanupOldDeleted(): Promise<number> {
     const result = await db
       .delete(files)
-      .where(and(isNotNull(files.deletedAt), lt(files.deletedAt, olderThan)));
+      .where(and(isNotNull(files.deletedAt), lt(files.deletedAt, trashExpiryCutoff(files.userId))));
 
     return result.changes;
   }
@@ -324,9 +467,14 @@ export class FilesRepository {
       height: row.height,
       thumbnailFileId: row.thumbnail_file_id,
       caption: row.caption,
+      captionEntities: row.caption_entities,
+      emoji: row.emoji,
       forwardFromName: row.forward_from_name,
       forwardFromChatTitle: row.forward_from_chat_title,
       isFavorite: Boolean(row.is_favorite),
+      folderId: row.folder_id,
+      mediaGroupId: row.media_group_id,
+      generatedThumbnail: row.generated_thumbnail,
       createdAt: new Date(row.created_at * 1000),
       deletedAt: row.deleted_at ? new Date(row.deleted_at * 1000) : null,
     })) as File[];
@@ -373,22 +521,179 @@ export class FilesRepository {
 
   /**
    * Update caption for multiple files
+   * Formatting: explicit entities (caption sent from Telegram) replace the old ones,
+   * otherwise old caption entities are shifted to the edited text (see adjustEntitiesForEdit)
+   * The replaced caption goes to caption_history (unchanged files are not recorded)
    * Returns count of actually updated files
    * FTS index is automatically updated via database triggers
    */
-  updateCaption(ids: number[], userId: number, caption: string | null): number {
+  updateCaption(
+    ids: number[],
+    userId: number,
+    caption: string | null,
+    entities?: MessageEntity[],
+    source: CaptionEditSource = 'app'
+  ): number {
+    if (ids.length === 0) return 0;
+
+    const placeholders = ids.map(() => '?').join(',');
+    const rows = sqlite.prepare(`
+      SELECT id, caption, caption_entities FROM files
+      WHERE id IN (${placeholders})
+        AND user_id = ?
+        AND deleted_at IS NULL
+    `).all(...ids, userId) as { id: number; caption: string | null; caption_entities: string | null }[];
+
+    const updateStmt = sqlite.prepare(`
+      UPDATE files
+      SET caption = ?, caption_entities = ?
+      WHERE id = ?
+    `);
+    const historyStmt = sqlite.prepare(`
+      INSERT INTO caption_history (file_id, caption, caption_entities, source)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    // У каждого файла своя старая подпись - сдвигаем сущности по отдельности
+    const updateTx = sqlite.transaction(() => {
+      for (const row of rows) {
+        const captionEntities = !caption
+          ? undefined
+          : entities ?? adjustEntitiesForEdit(row.caption || '', caption, parseEntities(row.caption_entities));
+        const serialized = serializeEntities(captionEntities) ?? null;
+        if ((row.caption || null) === (caption || null) && row.caption_entities === serialized) continue;
+
+        historyStmt.run(row.id, row.caption, row.caption_entities, source);
+        updateStmt.run(caption, serialized, row.id);
+      }
+    });
+    updateTx();
+
+    return rows.length;
+  }
+
+  /**
+   * Previous captions of a file, newest first
+   */
+  async getCaptionHistory(fileId: number): Promise<CaptionHistoryEntry[]> {
+    return db
+      .select()
+      .from(captionHistory)
+      .where(eq(captionHistory.fileId, fileId))
+      .orderBy(desc(captionHistory.id));
+  }
+
+  /**
+   * Find a caption history entry of a file
+   */
+  async findCaptionHistoryEntry(fileId: number, entryId: number): Promise<CaptionHistoryEntry | null> {
+    const result = await db
+      .select()
+      .from(captionHistory)
+      .where(and(eq(captionHistory.id, entryId), eq(captionHistory.fileId, fileId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Replace the media of a saved file (message edited in Telegram with another photo/document)
+   * Mirror copy and generated preview belong to the old media - reset them
+   * Returns null if the new media is already saved as another file of the user
+   */
+  replaceMedia(
+    id: number,
+    media: Pick<NewFile, 'fileId' | 'fileUniqueId' | 'mediaType' | 'mimeType' | 'fileName' | 'fileSize'
+      | 'duration' | 'width' | 'height' | 'thumbnailFileId'>
+  ): File | null {
+    try {
+      const result = db
+        .update(files)
+        .set({
+          fileId: media.fileId,
+          fileUniqueId: media.fileUniqueId,
+          mediaType: media.mediaType,
+          mimeType: media.mimeType ?? null,
+          fileName: media.fileName ?? null,
+          fileSize: media.fileSize ?? null,
+          duration: media.duration ?? null,
+          width: media.width ?? null,
+          height: media.height ?? null,
+          thumbnailFileId: media.thumbnailFileId ?? null,
+          mirrorProvider: null,
+          mirroredAt: null,
+          generatedThumbnail: null,
+          thumbnailAttempts: 0,
+          thumbnailRetryAt: null,
+        })
+        .where(eq(files.id, id))
+        .returning()
+        .all();
+      return result[0] || null;
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE' || error.message?.includes('UNIQUE')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy album caption to files of the media group that have none
+   * Telegram puts the caption on one message of the album only
+   * Returns the album caption (or null if no file of the group has one)
+   */
+  syncGroupCaption(userId: number, mediaGroupId: string): string | null {
+    const row = sqlite.prepare(`
+      SELECT caption, caption_entities FROM files
+      WHERE user_id = ? AND media_group_id = ? AND caption IS NOT NULL AND caption != ''
+      ORDER BY id
+      LIMIT 1
+    `).get(userId, mediaGroupId) as { caption: string; caption_entities: string | null } | undefined;
+
+    if (!row) return null;
+
+    sqlite.prepare(`
+      UPDATE files
+      SET caption = ?, caption_entities = ?
+      WHERE user_id = ? AND media_group_id = ? AND (caption IS NULL OR caption = '')
+    `).run(row.caption, row.caption_entities, userId, mediaGroupId);
+
+    return row.caption;
+  }
+
+  /**
+   * Get IDs of all files of a media group (album)
+   * With withCaption - only files that carry this caption (copied by syncGroupCaption)
+   */
+  getGroupFileIds(userId: number, mediaGroupId: string, withCaption?: string): number[] {
+    const rows = (withCaption === undefined
+      ? sqlite.prepare(`
+          SELECT id FROM files WHERE user_id = ? AND media_group_id = ? ORDER BY id
+        `).all(userId, mediaGroupId)
+      : sqlite.prepare(`
+          SELECT id FROM files WHERE user_id = ? AND media_group_id = ? AND caption = ? ORDER BY id
+        `).all(userId, mediaGroupId, withCaption)) as { id: number }[];
+
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Move multiple files into a folder (null = back to root)
+   * Returns count of moved files
+   */
+  moveToFolder(ids: number[], userId: number, folderId: number | null): number {
     if (ids.length === 0) return 0;
 
     const placeholders = ids.map(() => '?').join(',');
     const stmt = sqlite.prepare(`
       UPDATE files
-      SET caption = ?
+      SET folder_id = ?
       WHERE id IN (${placeholders})
         AND user_id = ?
         AND deleted_at IS NULL
     `);
 
-    const result = stmt.run(caption, ...ids, userId);
+    const result = stmt.run(folderId, ...ids, userId);
     return result.changes;
   }
 
@@ -0,0 +1,144 @@
+import { eq, and, sql } from 'drizzle-orm';
+import { db, sqlite } from '../index.js';
+import { folders, Folder } from '../schema.js';
+import { FolderRecord } from '../../types/index.js';
+
+/**
+ * Repository for folder (collection) operations
+ */
+export class FoldersRepository {
+  /**
+   * Create a new folder
+   */
+  async create(userId: number, name: string, parentId: number | null = null): Promise<Folder> {
+    const result = await db.insert(folders).values({ userId, name, parentId }).returning();
+    return result[0];
+  }
+
+  /**
+   * Find folder by ID (only if owned by user)
+   */
+  async findById(id: number, userId: number): Promise<Folder | null> {
+    const result = await db
+      .select()
+      .from(folders)
+      .where(and(eq(folders.id, id), eq(folders.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Get all folders of a user with counts of non-deleted items
+   * Returned flat - the client builds the tree from parentId
+   */
+  findByUser(userId: number): FolderRecord[] {
+    const stmt = sqlite.prepare(`
+      SELECT
+        fo.*,
+        (SELECT COUNT(*) FROM files f WHERE f.folder_id = fo.id AND f.deleted_at IS NULL) as file_count,
+        (SELECT COUNT(*) FROM links l WHERE l.folder_id = fo.id AND l.deleted_at IS NULL) as link_count,
+        (SELECT COUNT(*) FROM notes n WHERE n.folder_id = fo.id AND n.deleted_at IS NULL) as note_count,
+        (SELECT COUNT(*) FROM items i WHERE i.folder_id = fo.id AND i.deleted_at IS NULL) as item_count
+      FROM folders fo
+      WHERE fo.user_id = ?
+      ORDER BY fo.name COLLATE NOCASE
+    `);
+
+    const rows = stmt.all(userId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      parentId: row.parent_id,
+      name: row.name,
+      fileCount: row.file_count,
+      linkCount: row.link_count,
+      noteCount: row.note_count,
+      itemCount: row.item_count,
+      createdAt: new Date(row.created_at * 1000),
+      updatedAt: new Date(row.updated_at * 1000),
+    }));
+  }
+
+  /**
+   * Count folders of a user: direct subfolders of parentId, or all folders if not given
+   */
+  async getCount(userId: number, parentId?: number): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(folders)
+      .where(and(
+        eq(folders.userId, userId),
+        parentId !== undefined ? eq(folders.parentId, parentId) : undefined
+      ));
+
+    return result[0]?.count || 0;
+  }
+
+  /**
+   * Rename a folder
+   */
+  async rename(id: number, userId: number, name: string): Promise<boolean> {
+    const result = await db
+      .update(folders)
+      .set({ name, updatedAt: new Date() })
+      .where(and(eq(folders.id, id), eq(folders.userId, userId)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Move a folder under another parent (null = root)
+   * Caller must check for cycles with isDescendantOrSelf() first
+   */
+  async move(id: number, userId: number, parentId: number | null): Promise<boolean> {
+    const result = await db
+      .update(folders)
+      .set({ parentId, updatedAt: new Date() })
+      .where(and(eq(folders.id, id), eq(folders.userId, userId)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Check whether candidateId is folderId itself or one of its subfolders
+   * Used to prevent cycles when moving folders
+   */
+  isDescendantOrSelf(candidateId: number, folderId: number): boolean {
+    const stmt = sqlite.prepare(`
+      WITH RECURSIVE ancestors(id, parent_id) AS (
+        SELECT id, parent_id FROM folders WHERE id = ?
+        UNION ALL
+        SELECT fo.id, fo.parent_id FROM folders fo
+        JOIN ancestors a ON fo.id = a.parent_id
+      )
+      SELECT 1 FROM ancestors WHERE id = ? LIMIT 1
+    `);
+
+    return stmt.get(candidateId, folderId) !== undefined;
+  }
+
+  /**
+   * Delete a folder
+   * Subfolders, files, links, notes and items are moved up to the parent folder (nothing is lost)
+   */
+  delete(id: number, userId: number): boolean {
+    const folder = sqlite.prepare(`
+      SELECT parent_id FROM folders WHERE id = ? AND user_id = ?
+    `).get(id, userId) as { parent_id: number | null } | undefined;
+
+    if (!folder) return false;
+
+    const deleteTx = sqlite.transaction(() => {
+      sqlite.prepare(`UPDATE folders SET parent_id = ? WHERE parent_id = ?`).run(folder.parent_id, id);
+      sqlite.prepare(`UPDATE files SET folder_id = ? WHERE folder_id = ?`).run(folder.parent_id, id);
+      sqlite.prepare(`UPDATE links SET folder_id = ? WHERE folder_id = ?`).run(folder.parent_id, id);
+      sqlite.prepare(`UPDATE notes SET folder_id = ? WHERE folder_id = ?`).run(folder.parent_id, id);
+      sqlite.prepare(`UPDATE items SET folder_id = ? WHERE folder_id = ?`).run(folder.parent_id, id);
+      sqlite.prepare(`DELETE FROM folders WHERE id = ?`).run(id);
+    });
+    deleteTx();
+
+    return true;
+  }
+}
@@ -0,0 +1,199 @@
+import { eq, desc, sql, and, isNull, isNotNull, lt, inArray } from 'drizzle-orm';
+import { db, sqlite } from '../index.js';
+import { items, NewItem, Item } from '../schema.js';
+import { trashExpiryCutoff } from './settings.repository.js';
+import { ItemKind } from '../../types/index.js';
+
+/**
+ * Repository for structured items (locations, venues, contacts, polls)
+ */
+export class ItemsRepository {
+  /**
+   * Create a new item
+   * Returns null if the message is already saved (duplicate)
+   */
+  async create(data: NewItem): Promise<Item | null> {
+    try {
+      const result = await db.insert(items).values(data).returning();
+      return result[0];
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE' || error.message?.includes('UNIQUE')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find item by ID
+   */
+  async findById(id: number): Promise<Item | null> {
+    const result = await db.select().from(items).where(eq(items.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Get items for a user (excludes deleted), optionally only given kinds
+   */
+  async findByUser(
+    userId: number,
+    options: { kinds?: ItemKind[]; folderId?: number; limit?: number; offset?: number } = {}
+  ): Promise<{ items: Item[]; total: number }> {
+    const { kinds, folderId, limit = 20, offset = 0 } = options;
+
+    const whereCondition = and(
+      eq(items.userId, userId),
+      isNull(items.deletedAt),
+      kinds && kinds.length > 0 ? inArray(items.kind, kinds) : undefined,
+      folderId !== undefined ? eq(items.folderId, folderId) : undefined
+    );
+
+    const result = await db
+      .select()
+      .from(items)
+      .where(whereCondition)
+      .orderBy(desc(items.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const countResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(items)
+      .where(whereCondition);
+
+    return {
+      items: result,
+      total: countResult[0]?.count || 0,
+    };
+  }
+
+  /**
+   * Get all non-deleted items of a user - for export
+   */
+  async findAllByUser(userId: number): Promise<Item[]> {
+    return db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), isNull(items.deletedAt)))
+      .orderBy(desc(items.createdAt));
+  }
+
+  /**
+   * Soft delete an item (move to trash)
+   */
+  async softDelete(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .update(items)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(items.id, id), eq(items.userId, userId), isNull(items.deletedAt)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Soft delete multiple items (move to trash)
+   */
+  async softDeleteMany(ids: number[], userId: number): Promise<number> {
+    let deleted = 0;
+    for (const id of ids) {
+      const success = await this.softDelete(id, userId);
+      if (success) deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Move multiple items into a folder (null = back to root)
+   * Returns count of moved items
+   */
+  moveToFolder(ids: number[], userId: number, folderId: number | null): number {
+    if (ids.length === 0) return 0;
+
+    const placeholders = ids.map(() => '?').join(',');
+    const stmt = sqlite.prepare(`
+      UPDATE items
+      SET folder_id = ?
+      WHERE id IN (${placeholders})
+        AND user_id = ?
+        AND deleted_at IS NULL
+    `);
+
+    const result = stmt.run(folderId, ...ids, userId);
+    return result.changes;
+  }
+
+  /**
+   * Get deleted items (trash) for a user
+   */
+  async findDeleted(userId: number): Promise<Item[]> {
+    return db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), isNotNull(items.deletedAt)))
+      .orderBy(desc(items.deletedAt));
+  }
+
+  /**
+   * Get count of non-deleted items per kind
+   */
+  getCountsByKind(userId: number): Record<ItemKind, number> {
+    const rows = sqlite.prepare(`
+      SELECT kind, COUNT(*) as count
+      FROM items
+      WHERE user_id = ? AND deleted_at IS NULL
+      GROUP BY kind
+    `).all(userId) as { kind: ItemKind; count: number }[];
+
+    const counts: Record<ItemKind, number> = { location: 0, venue: 0, contact: 0, poll: 0 };
+    for (const row of rows) {
+      counts[row.kind] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Get trash count for a user
+   */
+  async getTrashCount(userId: number): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(items)
+      .where(and(eq(items.userId, userId), isNotNull(items.deletedAt)));
+
+    return result[0]?.count || 0;
+  }
+
+  /**
+   * Restore an item from trash
+   */
+  async restore(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .update(items)
+      .set({ deletedAt: null })
+      .where(and(eq(items.id, id), eq(items.userId, userId), isNotNull(items.deletedAt)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Permanently delete an item (hard delete)
+   */
+  async hardDelete(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .delete(items)
+      .where(and(eq(items.id, id), eq(items.userId, userId)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete all items that stayed in trash longer than the owner's retention period
+   */
+  async cleanupOldDeleted(): Promise<number> {
+    const result = await db
+      .delete(items)
+      .where(and(isNotNull(items.deletedAt), lt(items.deletedAt, trashExpiryCutoff(items.userId))));
+
+    return result.changes;
+  }
+}
@@ -0,0 +1,172 @@
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { db, sqlite } from '../index.js';
+import { jobs, Job } from '../schema.js';
+import { JobPayloads, JobType } from '../../types/index.js';
+
+/**
+ * Repository for background jobs (see job-queue.service.ts)
+ */
+export class JobsRepository {
+  /**
+   * Create a pending job
+   */
+  async enqueue<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options: { userId?: number | null; runAt?: Date; maxAttempts?: number; total?: number } = {}
+  ): Promise<Job> {
+    const result = await db.insert(jobs).values({
+      type,
+      payload: JSON.stringify(payload),
+      userId: options.userId ?? null,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts,
+      progressTotal: options.total ?? 0,
+    }).returning();
+    return result[0];
+  }
+
+  /**
+   * Find job by ID (only if owned by user)
+   */
+  async findByIdForUser(id: number, userId: number): Promise<Job | null> {
+    const result = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.id, id), eq(jobs.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Get pending and running jobs of a user, newest first
+   */
+  async findActiveForUser(userId: number): Promise<Job[]> {
+    return db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.userId, userId), inArray(jobs.status, ['pending', 'running'])))
+      .orderBy(desc(jobs.createdAt), desc(jobs.id));
+  }
+
+  /**
+   * Is there a job of this type waiting to run
+   */
+  hasPending(type: JobType): boolean {
+    const row = sqlite.prepare(`
+      SELECT 1 FROM jobs WHERE type = ? AND status = 'pending' LIMIT 1
+    `).get(type);
+    return row !== undefined;
+  }
+
+  /**
+   * Take the oldest due job of a type and mark it as running
+   * (one statement - a job can't be taken twice)
+   */
+  async claimNext(type: JobType, now: Date = new Date()): Promise<Job | null> {
+    const result = await db
+      .update(jobs)
+      .set({ status: 'running', updatedAt: now })
+      .where(eq(jobs.id, sql`(
+        SELECT id FROM jobs
+        WHERE type = ${type} AND status = 'pending' AND run_at <= ${Math.floor(now.getTime() / 1000)}
+        ORDER BY run_at, id
+        LIMIT 1
+      )`))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Save progress counters and checkpoint of a running job
+   */
+  updateProgress(id: number, done: number, total: number, result: unknown): void {
+    sqlite.prepare(`
+      UPDATE jobs
+      SET progress_done = ?, progress_total = ?, result = ?, updated_at = unixepoch()
+      WHERE id = ?
+    `).run(done, total, JSON.stringify(result), id);
+  }
+
+  /**
+   * Mark job as done with its result
+   */
+  markDone(id: number, result: unknown): void {
+    sqlite.prepare(`
+      UPDATE jobs
+      SET status = 'done', result = ?, error = NULL, updated_at = unixepoch(), finished_at = unixepoch()
+      WHERE id = ?
+    `).run(JSON.stringify(result ?? null), id);
+  }
+
+  /**
+   * Put failed job back to the queue to run again at runAt
+   */
+  markRetry(id: number, runAt: Date, error: string): void {
+    sqlite.prepare(`
+      UPDATE jobs
+      SET status = 'pending', run_at = ?, error = ?, attempts = attempts + 1, updated_at = unixepoch()
+      WHERE id = ?
+    `).run(Math.floor(runAt.getTime() / 1000), error, id);
+  }
+
+  /**
+   * Put job back to the queue without spending an attempt
+   * (Telegram asked to wait - 429 is not a failure of the job itself)
+   */
+  reschedule(id: number, runAt: Date, error: string): void {
+    sqlite.prepare(`
+      UPDATE jobs
+      SET status = 'pending', run_at = ?, error = ?, updated_at = unixepoch()
+      WHERE id = ?
+    `).run(Math.floor(runAt.getTime() / 1000), error, id);
+  }
+
+  /**
+   * Mark job as failed (no attempts left)
+   */
+  markFailed(id: number, error: string): void {
+    sqlite.prepare(`
+      UPDATE jobs
+      SET status = 'failed', error = ?, attempts = attempts + 1, updated_at = unixepoch(), finished_at = unixepoch()
+      WHERE id = ?
+    `).run(error, id);
+  }
+
+  /**
+   * Jobs left running by a previous process go back to the queue
+   * (handlers continue from the saved checkpoint). An interruption spends an attempt,
+   * so a job that crashes the process every time fails instead of looping forever
+   */
+  requeueInterrupted(error: string): { requeued: number; failed: number } {
+    const requeueTx = sqlite.transaction(() => {
+      const failed = sqlite.prepare(`
+        UPDATE jobs
+        SET status = 'failed', error = ?, attempts = attempts + 1, updated_at = unixepoch(), finished_at = unixepoch()
+        WHERE status = 'running' AND attempts + 1 >= max_attempts
+      `).run(error);
+
+      const requeued = sqlite.prepare(`
+        UPDATE jobs
+        SET status = 'pending', attempts = attempts + 1, updated_at = unixepoch()
+        WHERE status = 'running'
+      `).run();
+
+      return { requeued: requeued.changes, failed: failed.changes };
+    });
+
+    return requeueTx();
+  }
+
+  /**
+   * Delete done/failed jobs finished before the given date
+   * Returns count of deleted jobs
+   */
+  cleanupFinished(olderThan: Date): number {
+    const result = sqlite.prepare(`
+      DELETE FROM jobs
+      WHERE status IN ('done', 'failed') AND finished_at < ?
+    `).run(Math.floor(olderThan.getTime() / 1000));
+    return result.changes;
+  }
+}
@@ -1,6 +1,8 @@
 import { eq, desc, sql, and, isNull, isNotNull, lt } from 'drizzle-orm';
-import { db } from '../index.js';
+import { db, sqlite } from '../index.js';
 import { links, NewLink, Link } from '../schema.js';
+import { trashExpiryCutoff } from './settings.repository.js';
+import { ParsedLink } from '../../types/index.js';
 
 /**
  * Repository for link operations
@@ -27,11 +29,15 @@ export class LinksRepository {
    */
   async findByUser(
     userId: number,
-    options: { limit?: number; offset?: number } = {}
+    options: { folderId?: number; limit?: number; offset?: number } = {}
   ): Promise<{ items: Link[]; total: number }> {
-    const { limit = 20, offset = 0 } = options;
+    const { folderId, limit = 20, offset = 0 } = options;
 
-    const whereCondition = and(eq(links.userId, userId), isNull(links.deletedAt));
+    const whereCondition = and(
+      eq(links.userId, userId),
+      isNull(links.deletedAt),
+      folderId !== undefined ? eq(links.folderId, folderId) : undefined
+    );
 
     const items = await db
       .select()
@@ -52,6 +58,18 @@ export class LinksRepository {
     };
   }
 
+  /**
+   * Get all links of a user - for export
+   * Trash is excluded unless includeDeleted is set
+   */
+  async findAllByUser(userId: number, options: { includeDeleted?: boolean } = {}): Promise<Link[]> {
+    return db
+      .select()
+      .from(links)
+      .where(and(eq(links.userId, userId), options.includeDeleted ? undefined : isNull(links.deletedAt)))
+      .orderBy(desc(links.createdAt));
+  }
+
   /**
    * Check if URL already exists for user
    */
@@ -88,6 +106,26 @@ export class LinksRepository {
     return deleted;
   }
 
+  /**
+   * Move multiple links into a folder (null = back to root)
+   * Returns count of moved links
+   */
+  moveToFolder(ids: number[], userId: number, folderId: number | null): number {
+    if (ids.length === 0) return 0;
+
+    const placeholders = ids.map(() => '?').join(',');
+    const stmt = sqlite.prepare(`
+      UPDATE links
+      SET folder_id = ?
+      WHERE id IN (${placeholders})
+        AND user_id = ?
+        AND deleted_at IS NULL
+    `);
+
+    const result = stmt.run(folderId, ...ids, userId);
+    return result.changes;
+  }
+
   /**
    * Get deleted links (trash) for a user
    */
@@ -123,6 +161,17 @@ export class LinksRepository {
     return result[0]?.count || 0;
   }
 
+  /**
+   * Save OpenGraph preview of a link (parsed in background after the link is saved)
+   */
+  updatePreview(id: number, preview: ParsedLink): void {
+    sqlite.prepare(`
+      UPDATE links
+      SET title = ?, description = ?, image_url = ?, site_name = ?
+      WHERE id = ?
+    `).run(preview.title ?? null, preview.description ?? null, preview.imageUrl ?? null, preview.siteName ?? null, id);
+  }
+
   /**
    * Restore a link from trash
    */
@@ -147,12 +196,12 @@ export class LinksRepository {
   }
 
   /**
-   * Delete all links in trash older than specified date
+   * Delete all links that stayed in trash longer than the owner's retention period
    */
-  async cleanupOldDeleted(olderThan: Date): Promise<number> {
+  async cleanupOldDeleted(): Promise<number> {
     const result = await db
       .delete(links)
-      .where(and(isNotNull(links.deletedAt), lt(links.deletedAt, olderThan)));
+      .where(and(isNotNull(links.deletedAt), lt(links.deletedAt, trashExpiryCutoff(links.userId))));
 
     return result.changes;
   }
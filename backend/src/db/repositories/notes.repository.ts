@@ -0,0 +1,215 @@
+import { eq, desc, sql, and, isNull, isNotNull, lt } from 'drizzle-orm';
+import { MessageEntity } from '@grammyjs/types';
+import { db, sqlite } from '../index.js';
+import { notes, NewNote, Note } from '../schema.js';
+import { trashExpiryCutoff } from './settings.repository.js';
+import { adjustEntitiesForEdit, parseEntities, serializeEntities } from '../../services/message-entities.service.js';
+
+/**
+ * Repository for note operations
+ */
+export class NotesRepository {
+  /**
+   * Create a new note
+   * Returns null if the message is already saved (duplicate)
+   */
+  async create(data: NewNote): Promise<Note | null> {
+    try {
+      const result = await db.insert(notes).values(data).returning();
+      return result[0];
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE' || error.message?.includes('UNIQUE')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find note by ID
+   */
+  async findById(id: number): Promise<Note | null> {
+    const result = await db.select().from(notes).where(eq(notes.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Get notes for a user (excludes deleted)
+   */
+  async findByUser(
+    userId: number,
+    options: { folderId?: number; limit?: number; offset?: number } = {}
+  ): Promise<{ items: Note[]; total: number }> {
+    const { folderId, limit = 20, offset = 0 } = options;
+
+    const whereCondition = and(
+      eq(notes.userId, userId),
+      isNull(notes.deletedAt),
+      folderId !== undefined ? eq(notes.folderId, folderId) : undefined
+    );
+
+    const items = await db
+      .select()
+      .from(notes)
+      .where(whereCondition)
+      .orderBy(desc(notes.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const countResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(notes)
+      .where(whereCondition);
+
+    return {
+      items,
+      total: countResult[0]?.count || 0,
+    };
+  }
+
+  /**
+   * Get all non-deleted notes of a user - for export
+   */
+  async findAllByUser(userId: number): Promise<Note[]> {
+    return db
+      .select()
+      .from(notes)
+      .where(and(eq(notes.userId, userId), isNull(notes.deletedAt)))
+      .orderBy(desc(notes.createdAt));
+  }
+
+  /**
+   * Update note text
+   * Formatting: explicit entities replace the old ones,
+   * otherwise old entities are shifted to the edited text (see adjustEntitiesForEdit)
+   */
+  updateText(id: number, userId: number, text: string, entities?: MessageEntity[]): boolean {
+    const row = sqlite.prepare(`
+      SELECT text, entities FROM notes
+      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
+    `).get(id, userId) as { text: string; entities: string | null } | undefined;
+    if (!row) return false;
+
+    const noteEntities = entities ?? adjustEntitiesForEdit(row.text, text, parseEntities(row.entities));
+    const result = sqlite.prepare(`
+      UPDATE notes
+      SET text = ?, entities = ?, updated_at = unixepoch()
+      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
+    `).run(text, serializeEntities(noteEntities) ?? null, id, userId);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Soft delete a note (move to trash)
+   */
+  async softDelete(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .update(notes)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(notes.id, id), eq(notes.userId, userId), isNull(notes.deletedAt)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Soft delete multiple notes (move to trash)
+   */
+  async softDeleteMany(ids: number[], userId: number): Promise<number> {
+    let deleted = 0;
+    for (const id of ids) {
+      const success = await this.softDelete(id, userId);
+      if (success) deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Move multiple notes into a folder (null = back to root)
+   * Returns count of moved notes
+   */
+  moveToFolder(ids: number[], userId: number, folderId: number | null): number {
+    if (ids.length === 0) return 0;
+
+    const placeholders = ids.map(() => '?').join(',');
+    const stmt = sqlite.prepare(`
+      UPDATE notes
+      SET folder_id = ?
+      WHERE id IN (${placeholders})
+        AND user_id = ?
+        AND deleted_at IS NULL
+    `);
+
+    const result = stmt.run(folderId, ...ids, userId);
+    return result.changes;
+  }
+
+  /**
+   * Get deleted notes (trash) for a user
+   */
+  async findDeleted(userId: number): Promise<Note[]> {
+    return db
+      .select()
+      .from(notes)
+      .where(and(eq(notes.userId, userId), isNotNull(notes.deletedAt)))
+      .orderBy(desc(notes.deletedAt));
+  }
+
+  /**
+   * Get count of non-deleted notes for a user
+   */
+  async getCount(userId: number): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(notes)
+      .where(and(eq(notes.userId, userId), isNull(notes.deletedAt)));
+
+    return result[0]?.count || 0;
+  }
+
+  /**
+   * Get trash count for a user
+   */
+  async getTrashCount(userId: number): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(notes)
+      .where(and(eq(notes.userId, userId), isNotNull(notes.deletedAt)));
+
+    return result[0]?.count || 0;
+  }
+
+  /**
+   * Restore a note from trash
+   */
+  async restore(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .update(notes)
+      .set({ deletedAt: null })
+      .where(and(eq(notes.id, id), eq(notes.userId, userId), isNotNull(notes.deletedAt)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Permanently delete a note (hard delete)
+   */
+  async hardDelete(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .delete(notes)
+      .where(and(eq(notes.id, id), eq(notes.userId, userId)));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete all notes that stayed in trash longer than the owner's retention period
+   */
+  async cleanupOldDeleted(): Promise<number> {
+    const result = await db
+      .delete(notes)
+      .where(and(isNotNull(notes.deletedAt), lt(notes.deletedAt, trashExpiryCutoff(notes.userId))));
+
+    return result.changes;
+  }
+}
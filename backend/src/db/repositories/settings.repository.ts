@@ -0,0 +1,72 @@
+import { eq, sql, SQL } from 'drizzle-orm';
+import { AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { db } from '../index.js';
+import { userSettings, UserSettingsRow } from '../schema.js';
+import { UserSettings } from '../../types/index.js';
+import { TRASH_RETENTION_DAYS } from '../../constants.js';
+
+/**
+ * Settings of a user who never changed anything
+ */
+export const DEFAULT_USER_SETTINGS: Readonly<UserSettings> = {
+  silentMode: false,
+  saveLinks: true,
+  saveStickers: false,
+  notifyDuplicates: true,
+  trashRetentionDays: TRASH_RETENTION_DAYS,
+  defaultShareExpiryHours: null,
+  language: null,
+};
+
+function rowToSettings(row: UserSettingsRow): UserSettings {
+  return {
+    silentMode: row.silentMode,
+    saveLinks: row.saveLinks,
+    saveStickers: row.saveStickers,
+    notifyDuplicates: row.notifyDuplicates,
+    trashRetentionDays: row.trashRetentionDays,
+    defaultShareExpiryHours: row.defaultShareExpiryHours,
+    language: row.language,
+  };
+}
+
+/**
+ * SQL expression: moment (unix seconds) before which a deleted row of this owner expires -
+ * owner's trash retention from user_settings or the default
+ */
+export function trashExpiryCutoff(userIdColumn: AnySQLiteColumn): SQL {
+  return sql`(unixepoch() - coalesce(
+    (SELECT trash_retention_days FROM user_settings WHERE user_id = ${userIdColumn}),
+    ${TRASH_RETENTION_DAYS}
+  ) * 86400)`;
+}
+
+/**
+ * Repository for per-user settings
+ */
+export class SettingsRepository {
+  /**
+   * Get settings of a user (defaults if the user has not changed anything)
+   */
+  async get(userId: number): Promise<UserSettings> {
+    const result = await db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
+    return result[0] ? rowToSettings(result[0]) : { ...DEFAULT_USER_SETTINGS };
+  }
+
+  /**
+   * Change some settings, the rest keep their values
+   * User must exist in users table
+   */
+  async update(userId: number, changes: Partial<UserSettings>): Promise<UserSettings> {
+    const result = await db
+      .insert(userSettings)
+      .values({ ...DEFAULT_USER_SETTINGS, ...changes, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+
+    return rowToSettings(result[0]);
+  }
+}
@@ -0,0 +1,149 @@
+import { eq, and, notInArray } from 'drizzle-orm';
+import { db, sqlite } from '../index.js';
+import { spaces, spaceMembers, users, Space, SpaceMember } from '../schema.js';
+import { SpaceRole, SpaceSummary, SpaceType } from '../../types/index.js';
+
+/**
+ * Who may delete content of a space (others only view and send files to their own chat)
+ */
+export function canDeleteInSpace(role: SpaceRole): boolean {
+  return role === 'admin';
+}
+
+/**
+ * Repository for shared spaces (groups and channels) and their members
+ */
+export class SpacesRepository {
+  /**
+   * Create or reactivate a space for a chat
+   * The chat also gets a users row - space content is owned by the chat id
+   */
+  async upsert(chat: { id: number; type: SpaceType; title: string }, addedBy?: number): Promise<Space> {
+    await db
+      .insert(users)
+      .values({ id: chat.id, firstName: chat.title })
+      .onConflictDoUpdate({ target: users.id, set: { firstName: chat.title, updatedAt: new Date() } });
+
+    const result = await db
+      .insert(spaces)
+      .values({ id: chat.id, type: chat.type, title: chat.title, addedBy })
+      .onConflictDoUpdate({
+        target: spaces.id,
+        set: { type: chat.type, title: chat.title, isActive: true, updatedAt: new Date() },
+      })
+      .returning();
+
+    return result[0];
+  }
+
+  /**
+   * Find space by chat id
+   */
+  async findById(id: number): Promise<Space | null> {
+    const result = await db.select().from(spaces).where(eq(spaces.id, id)).limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Bot was removed from the chat - stop saving, content and members stay
+   */
+  async deactivate(id: number): Promise<void> {
+    await db
+      .update(spaces)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(spaces.id, id));
+  }
+
+  /**
+   * Membership of a user in a space (null - not a member)
+   */
+  async getMember(spaceId: number, userId: number): Promise<SpaceMember | null> {
+    const result = await db
+      .select()
+      .from(spaceMembers)
+      .where(and(eq(spaceMembers.spaceId, spaceId), eq(spaceMembers.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Add a member or change the role
+   */
+  async setMember(spaceId: number, userId: number, role: SpaceRole): Promise<void> {
+    await db
+      .insert(spaceMembers)
+      .values({ spaceId, userId, role })
+      .onConflictDoUpdate({
+        target: [spaceMembers.spaceId, spaceMembers.userId],
+        set: { role, updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Add a regular member, keeps the role of an existing one
+   */
+  async addMember(spaceId: number, userId: number): Promise<void> {
+    await db.insert(spaceMembers).values({ spaceId, userId }).onConflictDoNothing();
+  }
+
+  /**
+   * Remove a member (left or was banned)
+   */
+  async removeMember(spaceId: number, userId: number): Promise<void> {
+    await db
+      .delete(spaceMembers)
+      .where(and(eq(spaceMembers.spaceId, spaceId), eq(spaceMembers.userId, userId)));
+  }
+
+  /**
+   * Sync administrators from getChatAdministrators:
+   * listed users become admins, former admins stay as regular members
+   */
+  async syncAdmins(spaceId: number, adminIds: number[]): Promise<void> {
+    for (const userId of adminIds) {
+      await this.setMember(spaceId, userId, 'admin');
+    }
+
+    await db
+      .update(spaceMembers)
+      .set({ role: 'member', updatedAt: new Date() })
+      .where(and(
+        eq(spaceMembers.spaceId, spaceId),
+        eq(spaceMembers.role, 'admin'),
+        adminIds.length > 0 ? notInArray(spaceMembers.userId, adminIds) : undefined
+      ));
+  }
+
+  /**
+   * Spaces of a user with role and content counts (Mini App listing)
+   */
+  findByMember(userId: number): SpaceSummary[] {
+    const rows = sqlite.prepare(`
+      SELECT
+        s.id, s.type, s.title, m.role,
+        (SELECT COUNT(*) FROM files f WHERE f.user_id = s.id AND f.deleted_at IS NULL) AS file_count,
+        (SELECT COUNT(*) FROM links l WHERE l.user_id = s.id AND l.deleted_at IS NULL) AS link_count
+      FROM space_members m
+      INNER JOIN spaces s ON s.id = m.space_id
+      WHERE m.user_id = ?
+      ORDER BY s.title COLLATE NOCASE
+    `).all(userId) as {
+      id: number;
+      type: SpaceType;
+      title: string;
+      role: SpaceRole;
+      file_count: number;
+      link_count: number;
+    }[];
+
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      role: row.role,
+      canDelete: canDeleteInSpace(row.role),
+      fileCount: row.file_count,
+      linkCount: row.link_count,
+    }));
+  }
+}
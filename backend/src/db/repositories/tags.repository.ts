@@ -0,0 +1,93 @@
+import { sqlite } from '../index.js';
+import { MAX_TAG_LENGTH } from '../../constants.js';
+
+/**
+ * Normalize a tag: strip leading #, lowercase
+ * Returns null if the tag contains anything except letters, digits and _
+ * (same alphabet as Telegram hashtags)
+ */
+export function normalizeTag(raw: string): string | null {
+  const tag = raw.trim().replace(/^#+/, '').toLowerCase();
+  if (tag.length === 0 || tag.length > MAX_TAG_LENGTH) return null;
+  if (!/^[\p{L}\d_]+$/u.test(tag)) return null;
+  return tag;
+}
+
+/**
+ * Repository for file tags
+ */
+export class TagsRepository {
+  /**
+   * Add tags to multiple files (only files owned by user)
+   * Existing tags are kept, duplicates ignored
+   * Returns count of inserted (file, tag) pairs
+   */
+  addToFiles(fileIds: number[], userId: number, tags: string[]): number {
+    if (fileIds.length === 0 || tags.length === 0) return 0;
+
+    const placeholders = fileIds.map(() => '?').join(',');
+    const ownedFiles = sqlite.prepare(`
+      SELECT id FROM files WHERE id IN (${placeholders}) AND user_id = ?
+    `).all(...fileIds, userId) as { id: number }[];
+
+    const insertStmt = sqlite.prepare(`
+      INSERT OR IGNORE INTO file_tags (file_id, user_id, tag) VALUES (?, ?, ?)
+    `);
+
+    let added = 0;
+    const insertTx = sqlite.transaction(() => {
+      for (const file of ownedFiles) {
+        for (const tag of tags) {
+          added += insertStmt.run(file.id, userId, tag).changes;
+        }
+      }
+    });
+    insertTx();
+
+    return added;
+  }
+
+  /**
+   * Remove tags from multiple files
+   * Returns count of removed (file, tag) pairs
+   */
+  removeFromFiles(fileIds: number[], userId: number, tags: string[]): number {
+    if (fileIds.length === 0 || tags.length === 0) return 0;
+
+    const filePlaceholders = fileIds.map(() => '?').join(',');
+    const tagPlaceholders = tags.map(() => '?').join(',');
+    const result = sqlite.prepare(`
+      DELETE FROM file_tags
+      WHERE file_id IN (${filePlaceholders})
+        AND user_id = ?
+        AND tag IN (${tagPlaceholders})
+    `).run(...fileIds, userId, ...tags);
+
+    return result.changes;
+  }
+
+  /**
+   * Get tags of a single file
+   */
+  getForFile(fileId: number): string[] {
+    const rows = sqlite.prepare(`
+      SELECT tag FROM file_tags WHERE file_id = ? ORDER BY tag
+    `).all(fileId) as { tag: string }[];
+
+    return rows.map(row => row.tag);
+  }
+
+  /**
+   * Get all tags of a user with count of non-deleted files
+   */
+  getUserTags(userId: number): { tag: string; count: number }[] {
+    return sqlite.prepare(`
+      SELECT ft.tag as tag, COUNT(*) as count
+      FROM file_tags ft
+      JOIN files f ON f.id = ft.file_id
+      WHERE ft.user_id = ? AND f.deleted_at IS NULL
+      GROUP BY ft.tag
+      ORDER BY count DESC, ft.tag
+    `).all(userId) as { tag: string; count: number }[];
+  }
+}
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, index, uniqueIndex, primaryKey, AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 
 // Users table
@@ -16,6 +16,67 @@ export const users = sqliteTable('users', {
     .notNull(),
 });
 
+// User settings - one row per user, created on the first change (no row = defaults)
+export const userSettings = sqliteTable('user_settings', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  silentMode: integer('silent_mode', { mode: 'boolean' }).default(false).notNull(),
+  saveLinks: integer('save_links', { mode: 'boolean' }).default(true).notNull(),
+  saveStickers: integer('save_stickers', { mode: 'boolean' }).default(false).notNull(),
+  notifyDuplicates: integer('notify_duplicates', { mode: 'boolean' }).default(true).notNull(),
+  trashRetentionDays: integer('trash_retention_days').default(30).notNull(),
+  defaultShareExpiryHours: integer('default_share_expiry_hours'), // null - бессрочно
+  language: text('language', { enum: ['ru', 'en'] }), // null - язык Telegram
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+});
+
+// Shared spaces - groups and channels; id = Telegram chat id, content rows use it as user_id
+export const spaces = sqliteTable('spaces', {
+  id: integer('id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: ['group', 'supergroup', 'channel'] }).notNull(),
+  title: text('title').notNull(),
+  addedBy: integer('added_by').references(() => users.id, { onDelete: 'set null' }),
+  isActive: integer('is_active', { mode: 'boolean' }).default(true).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+});
+
+// Space members - derived from the chat (administrators, chat_member updates, senders)
+export const spaceMembers = sqliteTable('space_members', {
+  spaceId: integer('space_id').notNull().references(() => spaces.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text('role', { enum: ['admin', 'member'] }).default('member').notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.spaceId, table.userId] }),
+  userIdx: index('idx_space_members_user').on(table.userId),
+}));
+
+// Folders table - user-defined collections (nested via parent_id)
+export const folders = sqliteTable('folders', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  parentId: integer('parent_id').references((): AnySQLiteColumn => folders.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+}, (table) => ({
+  userParentIdx: index('idx_folders_user_parent').on(table.userId, table.parentId),
+}));
+
 // Files table - main storage for all media
 export const files = sqliteTable('files', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -41,8 +102,12 @@ export const files = sqliteTable('files', {
   // Thumbnail
   thumbnailFileId: text('thumbnail_file_id'),
 
-  // Content
+  // Content: caption + Telegram caption_entities (JSON, offsets in UTF-16)
   caption: text('caption'),
+  captionEntities: text('caption_entities'),
+
+  // Sticker emoji (search by emoji)
+  emoji: text('emoji'),
 
   // Forward info (for search)
   forwardFromName: text('forward_from_name'),
@@ -53,6 +118,21 @@ export const files = sqliteTable('files', {
     .default(false)
     .notNull(),
 
+  // Folder (null = root)
+  folderId: integer('folder_id').references(() => folders.id, { onDelete: 'set null' }),
+
+  // Album (Telegram media_group_id) - files of one album share it
+  mediaGroupId: text('media_group_id'),
+
+  // Copy in mirror store (local/s3), keyed by file_unique_id
+  mirrorProvider: text('mirror_provider'),
+  mirroredAt: integer('mirrored_at', { mode: 'timestamp' }),
+
+  // Locally generated preview (when Telegram gave no thumbnail)
+  generatedThumbnail: text('generated_thumbnail'),
+  thumbnailAttempts: integer('thumbnail_attempts').default(0).notNull(),
+  thumbnailRetryAt: integer('thumbnail_retry_at', { mode: 'timestamp' }),
+
   // Timestamps
   createdAt: integer('created_at', { mode: 'timestamp' })
     .default(sql`(unixepoch())`)
@@ -67,6 +147,10 @@ export const files = sqliteTable('files', {
   userTypeIdx: index('idx_files_user_type').on(table.userId, table.mediaType),
   // Index for timeline (sorting by date)
   userDateIdx: index('idx_files_user_date').on(table.userId, table.createdAt),
+  // Index for folder listing
+  userFolderIdx: index('idx_files_user_folder').on(table.userId, table.folderId),
+  // Index for album lookup
+  userMediaGroupIdx: index('idx_files_user_media_group').on(table.userId, table.mediaGroupId),
 }));
 
 // Links table - saved URLs with OpenGraph data
@@ -81,6 +165,9 @@ export const links = sqliteTable('links', {
   imageUrl: text('image_url'),
   siteName: text('site_name'),
 
+  // Folder (null = root)
+  folderId: integer('folder_id').references(() => folders.id, { onDelete: 'set null' }),
+
   // Timestamps
   createdAt: integer('created_at', { mode: 'timestamp' })
     .default(sql`(unixepoch())`)
@@ -90,12 +177,192 @@ export const links = sqliteTable('links', {
   deletedAt: integer('deleted_at', { mode: 'timestamp' }),
 }, (table) => ({
   userDateIdx: index('idx_links_user_date').on(table.userId, table.createdAt),
+  userFolderIdx: index('idx_links_user_folder').on(table.userId, table.folderId),
+}));
+
+// Notes table - plain text messages (without files and URLs)
+export const notes = sqliteTable('notes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+
+  // Content: text + Telegram message entities (JSON, offsets in UTF-16)
+  text: text('text').notNull(),
+  entities: text('entities'),
+
+  // Source message (dedup, reply edits)
+  originalMessageId: integer('original_message_id').notNull(),
+  chatId: integer('chat_id').notNull(),
+
+  // Forward info (for search)
+  forwardFromName: text('forward_from_name'),
+  forwardFromChatTitle: text('forward_from_chat_title'),
+
+  // Folder (null = root)
+  folderId: integer('folder_id').references(() => folders.id, { onDelete: 'set null' }),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+
+  // Soft delete
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
+}, (table) => ({
+  userMessageIdx: uniqueIndex('idx_notes_user_message').on(table.userId, table.chatId, table.originalMessageId),
+  userDateIdx: index('idx_notes_user_date').on(table.userId, table.createdAt),
+  userFolderIdx: index('idx_notes_user_folder').on(table.userId, table.folderId),
+}));
+
+// Items table - structured messages: locations, venues, contacts, polls
+export const items = sqliteTable('items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+
+  // location | venue | contact | poll
+  kind: text('kind').notNull(),
+
+  // Card text (searchable): name / question, address / phone, vCard / poll options
+  title: text('title').notNull(),
+  description: text('description'),
+  details: text('details'),
+
+  // Kind-specific payload (JSON) - enough to re-send with the matching Bot API method
+  data: text('data').notNull(),
+
+  // Source message (dedup)
+  originalMessageId: integer('original_message_id').notNull(),
+  chatId: integer('chat_id').notNull(),
+
+  // Forward info (for search)
+  forwardFromName: text('forward_from_name'),
+  forwardFromChatTitle: text('forward_from_chat_title'),
+
+  // Folder (null = root)
+  folderId: integer('folder_id').references(() => folders.id, { onDelete: 'set null' }),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+
+  // Soft delete
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
+}, (table) => ({
+  userMessageIdx: uniqueIndex('idx_items_user_message').on(table.userId, table.chatId, table.originalMessageId),
+  userDateIdx: index('idx_items_user_date').on(table.userId, table.createdAt),
+  userKindIdx: index('idx_items_user_kind').on(table.userId, table.kind),
+  userFolderIdx: index('idx_items_user_folder').on(table.userId, table.folderId),
+}));
+
+// File tags table - free-form tags (normalized: lowercase, without #)
+export const fileTags = sqliteTable('file_tags', {
+  fileId: integer('file_id').notNull().references(() => files.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  tag: text('tag').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.fileId, table.tag] }),
+  userTagIdx: index('idx_file_tags_user_tag').on(table.userId, table.tag),
+}));
+
+// Caption history - previous captions of a file, newest last (revert from the Mini App)
+export const captionHistory = sqliteTable('caption_history', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  fileId: integer('file_id').notNull().references(() => files.id, { onDelete: 'cascade' }),
+  caption: text('caption'),
+  captionEntities: text('caption_entities'),
+  source: text('source', { enum: ['telegram', 'app', 'revert'] }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+}, (table) => ({
+  fileIdx: index('idx_caption_history_file').on(table.fileId, table.id),
+}));
+
+// Export jobs - ZIP archive of user's files and links
+export const exportJobs = sqliteTable('export_jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  status: text('status').notNull().default('pending'), // pending, running, done, failed, expired
+
+  // Progress
+  totalFiles: integer('total_files').default(0).notNull(),
+  processedFiles: integer('processed_files').default(0).notNull(),
+  skippedFiles: integer('skipped_files').default(0).notNull(),
+
+  // Result
+  archivePath: text('archive_path'),
+  archiveSize: integer('archive_size'),
+  error: text('error'),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  finishedAt: integer('finished_at', { mode: 'timestamp' }),
+}, (table) => ({
+  userDateIdx: index('idx_export_jobs_user_date').on(table.userId, table.createdAt),
+}));
+
+// Background jobs - batch sends, link previews, maintenance (see job-queue.service.ts)
+export const jobs = sqliteTable('jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').references(() => users.id), // null - system job (cleanup)
+  type: text('type').notNull(),
+  payload: text('payload').notNull(), // JSON, shape depends on type
+  status: text('status', { enum: ['pending', 'running', 'done', 'failed'] }).notNull().default('pending'),
+
+  // Retries
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(5).notNull(),
+  runAt: integer('run_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+
+  // Progress and result (result is also the checkpoint of a resumable job)
+  progressDone: integer('progress_done').default(0).notNull(),
+  progressTotal: integer('progress_total').default(0).notNull(),
+  result: text('result'),
+  error: text('error'),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .default(sql`(unixepoch())`)
+    .notNull(),
+  finishedAt: integer('finished_at', { mode: 'timestamp' }),
+}, (table) => ({
+  statusRunAtIdx: index('idx_jobs_status_run_at').on(table.status, table.runAt),
+  userDateIdx: index('idx_jobs_user_date').on(table.userId, table.createdAt),
 }));
 
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type UserSettingsRow = typeof userSettings.$inferSelect;
 export type File = typeof files.$inferSelect;
 export type NewFile = typeof files.$inferInsert;
 export type Link = typeof links.$inferSelect;
 export type NewLink = typeof links.$inferInsert;
+export type Note = typeof notes.$inferSelect;
+export type NewNote = typeof notes.$inferInsert;
+export type Item = typeof items.$inferSelect;
+export type NewItem = typeof items.$inferInsert;
+export type Folder = typeof folders.$inferSelect;
+export type NewFolder = typeof folders.$inferInsert;
+export type FileTag = typeof fileTags.$inferSelect;
+export type CaptionHistoryEntry = typeof captionHistory.$inferSelect;
+export type ExportJob = typeof exportJobs.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type Space = typeof spaces.$inferSelect;
+export type SpaceMember = typeof spaceMembers.$inferSelect;
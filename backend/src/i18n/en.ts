@@ -0,0 +1,238 @@
+import type { ru } from './ru.js';
+
+/**
+ * English messages (same keys as ru.ts)
+ */
+export const en: Record<keyof typeof ru, string> = {
+  // Common
+  'common.openStorage': 'Open storage',
+  'common.error': '❌ Error',
+  'common.fileNotFound': 'File not found',
+  'common.sent': '✅ Sent!',
+  'common.sendFailed': '❌ Failed to send',
+  'common.file': 'File',
+  'common.none': 'none',
+  'common.on': 'on',
+  'common.off': 'off',
+  'common.days': '{count} d',
+  'common.hours': '{count} h',
+
+  // Types (singular) and categories (plural)
+  'type.photo': 'Photo',
+  'type.video': 'Video',
+  'type.document': 'Document',
+  'type.audio': 'Audio',
+  'type.voice': 'Voice message',
+  'type.video_note': 'Video message',
+  'type.animation': 'GIF',
+  'type.sticker': 'Sticker',
+  'category.photo': 'Photos',
+  'category.video': 'Videos',
+  'category.document': 'Documents',
+  'category.audio': 'Audio',
+  'category.voice': 'Voice messages',
+  'category.video_note': 'Video messages',
+  'category.animation': 'GIFs',
+  'category.sticker': 'Stickers',
+
+  // Share links (/start share_...)
+  'share.invalid': '❌ The link is invalid or has expired',
+  'share.expired': '❌ The link has expired',
+  'share.limitReached': '❌ The recipient limit has been reached',
+  'share.ownFile': '⚠️ This is your own file',
+  'share.alreadyReceived': '⚠️ You have already received this file',
+  'share.fileNotFound': '❌ File not found',
+  'share.fileDeleted': '❌ The file was deleted by its owner',
+  'share.unknownUser': '❌ Could not identify the user',
+  'share.authError': '❌ Authorization error',
+  'share.sendFailed': '❌ Failed to send the file. Please try again later.',
+  'share.sendFailedShort': '❌ Failed to send the file',
+  'share.addedToCloud': '📁 The file was added to your cloud',
+  'share.sentNotCopied': '⚠️ The file was sent but not added to your cloud. Please save it manually.',
+  'share.copyFailed': '⚠️ Could not add to your cloud. Please save it manually.',
+  'share.fileSent': '✅ File sent!',
+
+  // /start, /help
+  'start.welcome': `
+━━━━━━ FC-CLOUD ━━━━━━
+
+Free cloud storage with no limits.
+Keep your files. Find them in a second.
+
+▍ How to save a file
+   Just send or forward it to me:
+   • Photos and videos
+   • Documents and archives
+   • Audio and voice messages
+   • Links and notes
+
+▍ Search
+   Smart search across everything:
+   • By file name
+   • By caption
+   • By sender
+   • By source chat
+
+   Filters: type, date, size
+
+▍ Sharing
+   Create a link to a file:
+   • Works from any account
+   • Recipient limit
+   • Expiry time
+
+   └── The file lives in the link, not in the account
+
+▍ Categories
+   ▸ Photos
+   ▸ Videos
+   ▸ Documents
+   ▸ Audio
+   ▸ Voice messages
+   ▸ Links
+
+━━━━━━━━━━━━━━━━━━━━━━
+
+▸ /start  — This menu
+▸ /search — Search files
+▸ /recent — Recent files
+▸ /help   — Quick help
+
+━━━━━━━━━━━━━━━━━━━━━━`,
+  'help.text': `
+━━━━━ QUICK HELP ━━━━━
+
+▸ Send a file — I'll save it
+▸ Forward from a chat — I'll save it too
+▸ Drop a link — I'll keep it with a preview
+▸ Write some text — I'll save it as a note
+▸ Location, contact or poll — saved as well
+▸ GIFs and stickers — after /gifs on
+
+─────────────────────
+
+▍ Search examples
+   contract    — by name
+   .pdf        — by extension
+   from:John   — by sender
+
+▍ Commands
+   /search query — search
+   /recent       — recent files
+   /favorites    — favorites
+   /stats        — statistics
+   /trash        — trash
+   /gifs         — GIF library
+   /settings     — settings
+
+▍ In reply to a saved file
+   #work -#old      — tags
+   caption: text    — new caption
+   /fav, /del       — favorite, trash
+
+▍ In any chat
+   @{username} contract — send a file
+
+━━━━━━━━━━━━━━━━━━━━━━`,
+
+  // Bot commands menu (setMyCommands)
+  'commands.start': 'Open storage',
+  'commands.search': 'Search files',
+  'commands.recent': 'Recent files',
+  'commands.favorites': 'Favorites',
+  'commands.stats': 'Storage statistics',
+  'commands.trash': 'Trash',
+  'commands.gifs': 'GIF and sticker library',
+  'commands.settings': 'Settings',
+  'commands.help': 'Help',
+
+  // Saving
+  'save.fileFailed': '❌ Could not process the file',
+  'save.messageFailed': '❌ Could not process the message',
+  'save.saved': '{emoji} Saved!',
+  'save.duplicateFile': '📁 Already saved',
+  'save.duplicate': '📁 Already saved',
+  'save.noteSaved': '📝 Note saved',
+  'save.duplicateNote': '📁 Already saved',
+  'save.linksSaved': '🔗 Saved: {count}',
+  'save.duplicateLinks': '📁 Already saved',
+  'save.linksDisabled': '🔗 Links are not saved — turn it on in /settings',
+
+  // Metadata edit by reply
+  'edit.notSaved': '❌ This message is not saved in the storage',
+  'edit.tags': '🏷 Tags: {tags}',
+  'edit.captionTooLong': '❌ Caption is longer than {limit} characters',
+  'edit.captionUpdated': '✍️ Caption updated',
+  'edit.favorited': '⭐ Added to favorites',
+  'edit.unfavorited': 'Removed from favorites',
+  'edit.trashed': '🗑 Moved to trash',
+  'edit.restored': '♻️ Restored',
+
+  // Library lists and /stats
+  'library.recent': '🕐 Recent files',
+  'library.favorites': '⭐ Favorites',
+  'library.trash': '🗑 Trash',
+  'library.trashEmpty': 'Trash is empty',
+  'library.nothingFound': 'Nothing found',
+  'library.empty': 'Nothing here yet',
+  'library.restore': '♻️ {n}. Restore',
+  'library.loadFailed': '❌ Failed to load the list',
+  'library.searchExpired': 'Search has expired, please repeat /search',
+  'library.searchUsage': 'Usage: /search <query>\nExample: /search contract .pdf week',
+  'stats.title': '📊 Storage statistics',
+  'stats.totalFiles': 'Total files: {count}',
+  'stats.links': '🔗 Links: {count}',
+  'stats.notes': '📝 Notes: {count}',
+  'stats.places': '📍 Places: {count}',
+  'stats.contacts': '👤 Contacts: {count}',
+  'stats.polls': '📊 Polls: {count}',
+  'stats.favorites': '⭐ Favorites: {count}',
+  'stats.trash': '🗑 Trash: {count}',
+  'stats.failed': '❌ Failed to get statistics',
+
+  // /settings
+  'settings.title': '⚙️ Settings',
+  'settings.description': [
+    '▸ Silent mode — save without reactions or replies',
+    '▸ Links off — messages with URLs are not saved',
+    '▸ Trash — how many days deleted items are kept',
+    '▸ Link expiry — default for new «Share» links',
+    '',
+    'Tap an option to change it',
+  ].join('\n'),
+  'settings.silentMode': '🔕 Silent mode: {value}',
+  'settings.saveLinks': '🔗 Save links: {value}',
+  'settings.saveStickers': '🎞 GIFs and stickers: {value}',
+  'settings.notifyDuplicates': '👀 React to duplicates: {value}',
+  'settings.trashRetention': '🗑 Trash keeps items: {value}',
+  'settings.shareExpiry': '⏳ File link expiry: {value}',
+  'settings.language': '🌐 Language: {value}',
+  'settings.languageAuto': 'as in Telegram',
+  'settings.languageName.ru': 'Русский',
+  'settings.languageName.en': 'English',
+  'settings.never': 'never',
+  'settings.saved': '✅ Saved',
+  'settings.loadFailed': '❌ Failed to load settings',
+  'settings.changeFailed': '❌ Failed to change the setting',
+  'gifs.enabled': '🎞 GIF library is on\n\nGIFs and stickers are now saved to a separate category. You can search them by emoji, set name and caption.\n\nTurn off: /gifs off',
+  'gifs.disabled': '🎞 GIF library is off\n\nStickers are no longer saved, GIFs are saved as documents.\n\nTurn on: /gifs on',
+
+  // /get
+  'get.usage': 'Usage: /get <file id>',
+  'get.invalidId': 'Invalid file ID',
+  'get.sendFailed': 'Failed to send the file',
+
+  // Public share page (/share/:token)
+  'page.invalidTitle': 'Invalid link',
+  'page.invalidMessage': 'The file was not found or the link has expired.',
+  'page.description': 'Download the file via FC-Cloud',
+  'page.imageUnavailable': 'Image unavailable',
+  'page.download': 'Download file',
+  'page.tooLarge': 'The file is too large for the browser.<br>\n                Download it via Telegram.',
+  'page.cta': 'Want your own cloud for files?',
+  'page.openTelegram': 'Open in Telegram',
+  'page.expired': 'Expired',
+  'page.minutes': '{count} min',
+  'page.hours': '{count} h',
+  'page.days': '{count} d',
+};
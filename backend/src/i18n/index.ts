@@ -0,0 +1,76 @@
+import { ru } from './ru.js';
+import { en } from './en.js';
+import { Locale } from '../types/index.js';
+
+export type MessageKey = keyof typeof ru;
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Translate function bound to a locale: t('save.linksSaved', { count: 2 })
+ */
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  locale: Locale;
+}
+
+export const LOCALES: Locale[] = ['ru', 'en'];
+
+// Без language_code (старые клиенты, каналы) - русский, как было до локализации
+export const DEFAULT_LOCALE: Locale = 'ru';
+
+const CATALOGUES: Record<Locale, Record<MessageKey, string>> = { ru, en };
+
+// Локаль для toLocaleDateString / Intl
+export const DATE_LOCALES: Record<Locale, string> = {
+  ru: 'ru-RU',
+  en: 'en-US',
+};
+
+/**
+ * Pick interface language: explicit choice in settings, then Telegram language_code
+ * Russian for ru and close languages (uk, be, kk), English for everything else
+ */
+export function resolveLocale(languageCode?: string | null, override?: Locale | null): Locale {
+  if (override) return override;
+  if (!languageCode) return DEFAULT_LOCALE;
+
+  const language = languageCode.toLowerCase().split('-')[0];
+  return ['ru', 'uk', 'be', 'kk'].includes(language) ? 'ru' : 'en';
+}
+
+/**
+ * Pick locale from Accept-Language header (public pages without a Telegram user)
+ * Languages are checked in the order of q-values
+ */
+export function localeFromAcceptLanguage(header?: string): Locale {
+  if (!header) return DEFAULT_LOCALE;
+
+  const languages = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find(p => p.trim().startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: q ? parseFloat(q.trim().slice(2)) || 0 : 1 };
+    })
+    .filter(l => l.tag && l.tag !== '*' && l.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  return languages.length > 0 ? resolveLocale(languages[0].tag) : DEFAULT_LOCALE;
+}
+
+/**
+ * Create translator for a locale. Missing params are left as {name}
+ */
+export function createTranslator(locale: Locale): Translator {
+  const messages = CATALOGUES[locale];
+
+  const t = (key: MessageKey, params?: MessageParams): string => {
+    const message = messages[key] ?? ru[key];
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      params[name] !== undefined ? String(params[name]) : match
+    );
+  };
+
+  return Object.assign(t, { locale });
+}
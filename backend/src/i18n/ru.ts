@@ -0,0 +1,237 @@
+/**
+ * Russian messages - source catalogue (en.ts must have the same keys)
+ * Placeholders: {name}
+ */
+export const ru = {
+  // Common
+  'common.openStorage': 'Открыть хранилище',
+  'common.error': '❌ Ошибка',
+  'common.fileNotFound': 'Файл не найден',
+  'common.sent': '✅ Отправлено!',
+  'common.sendFailed': '❌ Не удалось отправить',
+  'common.file': 'Файл',
+  'common.none': 'нет',
+  'common.on': 'вкл',
+  'common.off': 'выкл',
+  'common.days': '{count} дн.',
+  'common.hours': '{count} ч',
+
+  // Types (singular) and categories (plural)
+  'type.photo': 'Фото',
+  'type.video': 'Видео',
+  'type.document': 'Документ',
+  'type.audio': 'Аудио',
+  'type.voice': 'Голосовое',
+  'type.video_note': 'Кружок',
+  'type.animation': 'GIF',
+  'type.sticker': 'Стикер',
+  'category.photo': 'Фото',
+  'category.video': 'Видео',
+  'category.document': 'Документы',
+  'category.audio': 'Аудио',
+  'category.voice': 'Голосовые',
+  'category.video_note': 'Кружки',
+  'category.animation': 'GIF',
+  'category.sticker': 'Стикеры',
+
+  // Share links (/start share_...)
+  'share.invalid': '❌ Ссылка недействительна или истекла',
+  'share.expired': '❌ Срок действия ссылки истёк',
+  'share.limitReached': '❌ Лимит получателей исчерпан',
+  'share.ownFile': '⚠️ Это ваш собственный файл',
+  'share.alreadyReceived': '⚠️ Вы уже получили этот файл',
+  'share.fileNotFound': '❌ Файл не найден',
+  'share.fileDeleted': '❌ Файл был удалён владельцем',
+  'share.unknownUser': '❌ Не удалось определить пользователя',
+  'share.authError': '❌ Ошибка авторизации',
+  'share.sendFailed': '❌ Ошибка при отправке файла. Попробуйте позже.',
+  'share.sendFailedShort': '❌ Ошибка при отправке файла',
+  'share.addedToCloud': '📁 Файл добавлен в ваше облако',
+  'share.sentNotCopied': '⚠️ Файл отправлен, но не добавлен в облако. Сохраните его вручную.',
+  'share.copyFailed': '⚠️ Не удалось добавить в облако. Сохраните вручную.',
+  'share.fileSent': '✅ Файл отправлен!',
+
+  // /start, /help
+  'start.welcome': `
+━━━━━━ FC-CLOUD ━━━━━━
+
+Бесплатное облако без лимитов.
+Храни файлы. Находи за секунду.
+
+▍ Как сохранить файл
+   Просто отправь или перешли мне:
+   • Фото и видео
+   • Документы и архивы
+   • Аудио и голосовые
+   • Ссылки и заметки
+
+▍ Поиск
+   Умный поиск по всему:
+   • По имени файла
+   • По подписи
+   • По отправителю
+   • По чату-источнику
+
+   Фильтры: тип, дата, размер
+
+▍ Шеринг
+   Создай ссылку на файл:
+   • Работает с любого аккаунта
+   • Лимит получателей
+   • Срок действия
+
+   └── Файл живёт в ссылке, не в аккаунте
+
+▍ Категории
+   ▸ Фото
+   ▸ Видео
+   ▸ Документы
+   ▸ Аудио
+   ▸ Голосовые
+   ▸ Ссылки
+
+━━━━━━━━━━━━━━━━━━━━━━
+
+▸ /start  — Это меню
+▸ /search — Поиск файлов
+▸ /recent — Последние файлы
+▸ /help   — Краткая справка
+
+━━━━━━━━━━━━━━━━━━━━━━`,
+  'help.text': `
+━━━━ КРАТКАЯ СПРАВКА ━━━━
+
+▸ Отправь файл — сохраню
+▸ Перешли из чата — тоже сохраню
+▸ Кинь ссылку — запомню с превью
+▸ Напиши текст — сохраню как заметку
+▸ Геопозиция, контакт или опрос — тоже сохраню
+▸ Гифки и стикеры — после /gifs on
+
+─────────────────────
+
+▍ Примеры поиска
+   договор     — по имени
+   .pdf        — по расширению
+   от:Вася     — по отправителю
+
+▍ Команды
+   /search запрос — поиск
+   /recent        — последние файлы
+   /favorites     — избранное
+   /stats         — статистика
+   /trash         — корзина
+   /gifs          — библиотека GIF
+   /settings      — настройки
+
+▍ Ответом на сохранённый файл
+   #работа -#старое — теги
+   подпись: текст   — новая подпись
+   /fav, /del       — избранное, корзина
+
+▍ В любом чате
+   @{username} договор — отправить файл
+
+━━━━━━━━━━━━━━━━━━━━━━`,
+
+  // Bot commands menu (setMyCommands)
+  'commands.start': 'Открыть хранилище',
+  'commands.search': 'Поиск файлов',
+  'commands.recent': 'Последние файлы',
+  'commands.favorites': 'Избранное',
+  'commands.stats': 'Статистика хранилища',
+  'commands.trash': 'Корзина',
+  'commands.gifs': 'Библиотека GIF и стикеров',
+  'commands.settings': 'Настройки',
+  'commands.help': 'Помощь',
+
+  // Saving
+  'save.fileFailed': '❌ Не удалось обработать файл',
+  'save.messageFailed': '❌ Не удалось обработать сообщение',
+  'save.saved': '{emoji} Сохранено!',
+  'save.duplicateFile': '📁 Уже сохранён',
+  'save.duplicate': '📁 Уже сохранено',
+  'save.noteSaved': '📝 Заметка сохранена',
+  'save.duplicateNote': '📁 Уже сохранена',
+  'save.linksSaved': '🔗 Сохранено: {count}',
+  'save.duplicateLinks': '📁 Уже сохранены',
+  'save.linksDisabled': '🔗 Ссылки не сохраняются — включите в /settings',
+
+  // Metadata edit by reply
+  'edit.notSaved': '❌ Это сообщение не сохранено в хранилище',
+  'edit.tags': '🏷 Теги: {tags}',
+  'edit.captionTooLong': '❌ Подпись длиннее {limit} символов',
+  'edit.captionUpdated': '✍️ Подпись обновлена',
+  'edit.favorited': '⭐ В избранном',
+  'edit.unfavorited': 'Убрано из избранного',
+  'edit.trashed': '🗑 Перемещено в корзину',
+  'edit.restored': '♻️ Восстановлено',
+
+  // Library lists and /stats
+  'library.recent': '🕐 Последние файлы',
+  'library.favorites': '⭐ Избранное',
+  'library.trash': '🗑 Корзина',
+  'library.trashEmpty': 'Корзина пуста',
+  'library.nothingFound': 'Ничего не найдено',
+  'library.empty': 'Здесь пока пусто',
+  'library.restore': '♻️ {n}. Восстановить',
+  'library.loadFailed': '❌ Не удалось загрузить список',
+  'library.searchExpired': 'Поиск устарел, повторите /search',
+  'library.searchUsage': 'Использование: /search <запрос>\nНапример: /search договор .pdf неделя',
+  'stats.title': '📊 Статистика хранилища',
+  'stats.totalFiles': 'Всего файлов: {count}',
+  'stats.links': '🔗 Ссылки: {count}',
+  'stats.notes': '📝 Заметки: {count}',
+  'stats.places': '📍 Места: {count}',
+  'stats.contacts': '👤 Контакты: {count}',
+  'stats.polls': '📊 Опросы: {count}',
+  'stats.favorites': '⭐ Избранное: {count}',
+  'stats.trash': '🗑 Корзина: {count}',
+  'stats.failed': '❌ Не удалось получить статистику',
+
+  // /settings
+  'settings.title': '⚙️ Настройки',
+  'settings.description': [
+    '▸ Тихий режим — сохраняю без реакций и ответов',
+    '▸ Ссылки выключены — сообщения с URL не сохраняются',
+    '▸ Корзина — через сколько дней удалённое стирается навсегда',
+    '▸ Срок ссылок — по умолчанию для новых ссылок «Поделиться»',
+    '',
+    'Нажмите на пункт, чтобы изменить',
+  ].join('\n'),
+  'settings.silentMode': '🔕 Тихий режим: {value}',
+  'settings.saveLinks': '🔗 Сохранять ссылки: {value}',
+  'settings.saveStickers': '🎞 GIF и стикеры: {value}',
+  'settings.notifyDuplicates': '👀 Реакция на повторы: {value}',
+  'settings.trashRetention': '🗑 Корзина хранит: {value}',
+  'settings.shareExpiry': '⏳ Срок ссылок на файлы: {value}',
+  'settings.language': '🌐 Язык: {value}',
+  'settings.languageAuto': 'как в Telegram',
+  'settings.languageName.ru': 'Русский',
+  'settings.languageName.en': 'English',
+  'settings.never': 'бессрочно',
+  'settings.saved': '✅ Сохранено',
+  'settings.loadFailed': '❌ Не удалось загрузить настройки',
+  'settings.changeFailed': '❌ Не удалось изменить настройку',
+  'gifs.enabled': '🎞 Библиотека GIF включена\n\nГифки и стикеры теперь сохраняются в отдельную категорию. Искать можно по эмодзи, набору и подписи.\n\nВыключить: /gifs off',
+  'gifs.disabled': '🎞 Библиотека GIF выключена\n\nСтикеры больше не сохраняются, гифки сохраняются как документы.\n\nВключить: /gifs on',
+
+  // /get
+  'get.usage': 'Использование: /get <id файла>',
+  'get.invalidId': 'Неверный ID файла',
+  'get.sendFailed': 'Не удалось отправить файл',
+
+  // Public share page (/share/:token)
+  'page.invalidTitle': 'Ссылка недействительна',
+  'page.invalidMessage': 'Файл не найден или ссылка истекла.',
+  'page.description': 'Скачать файл через FC-Cloud',
+  'page.imageUnavailable': 'Изображение недоступно',
+  'page.download': 'Скачать файл',
+  'page.tooLarge': 'Файл слишком большой для браузера.<br>\n                Скачайте через Telegram.',
+  'page.cta': 'Хотите своё облако для файлов?',
+  'page.openTelegram': 'Открыть в Telegram',
+  'page.expired': 'Истекла',
+  'page.minutes': '{count} мин',
+  'page.hours': '{count} ч',
+  'page.days': '{count} дн',
+};
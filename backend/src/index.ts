@@ -1,7 +1,12 @@
 import { initDatabase } from './db/index.js';
 import { startApi } from './api/index.js';
 import { startBot, stopBot } from './bot/index.js';
-import { startCleanupService, stopCleanupService } from './services/cleanup.service.js';
+import { cleanupJob, scheduleCleanup } from './services/cleanup.service.js';
+import { startJobQueue, stopJobQueue } from './services/job-queue.service.js';
+import { sendFilesJob } from './services/file-sender.service.js';
+import { parseLinksJob } from './services/link-preview.service.js';
+import { recoverExportJobs } from './services/export.service.js';
+import { startThumbnailWorker, stopThumbnailWorker } from './services/thumbnail-worker.service.js';
 
 async function main(): Promise<void> {
   console.log('🚀 Starting T-Cloud Backend...');
@@ -9,6 +14,7 @@ async function main(): Promise<void> {
   try {
     // 1. Initialize database
     await initDatabase();
+    recoverExportJobs();
 
     // 2. Start Express API
     await startApi();
@@ -16,8 +22,16 @@ async function main(): Promise<void> {
     // 3. Start Telegram bot
     await startBot();
 
-    // 4. Start cleanup service (trash auto-delete after 30 days)
-    startCleanupService();
+    // 4. Start background jobs: batch sends, link previews, daily cleanup (trash auto-delete)
+    startJobQueue({
+      send_files: sendFilesJob,
+      parse_links: parseLinksJob,
+      cleanup: cleanupJob,
+    });
+    await scheduleCleanup();
+
+    // 5. Start preview generation for files without Telegram thumbnail
+    startThumbnailWorker();
 
     console.log('✅ All systems running!');
   } catch (error) {
@@ -29,14 +43,16 @@ async function main(): Promise<void> {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down...');
-  stopCleanupService();
+  stopJobQueue();
+  stopThumbnailWorker();
   await stopBot();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Shutting down...');
-  stopCleanupService();
+  stopJobQueue();
+  stopThumbnailWorker();
   await stopBot();
   process.exit(0);
 });
@@ -0,0 +1,67 @@
+/**
+ * One-off job: backfill auto-tags for files saved before auto-tagging existed
+ *
+ * Tags are derived from caption #hashtags and forward channel title,
+ * same as at ingestion time (see extractAutoTags). Safe to re-run:
+ * existing (file, tag) pairs are ignored.
+ *
+ * Usage: npm run db:backfill-tags
+ */
+import { initDatabase, sqlite } from '../db/index.js';
+import { extractAutoTags } from '../services/ingestion.service.js';
+
+const BATCH_SIZE = 500;
+
+interface FileRow {
+  id: number;
+  user_id: number;
+  caption: string | null;
+  forward_from_chat_title: string | null;
+}
+
+async function backfillAutoTags(): Promise<void> {
+  await initDatabase();
+
+  const selectStmt = sqlite.prepare(`
+    SELECT id, user_id, caption, forward_from_chat_title
+    FROM files
+    WHERE id > ?
+      AND (caption LIKE '%#%' OR forward_from_chat_title IS NOT NULL)
+    ORDER BY id
+    LIMIT ?
+  `);
+  const insertStmt = sqlite.prepare(`
+    INSERT OR IGNORE INTO file_tags (file_id, user_id, tag) VALUES (?, ?, ?)
+  `);
+
+  let lastId = 0;
+  let scanned = 0;
+  let added = 0;
+
+  while (true) {
+    const rows = selectStmt.all(lastId, BATCH_SIZE) as FileRow[];
+    if (rows.length === 0) break;
+
+    const batchTx = sqlite.transaction(() => {
+      for (const row of rows) {
+        // У старых записей нет entities - хештеги ищутся по тексту подписи
+        const tags = extractAutoTags(row.caption, undefined, row.forward_from_chat_title);
+        for (const tag of tags) {
+          added += insertStmt.run(row.id, row.user_id, tag).changes;
+        }
+      }
+    });
+    batchTx();
+
+    scanned += rows.length;
+    lastId = rows[rows.length - 1].id;
+    console.log(`[Backfill] Scanned ${scanned} files, added ${added} tags`);
+  }
+
+  console.log(`[Backfill] Done: ${added} tags added to ${scanned} files`);
+}
+
+backfillAutoTags().catch((error) => {
+  console.error('[Backfill] Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+/**
+ * Apply schema migrations without starting the bot/API
+ *
+ * Usage:
+ *   npm run db:migrate               - apply pending migrations
+ *   npm run db:migrate -- --dry-run  - run pending migrations in a rolled back transaction
+ *   npm run db:migrate -- --status   - show current version and pending migrations
+ */
+import { sqlite } from '../db/index.js';
+import { runMigrations, verifySchema, getSchemaVersion, getPendingMigrations, LATEST_SCHEMA_VERSION } from '../db/migrator.js';
+
+function formatMigration(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const currentVersion = getSchemaVersion(sqlite);
+
+  console.log(`[Migrate] Database version: ${currentVersion}, code version: ${LATEST_SCHEMA_VERSION}`);
+
+  if (args.includes('--status')) {
+    const pending = getPendingMigrations(sqlite);
+    if (pending.length === 0) {
+      console.log('[Migrate] Up to date');
+    } else {
+      pending.forEach(migration => console.log(`[Migrate] Pending: ${formatMigration(migration)}`));
+    }
+    return;
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const result = runMigrations(sqlite, { dryRun });
+  if (!dryRun) {
+    verifySchema(sqlite);
+  }
+
+  if (result.applied.length === 0) {
+    console.log('[Migrate] Nothing to apply');
+    return;
+  }
+
+  result.applied.forEach(migration => {
+    console.log(`[Migrate] ${dryRun ? 'Would apply' : 'Applied'}: ${formatMigration(migration)}`);
+  });
+
+  if (dryRun) {
+    console.log('[Migrate] Dry run - all changes rolled back');
+  }
+}
+
+try {
+  main();
+  process.exit(0);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,391 @@
+import { sqlite } from '../db/index.js';
+import { FilesRepository } from '../db/repositories/files.repository.js';
+import { LinksRepository } from '../db/repositories/links.repository.js';
+import { FoldersRepository } from '../db/repositories/folders.repository.js';
+import { MediaType } from '../types/index.js';
+
+const filesRepo = new FilesRepository();
+const linksRepo = new LinksRepository();
+const foldersRepo = new FoldersRepository();
+
+const FILE_MEDIA_TYPES: MediaType[] = ['photo', 'video', 'document', 'audio', 'voice', 'video_note', 'animation', 'sticker'];
+
+/**
+ * Share info in catalog (export only - tokens are not re-created on import)
+ */
+export interface CatalogShare {
+  token: string;
+  maxRecipients: number | null;
+  expiresAt: string | null;
+  useCount: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface CatalogFile {
+  id: number;
+  fileId: string;
+  fileUniqueId: string;
+  originalMessageId: number;
+  chatId: number;
+  mediaType: string;
+  mimeType: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  duration: number | null;
+  width: number | null;
+  height: number | null;
+  thumbnailFileId: string | null;
+  caption: string | null;
+  // caption_entities as stored (JSON string)
+  captionEntities: string | null;
+  // Sticker emoji
+  emoji: string | null;
+  forwardFromName: string | null;
+  forwardFromChatTitle: string | null;
+  isFavorite: boolean;
+  folderId: number | null;
+  mediaGroupId: string | null;
+  createdAt: string;
+  deletedAt: string | null;
+  shares: CatalogShare[];
+}
+
+export interface CatalogLink {
+  id: number;
+  url: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+  folderId: number | null;
+  createdAt: string;
+  deletedAt: string | null;
+}
+
+export interface Catalog {
+  version: number;
+  exportedAt: string;
+  files: CatalogFile[];
+  links: CatalogLink[];
+}
+
+/**
+ * Per-row import problem (row index is 0-based within files/links)
+ */
+export interface ImportProblem {
+  type: 'file' | 'link';
+  index: number;
+  reason: 'DUPLICATE' | 'INVALID';
+  message?: string;
+}
+
+export interface ImportReport {
+  files: { created: number; conflicts: number; invalid: number };
+  links: { created: number; conflicts: number; invalid: number };
+  problems: ImportProblem[];
+}
+
+/**
+ * Build metadata catalog of a user (files and links including trash, with shares)
+ */
+export async function buildCatalog(userId: number): Promise<Catalog> {
+  const userFiles = await filesRepo.findAllIncludingDeleted(userId);
+  const userLinks = await linksRepo.findAllByUser(userId, { includeDeleted: true });
+
+  const shareRows = sqlite.prepare(`
+    SELECT file_id, token, max_recipients, expires_at, use_count, is_active, created_at
+    FROM file_shares
+    WHERE owner_id = ?
+    ORDER BY created_at
+  `).all(userId) as any[];
+
+  const sharesByFile = new Map<number, CatalogShare[]>();
+  shareRows.forEach(row => {
+    const list = sharesByFile.get(row.file_id) || [];
+    list.push({
+      token: row.token,
+      maxRecipients: row.max_recipients,
+      expiresAt: row.expires_at ? new Date(row.expires_at * 1000).toISOString() : null,
+      useCount: row.use_count,
+      isActive: row.is_active === 1,
+      createdAt: new Date(row.created_at * 1000).toISOString(),
+    });
+    sharesByFile.set(row.file_id, list);
+  });
+
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    files: userFiles.map(file => ({
+      id: file.id,
+      fileId: file.fileId,
+      fileUniqueId: file.fileUniqueId,
+      originalMessageId: file.originalMessageId,
+      chatId: file.chatId,
+      mediaType: file.mediaType,
+      mimeType: file.mimeType,
+      fileName: file.fileName,
+      fileSize: file.fileSize,
+      duration: file.duration,
+      width: file.width,
+      height: file.height,
+      thumbnailFileId: file.thumbnailFileId,
+      caption: file.caption,
+      captionEntities: file.captionEntities,
+      emoji: file.emoji,
+      forwardFromName: file.forwardFromName,
+      forwardFromChatTitle: file.forwardFromChatTitle,
+      isFavorite: file.isFavorite,
+      folderId: file.folderId,
+      mediaGroupId: file.mediaGroupId,
+      createdAt: file.createdAt.toISOString(),
+      deletedAt: file.deletedAt ? file.deletedAt.toISOString() : null,
+      shares: sharesByFile.get(file.id) || [],
+    })),
+    links: userLinks.map(link => ({
+      id: link.id,
+      url: link.url,
+      title: link.title,
+      description: link.description,
+      imageUrl: link.imageUrl,
+      siteName: link.siteName,
+      folderId: link.folderId,
+      createdAt: link.createdAt.toISOString(),
+      deletedAt: link.deletedAt ? link.deletedAt.toISOString() : null,
+    })),
+  };
+}
+
+// CSV: one table, `type` column tells file rows from link rows
+const CSV_COLUMNS = [
+  'type', 'id', 'fileId', 'fileUniqueId', 'originalMessageId', 'chatId', 'mediaType', 'mimeType',
+  'fileName', 'fileSize', 'duration', 'width', 'height', 'thumbnailFileId', 'caption',
+  'captionEntities', 'emoji', 'forwardFromName', 'forwardFromChatTitle', 'isFavorite', 'mediaGroupId',
+  'url', 'title', 'description', 'imageUrl', 'siteName',
+  'folderId', 'createdAt', 'deletedAt', 'shares',
+] as const;
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Serialize catalog to CSV (shares are stored as JSON in one column)
+ */
+export function catalogToCsv(catalog: Catalog): string {
+  const rows: Record<string, unknown>[] = [
+    ...catalog.files.map(file => ({ type: 'file', ...file, shares: file.shares.length > 0 ? file.shares : null })),
+    ...catalog.links.map(link => ({ type: 'link', ...link })),
+  ];
+
+  const lines = [CSV_COLUMNS.join(',')];
+  rows.forEach(row => {
+    lines.push(CSV_COLUMNS.map(column => escapeCsvValue(row[column])).join(','));
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, newlines inside quotes)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV produced by catalogToCsv into raw file/link rows for importCatalog
+ * Values stay strings - importCatalog validates and converts them
+ */
+export function parseCatalogCsv(text: string): { files: Record<string, unknown>[]; links: Record<string, unknown>[] } {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const result = { files: [] as Record<string, unknown>[], links: [] as Record<string, unknown>[] };
+  if (!header) return result;
+
+  rows.forEach(values => {
+    // Skip empty lines
+    if (values.length === 1 && values[0] === '') return;
+
+    const row: Record<string, unknown> = {};
+    header.forEach((column, i) => {
+      row[column] = values[i] === undefined || values[i] === '' ? null : values[i];
+    });
+
+    if (row.type === 'link') {
+      result.links.push(row);
+    } else {
+      result.files.push(row);
+    }
+  });
+
+  return result;
+}
+
+function toOptionalString(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  return String(value);
+}
+
+function toOptionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function toOptionalDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 1 || value === 'true' || value === '1';
+}
+
+/**
+ * Re-create files and links for a user from catalog rows (JSON or parsed CSV)
+ * Conflicts with existing rows (same file_unique_id / same URL) are reported per row
+ */
+export async function importCatalog(
+  userId: number,
+  data: { files?: unknown[]; links?: unknown[] }
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    files: { created: 0, conflicts: 0, invalid: 0 },
+    links: { created: 0, conflicts: 0, invalid: 0 },
+    problems: [],
+  };
+
+  // Папки переносим только если они принадлежат пользователю
+  const ownFolderIds = new Set(foldersRepo.findByUser(userId).map(folder => folder.id));
+  const resolveFolderId = (value: unknown): number | null => {
+    const folderId = toOptionalNumber(value);
+    return folderId !== null && ownFolderIds.has(folderId) ? folderId : null;
+  };
+
+  const files = Array.isArray(data.files) ? data.files : [];
+  for (let index = 0; index < files.length; index++) {
+    const row = (files[index] || {}) as Record<string, unknown>;
+
+    const fileId = toOptionalString(row.fileId);
+    const fileUniqueId = toOptionalString(row.fileUniqueId);
+    const mediaType = toOptionalString(row.mediaType);
+    const originalMessageId = toOptionalNumber(row.originalMessageId);
+    const chatId = toOptionalNumber(row.chatId);
+
+    if (!fileId || !fileUniqueId || !mediaType || originalMessageId === null || chatId === null ||
+        !FILE_MEDIA_TYPES.includes(mediaType as MediaType)) {
+      report.files.invalid++;
+      report.problems.push({ type: 'file', index, reason: 'INVALID', message: 'Missing required file fields' });
+      continue;
+    }
+
+    const created = await filesRepo.create({
+      userId,
+      fileId,
+      fileUniqueId,
+      originalMessageId,
+      chatId,
+      mediaType,
+      mimeType: toOptionalString(row.mimeType),
+      fileName: toOptionalString(row.fileName),
+      fileSize: toOptionalNumber(row.fileSize),
+      duration: toOptionalNumber(row.duration),
+      width: toOptionalNumber(row.width),
+      height: toOptionalNumber(row.height),
+      thumbnailFileId: toOptionalString(row.thumbnailFileId),
+      caption: toOptionalString(row.caption),
+      captionEntities: toOptionalString(row.captionEntities),
+      emoji: toOptionalString(row.emoji),
+      forwardFromName: toOptionalString(row.forwardFromName),
+      forwardFromChatTitle: toOptionalString(row.forwardFromChatTitle),
+      isFavorite: toBoolean(row.isFavorite),
+      folderId: resolveFolderId(row.folderId),
+      mediaGroupId: toOptionalString(row.mediaGroupId),
+      createdAt: toOptionalDate(row.createdAt) || undefined,
+      deletedAt: toOptionalDate(row.deletedAt),
+    });
+
+    if (created) {
+      report.files.created++;
+    } else {
+      // create() returns null on idx_files_user_unique violation
+      report.files.conflicts++;
+      report.problems.push({ type: 'file', index, reason: 'DUPLICATE', message: fileUniqueId });
+    }
+  }
+
+  const links = Array.isArray(data.links) ? data.links : [];
+  for (let index = 0; index < links.length; index++) {
+    const row = (links[index] || {}) as Record<string, unknown>;
+    const url = toOptionalString(row.url);
+
+    if (!url || !/^https?:\/\//i.test(url)) {
+      report.links.invalid++;
+      report.problems.push({ type: 'link', index, reason: 'INVALID', message: 'Missing or invalid URL' });
+      continue;
+    }
+
+    if (await linksRepo.findByUrl(userId, url)) {
+      report.links.conflicts++;
+      report.problems.push({ type: 'link', index, reason: 'DUPLICATE', message: url });
+      continue;
+    }
+
+    await linksRepo.create({
+      userId,
+      url,
+      title: toOptionalString(row.title),
+      description: toOptionalString(row.description),
+      imageUrl: toOptionalString(row.imageUrl),
+      siteName: toOptionalString(row.siteName),
+      folderId: resolveFolderId(row.folderId),
+      createdAt: toOptionalDate(row.createdAt) || undefined,
+      deletedAt: toOptionalDate(row.deletedAt),
+    });
+    report.links.created++;
+  }
+
+  return report;
+}
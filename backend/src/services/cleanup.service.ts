@@ -1,56 +1,82 @@
 import { FilesRepository } from '../db/repositories/files.repository.js';
 import { LinksRepository } from '../db/repositories/links.repository.js';
-
-const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
-const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // Run every 24 hours
+import { NotesRepository } from '../db/repositories/notes.repository.js';
+import { ItemsRepository } from '../db/repositories/items.repository.js';
+import { JobsRepository } from '../db/repositories/jobs.repository.js';
+import { cleanupExpiredExports } from './export.service.js';
+import { JobHandler, enqueueJob } from './job-queue.service.js';
+import { JOB_RETENTION_DAYS, MS_PER_DAY } from '../constants.js';
 
 const filesRepo = new FilesRepository();
 const linksRepo = new LinksRepository();
-
-let cleanupInterval: ReturnType<typeof setInterval> | null = null;
+const notesRepo = new NotesRepository();
+const itemsRepo = new ItemsRepository();
+const jobsRepo = new JobsRepository();
 
 /**
- * Clean up trash - delete files and links older than 30 days
+ * Clean up trash - delete files, links, notes and items deleted more than N days ago
+ * (N - user's trash retention setting, 30 days by default)
  */
 async function cleanupTrash(): Promise<void> {
-  const olderThan = new Date(Date.now() - THIRTY_DAYS_MS);
-
-  console.log('[Cleanup] Starting trash cleanup, deleting items older than:', olderThan.toISOString());
+  console.log('[Cleanup] Starting trash cleanup');
 
   try {
-    const deletedFiles = await filesRepo.cleanupOldDeleted(olderThan);
-    const deletedLinks = await linksRepo.cleanupOldDeleted(olderThan);
+    const deletedFiles = await filesRepo.cleanupOldDeleted();
+    const deletedLinks = await linksRepo.cleanupOldDeleted();
+    const deletedNotes = await notesRepo.cleanupOldDeleted();
+    const deletedItems = await itemsRepo.cleanupOldDeleted();
 
-    if (deletedFiles > 0 || deletedLinks > 0) {
-      console.log(`[Cleanup] Deleted ${deletedFiles} files and ${deletedLinks} links from trash`);
+    if (deletedFiles > 0 || deletedLinks > 0 || deletedNotes > 0 || deletedItems > 0) {
+      console.log(`[Cleanup] Deleted ${deletedFiles} files, ${deletedLinks} links, ${deletedNotes} notes and ${deletedItems} items from trash`);
     } else {
       console.log('[Cleanup] No old items to delete');
     }
   } catch (error) {
     console.error('[Cleanup] Error during trash cleanup:', error);
   }
+
+  try {
+    const expiredExports = cleanupExpiredExports();
+    if (expiredExports > 0) {
+      console.log(`[Cleanup] Removed ${expiredExports} expired export archives`);
+    }
+  } catch (error) {
+    console.error('[Cleanup] Error during export cleanup:', error);
+  }
 }
 
 /**
- * Start the cleanup service
+ * Remove finished background jobs (status is only needed while the Mini App polls it)
  */
-export function startCleanupService(): void {
-  // Run immediately on startup
-  cleanupTrash();
-
-  // Then run every 24 hours
-  cleanupInterval = setInterval(cleanupTrash, CLEANUP_INTERVAL_MS);
-
-  console.log('[Cleanup] Cleanup service started (runs every 24 hours)');
+function cleanupJobs(): void {
+  try {
+    const deletedJobs = jobsRepo.cleanupFinished(new Date(Date.now() - JOB_RETENTION_DAYS * MS_PER_DAY));
+    if (deletedJobs > 0) {
+      console.log(`[Cleanup] Removed ${deletedJobs} finished jobs`);
+    }
+  } catch (error) {
+    console.error('[Cleanup] Error during jobs cleanup:', error);
+  }
 }
 
 /**
- * Stop the cleanup service
+ * Make sure the next cleanup is in the queue (one pending cleanup job at a time)
  */
-export function stopCleanupService(): void {
-  if (cleanupInterval) {
-    clearInterval(cleanupInterval);
-    cleanupInterval = null;
-    console.log('[Cleanup] Cleanup service stopped');
-  }
+export async function scheduleCleanup(runAt: Date = new Date()): Promise<void> {
+  if (jobsRepo.hasPending('cleanup')) return;
+  await enqueueJob('cleanup', {}, { runAt });
 }
+
+/**
+ * cleanup job: runs once a day, the next run is scheduled before this one starts
+ */
+export const cleanupJob: JobHandler<'cleanup'> = {
+  concurrency: 1,
+
+  async run() {
+    await scheduleCleanup(new Date(Date.now() + MS_PER_DAY));
+    await cleanupTrash();
+    cleanupJobs();
+    return null;
+  },
+};
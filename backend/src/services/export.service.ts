@@ -0,0 +1,487 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { FilesRepository } from '../db/repositories/files.repository.js';
+import { LinksRepository } from '../db/repositories/links.repository.js';
+import { NotesRepository } from '../db/repositories/notes.repository.js';
+import { ItemsRepository } from '../db/repositories/items.repository.js';
+import { FoldersRepository } from '../db/repositories/folders.repository.js';
+import { TagsRepository } from '../db/repositories/tags.repository.js';
+import { ExportJobsRepository } from '../db/repositories/export-jobs.repository.js';
+import { ExportJob } from '../db/schema.js';
+import { ThumbnailService, TelegramFileLocation } from './thumbnail.service.js';
+import { getDownloadLimit } from './storage/index.js';
+import { parseEntities } from './message-entities.service.js';
+import { bot } from '../bot/index.js';
+import { config } from '../config.js';
+import { EXPORT_MAX_FILE_SIZE, EXPORT_RETENTION_HOURS, MS_PER_HOUR } from '../constants.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const EXPORTS_DIR = path.join(__dirname, '../../data/exports');
+
+const WEB_URL = process.env.WEB_URL || 'https://api.factchain-traker.online';
+
+// ZIP without ZIP64: offsets are 32-bit, entry count is 16-bit
+const ZIP_MAX_OFFSET = 0xffffffff;
+const ZIP_MAX_ENTRIES = 0xffff;
+
+const filesRepo = new FilesRepository();
+const linksRepo = new LinksRepository();
+const notesRepo = new NotesRepository();
+const itemsRepo = new ItemsRepository();
+const foldersRepo = new FoldersRepository();
+const tagsRepo = new TagsRepository();
+const jobsRepo = new ExportJobsRepository();
+
+// Why a file is missing from the archive (listed in manifest anyway)
+type ExportFileStatus = 'included' | 'too_large' | 'unavailable' | 'archive_limit';
+
+// CRC-32 lookup table (ZIP uses the IEEE polynomial)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// previous - CRC of the preceding data (to compute it chunk by chunk)
+function crc32(data: Uint8Array, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Date -> MS-DOS time/date (ZIP header format, 2-second precision)
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Buffer;
+  flags: number;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+// General purpose flags: UTF-8 names, CRC and sizes in a data descriptor after the data
+const ZIP_FLAG_UTF8 = 0x0800;
+const ZIP_FLAG_DATA_DESCRIPTOR = 0x0008;
+
+/**
+ * Minimal streaming ZIP writer (stored entries, no compression)
+ * Media from Telegram is already compressed, so deflate gives almost nothing
+ */
+class ZipWriter {
+  private stream: fs.WriteStream;
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private streamError: Error | null = null;
+
+  constructor(filePath: string) {
+    this.stream = fs.createWriteStream(filePath);
+    this.stream.on('error', (error) => {
+      this.streamError = error;
+    });
+  }
+
+  /**
+   * Check whether an entry of the given size still fits into a non-ZIP64 archive
+   */
+  canFit(size: number): boolean {
+    // +1 entry for manifest.json, reserve 1 MB for headers and central directory
+    return this.entries.length + 2 < ZIP_MAX_ENTRIES && this.offset + size + 1024 * 1024 < ZIP_MAX_OFFSET;
+  }
+
+  async addFile(name: string, data: Buffer, modifiedAt: Date): Promise<void> {
+    const entry = this.createEntry(name, ZIP_FLAG_UTF8, modifiedAt);
+    entry.crc = crc32(data);
+    entry.size = data.length;
+
+    await this.writeLocalHeader(entry);
+    await this.write(data);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Add an entry read chunk by chunk (the file is never held in memory)
+   * size - expected size, checked with canFit() by the caller; a larger source aborts the archive
+   */
+  async addStream(name: string, source: Readable, size: number, modifiedAt: Date): Promise<void> {
+    const entry = this.createEntry(name, ZIP_FLAG_UTF8 | ZIP_FLAG_DATA_DESCRIPTOR, modifiedAt);
+    await this.writeLocalHeader(entry);
+
+    for await (const chunk of source as AsyncIterable<Uint8Array>) {
+      entry.size += chunk.length;
+      if (entry.size > size) {
+        throw new Error(`File ${name} is larger than expected ${size} bytes`);
+      }
+      entry.crc = crc32(chunk, entry.crc);
+      await this.write(chunk);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0); // data descriptor signature
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.size, 8); // compressed size
+    descriptor.writeUInt32LE(entry.size, 12); // uncompressed size
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write central directory and close the file
+   * Returns archive size in bytes
+   */
+  async finish(): Promise<number> {
+    const centralStart = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0); // central directory signature
+      header.writeUInt16LE(20, 4); // version made by
+      header.writeUInt16LE(20, 6); // version needed
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(0, 10); // method: stored
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.size, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // extra, comment, disk number, attributes - all zero
+      header.writeUInt32LE(entry.offset, 42);
+
+      await this.write(header);
+      await this.write(entry.name);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0); // end of central directory signature
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralStart, 12);
+    end.writeUInt32LE(centralStart, 16);
+    await this.write(end);
+
+    await new Promise<void>((resolve, reject) => {
+      this.stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+
+    return this.offset;
+  }
+
+  /**
+   * Abort writing (file is removed by the caller)
+   */
+  destroy(): void {
+    this.stream.destroy();
+  }
+
+  private createEntry(name: string, flags: number, modifiedAt: Date): ZipEntry {
+    const { time, date } = toDosDateTime(modifiedAt);
+    return { name: Buffer.from(name, 'utf8'), flags, crc: 0, size: 0, offset: this.offset, time, date };
+  }
+
+  // With a data descriptor CRC and sizes are zero here and follow the data
+  private async writeLocalHeader(entry: ZipEntry): Promise<void> {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0); // local file header signature
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(0, 8); // method: stored
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.size, 18); // compressed size
+    header.writeUInt32LE(entry.size, 22); // uncompressed size
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28); // extra length
+
+    await this.write(header);
+    await this.write(entry.name);
+  }
+
+  private write(chunk: Uint8Array): Promise<void> {
+    if (this.streamError) {
+      return Promise.reject(this.streamError);
+    }
+
+    this.offset += chunk.length;
+    if (this.stream.write(chunk)) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.stream.once('drain', resolve));
+  }
+}
+
+/**
+ * Make a string safe for use as a file name inside the archive
+ */
+function sanitizeFileName(name: string): string {
+  return name
+    .replace(/[\u0000-\u001f\\/:*?"<>|]/g, '_')
+    .replace(/^\.+/, '_')
+    .slice(0, 100);
+}
+
+let thumbnailService: ThumbnailService | null = null;
+function getThumbnailService(): ThumbnailService {
+  if (!thumbnailService) {
+    thumbnailService = new ThumbnailService(bot, config.botToken);
+  }
+  return thumbnailService;
+}
+
+/**
+ * Open Telegram file for streaming: from the Bot API server or from disk (local Bot API server)
+ * size - from stat / Content-Length, null if the server did not send it
+ * Returns null if the file is unavailable
+ */
+async function openTelegramFile(location: TelegramFileLocation): Promise<{ stream: Readable; size: number | null } | null> {
+  if ('localPath' in location) {
+    const stat = await fs.promises.stat(location.localPath).catch(() => null);
+    return stat ? { stream: fs.createReadStream(location.localPath), size: stat.size } : null;
+  }
+
+  const response = await fetch(location.url).catch(() => null);
+  if (!response?.ok || !response.body) return null;
+
+  const contentLength = Number(response.headers.get('content-length'));
+  return {
+    stream: Readable.fromWeb(response.body as import('stream/web').ReadableStream<Uint8Array>),
+    size: Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null,
+  };
+}
+
+/**
+ * Build archive for a job: all non-deleted files + manifest.json
+ */
+async function runExport(jobId: number): Promise<void> {
+  const job = await jobsRepo.findById(jobId);
+  if (!job || job.status !== 'pending') return;
+
+  const userFiles = await filesRepo.findByDate(job.userId);
+  const userLinks = await linksRepo.findAllByUser(job.userId);
+  const userNotes = await notesRepo.findAllByUser(job.userId);
+  const userItems = await itemsRepo.findAllByUser(job.userId);
+
+  jobsRepo.markRunning(job.id, userFiles.length);
+  console.log(`[Export] Job ${job.id}: exporting ${userFiles.length} files for user ${job.userId}`);
+
+  fs.mkdirSync(EXPORTS_DIR, { recursive: true });
+  const archivePath = path.join(EXPORTS_DIR, `export_${job.id}_${crypto.randomBytes(8).toString('hex')}.zip`);
+  const zip = new ZipWriter(archivePath);
+  const service = getThumbnailService();
+  // Без лимита Bot API (local server) файлы всё равно ограничены - архив пишется на наш диск
+  const fileLimit = Math.min(getDownloadLimit() ?? EXPORT_MAX_FILE_SIZE, EXPORT_MAX_FILE_SIZE);
+
+  const manifestFiles: Record<string, unknown>[] = [];
+  let processed = 0;
+  let skipped = 0;
+
+  try {
+    for (const file of userFiles) {
+      let status: ExportFileStatus = 'included';
+      let archiveName: string | null = null;
+
+      if (file.fileSize && file.fileSize > fileLimit) {
+        status = 'too_large';
+      } else if (!zip.canFit(file.fileSize || 0)) {
+        status = 'archive_limit';
+      } else {
+        const location = await service.getFileLocation(file.fileId);
+        const source = location ? await openTelegramFile(location) : null;
+        // Размер нужен до записи (лимиты проверяются заранее, записанное из архива не убрать)
+        const size = source?.size ?? file.fileSize ?? null;
+
+        if (!location || !source || size === null) {
+          status = 'unavailable';
+        } else if (size > fileLimit) {
+          status = 'too_large';
+        } else if (!zip.canFit(size)) {
+          status = 'archive_limit';
+        } else {
+          // Фото приходят без имени - берём расширение из пути в Telegram
+          const baseName = file.fileName || `file_${file.id}${path.extname(location.filePath)}`;
+          archiveName = `files/${file.mediaType}/${file.id}_${sanitizeFileName(baseName)}`;
+          await zip.addStream(archiveName, source.stream, size, file.createdAt);
+        }
+
+        if (status !== 'included') source?.stream.destroy();
+      }
+
+      if (status !== 'included') skipped++;
+      processed++;
+
+      manifestFiles.push({
+        id: file.id,
+        status,
+        path: archiveName,
+        fileName: file.fileName,
+        mediaType: file.mediaType,
+        mimeType: file.mimeType,
+        fileSize: file.fileSize,
+        duration: file.duration,
+        width: file.width,
+        height: file.height,
+        caption: file.caption,
+        captionEntities: parseEntities(file.captionEntities) ?? null,
+        emoji: file.emoji,
+        forwardFromName: file.forwardFromName,
+        forwardFromChatTitle: file.forwardFromChatTitle,
+        isFavorite: file.isFavorite,
+        folderId: file.folderId,
+        mediaGroupId: file.mediaGroupId,
+        tags: tagsRepo.getForFile(file.id),
+        createdAt: file.createdAt.toISOString(),
+      });
+
+      jobsRepo.updateProgress(job.id, processed, skipped);
+    }
+
+    const manifest = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      folders: foldersRepo.findByUser(job.userId).map(folder => ({
+        id: folder.id,
+        parentId: folder.parentId,
+        name: folder.name,
+      })),
+      files: manifestFiles,
+      links: userLinks.map(link => ({
+        id: link.id,
+        url: link.url,
+        title: link.title,
+        description: link.description,
+        siteName: link.siteName,
+        folderId: link.folderId,
+        createdAt: link.createdAt.toISOString(),
+      })),
+      notes: userNotes.map(note => ({
+        id: note.id,
+        text: note.text,
+        entities: parseEntities(note.entities) ?? null,
+        forwardFromName: note.forwardFromName,
+        forwardFromChatTitle: note.forwardFromChatTitle,
+        folderId: note.folderId,
+        createdAt: note.createdAt.toISOString(),
+      })),
+      items: userItems.map(item => ({
+        id: item.id,
+        kind: item.kind,
+        title: item.title,
+        data: JSON.parse(item.data),
+        forwardFromName: item.forwardFromName,
+        forwardFromChatTitle: item.forwardFromChatTitle,
+        folderId: item.folderId,
+        createdAt: item.createdAt.toISOString(),
+      })),
+    };
+
+    await zip.addFile('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'), new Date());
+    const archiveSize = await zip.finish();
+
+    jobsRepo.markDone(job.id, archivePath, archiveSize);
+    console.log(`[Export] Job ${job.id} done: ${archiveSize} bytes, ${skipped} files skipped`);
+  } catch (error) {
+    console.error(`[Export] Job ${job.id} failed:`, error);
+    zip.destroy();
+    fs.rmSync(archivePath, { force: true });
+    jobsRepo.markFailed(job.id, error instanceof Error ? error.message : 'EXPORT_FAILED');
+  }
+}
+
+// Jobs run one by one - archive building is IO heavy
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Create an export job and schedule it
+ */
+export async function startExportJob(userId: number): Promise<ExportJob> {
+  const job = await jobsRepo.create(userId);
+  queue = queue.then(() => runExport(job.id)).catch((error) => {
+    console.error('[Export] Queue error:', error);
+  });
+  return job;
+}
+
+/**
+ * Fail jobs interrupted by restart (call once on startup)
+ */
+export function recoverExportJobs(): void {
+  const failed = jobsRepo.failInterrupted();
+  if (failed > 0) {
+    console.log(`[Export] Marked ${failed} interrupted export jobs as failed`);
+  }
+}
+
+/**
+ * Remove archives older than EXPORT_RETENTION_HOURS
+ */
+export function cleanupExpiredExports(): number {
+  const olderThan = new Date(Date.now() - EXPORT_RETENTION_HOURS * MS_PER_HOUR);
+  const expired = jobsRepo.findExpired(olderThan);
+
+  for (const job of expired) {
+    if (job.archivePath) {
+      fs.rmSync(job.archivePath, { force: true });
+    }
+    jobsRepo.markExpired(job.id);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Signature for archive download URL (HMAC of job ID and expiry with bot token)
+ */
+function signExport(jobId: number, expires: number): string {
+  return crypto
+    .createHmac('sha256', config.botToken)
+    .update(`export:${jobId}:${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Get signed download URL for a finished job (valid until the archive is removed)
+ */
+export function getExportDownloadUrl(job: ExportJob): { url: string; expiresAt: Date } | null {
+  if (job.status !== 'done' || !job.finishedAt) return null;
+
+  const expiresAt = new Date(job.finishedAt.getTime() + EXPORT_RETENTION_HOURS * MS_PER_HOUR);
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+
+  return {
+    url: `${WEB_URL}/export/${job.id}/download?expires=${expires}&sig=${signExport(job.id, expires)}`,
+    expiresAt,
+  };
+}
+
+/**
+ * Verify download URL signature and expiry
+ */
+export function verifyExportSignature(jobId: number, expires: number, sig: string): boolean {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signExport(jobId, expires), 'hex');
+  const actual = Buffer.from(sig, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,345 @@
+import { InputMediaBuilder } from 'grammy';
+import { MessageEntity } from '@grammyjs/types';
+import { FilesRepository } from '../db/repositories/files.repository.js';
+import { File as StoredFile } from '../db/schema.js';
+import { MediaType } from '../types/index.js';
+import { bot } from '../bot/index.js';
+import { parseEntities, sliceEntities } from './message-entities.service.js';
+import { JobHandler, getRetryAfter } from './job-queue.service.js';
+import {
+  PHOTO_CAPTION_LIMIT,
+  DEFAULT_CAPTION_LIMIT,
+  TEXT_MESSAGE_LIMIT,
+  MAX_MEDIA_GROUP_SIZE,
+  SEND_DELAY_MS,
+} from '../constants.js';
+
+/**
+ * Progress of a send_files job - also its checkpoint:
+ * after a retry or restart files from processed are not sent again
+ */
+export interface SendFilesResult {
+  sent: number[];
+  errors: string[];
+  processed: number[];
+  // Медиа уже отправлено, а длинная подпись этого файла - ещё нет
+  pendingCaption?: number | null;
+}
+
+const filesRepo = new FilesRepository();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Check if caption fits the limit
+export function getCaptionForMedia(caption: string | null | undefined, mediaType: string): string | undefined {
+  if (!caption) return undefined;
+  const limit = mediaType === 'photo' ? PHOTO_CAPTION_LIMIT : DEFAULT_CAPTION_LIMIT;
+  if (caption.length <= limit) return caption;
+  // Caption too long - will be sent separately
+  return undefined;
+}
+
+// Check if caption needs to be sent separately
+export function needsSeparateMessage(caption: string | null | undefined, mediaType: string): boolean {
+  if (!caption) return false;
+  const limit = mediaType === 'photo' ? PHOTO_CAPTION_LIMIT : DEFAULT_CAPTION_LIMIT;
+  return caption.length > limit;
+}
+
+// Send long caption as separate text message(s), formatting is split with the text
+export async function sendCaptionAsText(chatId: number, caption: string, entities?: MessageEntity[]): Promise<void> {
+  // Split into chunks if needed (positions in the original caption - to slice entities)
+  const chunks: { start: number; end: number }[] = [];
+  let start = 0;
+  while (start < caption.length) {
+    if (caption.length - start <= TEXT_MESSAGE_LIMIT) {
+      chunks.push({ start, end: caption.length });
+      break;
+    }
+    // Find a good break point (newline or space)
+    const limit = start + TEXT_MESSAGE_LIMIT;
+    let breakPoint = caption.lastIndexOf('\n', limit);
+    if (breakPoint - start < TEXT_MESSAGE_LIMIT / 2) {
+      breakPoint = caption.lastIndexOf(' ', limit);
+    }
+    if (breakPoint - start < TEXT_MESSAGE_LIMIT / 2) {
+      breakPoint = limit;
+    }
+    chunks.push({ start, end: breakPoint });
+    // Пропускаем пробелы в начале следующего куска
+    start = breakPoint;
+    while (start < caption.length && /\s/.test(caption[start])) start++;
+  }
+
+  for (const { start: chunkStart, end } of chunks) {
+    await bot.api.sendMessage(chatId, caption.substring(chunkStart, end), {
+      entities: sliceEntities(entities, chunkStart, end),
+    });
+  }
+}
+
+/**
+ * Send a single stored file, recording result in sentFiles/errors
+ * Returns the file if its long caption still has to be sent as text (see sendFilesJob)
+ * Telegram 429 is rethrown - the job is retried after retry_after
+ */
+async function sendSingleFile(
+  chatId: number,
+  file: StoredFile,
+  sentFiles: number[],
+  errors: string[]
+): Promise<StoredFile | null> {
+  const mediaType = file.mediaType as MediaType;
+  const caption = getCaptionForMedia(file.caption, mediaType);
+  const captionEntities = parseEntities(file.captionEntities);
+
+  try {
+    // Всегда используем sendFileByFileId чтобы отправить наш caption из БД
+    // (copyMessage отправляет оригинальный caption, игнорируя наш)
+    await sendFileByFileId(chatId, file.fileId, mediaType, caption, caption ? captionEntities : undefined);
+    console.log('[Files] Sent via file_id with caption:', file.id, file.fileName);
+
+    sentFiles.push(file.id);
+    return needsSeparateMessage(file.caption, mediaType) ? file : null;
+  } catch (sendError) {
+    if (getRetryAfter(sendError) !== null) throw sendError;
+
+    const errMsg = sendError instanceof Error ? sendError.message : String(sendError);
+
+    if (errMsg.includes('VOICE_MESSAGES_FORBIDDEN')) {
+      console.log('[Files] Voice messages forbidden for file:', file.id);
+      errors.push(`VOICE_FORBIDDEN:${file.id}`);
+    } else {
+      console.error('[Files] Error sending file:', file.id, sendError);
+      errors.push(`Failed to send file ${file.id}`);
+    }
+    return null;
+  }
+}
+
+/**
+ * Which files can share one album in sendMediaGroup:
+ * photo and video can be mixed, documents and audio only with their own type
+ */
+function getAlbumKind(mediaType: string): 'visual' | 'document' | 'audio' | null {
+  if (mediaType === 'photo' || mediaType === 'video') return 'visual';
+  if (mediaType === 'document') return 'document';
+  if (mediaType === 'audio') return 'audio';
+  return null;
+}
+
+/**
+ * Split files into send units: albums (same media_group_id) and single files
+ * Order of first appearance is kept, albums are limited to MAX_MEDIA_GROUP_SIZE
+ */
+function groupForSending(files: StoredFile[]): StoredFile[][] {
+  const units: StoredFile[][] = [];
+  const albums = new Map<string, StoredFile[]>();
+
+  for (const file of files) {
+    const kind = getAlbumKind(file.mediaType);
+    if (!file.mediaGroupId || !kind) {
+      units.push([file]);
+      continue;
+    }
+
+    const key = `${file.mediaGroupId}:${kind}`;
+    let album = albums.get(key);
+    if (!album || album.length >= MAX_MEDIA_GROUP_SIZE) {
+      album = [];
+      albums.set(key, album);
+      units.push(album);
+    }
+    album.push(file);
+  }
+
+  return units;
+}
+
+/**
+ * Send files of one album with sendMediaGroup
+ * Album caption goes on the first item (Telegram shows it under the album)
+ * Returns the file with the album caption if it is too long and has to be sent as text
+ */
+async function sendAlbum(chatId: number, files: StoredFile[]): Promise<StoredFile | null> {
+  const captionFile = files.find(f => f.caption);
+  const albumCaption = captionFile?.caption;
+  const captionEntities = parseEntities(captionFile?.captionEntities);
+  const caption = getCaptionForMedia(albumCaption, files[0].mediaType);
+
+  const media = files.map((file, index) => {
+    const options = index === 0 && caption ? { caption, caption_entities: captionEntities } : {};
+    switch (file.mediaType) {
+      case 'photo':
+        return InputMediaBuilder.photo(file.fileId, options);
+      case 'video':
+        return InputMediaBuilder.video(file.fileId, options);
+      case 'audio':
+        return InputMediaBuilder.audio(file.fileId, options);
+      default:
+        return InputMediaBuilder.document(file.fileId, options);
+    }
+  });
+
+  await bot.api.sendMediaGroup(chatId, media);
+
+  // Длинная подпись альбома - отдельным сообщением
+  return captionFile && needsSeparateMessage(albumCaption, files[0].mediaType) ? captionFile : null;
+}
+
+/**
+ * Send file by file_id based on media type
+ * If photo/video fails with type mismatch, fallback to document
+ */
+export async function sendFileByFileId(
+  chatId: number,
+  fileId: string,
+  mediaType: MediaType,
+  caption?: string,
+  captionEntities?: MessageEntity[]
+): Promise<void> {
+  const options = { caption, caption_entities: captionEntities };
+  try {
+    switch (mediaType) {
+      case 'photo':
+        await bot.api.sendPhoto(chatId, fileId, options);
+        break;
+      case 'video':
+        await bot.api.sendVideo(chatId, fileId, options);
+        break;
+      case 'document':
+        await bot.api.sendDocument(chatId, fileId, options);
+        break;
+      case 'audio':
+        await bot.api.sendAudio(chatId, fileId, options);
+        break;
+      case 'voice':
+        await bot.api.sendVoice(chatId, fileId, options);
+        break;
+      case 'video_note':
+        await bot.api.sendVideoNote(chatId, fileId);
+        break;
+      case 'animation':
+        await bot.api.sendAnimation(chatId, fileId, options);
+        break;
+      case 'sticker':
+        await bot.api.sendSticker(chatId, fileId);
+        break;
+      default:
+        await bot.api.sendDocument(chatId, fileId, options);
+    }
+  } catch (error: unknown) {
+    // If photo/video fails with type mismatch, try as document
+    const errMsg = error instanceof Error ? error.message : String(error);
+    if (errMsg.includes("can't use file of type") && (mediaType === 'photo' || mediaType === 'video')) {
+      console.log('[Files] Type mismatch, sending as document instead');
+      await bot.api.sendDocument(chatId, fileId, options);
+    } else {
+      throw error;
+    }
+  }
+}
+
+/**
+ * send_files job: files from the Mini App selection, albums via sendMediaGroup
+ * Messages are spaced out by SEND_DELAY_MS; progress is saved after each album / file
+ * A long caption goes after its media: the file is saved as sent first, so a 429 on the
+ * caption retries only the caption (pendingCaption in the checkpoint)
+ */
+export const sendFilesJob: JobHandler<'send_files'> = {
+  concurrency: 1,
+  maxAttempts: 8,
+
+  async run({ chatId, fileIds }, { job, checkpoint, progress }) {
+    const state = (checkpoint as SendFilesResult | null) ?? { sent: [], errors: [], processed: [] };
+    const processed = new Set(state.processed);
+
+    const markProcessed = (ids: number[], captionFile: StoredFile | null = null) => {
+      state.processed.push(...ids);
+      state.pendingCaption = captionFile?.id ?? null;
+      progress(state.processed.length, fileIds.length, state);
+    };
+
+    // Длинная подпись отдельным сообщением (медиа уже отправлено)
+    const sendPendingCaption = async (file: StoredFile) => {
+      try {
+        await sendCaptionAsText(chatId, file.caption!, parseEntities(file.captionEntities));
+      } catch (sendError) {
+        if (getRetryAfter(sendError) !== null) throw sendError;
+
+        console.error('[Files] Error sending caption of file:', file.id, sendError);
+        state.errors.push(`Failed to send caption of file ${file.id}`);
+      }
+      state.pendingCaption = null;
+      progress(state.processed.length, fileIds.length, state);
+    };
+
+    // Повтор после 429 / перезапуска: медиа уже в чате, осталась только подпись
+    if (state.pendingCaption) {
+      const file = job.userId ? await filesRepo.findAccessible(state.pendingCaption, job.userId) : null;
+      if (file?.caption) {
+        await sendPendingCaption(file);
+      } else {
+        state.pendingCaption = null;
+      }
+    }
+
+    // Загружаем файлы в порядке запроса (доступ проверяется заново - файл могли удалить);
+    // файлы из корзины не отправляем
+    const filesToSend: StoredFile[] = [];
+    for (const id of fileIds) {
+      if (processed.has(id)) continue;
+
+      const file = job.userId ? await filesRepo.findAccessible(id, job.userId) : null;
+      if (!file || file.deletedAt) {
+        state.errors.push(`File ${id} not found`);
+        markProcessed([id]);
+        continue;
+      }
+
+      filesToSend.push(file);
+    }
+
+    // Файлы одного альбома отправляем одним sendMediaGroup
+    const units = groupForSending(filesToSend);
+
+    for (let i = 0; i < units.length; i++) {
+      const unit = units[i];
+
+      if (unit.length > 1) {
+        let captionFile: StoredFile | null;
+        try {
+          captionFile = await sendAlbum(chatId, unit);
+        } catch (sendError) {
+          if (getRetryAfter(sendError) !== null) throw sendError;
+
+          // Альбом не отправился (например, file_id другого типа) - шлём по одному
+          console.error('[Files] Error sending album, falling back to single files:', sendError);
+          for (const file of unit) {
+            const fileCaption = await sendSingleFile(chatId, file, state.sent, state.errors);
+            markProcessed([file.id], fileCaption);
+            if (fileCaption) await sendPendingCaption(fileCaption);
+            await delay(SEND_DELAY_MS);
+          }
+          continue;
+        }
+
+        console.log('[Files] Sent album:', unit[0].mediaGroupId, 'files:', unit.length);
+        state.sent.push(...unit.map(f => f.id));
+        markProcessed(unit.map(f => f.id), captionFile);
+        if (captionFile) await sendPendingCaption(captionFile);
+      } else {
+        const captionFile = await sendSingleFile(chatId, unit[0], state.sent, state.errors);
+        markProcessed([unit[0].id], captionFile);
+        if (captionFile) await sendPendingCaption(captionFile);
+      }
+
+      // Задержка между отправками (кроме последней)
+      if (i < units.length - 1) {
+        await delay(SEND_DELAY_MS);
+      }
+    }
+
+    return state;
+  },
+};
@@ -1,5 +1,8 @@
-import { Message } from '@grammyjs/types';
-import { ExtractedMedia, MediaType } from '../types/index.js';
+import { Message, MessageEntity } from '@grammyjs/types';
+import { ExtractedMedia, ExtractedNote, ExtractedItem, MediaType } from '../types/index.js';
+import { normalizeTag } from '../db/repositories/tags.repository.js';
+import { MAX_TAG_LENGTH } from '../constants.js';
+import { serializeEntities } from './message-entities.service.js';
 
 /**
  * Service for extracting metadata from Telegram messages
@@ -7,8 +10,128 @@ import { ExtractedMedia, MediaType } from '../types/index.js';
 export class IngestionService {
   /**
    * Main method to extract media from a message
+   * Auto-tags are derived from caption hashtags and forward source
+   * @param options.stickerLibrary - user opted in to the GIF & sticker library
    */
-  extractMedia(msg: Message): ExtractedMedia | null {
+  extractMedia(msg: Message, options: { stickerLibrary?: boolean } = {}): ExtractedMedia | null {
+    const media = this.extractByType(msg, options.stickerLibrary ?? false);
+    if (media) {
+      media.mediaGroupId = msg.media_group_id;
+      media.captionEntities = serializeEntities(msg.caption_entities);
+      media.tags = extractAutoTags(media.caption, msg.caption_entities, media.forwardFromChatTitle);
+    }
+    return media;
+  }
+
+  /**
+   * Extract a note from a plain text message (entities are kept for formatting)
+   */
+  extractNote(msg: Message): ExtractedNote | null {
+    if (!msg.text?.trim()) return null;
+
+    return {
+      text: msg.text,
+      entities: serializeEntities(msg.entities),
+      ...this.extractForwardInfo(msg),
+    };
+  }
+
+  /**
+   * Extract a structured message: venue, location, contact or poll
+   */
+  extractItem(msg: Message): ExtractedItem | null {
+    const item = this.extractItemByType(msg);
+    return item ? { ...item, ...this.extractForwardInfo(msg) } : null;
+  }
+
+  /**
+   * Structured message by type
+   * Venue is checked before location - venue messages carry `location` too
+   */
+  private extractItemByType(msg: Message): ExtractedItem | null {
+    if (msg.venue) {
+      const venue = msg.venue;
+      return {
+        kind: 'venue',
+        title: venue.title,
+        description: venue.address,
+        data: {
+          latitude: venue.location.latitude,
+          longitude: venue.location.longitude,
+          title: venue.title,
+          address: venue.address,
+          foursquareId: venue.foursquare_id,
+          foursquareType: venue.foursquare_type,
+          googlePlaceId: venue.google_place_id,
+          googlePlaceType: venue.google_place_type,
+        },
+      };
+    }
+
+    if (msg.location) {
+      // Live location сохраняем как точку на момент отправки
+      const location = msg.location;
+      return {
+        kind: 'location',
+        title: formatCoordinates(location.latitude, location.longitude),
+        data: {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          horizontalAccuracy: location.horizontal_accuracy,
+        },
+      };
+    }
+
+    if (msg.contact) {
+      const contact = msg.contact;
+      return {
+        kind: 'contact',
+        title: [contact.first_name, contact.last_name].filter(Boolean).join(' '),
+        description: contact.phone_number,
+        details: contact.vcard,
+        data: {
+          phoneNumber: contact.phone_number,
+          firstName: contact.first_name,
+          lastName: contact.last_name,
+          userId: contact.user_id,
+          vcard: contact.vcard,
+        },
+      };
+    }
+
+    if (msg.poll) {
+      const poll = msg.poll;
+      const options = poll.options.map(option => option.text);
+      return {
+        kind: 'poll',
+        title: poll.question,
+        description: options.join(' · '),
+        data: {
+          question: poll.question,
+          options,
+          type: poll.type,
+          allowsMultipleAnswers: poll.allows_multiple_answers,
+          isAnonymous: poll.is_anonymous,
+          correctOptionId: poll.correct_option_id,
+          explanation: poll.explanation,
+        },
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract media metadata depending on message type
+   */
+  private extractByType(msg: Message, stickerLibrary: boolean): ExtractedMedia | null {
+    // GIF приходит и с полем document - без библиотеки сохраняется как документ (как раньше)
+    if (msg.animation && stickerLibrary) {
+      return this.extractAnimation(msg);
+    }
+    if (msg.sticker) {
+      return stickerLibrary ? this.extractSticker(msg) : null;
+    }
     if (msg.photo) {
       return this.extractPhoto(msg);
     }
@@ -27,11 +150,57 @@ export class IngestionService {
     if (msg.video_note) {
       return this.extractVideoNote(msg);
     }
-    // animation и sticker игнорируются - никто не сохраняет GIF и стикеры
 
     return null;
   }
 
+  /**
+   * Animation (GIF / silent MP4) - only with the sticker library enabled
+   */
+  private extractAnimation(msg: Message): ExtractedMedia {
+    const animation = msg.animation!;
+
+    return {
+      fileId: animation.file_id,
+      fileUniqueId: animation.file_unique_id,
+      mediaType: 'animation',
+      mimeType: animation.mime_type,
+      fileName: animation.file_name,
+      fileSize: animation.file_size,
+      duration: animation.duration,
+      width: animation.width,
+      height: animation.height,
+      thumbnailFileId: animation.thumbnail?.file_id,
+      caption: msg.caption,
+      ...this.extractForwardInfo(msg),
+    };
+  }
+
+  /**
+   * Sticker - set name goes to fileName (full-text search), emoji to its own column
+   * Static = WebP, animated = TGS (Lottie), video = WebM
+   */
+  private extractSticker(msg: Message): ExtractedMedia {
+    const sticker = msg.sticker!;
+    const mimeType = sticker.is_animated
+      ? 'application/x-tgsticker'
+      : sticker.is_video ? 'video/webm' : 'image/webp';
+
+    return {
+      fileId: sticker.file_id,
+      fileUniqueId: sticker.file_unique_id,
+      mediaType: 'sticker',
+      mimeType,
+      fileName: sticker.set_name,
+      fileSize: sticker.file_size,
+      width: sticker.width,
+      height: sticker.height,
+      thumbnailFileId: sticker.thumbnail?.file_id,
+      emoji: sticker.emoji,
+      ...this.extractForwardInfo(msg),
+    };
+  }
+
   /**
    * Photo - array of PhotoSize, take the highest quality
    * Telegram sends photos in increasing sizes: ~90px, ~320px, ~800px, original
@@ -201,6 +370,60 @@ export class IngestionService {
   }
 }
 
+/**
+ * Coordinates as text: "55.755800, 37.617300"
+ */
+function formatCoordinates(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+}
+
+/**
+ * Convert a channel/chat title into a tag: "Habr News!" -> "habr_news"
+ */
+function titleToTag(title: string): string | null {
+  const tag = title
+    .replace(/[^\p{L}\d_]+/gu, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+  return normalizeTag(tag);
+}
+
+/**
+ * Extract auto-tags for a file:
+ * - #hashtags from caption entities (Telegram marks them as 'hashtag')
+ * - #hashtags found in caption text (for captions without entities, e.g. backfill)
+ * - forward channel/chat title
+ * Returns normalized unique tags
+ */
+export function extractAutoTags(
+  caption: string | null | undefined,
+  entities: MessageEntity[] | undefined,
+  forwardChatTitle: string | null | undefined
+): string[] {
+  const tags = new Set<string>();
+
+  if (caption) {
+    // Offsets in entities are in UTF-16 code units - same as JS strings
+    for (const entity of entities || []) {
+      if (entity.type !== 'hashtag') continue;
+      const tag = normalizeTag(caption.substring(entity.offset, entity.offset + entity.length));
+      if (tag) tags.add(tag);
+    }
+
+    for (const match of caption.matchAll(/(?:^|[^\p{L}\d_])#([\p{L}\d_]+)/gu)) {
+      const tag = normalizeTag(match[1]);
+      if (tag) tags.add(tag);
+    }
+  }
+
+  if (forwardChatTitle) {
+    const tag = titleToTag(forwardChatTitle);
+    if (tag) tags.add(tag);
+  }
+
+  return Array.from(tags);
+}
+
 /**
  * Get emoji for media type
  */
@@ -212,7 +435,14 @@ export function getMediaEmoji(type: MediaType): string {
     audio: '🎵',
     voice: '🎤',
     video_note: '⭕',
+    animation: '🎞',
+    sticker: '🎭',
     link: '🔗',
+    note: '📝',
+    location: '📍',
+    venue: '📍',
+    contact: '👤',
+    poll: '📊',
   };
   return emojis[type] || '📁';
 }
@@ -0,0 +1,207 @@
+import { GrammyError } from 'grammy';
+import { JobsRepository } from '../db/repositories/jobs.repository.js';
+import { Job } from '../db/schema.js';
+import { JobPayloads, JobStatus, JobType } from '../types/index.js';
+import {
+  JOB_QUEUE_INTERVAL_MS,
+  JOB_MAX_ATTEMPTS,
+  JOB_RETRY_BASE_MS,
+  MS_PER_SECOND,
+} from '../constants.js';
+
+/**
+ * What a handler gets besides the payload
+ * checkpoint - result saved by progress() before the job was interrupted or retried
+ */
+export interface JobContext {
+  job: Job;
+  checkpoint: unknown;
+  progress(done: number, total: number, result: unknown): void;
+}
+
+/**
+ * Handler of one job type; the returned value is stored as the job result
+ */
+export interface JobHandler<T extends JobType> {
+  concurrency: number;
+  maxAttempts?: number;
+  run(payload: JobPayloads[T], context: JobContext): Promise<unknown>;
+}
+
+export type JobHandlers = { [T in JobType]?: JobHandler<T> };
+
+const jobsRepo = new JobsRepository();
+
+let handlers: JobHandlers = {};
+let queueInterval: ReturnType<typeof setInterval> | null = null;
+let isTicking = false;
+let tickAgain = false;
+
+// Запущенные задачи и пауза после 429 - по типам
+const running = new Map<JobType, number>();
+const pausedUntil = new Map<JobType, number>();
+
+/**
+ * Seconds Telegram asked to wait (429 Too Many Requests), null for other errors
+ */
+export function getRetryAfter(error: unknown): number | null {
+  if (error instanceof GrammyError && error.error_code === 429) {
+    return error.parameters.retry_after ?? 1;
+  }
+  return null;
+}
+
+/**
+ * Convert job to API response (payload stays on the server)
+ */
+export function toJobResponse(job: Job) {
+  return {
+    id: job.id,
+    type: job.type as JobType,
+    status: job.status as JobStatus,
+    progress: { done: job.progressDone, total: job.progressTotal },
+    result: job.result ? JSON.parse(job.result) : null,
+    error: job.error,
+    attempts: job.attempts,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+/**
+ * Run one claimed job and record the outcome
+ */
+async function runJob(handler: JobHandler<JobType>, job: Job): Promise<void> {
+  const context: JobContext = {
+    job,
+    checkpoint: job.result ? JSON.parse(job.result) : null,
+    progress: (done, total, result) => jobsRepo.updateProgress(job.id, done, total, result),
+  };
+
+  try {
+    const result = await handler.run(JSON.parse(job.payload), context);
+    jobsRepo.markDone(job.id, result);
+    console.log(`[Jobs] ${job.type} #${job.id} done`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAfter = getRetryAfter(error);
+
+    if (retryAfter !== null) {
+      // Лимит Telegram общий для бота - останавливаем весь тип задач;
+      // сама задача не виновата - повторяем ровно через retry_after, попытку не тратим
+      const runAt = Date.now() + retryAfter * MS_PER_SECOND;
+      pausedUntil.set(job.type as JobType, runAt);
+      jobsRepo.reschedule(job.id, new Date(runAt), message);
+      console.warn(`[Jobs] ${job.type} #${job.id} rate limited, retry in ${retryAfter}s`);
+      return;
+    }
+
+    if (job.attempts + 1 >= job.maxAttempts) {
+      jobsRepo.markFailed(job.id, message);
+      console.error(`[Jobs] ${job.type} #${job.id} failed after ${job.attempts + 1} attempts:`, message);
+      return;
+    }
+
+    // 10 с, 20 с, 40 с, ...
+    const delay = JOB_RETRY_BASE_MS * 2 ** job.attempts;
+    jobsRepo.markRetry(job.id, new Date(Date.now() + delay), message);
+    console.warn(`[Jobs] ${job.type} #${job.id} retry in ${Math.round(delay / MS_PER_SECOND)}s:`, message);
+  }
+}
+
+/**
+ * Start due jobs up to the concurrency limit of each type
+ */
+async function tick(): Promise<void> {
+  if (isTicking) {
+    tickAgain = true;
+    return;
+  }
+  isTicking = true;
+
+  try {
+    for (const type of Object.keys(handlers) as JobType[]) {
+      const handler = handlers[type] as JobHandler<JobType>;
+      if ((pausedUntil.get(type) ?? 0) > Date.now()) continue;
+
+      while ((running.get(type) ?? 0) < handler.concurrency) {
+        const job = await jobsRepo.claimNext(type);
+        if (!job) break;
+
+        running.set(type, (running.get(type) ?? 0) + 1);
+        runJob(handler, job).catch((error) => {
+          console.error(`[Jobs] Failed to record result of ${job.type} #${job.id}:`, error);
+        }).finally(() => {
+          running.set(type, (running.get(type) ?? 1) - 1);
+          wakeJobQueue();
+        });
+      }
+    }
+  } catch (error) {
+    console.error('[Jobs] Failed to pick up jobs:', error);
+  } finally {
+    isTicking = false;
+  }
+
+  if (tickAgain) {
+    tickAgain = false;
+    wakeJobQueue();
+  }
+}
+
+/**
+ * Add a job to the queue and try to start it right away
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { userId?: number | null; runAt?: Date; total?: number } = {}
+): Promise<Job> {
+  const job = await jobsRepo.enqueue(type, payload, {
+    ...options,
+    maxAttempts: handlers[type]?.maxAttempts ?? JOB_MAX_ATTEMPTS,
+  });
+  wakeJobQueue();
+  return job;
+}
+
+/**
+ * Check for due jobs now (e.g. a job was just added or finished)
+ */
+export function wakeJobQueue(): void {
+  if (queueInterval) {
+    tick();
+  }
+}
+
+/**
+ * Start the job queue with handlers for each job type
+ * Jobs interrupted by a restart are picked up again from their checkpoint (spending an attempt)
+ */
+export function startJobQueue(jobHandlers: JobHandlers): void {
+  handlers = jobHandlers;
+
+  const { requeued, failed } = jobsRepo.requeueInterrupted('Interrupted by a restart');
+  if (requeued > 0) {
+    console.log(`[Jobs] Requeued ${requeued} interrupted job(s)`);
+  }
+  if (failed > 0) {
+    console.error(`[Jobs] ${failed} interrupted job(s) failed: no attempts left`);
+  }
+
+  queueInterval = setInterval(tick, JOB_QUEUE_INTERVAL_MS);
+  tick();
+
+  console.log('[Jobs] Job queue started');
+}
+
+/**
+ * Stop picking up new jobs (running ones are requeued on next start if not finished)
+ */
+export function stopJobQueue(): void {
+  if (queueInterval) {
+    clearInterval(queueInterval);
+    queueInterval = null;
+    console.log('[Jobs] Job queue stopped');
+  }
+}
@@ -0,0 +1,44 @@
+import { LinksRepository } from '../db/repositories/links.repository.js';
+import { LinkParserService } from './link-parser.service.js';
+import { JobHandler } from './job-queue.service.js';
+import { LINK_PARSE_CONCURRENCY } from '../constants.js';
+
+const linkParser = new LinkParserService();
+const linksRepo = new LinksRepository();
+
+/**
+ * parse_links job: OpenGraph preview for links saved by the bot
+ * Links are saved right away with URL only, the preview is filled in here.
+ * A link without title is not parsed yet - retries continue with those only
+ */
+export const parseLinksJob: JobHandler<'parse_links'> = {
+  concurrency: LINK_PARSE_CONCURRENCY,
+  maxAttempts: 3,
+
+  async run({ linkIds }) {
+    const pending = [];
+    for (const id of linkIds) {
+      const link = await linksRepo.findById(id);
+      // Удалена навсегда или превью уже есть
+      if (link && !link.title) pending.push(link);
+    }
+
+    const previews = await linkParser.parseMultipleUrls(pending.map(link => link.url));
+
+    let parsed = 0;
+    for (const link of pending) {
+      // Без title - сайт не ответил (parseOpenGraph подставляет домен при успехе)
+      const preview = previews.find(p => p.url === link.url);
+      if (!preview?.title) continue;
+
+      linksRepo.updatePreview(link.id, preview);
+      parsed++;
+    }
+
+    if (parsed < pending.length) {
+      throw new Error(`Failed to parse ${pending.length - parsed} of ${pending.length} links`);
+    }
+
+    return { parsed };
+  },
+};
@@ -0,0 +1,92 @@
+import { MessageEntity } from '@grammyjs/types';
+
+/**
+ * Helpers for Telegram message entities (formatting of captions and notes)
+ * Entities are stored as JSON; offsets and lengths are in UTF-16 code units - same as JS strings
+ */
+
+/**
+ * Entities -> JSON for the database (undefined if there is no formatting)
+ */
+export function serializeEntities(entities: MessageEntity[] | null | undefined): string | undefined {
+  return entities?.length ? JSON.stringify(entities) : undefined;
+}
+
+/**
+ * JSON from the database -> entities (undefined if empty or broken)
+ */
+export function parseEntities(json: string | null | undefined): MessageEntity[] | undefined {
+  if (!json) return undefined;
+  try {
+    const entities = JSON.parse(json);
+    return Array.isArray(entities) && entities.length > 0 ? entities as MessageEntity[] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Entities of the text range [start, end), re-based to the start of the range
+ * Used when a long text is split into several messages
+ */
+export function sliceEntities(entities: MessageEntity[] | undefined, start: number, end: number): MessageEntity[] | undefined {
+  if (!entities) return undefined;
+
+  const result: MessageEntity[] = [];
+  for (const entity of entities) {
+    const from = Math.max(entity.offset, start);
+    const to = Math.min(entity.offset + entity.length, end);
+    if (to <= from) continue;
+    // Обрезанный custom emoji - невалидная сущность
+    if (entity.type === 'custom_emoji' && to - from !== entity.length) continue;
+    result.push({ ...entity, offset: from - start, length: to - from });
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Move entities from the old text to the edited one
+ * The edit is taken as one changed region between the common prefix and suffix:
+ * - entities before the region are kept, entities after it are shifted
+ * - entities that enclose the region grow / shrink with it (custom emoji are dropped)
+ * - entities that partially overlap the region are dropped
+ */
+export function adjustEntitiesForEdit(
+  oldText: string,
+  newText: string,
+  entities: MessageEntity[] | undefined
+): MessageEntity[] | undefined {
+  if (!entities) return undefined;
+  if (oldText === newText) return entities;
+
+  const maxCommon = Math.min(oldText.length, newText.length);
+  let prefix = 0;
+  while (prefix < maxCommon && oldText[prefix] === newText[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  // Изменённый участок старого текста: [prefix, oldEnd)
+  const oldEnd = oldText.length - suffix;
+  const delta = newText.length - oldText.length;
+
+  const result: MessageEntity[] = [];
+  for (const entity of entities) {
+    const end = entity.offset + entity.length;
+
+    if (end <= prefix) {
+      result.push(entity);
+    } else if (entity.offset >= oldEnd) {
+      result.push({ ...entity, offset: entity.offset + delta });
+    } else if (entity.offset <= prefix && end >= oldEnd && entity.type !== 'custom_emoji') {
+      const length = entity.length + delta;
+      if (length > 0) result.push({ ...entity, length });
+    }
+  }
+  return result.length > 0 ? result : undefined;
+}
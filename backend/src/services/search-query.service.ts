@@ -0,0 +1,182 @@
+import { FileSearchOptions } from '../db/index.js';
+import { normalizeTag } from '../db/repositories/tags.repository.js';
+
+/**
+ * Search query parser for the bot (inline mode)
+ * Same syntax as the Mini App search (src/utils/searchTagParser.ts) - keep them in sync:
+ *   сегодня, вчера, неделя, месяц, 2024-01-31, 31.01.2024 - date
+ *   >1mb, <500kb, 5mb                                     - size (5mb = ±50%)
+ *   от:Имя / from:Имя, из:Канал / chat:Канал              - sender
+ *   #тег                                                   - tag
+ *   .pdf, jpg                                              - extension
+ * Everything else is full-text query
+ */
+
+// Расширения, которые распознаются как фильтр (как в Mini App)
+const EXTENSION_TO_MIME: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  zip: 'application/zip',
+  rar: 'application/vnd.rar',
+  '7z': 'application/x-7z-compressed',
+  tar: 'application/x-tar',
+  gz: 'application/gzip',
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'application/javascript',
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedSearchQuery {
+  text: string;
+  options: FileSearchOptions;
+  // Есть ли фильтры, применимые только к файлам
+  hasFilters: boolean;
+}
+
+function toUnix(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Try to apply a word as a filter, returns false if it's a plain word
+ */
+function applyFilter(word: string, options: FileSearchOptions, now: Date): boolean {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  // Даты
+  if (/^(сегодня|today)$/i.test(word)) {
+    options.dateFrom = toUnix(today);
+    options.dateTo = toUnix(now);
+    return true;
+  }
+  if (/^(вчера|yesterday)$/i.test(word)) {
+    options.dateFrom = toUnix(new Date(today.getTime() - DAY_MS));
+    options.dateTo = toUnix(today);
+    return true;
+  }
+  if (/^(неделя|week)$/i.test(word)) {
+    options.dateFrom = toUnix(new Date(now.getTime() - 7 * DAY_MS));
+    options.dateTo = toUnix(now);
+    return true;
+  }
+  if (/^(месяц|month)$/i.test(word)) {
+    options.dateFrom = toUnix(new Date(now.getTime() - 30 * DAY_MS));
+    options.dateTo = toUnix(now);
+    return true;
+  }
+
+  // 2024-01-31 или 31.01.2024
+  const isoMatch = word.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const ruMatch = word.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+  const exactDate = isoMatch ? word : ruMatch ? `${ruMatch[3]}-${ruMatch[2]}-${ruMatch[1]}` : null;
+  if (exactDate) {
+    const date = new Date(exactDate);
+    if (!isNaN(date.getTime())) {
+      options.dateFrom = toUnix(date);
+      options.dateTo = toUnix(new Date(date.getTime() + DAY_MS));
+      return true;
+    }
+  }
+
+  // Размеры: >1MB, <500KB, 5MB (единица измерения обязательна)
+  const sizeMatch = word.match(/^([><])?(\d+)(kb|mb|gb)$/i);
+  if (sizeMatch) {
+    const [, operator, num, unit] = sizeMatch;
+    const bytes = parseInt(num, 10) * SIZE_UNITS[unit.toLowerCase()];
+    if (operator === '>') {
+      options.sizeMin = bytes;
+    } else if (operator === '<') {
+      options.sizeMax = bytes;
+    } else {
+      options.sizeMin = Math.floor(bytes * 0.5);
+      options.sizeMax = Math.floor(bytes * 1.5);
+    }
+    return true;
+  }
+
+  const fromMatch = word.match(/^(?:от|from):(.+)$/i);
+  if (fromMatch) {
+    options.fromName = fromMatch[1];
+    return true;
+  }
+
+  const chatMatch = word.match(/^(?:из|chat):(.+)$/i);
+  if (chatMatch) {
+    options.fromChat = chatMatch[1];
+    return true;
+  }
+
+  if (word.startsWith('#')) {
+    const tag = normalizeTag(word);
+    if (tag) {
+      options.tags = [...(options.tags || []), tag];
+      return true;
+    }
+  }
+
+  const extMatch = word.match(/^\.?([a-z0-9]{2,5})$/i);
+  if (extMatch) {
+    const mimeType = EXTENSION_TO_MIME[extMatch[1].toLowerCase()];
+    if (mimeType) {
+      options.mimeType = mimeType;
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Split search input into full-text query and file search filters
+ */
+export function parseSearchQuery(input: string, now = new Date()): ParsedSearchQuery {
+  const options: FileSearchOptions = {};
+  const textWords: string[] = [];
+
+  for (const word of input.trim().split(/\s+/).filter(Boolean)) {
+    if (!applyFilter(word, options, now)) {
+      textWords.push(word);
+    }
+  }
+
+  return {
+    text: textWords.join(' '),
+    options,
+    hasFilters: Object.keys(options).length > 0,
+  };
+}
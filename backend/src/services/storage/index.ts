@@ -0,0 +1,124 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ThumbnailService } from '../thumbnail.service.js';
+import { FilesRepository } from '../../db/repositories/files.repository.js';
+import { File } from '../../db/schema.js';
+import { bot } from '../../bot/index.js';
+import { config } from '../../config.js';
+import { BOT_API_DOWNLOAD_LIMIT } from '../../constants.js';
+import { StorageProvider, StorageObject } from './types.js';
+import { ByteRange, RangeNotSatisfiableError } from './range.js';
+import { TelegramStorageProvider } from './telegram.provider.js';
+import { LocalStorageProvider } from './local.provider.js';
+import { S3StorageProvider } from './s3.provider.js';
+
+export type { StorageProvider, StorageObject } from './types.js';
+export { RangeNotSatisfiableError, sliceStream } from './range.js';
+export type { ByteRange } from './range.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_LOCAL_DIR = path.join(__dirname, '../../../data/storage');
+
+const filesRepo = new FilesRepository();
+
+// bot импортируется лениво - этот модуль подключается из bot/handlers
+let thumbnailService: ThumbnailService | null = null;
+const telegramStorage = new TelegramStorageProvider(() => {
+  if (!thumbnailService) {
+    thumbnailService = new ThumbnailService(bot, config.botToken);
+  }
+  return thumbnailService;
+});
+
+let mirrorStorage: StorageProvider | null | undefined;
+
+/**
+ * Get secondary (mirror) store from config, null if mirror mode is off
+ */
+export function getMirrorStorage(): StorageProvider | null {
+  if (mirrorStorage !== undefined) return mirrorStorage;
+
+  const { mirror, localDir, s3 } = config.storage;
+  if (mirror === 'local') {
+    mirrorStorage = new LocalStorageProvider(localDir || DEFAULT_LOCAL_DIR);
+  } else if (mirror === 's3') {
+    if (!s3.endpoint || !s3.bucket || !s3.accessKeyId || !s3.secretAccessKey) {
+      throw new Error('STORAGE_MIRROR=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    mirrorStorage = new S3StorageProvider(s3);
+  } else {
+    mirrorStorage = null;
+  }
+
+  return mirrorStorage;
+}
+
+/**
+ * Max size of a file that can be downloaded from Telegram
+ * null - no limit (local Bot API server)
+ */
+export function getDownloadLimit(): number | null {
+  return config.bot.apiLocal ? null : BOT_API_DOWNLOAD_LIMIT;
+}
+
+/**
+ * Open file content: Telegram first, then the mirror store
+ * fileUniqueId = null - the object has no mirror copy (e.g. Telegram thumbnails)
+ * range - request only a part of the file (providers may ignore it, check result.range)
+ * Returns null if the file is unavailable everywhere
+ */
+export async function openFileContent(
+  file: { fileId: string; fileUniqueId: string | null },
+  range?: ByteRange
+): Promise<(StorageObject & { source: string }) | null> {
+  try {
+    const fromTelegram = await telegramStorage.open(file.fileId, range);
+    if (fromTelegram) return { ...fromTelegram, source: telegramStorage.name };
+  } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) throw error;
+    console.error('[Storage] Telegram open failed:', error);
+  }
+
+  const mirror = getMirrorStorage();
+  if (!mirror || !file.fileUniqueId) return null;
+
+  try {
+    const fromMirror = await mirror.open(file.fileUniqueId, range);
+    if (fromMirror) {
+      console.log(`[Storage] Serving ${file.fileUniqueId} from ${mirror.name} mirror`);
+      return { ...fromMirror, source: mirror.name };
+    }
+  } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) throw error;
+    console.error(`[Storage] ${mirror.name} mirror open failed:`, error);
+  }
+
+  return null;
+}
+
+/**
+ * Copy an ingested file to the mirror store (no-op if mirror mode is off)
+ * Files over the Bot API download limit are skipped - content is buffered in memory,
+ * so the limit stays even with a local Bot API server
+ */
+export async function mirrorFile(file: File): Promise<boolean> {
+  const mirror = getMirrorStorage();
+  if (!mirror) return false;
+
+  if (file.fileSize && file.fileSize > BOT_API_DOWNLOAD_LIMIT) {
+    console.log(`[Storage] File ${file.id} is too large to mirror (${file.fileSize} bytes)`);
+    return false;
+  }
+
+  const content = await telegramStorage.open(file.fileId);
+  if (!content) {
+    console.error(`[Storage] File ${file.id} is unavailable in Telegram, not mirrored`);
+    return false;
+  }
+
+  const data = Buffer.from(await new Response(content.body).arrayBuffer());
+  await mirror.put(file.fileUniqueId, data, file.mimeType);
+  filesRepo.markMirrored(file.id, mirror.name);
+
+  return true;
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageProvider, StorageObject } from './types.js';
+import { ByteRange, RangeNotSatisfiableError } from './range.js';
+
+// Keys are Telegram file_unique_id - letters, digits, _ and -
+const KEY_PATTERN = /^[\w-]+$/;
+
+/**
+ * Open a file on disk, only the requested part with range
+ * Returns null if the file does not exist
+ */
+export async function openDiskFile(filePath: string, range?: ByteRange): Promise<StorageObject | null> {
+  let size: number;
+  try {
+    size = (await fs.promises.stat(filePath)).size;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  if (!range) {
+    return {
+      body: Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>,
+      size,
+    };
+  }
+
+  if (range.start >= size) {
+    throw new RangeNotSatisfiableError(size);
+  }
+
+  const end = Math.min(range.end ?? size - 1, size - 1);
+  return {
+    body: Readable.toWeb(fs.createReadStream(filePath, { start: range.start, end })) as ReadableStream<Uint8Array>,
+    size: end - range.start + 1,
+    range: { start: range.start, end, total: size },
+  };
+}
+
+/**
+ * Local disk storage: <dir>/<first 2 chars of key>/<key>
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+
+  constructor(private baseDir: string) {}
+
+  private getPath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.baseDir, key.slice(0, 2), key);
+  }
+
+  async open(key: string, range?: ByteRange): Promise<StorageObject | null> {
+    return openDiskFile(this.getPath(key), range);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.getPath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Пишем во временный файл и переименовываем - читатели не увидят недописанный файл
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, data);
+    await fs.promises.rename(tmpPath, filePath);
+  }
+}
@@ -0,0 +1,78 @@
+import { StorageObject } from './types.js';
+
+/**
+ * Byte range of a file, end is inclusive (as in HTTP Range)
+ * No end = up to the end of the file
+ */
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+/**
+ * Requested range starts beyond the end of the file
+ */
+export class RangeNotSatisfiableError extends Error {
+  constructor(public total: number | null) {
+    super('Range not satisfiable');
+  }
+}
+
+/**
+ * Build Range request header for upstream
+ */
+export function formatRangeHeader(range: ByteRange): string {
+  return `bytes=${range.start}-${range.end ?? ''}`;
+}
+
+/**
+ * Parse Content-Range response header: "bytes 0-99/1000" (total may be *)
+ */
+export function parseContentRange(header: string | null): { start: number; end: number; total: number | null } | null {
+  const match = header ? /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(header.trim()) : null;
+  if (!match) return null;
+
+  return {
+    start: parseInt(match[1], 10),
+    end: parseInt(match[2], 10),
+    total: match[3] === '*' ? null : parseInt(match[3], 10),
+  };
+}
+
+/**
+ * Convert upstream fetch response to StorageObject (partial if upstream answered 206)
+ */
+export function fromFetchResponse(response: Response & { body: ReadableStream<Uint8Array> }): StorageObject {
+  const contentLength = response.headers.get('content-length');
+  const range = response.status === 206 ? parseContentRange(response.headers.get('content-range')) : null;
+
+  return {
+    body: response.body,
+    size: contentLength ? parseInt(contentLength, 10) : null,
+    ...(range && { range }),
+  };
+}
+
+/**
+ * Cut bytes [start, end] out of a full stream
+ * For sources that ignore Range - the rest of the stream is cancelled after end
+ */
+export function sliceStream(body: ReadableStream<Uint8Array>, start: number, end: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const chunkStart = offset;
+      offset += chunk.length;
+
+      const from = Math.max(start - chunkStart, 0);
+      const to = Math.min(end + 1 - chunkStart, chunk.length);
+      if (from < to) {
+        controller.enqueue(chunk.subarray(from, to));
+      }
+      if (offset > end) {
+        controller.terminate();
+      }
+    },
+  }));
+}
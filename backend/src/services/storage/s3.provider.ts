@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { StorageProvider, StorageObject } from './types.js';
+import { ByteRange, RangeNotSatisfiableError, formatRangeHeader, fromFetchResponse } from './range.js';
+
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * S3-compatible storage (AWS S3, MinIO, Cloudflare R2, Yandex Object Storage...)
+ * Path-style URLs, requests signed with AWS Signature V4
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3';
+
+  constructor(private config: S3Config) {}
+
+  private getUrl(key: string): URL {
+    const endpoint = this.config.endpoint.replace(/\/+$/, '');
+    return new URL(`${endpoint}/${this.config.bucket}/${encodeURIComponent(key)}`);
+  }
+
+  /**
+   * Build AWS Signature V4 headers (host is signed, fetch sets it itself)
+   */
+  private sign(method: string, url: URL, payloadHash: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(';');
+    const canonicalHeaders = headerNames.map(name => `${name}:${headers[name]}\n`).join('');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    let signingKey = hmac(`AWS4${this.config.secretAccessKey}`, dateStamp);
+    signingKey = hmac(signingKey, this.config.region);
+    signingKey = hmac(signingKey, 's3');
+    signingKey = hmac(signingKey, 'aws4_request');
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+    return {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+
+  async open(key: string, range?: ByteRange): Promise<StorageObject | null> {
+    const url = this.getUrl(key);
+    const response = await fetch(url, {
+      headers: {
+        ...this.sign('GET', url, sha256Hex('')),
+        ...(range && { range: formatRangeHeader(range) }),
+      },
+    });
+
+    if (response.status === 404) return null;
+    if (response.status === 416) {
+      throw new RangeNotSatisfiableError(null);
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 GET failed: ${response.status}`);
+    }
+
+    return fromFetchResponse(response as Response & { body: ReadableStream<Uint8Array> });
+  }
+
+  async put(key: string, data: Buffer, contentType: string | null): Promise<void> {
+    const url = this.getUrl(key);
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: {
+        ...this.sign('PUT', url, sha256Hex(data)),
+        'content-type': contentType || 'application/octet-stream',
+      },
+      body: data,
+    });
+
+    if (!response.ok) {
+      throw new Error(`S3 PUT failed: ${response.status}`);
+    }
+  }
+}
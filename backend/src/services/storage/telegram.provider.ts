@@ -0,0 +1,43 @@
+import { ThumbnailService } from '../thumbnail.service.js';
+import { StorageProvider, StorageObject } from './types.js';
+import { ByteRange, RangeNotSatisfiableError, formatRangeHeader, fromFetchResponse } from './range.js';
+import { openDiskFile } from './local.provider.js';
+
+/**
+ * Telegram storage: files are kept by Telegram, we only have file_id
+ * Downloads go through getFile (cloud Bot API limit - 20 MB);
+ * a local Bot API server (--local) keeps files on disk - they are read directly
+ */
+export class TelegramStorageProvider implements StorageProvider {
+  readonly name = 'telegram';
+
+  constructor(private getThumbnailService: () => ThumbnailService) {}
+
+  async open(fileId: string, range?: ByteRange): Promise<StorageObject | null> {
+    const location = await this.getThumbnailService().getFileLocation(fileId);
+    if (!location) return null;
+
+    if ('localPath' in location) {
+      const content = await openDiskFile(location.localPath, range);
+      if (!content) {
+        console.error('[Storage] File of local Bot API server is missing:', location.localPath);
+      }
+      return content;
+    }
+
+    const response = await fetch(location.url, range ? { headers: { Range: formatRangeHeader(range) } } : undefined);
+    if (response.status === 416) {
+      throw new RangeNotSatisfiableError(null);
+    }
+    if (!response.ok || !response.body) {
+      console.error('[Storage] Telegram download failed:', response.status);
+      return null;
+    }
+
+    return fromFetchResponse(response as Response & { body: ReadableStream<Uint8Array> });
+  }
+
+  async put(): Promise<void> {
+    throw new Error('Telegram storage is read-only');
+  }
+}
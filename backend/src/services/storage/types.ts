@@ -0,0 +1,34 @@
+import type { ByteRange } from './range.js';
+
+/**
+ * Readable content of a stored file
+ */
+export interface StorageObject {
+  body: ReadableStream<Uint8Array>;
+  // Length of body in bytes
+  size: number | null;
+  // Set when body is only a part of the file (end inclusive)
+  range?: { start: number; end: number; total: number | null };
+}
+
+/**
+ * Storage backend for file content
+ *
+ * Telegram is the primary store (key = Telegram file_id, read-only).
+ * Mirror stores (local disk, S3-compatible) keep a copy keyed by file_unique_id
+ */
+export interface StorageProvider {
+  readonly name: string;
+
+  /**
+   * Open stored content, null if the object does not exist
+   * With range the provider may return only that part (see StorageObject.range);
+   * throws RangeNotSatisfiableError if the range starts beyond the end
+   */
+  open(key: string, range?: ByteRange): Promise<StorageObject | null>;
+
+  /**
+   * Store content under the key (overwrites)
+   */
+  put(key: string, data: Buffer, contentType: string | null): Promise<void>;
+}
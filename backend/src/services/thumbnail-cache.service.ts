@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import { ThumbnailService } from './thumbnail.service.js';
+import { openFileContent } from './storage/index.js';
+import { getGeneratedThumbnailPath } from './thumbnail-worker.service.js';
+import { File } from '../db/schema.js';
+import { bot } from '../bot/index.js';
+import { config } from '../config.js';
+import { THUMB_WIDTHS, THUMB_CACHE_MAX_BYTES } from '../constants.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CACHE_DIR = path.join(__dirname, '../../data/thumbs');
+
+export const THUMB_CONTENT_TYPE = 'image/webp';
+
+let thumbnailService: ThumbnailService | null = null;
+function getThumbnailService(): ThumbnailService {
+  if (!thumbnailService) {
+    thumbnailService = new ThumbnailService(bot, config.botToken);
+  }
+  return thumbnailService;
+}
+
+// LRU-индекс кэша: имя файла -> размер
+// Порядок Map = порядок использования, первый элемент вытесняется первым
+let cacheIndex: Map<string, number> | null = null;
+let cacheSize = 0;
+
+// Параллельные запросы одного превью ждут одну генерацию
+const pending = new Map<string, Promise<string | null>>();
+
+/**
+ * Load cache index from disk (once) - order restored by mtime, which is bumped on every hit
+ */
+function getCacheIndex(): Map<string, number> {
+  if (cacheIndex) return cacheIndex;
+
+  fs.mkdirSync(CACHE_DIR, { recursive: true });
+
+  const entries = fs.readdirSync(CACHE_DIR).flatMap(name => {
+    const filePath = path.join(CACHE_DIR, name);
+    // Недописанные файлы от прошлого запуска
+    if (name.endsWith('.tmp')) {
+      fs.rmSync(filePath, { force: true });
+      return [];
+    }
+    const stat = fs.statSync(filePath);
+    return [{ name, size: stat.size, usedAt: stat.mtimeMs }];
+  });
+
+  entries.sort((a, b) => a.usedAt - b.usedAt);
+
+  cacheIndex = new Map(entries.map(entry => [entry.name, entry.size]));
+  cacheSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return cacheIndex;
+}
+
+function touch(name: string): void {
+  const index = getCacheIndex();
+  const size = index.get(name);
+  if (size === undefined) return;
+
+  index.delete(name);
+  index.set(name, size);
+
+  const now = new Date();
+  fs.utimes(path.join(CACHE_DIR, name), now, now, () => {});
+}
+
+function evict(): void {
+  const index = getCacheIndex();
+  for (const [name, size] of index) {
+    if (cacheSize <= THUMB_CACHE_MAX_BYTES || index.size <= 1) break;
+    index.delete(name);
+    cacheSize -= size;
+    fs.rm(path.join(CACHE_DIR, name), { force: true }, () => {});
+  }
+}
+
+/**
+ * Round requested width up to the nearest standard width
+ * No width (or too large) = the largest one
+ */
+export function pickThumbWidth(requested?: number): number {
+  if (!requested || !Number.isFinite(requested)) {
+    return THUMB_WIDTHS[THUMB_WIDTHS.length - 1];
+  }
+  return THUMB_WIDTHS.find(width => width >= requested) ?? THUMB_WIDTHS[THUMB_WIDTHS.length - 1];
+}
+
+function getCacheName(file: File, width: number): string {
+  // file_unique_id из импорта каталога может содержать что угодно
+  return `${file.fileUniqueId.replace(/[^\w-]/g, '_')}_${width}.webp`;
+}
+
+/**
+ * ETag of a preview - content depends only on the source file and width
+ */
+export function getThumbEtag(file: File, width: number): string {
+  return `"${getCacheName(file, width)}"`;
+}
+
+/**
+ * Read source image: locally generated preview or file/thumbnail from Telegram
+ */
+async function readSource(file: File): Promise<Buffer | null> {
+  if (file.generatedThumbnail) {
+    return fs.promises.readFile(getGeneratedThumbnailPath(file.generatedThumbnail));
+  }
+
+  const source = getThumbnailService().getPreviewSource(file);
+  if (!source) return null;
+
+  const content = await openFileContent(source);
+  if (!content) return null;
+
+  return Buffer.from(await new Response(content.body).arrayBuffer());
+}
+
+async function generate(file: File, width: number, name: string): Promise<string | null> {
+  const input = await readSource(file);
+  if (!input) return null;
+
+  const output = await sharp(input)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  const filePath = path.join(CACHE_DIR, name);
+  const tmpPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tmpPath, output);
+  await fs.promises.rename(tmpPath, filePath);
+
+  const index = getCacheIndex();
+  cacheSize += output.length - (index.get(name) ?? 0);
+  index.delete(name);
+  index.set(name, output.length);
+  evict();
+
+  return filePath;
+}
+
+/**
+ * Get path to a cached preview of the file, generating it on miss
+ * Returns null if the file has no preview or the source is unavailable
+ */
+export async function getThumbnail(file: File, width: number): Promise<string | null> {
+  const name = getCacheName(file, width);
+  const index = getCacheIndex();
+
+  if (index.has(name)) {
+    touch(name);
+    return path.join(CACHE_DIR, name);
+  }
+
+  let job = pending.get(name);
+  if (!job) {
+    job = generate(file, width, name)
+      .catch(error => {
+        console.error(`[Thumbs] Failed to build preview for file ${file.id}:`, error);
+        return null;
+      })
+      .finally(() => pending.delete(name));
+    pending.set(name, job);
+  }
+
+  return job;
+}
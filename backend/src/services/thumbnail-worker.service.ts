@@ -0,0 +1,275 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import { FilesRepository } from '../db/repositories/files.repository.js';
+import { File } from '../db/schema.js';
+import { openFileContent, getDownloadLimit } from './storage/index.js';
+import {
+  THUMB_WIDTHS,
+  THUMB_WORKER_INTERVAL_MS,
+  THUMB_WORKER_BATCH_SIZE,
+  THUMB_WORKER_DOWNLOAD_DELAY_MS,
+  THUMB_WORKER_MAX_ATTEMPTS,
+  THUMB_WORKER_RETRY_BASE_MS,
+  THUMB_RENDER_TIMEOUT_MS,
+} from '../constants.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PREVIEWS_DIR = path.join(__dirname, '../../data/previews');
+
+// Типы, для которых Telegram может не прислать thumbnail
+const MEDIA_TYPES = ['document', 'video', 'animation'];
+
+// Если рендерер не установлен - проверяем снова через сутки (без траты попыток)
+const MISSING_TOOL_RETRY_MS = 24 * 60 * 60 * 1000;
+
+const OFFICE_EXTENSIONS = ['doc', 'docx', 'odt', 'rtf', 'xls', 'xlsx', 'ods', 'ppt', 'pptx', 'odp'];
+
+type PreviewKind = 'image' | 'pdf' | 'video' | 'office';
+
+/**
+ * Renderer CLI is not installed - not a problem of the file itself
+ */
+class MissingToolError extends Error {
+  constructor(public tool: string) {
+    super(`${tool} is not installed`);
+  }
+}
+
+const filesRepo = new FilesRepository();
+
+let workerInterval: ReturnType<typeof setInterval> | null = null;
+let isRunning = false;
+
+/**
+ * Absolute path of a generated preview by its stored name
+ */
+export function getGeneratedThumbnailPath(name: string): string {
+  return path.join(PREVIEWS_DIR, path.basename(name));
+}
+
+/**
+ * Detect how to render a preview from mime type / file name
+ * Returns null for formats we can't render
+ */
+function detectPreviewKind(file: File): PreviewKind | null {
+  const mime = file.mimeType || '';
+  const ext = path.extname(file.fileName || '').slice(1).toLowerCase();
+
+  if (mime.startsWith('image/')) return 'image';
+  if (mime === 'application/pdf' || ext === 'pdf') return 'pdf';
+  if (mime.startsWith('video/') || file.mediaType === 'video' || file.mediaType === 'animation') return 'video';
+  if (OFFICE_EXTENSIONS.includes(ext)) return 'office';
+
+  return null;
+}
+
+function run(tool: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(tool, args, { timeout: THUMB_RENDER_TIMEOUT_MS }, (error, _stdout, stderr) => {
+      if (!error) {
+        resolve();
+      } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new MissingToolError(tool));
+      } else {
+        reject(new Error(`${tool} failed: ${stderr.trim() || error.message}`));
+      }
+    });
+  });
+}
+
+const VERSION_ARGS: Record<string, string[]> = {
+  pdftoppm: ['-v'],
+  ffmpeg: ['-version'],
+  soffice: ['--version'],
+};
+
+// pdftoppm/ffmpeg/soffice can be absent - check once before downloading anything
+const toolAvailability = new Map<string, Promise<boolean>>();
+function isToolAvailable(tool: string): Promise<boolean> {
+  let check = toolAvailability.get(tool);
+  if (!check) {
+    check = run(tool, VERSION_ARGS[tool] ?? ['--version']).then(
+      () => true,
+      (error) => !(error instanceof MissingToolError)
+    );
+    toolAvailability.set(tool, check);
+  }
+  return check;
+}
+
+const TOOLS: Record<PreviewKind, string[]> = {
+  image: [],
+  pdf: ['pdftoppm'],
+  video: ['ffmpeg'],
+  office: ['soffice', 'pdftoppm'],
+};
+
+/**
+ * Render first page / first frame to an image file
+ * Returns path of the rendered image inside workDir
+ */
+async function renderSource(kind: PreviewKind, inputPath: string, workDir: string): Promise<string> {
+  const maxWidth = String(THUMB_WIDTHS[THUMB_WIDTHS.length - 1]);
+
+  switch (kind) {
+    case 'image':
+      return inputPath;
+
+    case 'pdf': {
+      const outPrefix = path.join(workDir, 'page');
+      await run('pdftoppm', ['-png', '-f', '1', '-l', '1', '-singlefile', '-scale-to', maxWidth, inputPath, outPrefix]);
+      return `${outPrefix}.png`;
+    }
+
+    case 'video': {
+      const outPath = path.join(workDir, 'frame.png');
+      await run('ffmpeg', ['-y', '-loglevel', 'error', '-i', inputPath, '-frames:v', '1', outPath]);
+      return outPath;
+    }
+
+    case 'office': {
+      // LibreOffice -> PDF -> первая страница
+      await run('soffice', ['--headless', '--convert-to', 'pdf', '--outdir', workDir, inputPath]);
+      const pdfPath = path.join(workDir, `${path.parse(inputPath).name}.pdf`);
+      return renderSource('pdf', pdfPath, workDir);
+    }
+  }
+}
+
+/**
+ * Download a file once and store its preview in data/previews
+ */
+async function generateThumbnail(file: File, kind: PreviewKind): Promise<string> {
+  // file_unique_id из импорта каталога может содержать что угодно
+  const name = `${file.fileUniqueId.replace(/[^\w-]/g, '_')}.webp`;
+  const outputPath = getGeneratedThumbnailPath(name);
+
+  // Тот же файл у другого пользователя - превью уже есть
+  if (fs.existsSync(outputPath)) return name;
+
+  const content = await openFileContent({ fileId: file.fileId, fileUniqueId: file.fileUniqueId });
+  if (!content) {
+    throw new Error('File is unavailable');
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tcloud-thumb-'));
+  try {
+    const ext = path.extname(file.fileName || '').toLowerCase();
+    const inputPath = path.join(workDir, `source${ext}`);
+    // Потоком на диск - с локальным Bot API сервером файлы бывают гигабайтными
+    await pipeline(Readable.fromWeb(content.body as import('stream/web').ReadableStream<Uint8Array>), fs.createWriteStream(inputPath));
+
+    const imagePath = await renderSource(kind, inputPath, workDir);
+    const preview = await sharp(imagePath, { animated: false })
+      .rotate()
+      .resize({ width: THUMB_WIDTHS[THUMB_WIDTHS.length - 1], withoutEnlargement: true })
+      .webp({ quality: 85 })
+      .toBuffer();
+
+    await fs.promises.mkdir(PREVIEWS_DIR, { recursive: true });
+    await fs.promises.writeFile(`${outputPath}.tmp`, preview);
+    await fs.promises.rename(`${outputPath}.tmp`, outputPath);
+
+    return name;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function processFile(file: File): Promise<boolean> {
+  const kind = detectPreviewKind(file);
+  if (!kind) {
+    filesRepo.skipThumbnail(file.id, THUMB_WORKER_MAX_ATTEMPTS);
+    return false;
+  }
+
+  for (const tool of TOOLS[kind]) {
+    if (!(await isToolAvailable(tool))) {
+      filesRepo.postponeThumbnail(file.id, new Date(Date.now() + MISSING_TOOL_RETRY_MS), false);
+      return false;
+    }
+  }
+
+  try {
+    const name = await generateThumbnail(file, kind);
+    filesRepo.markThumbnailGenerated(file.id, name);
+    console.log(`[ThumbWorker] Generated preview for file ${file.id}`);
+  } catch (error: any) {
+    if (error instanceof MissingToolError) {
+      toolAvailability.delete(error.tool);
+      filesRepo.postponeThumbnail(file.id, new Date(Date.now() + MISSING_TOOL_RETRY_MS), false);
+    } else {
+      // 5 мин, 10 мин, 20 мин, ...
+      const delay = THUMB_WORKER_RETRY_BASE_MS * 2 ** file.thumbnailAttempts;
+      filesRepo.postponeThumbnail(file.id, new Date(Date.now() + delay), true);
+      console.error(`[ThumbWorker] Failed to generate preview for file ${file.id} (attempt ${file.thumbnailAttempts + 1}):`, error.message);
+    }
+  }
+
+  // Файл скачивался через Bot API
+  return true;
+}
+
+/**
+ * Process one batch of files; downloads are spaced out to stay within Bot API limits
+ */
+async function runBatch(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const batch = await filesRepo.findNeedingThumbnail({
+      mediaTypes: MEDIA_TYPES,
+      maxAttempts: THUMB_WORKER_MAX_ATTEMPTS,
+      maxFileSize: getDownloadLimit(),
+      limit: THUMB_WORKER_BATCH_SIZE,
+    });
+
+    for (const file of batch) {
+      const downloaded = await processFile(file);
+      if (downloaded) {
+        await new Promise(resolve => setTimeout(resolve, THUMB_WORKER_DOWNLOAD_DELAY_MS));
+      }
+    }
+  } catch (error) {
+    console.error('[ThumbWorker] Batch failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Run the worker now (e.g. a document without thumbnail was just saved)
+ */
+export function wakeThumbnailWorker(): void {
+  if (workerInterval) {
+    runBatch();
+  }
+}
+
+/**
+ * Start the preview generation worker
+ */
+export function startThumbnailWorker(): void {
+  runBatch();
+  workerInterval = setInterval(runBatch, THUMB_WORKER_INTERVAL_MS);
+
+  console.log('[ThumbWorker] Preview generation worker started');
+}
+
+/**
+ * Stop the preview generation worker
+ */
+export function stopThumbnailWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+    console.log('[ThumbWorker] Preview generation worker stopped');
+  }
+}
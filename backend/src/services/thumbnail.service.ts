@@ -1,5 +1,17 @@
+import crypto from 'crypto';
 import { Bot } from 'grammy';
 import { MediaType } from '../types/index.js';
+import { config } from '../config.js';
+
+const WEB_URL = process.env.WEB_URL || 'https://api.factchain-traker.online';
+
+/**
+ * Where to read a Telegram file from (filePath - path reported by getFile, for the extension):
+ * url - download from the Bot API server, localPath - file on disk (local Bot API server with --local)
+ */
+export type TelegramFileLocation =
+  | { url: string; filePath: string }
+  | { localPath: string; filePath: string };
 
 /**
  * Service for generating thumbnail URLs for Mini App
@@ -14,10 +26,10 @@ export class ThumbnailService {
   }
 
   /**
-   * Get download URL for a file via Telegram API
-   * URL is valid for at least 1 hour
+   * Get location of a file via Telegram API
+   * Download URL is valid for at least 1 hour; it contains the bot token - never send it to clients
    */
-  async getFileUrl(fileId: string): Promise<string | null> {
+  async getFileLocation(fileId: string): Promise<TelegramFileLocation | null> {
     try {
       const file = await this.bot.api.getFile(fileId);
 
@@ -25,44 +37,90 @@ export class ThumbnailService {
         return null;
       }
 
+      // Локальный сервер (--local) отдаёт абсолютный путь к файлу на диске
+      if (config.bot.apiLocal) {
+        return { localPath: file.file_path, filePath: file.file_path };
+      }
+
       // Build download URL
-      return `https://api.telegram.org/file/bot${this.botToken}/${file.file_path}`;
+      return {
+        url: `${config.bot.apiRoot}/file/bot${this.botToken}/${file.file_path}`,
+        filePath: file.file_path,
+      };
     } catch (error) {
-      console.error('[ThumbnailService] Failed to get file URL:', error);
+      console.error('[ThumbnailService] Failed to get file location:', error);
       return null;
     }
   }
 
   /**
-   * Get thumbnail URL for a file
+   * Pick Telegram file to build preview from
    * For photos: always use main file (better quality, Telegram compresses anyway)
    * For videos/docs: use thumbnail if available
+   * fileUniqueId is returned only for the main file - thumbnails are not mirrored
    */
-  async getThumbnailUrl(
-    thumbnailFileId: string | null | undefined,
-    mainFileId: string,
-    mediaType: MediaType
-  ): Promise<string | null> {
+  getPreviewSource(file: {
+    fileId: string;
+    fileUniqueId: string;
+    thumbnailFileId: string | null;
+    mediaType: string;
+  }): { fileId: string; fileUniqueId: string | null } | null {
     // No thumbnails needed for these types
-    if (['voice', 'sticker'].includes(mediaType)) {
+    if (file.mediaType === 'voice') {
       return null;
     }
 
-    // For photos: always use main file for better quality
     // Telegram's thumbnails are only ~90px which looks bad in grid
-    if (mediaType === 'photo') {
-      return this.getFileUrl(mainFileId);
+    if (file.mediaType === 'photo') {
+      return { fileId: file.fileId, fileUniqueId: file.fileUniqueId };
     }
 
-    // For other media: try thumbnail first
-    if (thumbnailFileId) {
-      const thumbUrl = await this.getFileUrl(thumbnailFileId);
-      if (thumbUrl) return thumbUrl;
+    if (file.thumbnailFileId) {
+      return { fileId: file.thumbnailFileId, fileUniqueId: null };
     }
 
     return null;
   }
 
+  /**
+   * Get thumbnail URL for a file - signed link to our /api/thumbs proxy
+   * Never exposes Telegram file URLs (they contain the bot token).
+   * The link is stable, so the browser can cache the image; width is set by the client (?w=)
+   */
+  getThumbnailUrl(file: {
+    id: number;
+    fileId: string;
+    fileUniqueId: string;
+    thumbnailFileId: string | null;
+    generatedThumbnail?: string | null;
+    mediaType: string;
+  }): string | null {
+    // generatedThumbnail - превью, отрендеренное нами (см. thumbnail-worker)
+    if (!file.generatedThumbnail && !this.getPreviewSource(file)) {
+      return null;
+    }
+
+    return `${WEB_URL}/api/thumbs/${file.id}?sig=${this.signThumbnail(file.id)}`;
+  }
+
+  /**
+   * Verify signature of a thumbnail proxy URL
+   */
+  verifyThumbnailSignature(fileId: number, sig: string): boolean {
+    if (!/^[0-9a-f]+$/.test(sig)) return false;
+    const expected = Buffer.from(this.signThumbnail(fileId), 'hex');
+    const actual = Buffer.from(sig, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  private signThumbnail(fileId: number): string {
+    return crypto
+      .createHmac('sha256', this.botToken)
+      .update(`thumb:${fileId}`)
+      .digest('hex')
+      .slice(0, 32);
+  }
+
   /**
    * Get placeholder icon URL for types without preview
    */
@@ -74,7 +132,14 @@ export class ThumbnailService {
       audio: '/icons/audio.svg',
       voice: '/icons/voice.svg',
       video_note: '/icons/video-note.svg',
+      animation: '/icons/animation.svg',
+      sticker: '/icons/sticker.svg',
       link: '/icons/link.svg',
+      note: '/icons/note.svg',
+      location: '/icons/location.svg',
+      venue: '/icons/location.svg',
+      contact: '/icons/contact.svg',
+      poll: '/icons/poll.svg',
     };
 
     return placeholders[mediaType] || '/icons/file.svg';
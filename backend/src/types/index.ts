@@ -15,7 +15,14 @@ export type MediaType =
   | 'audio'
   | 'voice'
   | 'video_note'
-  | 'link';
+  | 'animation'
+  | 'sticker'
+  | 'link'
+  | 'note'
+  | ItemKind;
+
+// Structured messages (items table): locations, venues, contacts, polls
+export type ItemKind = 'location' | 'venue' | 'contact' | 'poll';
 
 // Extracted media metadata from Telegram message
 export interface ExtractedMedia {
@@ -30,6 +37,72 @@ export interface ExtractedMedia {
   height?: number;
   thumbnailFileId?: string;
   caption?: string;
+  // Telegram caption_entities as JSON (bold, text links, spoilers, ...)
+  captionEntities?: string;
+  // Sticker emoji
+  emoji?: string;
+  forwardFromName?: string;
+  forwardFromChatTitle?: string;
+  // Album (Telegram media_group_id)
+  mediaGroupId?: string;
+  // Auto-tags from caption hashtags and forward source (normalized)
+  tags?: string[];
+}
+
+// Extracted plain text message (note)
+export interface ExtractedNote {
+  text: string;
+  // Telegram message entities as JSON (bold, code, text links, ...)
+  entities?: string;
+  forwardFromName?: string;
+  forwardFromChatTitle?: string;
+}
+
+// Item payloads (items.data JSON) - enough to re-send with the matching Bot API method
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  horizontalAccuracy?: number;
+}
+
+export interface VenueData extends LocationData {
+  title: string;
+  address: string;
+  foursquareId?: string;
+  foursquareType?: string;
+  googlePlaceId?: string;
+  googlePlaceType?: string;
+}
+
+export interface ContactData {
+  phoneNumber: string;
+  firstName: string;
+  lastName?: string;
+  userId?: number;
+  vcard?: string;
+}
+
+export interface PollData {
+  question: string;
+  options: string[];
+  type: 'regular' | 'quiz';
+  allowsMultipleAnswers: boolean;
+  isAnonymous: boolean;
+  // Known only if the user has answered the quiz (or created it)
+  correctOptionId?: number;
+  explanation?: string;
+}
+
+export type ItemData = LocationData | VenueData | ContactData | PollData;
+
+// Extracted structured message
+export interface ExtractedItem {
+  kind: ItemKind;
+  // Card text: title - name / question, description - address / phone / options, details - vCard
+  title: string;
+  description?: string;
+  details?: string;
+  data: ItemData;
   forwardFromName?: string;
   forwardFromChatTitle?: string;
 }
@@ -77,6 +150,20 @@ export interface LinkRecord {
   createdAt: Date;
 }
 
+// Folder record with item counts (for folder picker)
+export interface FolderRecord {
+  id: number;
+  userId: number;
+  parentId: number | null;
+  name: string;
+  fileCount: number;
+  linkCount: number;
+  noteCount: number;
+  itemCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // API response types
 export interface FileWithThumbnail extends FileRecord {
   thumbnailUrl?: string | null;
@@ -93,3 +180,47 @@ export interface CategoryStats {
   mediaType: MediaType;
   count: number;
 }
+
+// Languages of bot replies, Mini App and share pages
+export type Locale = 'ru' | 'en';
+
+// Per-user settings (/settings, GET/PATCH /api/settings)
+export interface UserSettings {
+  silentMode: boolean; // no reactions / confirmations on save
+  saveLinks: boolean; // URLs -> links with preview (off: messages with URLs are not saved)
+  saveStickers: boolean; // GIF & sticker library (/gifs)
+  notifyDuplicates: boolean; // 👀 on already saved content
+  trashRetentionDays: number;
+  defaultShareExpiryHours: number | null; // null - share links never expire
+  language: Locale | null; // null - from Telegram language_code
+}
+
+// Shared space - a group, supergroup or channel the bot was added to
+export type SpaceType = 'group' | 'supergroup' | 'channel';
+
+// admin - chat creator/administrators (can delete), member - view and send to own chat
+export type SpaceRole = 'admin' | 'member';
+
+// Where a caption change came from (caption_history.source)
+export type CaptionEditSource = 'telegram' | 'app' | 'revert';
+
+// Background jobs (jobs table) - payload of each job type
+export interface JobPayloads {
+  send_files: { chatId: number; fileIds: number[] };
+  parse_links: { linkIds: number[] };
+  cleanup: Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// Space as seen by a member (GET /api/spaces)
+export interface SpaceSummary {
+  id: number; // Telegram chat id (negative) - also the owner id of the space content
+  type: SpaceType;
+  title: string;
+  role: SpaceRole;
+  canDelete: boolean;
+  fileCount: number;
+  linkCount: number;
+}
@@ -1,48 +1,81 @@
 import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { useTelegram } from './hooks/useTelegram';
-import { useFiles } from './hooks/useFiles';
+import { useFiles, getItemKinds } from './hooks/useFiles';
+import { useFolders } from './hooks/useFolders';
+import { useSettings } from './hooks/useSettings';
 import { useSearchHistory } from './hooks/useSearchHistory';
 import { useAutocomplete } from './hooks/useAutocomplete';
+import { useSendJob } from './hooks/useSendJob';
 import { parseSearchInput, tagsToQueryParams, SearchTag } from './utils/searchTagParser';
-import { toggleInSet } from './shared/utils';
+import { toggleInSet, expandAlbumIds } from './shared/utils';
 import { formatFileSize } from './shared/formatters';
 import { COOLDOWN_MS } from './constants/config';
-import { apiClient, FileRecord, LinkRecord } from './api/client';
+import { useTranslation, setLocale, resolveLocale } from './i18n';
+import { apiClient, FileRecord, LinkRecord, NoteRecord, ItemRecord } from './api/client';
 import { CategoryChips } from './components/CategoryChips/CategoryChips';
 import { SearchBar } from './components/SearchBar/SearchBar';
 import { FileGrid } from './components/FileGrid/FileGrid';
 import { Timeline } from './components/Timeline/Timeline';
 import { LinkList } from './components/LinkCard/LinkCard';
+import { NoteList } from './components/NoteCard/NoteCard';
+import { ItemList } from './components/ItemCard/ItemCard';
 import { TrashView } from './components/TrashView/TrashView';
+import { SpaceView } from './components/SpaceView';
 import { FileViewer } from './components/FileViewer/FileViewer';
 import { FloatingVideoPlayer } from './components/FloatingVideoPlayer/FloatingVideoPlayer';
 import { StatsSheet } from './components/StatsSheet';
+import { SettingsSheet } from './components/SettingsSheet';
 import { CaptionSheet } from './components/CaptionSheet';
+import { FolderSheet } from './components/FolderSheet';
+import { NoteViewer } from './components/NoteViewer';
+import { ItemViewer } from './components/ItemViewer';
+import { SendProgress } from './components/SendProgress';
 import './styles/global.css';
 import styles from './App.module.css';
 
 function App() {
-  const { isReady, getInitData, hapticFeedback, mainButton } = useTelegram();
+  const { isReady, getInitData, hapticFeedback, mainButton, user } = useTelegram();
+  const { t } = useTranslation();
   const [isSending, setIsSending] = useState(false);
   const [apiReady, setApiReady] = useState(false);
   const {
     files,
     links,
+    notes,
+    items,
     stats,
+    folderCount,
     trashCount,
     sharedCount,
     linksCount,
+    notesCount,
+    itemCounts,
     favoritesCount,
+    spacesCount,
     isLoading,
     error,
     selectedType,
+    selectedFolderId,
     searchQuery,
     filterByType,
+    filterByFolder,
     search,
     clearSearch,
     refresh,
+    updateNote,
   } = useFiles(apiReady);
 
+  // Папки (коллекции)
+  const { folders, loadFolders, createFolder, renameFolder, deleteFolder } = useFolders(apiReady);
+
+  // Настройки пользователя (общие с /settings в боте)
+  const { settings, updateSettings } = useSettings(apiReady);
+
+  // Язык интерфейса: из настроек (общий с ботом), иначе язык Telegram
+  useEffect(() => {
+    setLocale(resolveLocale(user?.language_code, settings?.language));
+  }, [user?.language_code, settings?.language]);
+
   // История поиска
   const { history: searchHistory, addToHistory, removeFromHistory, clearHistory } = useSearchHistory();
 
@@ -65,8 +98,13 @@ function App() {
   const [sentFiles, setSentFiles] = useState<Record<number, number>>({});
   const [sendingFileId, setSendingFileId] = useState<number | null>(null); // Защита от двойного клика
   const [viewingFileIndex, setViewingFileIndex] = useState<number | null>(null); // Индекс файла для просмотра
+  const [viewingNote, setViewingNote] = useState<NoteRecord | null>(null); // Открытая заметка
+  const [viewingItem, setViewingItem] = useState<ItemRecord | null>(null); // Открытое место / контакт / опрос
   const [isStatsOpen, setIsStatsOpen] = useState(false); // Stats sheet открыт
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false); // Settings sheet открыт
   const [isCaptionSheetOpen, setIsCaptionSheetOpen] = useState(false); // Caption sheet открыт
+  const [folderSheetMode, setFolderSheetMode] = useState<'browse' | 'move' | null>(null); // Folder sheet открыт
+  const [movingEntry, setMovingEntry] = useState<{ kind: 'note' | 'item'; id: number } | null>(null); // Перемещаемая из viewer заметка / место
   const contentRef = useRef<HTMLElement>(null); // Ref для scroll контейнера (используется в Timeline для auto-scroll)
 
   // Floating video player state (fullscreen video outside FileViewer)
@@ -91,7 +129,7 @@ function App() {
   const hasPrev = viewingFileIndex !== null && viewingFileIndex > 0;
   const hasNext = viewingFileIndex !== null && viewingFileIndex < files.length - 1;
   const positionLabel = viewingFileIndex !== null && files.length > 1
-    ? `${viewingFileIndex + 1} из ${files.length}`
+    ? t('common.position', { current: viewingFileIndex + 1, total: files.length })
     : '';
 
   // Соседние файлы для carousel-анимации
@@ -206,6 +244,7 @@ function App() {
       sizeMax: params.sizeMax ? parseInt(params.sizeMax, 10) : undefined,
       from: params.from,
       chat: params.chat,
+      tags: params.tags,
     };
   }, []);
 
@@ -305,7 +344,7 @@ function App() {
     const newTag: SearchTag = {
       id: `tag-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
       type,
-      label: type === 'from' ? `От: ${value}` : `Из: ${value}`,
+      label: t(type === 'from' ? 'search.from' : 'search.chat', { value }),
       value,
       raw: `${type === 'from' ? 'от' : 'из'}:${value}`,
     };
@@ -363,7 +402,7 @@ function App() {
     // Скрываем кнопку если открыт CaptionSheet
     if (selectionType === 'files' && filesCount > 0 && !isCaptionSheetOpen) {
       mainButton.show(
-        `Отправить (${filesCount})`,
+        t('app.sendCount', { count: filesCount }),
         handleSendSelected
       );
     } else {
@@ -371,10 +410,39 @@ function App() {
     }
   }, [selectedFiles.size, selectionType, isCaptionSheetOpen]);
 
+  // Пакетная отправка идёт в фоне - файлы маркируются по мере отправки
+  const { job: sendJob, isActive: isSendJobActive, startSend } = useSendJob(apiReady, {
+    onSent: markAsSent,
+    onFinished: (job) => {
+      const errors = job.result?.errors ?? [];
+
+      // Проверяем на VOICE_MESSAGES_FORBIDDEN (кружки/голосовые)
+      if (errors.some(e => e.includes('VOICE_FORBIDDEN'))) {
+        alert(t('app.voicePrivacy'));
+      } else if (errors.length > 0) {
+        // Логируем другие ошибки
+        console.warn('[App] Some files failed to send:', errors);
+      }
+
+      if (job.status === 'done' && (job.result?.sent.length ?? 0) > 0) {
+        hapticFeedback.success();
+      } else {
+        // Ничего не отправилось - показываем ошибку
+        hapticFeedback.error();
+      }
+    },
+  });
+
   // Отправить выбранные файлы
   const handleSendSelected = useCallback(async () => {
     if (selectedFiles.size === 0 || isSending) return;
 
+    // Предыдущая пачка ещё отправляется
+    if (isSendJobActive) {
+      hapticFeedback.warning();
+      return;
+    }
+
     // Фильтруем файлы на cooldown
     const fileIds = Array.from(selectedFiles).filter(id => !isOnCooldown(id));
 
@@ -386,38 +454,18 @@ function App() {
     setIsSending(true);
 
     try {
-      const result = await apiClient.sendFiles(fileIds);
-
-      // Маркируем ТОЛЬКО успешно отправленные
-      if (result.sent && result.sent.length > 0) {
-        markAsSent(result.sent);
-        hapticFeedback.success();
-      }
-
-      // Проверяем на VOICE_MESSAGES_FORBIDDEN (кружки/голосовые)
-      if (result.errors?.some(e => e.includes('VOICE_FORBIDDEN'))) {
-        alert('Не удалось отправить кружок/голосовое.\n\nВключите в настройках Telegram:\nКонфиденциальность → Голосовые сообщения → Все');
-      } else if (result.errors && result.errors.length > 0) {
-        // Логируем другие ошибки
-        console.warn('[App] Some files failed to send:', result.errors);
-      }
-
-      // Выход из режима выбора если хоть что-то отправилось
-      if (result.sent && result.sent.length > 0) {
-        setIsSelectionMode(false);
-        setSelectedFiles(new Set());
-        mainButton.hide();
-      } else {
-        // Ничего не отправилось - показываем ошибку
-        hapticFeedback.error();
-      }
+      // Сервер принял задачу - выходим из режима выбора, прогресс показывает SendProgress
+      await startSend(fileIds);
+      setIsSelectionMode(false);
+      setSelectedFiles(new Set());
+      mainButton.hide();
     } catch (error) {
       console.error('Error sending files:', error);
       hapticFeedback.error();
     } finally {
       setIsSending(false);
     }
-  }, [selectedFiles, isSending, hapticFeedback, mainButton, isOnCooldown, markAsSent]);
+  }, [selectedFiles, isSending, isSendJobActive, hapticFeedback, mainButton, isOnCooldown, startSend]);
 
   // Удалить выбранные элементы
   const handleDeleteSelected = useCallback(async () => {
@@ -467,8 +515,14 @@ function App() {
     hapticFeedback.light();
 
     if (isSelectionMode && selectionType === 'files') {
-      // В режиме выбора - toggle выбор
-      setSelectedFiles(prev => toggleInSet(prev, file.id));
+      // В режиме выбора - toggle выбор (альбом выбирается целиком)
+      const albumIds = expandAlbumIds(files, [file.id]);
+      setSelectedFiles(prev => {
+        const next = new Set(prev);
+        const isSelected = prev.has(file.id);
+        albumIds.forEach(id => isSelected ? next.delete(id) : next.add(id));
+        return next;
+      });
     } else {
       // Обычный режим - открываем просмотр файла по индексу
       const index = files.findIndex(f => f.id === file.id);
@@ -509,8 +563,9 @@ function App() {
 
   const handleSourceClick = useCallback((source: string) => {
     setIsStatsOpen(false);
-    setSearchInput(`от:${source}`);
-    search(`от:${source}`);
+    const query = `${t('search.fromPrefix')}:${source}`;
+    setSearchInput(query);
+    search(query);
   }, [search]);
 
   // Обновить caption одного файла (из FileViewer)
@@ -524,6 +579,19 @@ function App() {
     }
   }, [refresh]);
 
+  // Вернуть подпись из истории правок
+  const handleCaptionRevert = useCallback(async (fileId: number, versionId: number) => {
+    try {
+      await apiClient.revertCaption(fileId, versionId);
+      hapticFeedback.success();
+      refresh();
+    } catch (error) {
+      console.error('Failed to revert caption:', error);
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [refresh, hapticFeedback]);
+
   // Сохранить caption для выбранных файлов (batch)
   const handleSaveBatchCaption = useCallback(async (caption: string | null) => {
     const fileIds = Array.from(selectedFiles);
@@ -559,6 +627,70 @@ function App() {
     }
   }, [selectedFiles, refresh, hapticFeedback, mainButton]);
 
+  // Переместить выбранные элементы в папку (null = убрать из папки)
+  const handleMoveSelected = useCallback(async (folderId: number | null) => {
+    const fileIds = Array.from(selectedFiles);
+    const linkIds = Array.from(selectedLinks);
+    if (fileIds.length === 0 && linkIds.length === 0) return;
+
+    try {
+      if (fileIds.length > 0) {
+        await apiClient.moveFilesToFolder(fileIds, folderId);
+      }
+      if (linkIds.length > 0) {
+        await apiClient.moveLinksToFolder(linkIds, folderId);
+      }
+      hapticFeedback.success();
+      refresh();
+      loadFolders(); // Обновляем счётчики папок
+      // Выход из selection mode после перемещения
+      setIsSelectionMode(false);
+      setSelectedFiles(new Set());
+      setSelectedLinks(new Set());
+      mainButton.hide();
+    } catch (error) {
+      console.error('Failed to move items to folder:', error);
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [selectedFiles, selectedLinks, refresh, loadFolders, hapticFeedback, mainButton]);
+
+  // Переместить заметку или место / контакт / опрос, открытые во viewer
+  const handleMoveEntry = useCallback(async (folderId: number | null) => {
+    if (!movingEntry) return;
+
+    try {
+      if (movingEntry.kind === 'note') {
+        await apiClient.moveNotesToFolder([movingEntry.id], folderId);
+      } else {
+        await apiClient.moveItemsToFolder([movingEntry.id], folderId);
+      }
+      hapticFeedback.success();
+      refresh();
+      loadFolders(); // Обновляем счётчики папок
+      setMovingEntry(null);
+    } catch (error) {
+      console.error('Failed to move to folder:', error);
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [movingEntry, refresh, loadFolders, hapticFeedback]);
+
+  // Удалить папку - если удалили текущую, возвращаемся ко всем файлам
+  const handleDeleteFolder = useCallback(async (id: number) => {
+    await deleteFolder(id);
+    if (selectedFolderId === id) {
+      filterByFolder(null);
+    } else {
+      refresh();
+    }
+  }, [deleteFolder, selectedFolderId, filterByFolder, refresh]);
+
+  const selectedFolderName = useMemo(() => {
+    if (selectedFolderId === null) return null;
+    return folders.find(f => f.id === selectedFolderId)?.name || null;
+  }, [folders, selectedFolderId]);
+
   // Отправить файл из FileViewer
   const handleSendFromViewer = useCallback(async (file: FileRecord) => {
     if (isOnCooldown(file.id)) {
@@ -585,11 +717,11 @@ function App() {
       const errMsg = (error as Error).message;
       let message: string;
       if (errMsg === 'FILE_UNAVAILABLE') {
-        message = 'Файл недоступен';
+        message = t('app.fileUnavailable');
       } else if (errMsg === 'VOICE_FORBIDDEN') {
-        message = 'Не удалось отправить кружок/голосовое.\n\nВключите в настройках Telegram:\nКонфиденциальность → Голосовые сообщения → Все';
+        message = t('app.voicePrivacy');
       } else {
-        message = 'Не удалось отправить файл';
+        message = t('app.sendFailed');
       }
       alert(message);
     } finally {
@@ -602,9 +734,9 @@ function App() {
     hapticFeedback.medium();
     setIsSelectionMode(true);
     setSelectionType('files');
-    setSelectedFiles(new Set([file.id]));
+    setSelectedFiles(new Set(expandAlbumIds(files, [file.id])));
     setSelectedLinks(new Set());
-  }, [hapticFeedback]);
+  }, [hapticFeedback, files]);
 
   // Handle link click
   const handleLinkClick = useCallback((link: LinkRecord) => {
@@ -619,6 +751,61 @@ function App() {
     }
   }, [hapticFeedback, isSelectionMode, selectionType]);
 
+  // Заметки: открыть / сохранить правку / отправить в чат / удалить
+  const handleNoteClick = useCallback((note: NoteRecord) => {
+    hapticFeedback.light();
+    setViewingNote(note);
+  }, [hapticFeedback]);
+
+  const handleNoteSave = useCallback(async (text: string) => {
+    if (!viewingNote) return;
+    const updated = await apiClient.updateNote(viewingNote.id, text);
+    updateNote(updated);
+    setViewingNote(updated);
+  }, [viewingNote, updateNote]);
+
+  const handleNoteSend = useCallback(async () => {
+    if (!viewingNote) return;
+    try {
+      await apiClient.sendNote(viewingNote.id);
+      hapticFeedback.success();
+    } catch (error) {
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [viewingNote, hapticFeedback]);
+
+  const handleNoteDelete = useCallback(async () => {
+    if (!viewingNote) return;
+    await apiClient.deleteNote(viewingNote.id);
+    hapticFeedback.success();
+    refresh();
+  }, [viewingNote, hapticFeedback, refresh]);
+
+  // Места, контакты, опросы: открыть / отправить в чат / удалить
+  const handleItemClick = useCallback((item: ItemRecord) => {
+    hapticFeedback.light();
+    setViewingItem(item);
+  }, [hapticFeedback]);
+
+  const handleItemSend = useCallback(async () => {
+    if (!viewingItem) return;
+    try {
+      await apiClient.sendItem(viewingItem.id);
+      hapticFeedback.success();
+    } catch (error) {
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [viewingItem, hapticFeedback]);
+
+  const handleItemDelete = useCallback(async () => {
+    if (!viewingItem) return;
+    await apiClient.deleteItem(viewingItem.id);
+    hapticFeedback.success();
+    refresh();
+  }, [viewingItem, hapticFeedback, refresh]);
+
   // Handle long press on link - включает режим выбора ссылок
   const handleLinkLongPress = useCallback((link: LinkRecord) => {
     hapticFeedback.medium();
@@ -656,12 +843,12 @@ function App() {
   const handleSelectRange = useCallback((fileIds: number[]) => {
     setSelectedFiles(prev => {
       const next = new Set(prev);
-      for (const id of fileIds) {
+      for (const id of expandAlbumIds(files, fileIds)) {
         next.add(id);
       }
       return next;
     });
-  }, []);
+  }, [files]);
 
   // Loading state
   if (!isReady) {
@@ -691,7 +878,7 @@ function App() {
           onChange={handleSearchChange}
           onClear={handleClearSearch}
           onSearch={addToHistory}
-          placeholder="Имя, подпись, сегодня, .pdf..."
+          placeholder={t('search.appPlaceholder')}
           history={searchHistory}
           onHistorySelect={addToHistory}
           onHistoryRemove={removeFromHistory}
@@ -716,8 +903,16 @@ function App() {
         trashCount={trashCount}
         sharedCount={sharedCount}
         linksCount={linksCount}
+        notesCount={notesCount}
+        itemCounts={itemCounts}
         favoritesCount={favoritesCount}
+        spacesCount={spacesCount}
         disabledTypes={isSelectionMode ? (selectedType === 'trash' ? 'not-trash' : 'trash') : undefined}
+        folderName={selectedFolderName}
+        onFolderClick={isSelectionMode ? undefined : () => {
+          hapticFeedback.selection();
+          setFolderSheetMode('browse');
+        }}
       />
 
       {/* Selection header - только для НЕ-trash секций */}
@@ -729,7 +924,7 @@ function App() {
               <path d="m6 6 12 12" />
             </svg>
           </button>
-          <span className={styles.selectionCount}>Выбрано: {selectionType === 'files' ? selectedFiles.size : selectedLinks.size}</span>
+          <span className={styles.selectionCount}>{t('common.selected', { count: selectionType === 'files' ? selectedFiles.size : selectedLinks.size })}</span>
           <div className={styles.selectionActions}>
             {/* Кнопка редактирования caption - только для файлов */}
             {selectionType === 'files' && selectedFiles.size > 0 && (
@@ -740,6 +935,17 @@ function App() {
                 </svg>
               </button>
             )}
+            {/* Кнопка перемещения в папку */}
+            {((selectionType === 'files' && selectedFiles.size > 0) ||
+              (selectionType === 'links' && selectedLinks.size > 0)) && (
+              <button onClick={() => setFolderSheetMode('move')} className={styles.editBtn}>
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z" />
+                  <path d="m12 10 3 3-3 3" />
+                  <path d="M9 13h6" />
+                </svg>
+              </button>
+            )}
             {/* Кнопка добавления в избранное - только для файлов */}
             {selectionType === 'files' && selectedFiles.size > 0 && (
               <button onClick={handleBatchFavorite} className={styles.favoriteBtn}>
@@ -767,12 +973,12 @@ function App() {
         {error && (
           <div className={styles.error}>
             <span>❌ {error}</span>
-            <button onClick={refresh}>Повторить</button>
+            <button onClick={refresh}>{t('common.retry')}</button>
           </div>
         )}
 
         {/* Показываем спиннер при загрузке если нет файлов */}
-        {isLoading && files.length === 0 && links.length === 0 && selectedType !== 'trash' ? (
+        {isLoading && files.length === 0 && links.length === 0 && notes.length === 0 && items.length === 0 && selectedType !== 'trash' && selectedType !== 'spaces' ? (
           <div className={styles.loadingMore}>
             <div className="spinner" />
           </div>
@@ -781,6 +987,14 @@ function App() {
             searchQuery={searchQuery}
             onRestore={refresh}
             hapticFeedback={hapticFeedback}
+            retentionDays={settings?.trashRetentionDays}
+          />
+        ) : selectedType === 'spaces' ? (
+          <SpaceView
+            hapticFeedback={hapticFeedback}
+            isOnCooldown={isOnCooldown}
+            onFileSent={markAsSent}
+            onChange={refresh}
           />
         ) : selectedType === 'link' ? (
           <LinkList
@@ -790,6 +1004,10 @@ function App() {
             selectedLinks={selectedLinks}
             isSelectionMode={isSelectionMode && selectionType === 'links'}
           />
+        ) : selectedType === 'note' ? (
+          <NoteList notes={notes} onNoteClick={handleNoteClick} />
+        ) : getItemKinds(selectedType) ? (
+          <ItemList items={items} kind={getItemKinds(selectedType)![0]} onItemClick={handleItemClick} />
         ) : selectedType === 'shared' ? (
           files.length > 0 ? (
             <FileGrid
@@ -816,10 +1034,24 @@ function App() {
                   <line x1="15.41" y1="6.51" x2="8.59" y2="10.49" />
                 </svg>
               </div>
-              <h3 className={styles.emptyTitle}>Нет общих файлов</h3>
-              <p className={styles.emptyHint}>Здесь будут файлы, которыми вы поделились</p>
+              <h3 className={styles.emptyTitle}>{t('app.noShared')}</h3>
+              <p className={styles.emptyHint}>{t('app.noSharedHint')}</p>
             </div>
           )
+        ) : selectedType === 'animation' && files.length === 0 && !searchQuery ? (
+          /* Библиотека GIF пуста - подсказка, как её включить */
+          <div className={styles.empty}>
+            <div className={styles.emptyIconWrapper}>
+              <svg className={styles.emptySearchIcon} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                <rect x="2" y="4" width="20" height="16" rx="2" />
+                <path d="M10 9H8a1 1 0 0 0-1 1v4a1 1 0 0 0 1 1h2v-2.5H9" />
+                <path d="M13 9v6" />
+                <path d="M16 15V9h2.5" />
+              </svg>
+            </div>
+            <h3 className={styles.emptyTitle}>{t('app.noGifs')}</h3>
+            <p className={styles.emptyHint}>{t('app.noGifsHint')}</p>
+          </div>
         ) : searchQuery ? (
           /* При поиске показываем файлы и ссылки */
           <>
@@ -857,7 +1089,7 @@ function App() {
                     <path d="m21 21-4.35-4.35" />
                   </svg>
                 </div>
-                <h3 className={styles.emptyTitle}>Ничего не найдено</h3>
+                <h3 className={styles.emptyTitle}>{t('common.nothingFound')}</h3>
                 <p className={styles.emptyQuery}>«{searchQuery}»</p>
               </div>
             )}
@@ -886,9 +1118,9 @@ function App() {
         )}
 
         {/* End of list */}
-        {!isLoading && selectedType !== 'trash' && (files.length > 0 || links.length > 0) && (
+        {!isLoading && selectedType !== 'trash' && selectedType !== 'spaces' && (files.length > 0 || links.length > 0 || notes.length > 0 || items.length > 0) && (
           <div className={styles.endOfList}>
-            Это все файлы
+            {t('app.allLoaded')}
           </div>
         )}
       </main>
@@ -906,22 +1138,70 @@ function App() {
           onClose={() => setViewingFileIndex(null)}
           onSend={handleSendFromViewer}
           onCaptionUpdate={handleCaptionUpdate}
+          onCaptionRevert={handleCaptionRevert}
           isOnCooldown={isOnCooldown(viewingFile.id)}
           isSending={sendingFileId === viewingFile.id}
           searchQuery={searchQuery}
           onEnterVideoFullscreen={handleEnterVideoFullscreen}
+          defaultShareExpiry={settings?.defaultShareExpiryHours}
+        />
+      )}
+
+      {/* NoteViewer modal */}
+      {viewingNote && (
+        <NoteViewer
+          key={viewingNote.id}
+          note={viewingNote}
+          onClose={() => setViewingNote(null)}
+          onSave={handleNoteSave}
+          onSend={handleNoteSend}
+          onDelete={handleNoteDelete}
+          onMove={() => {
+            setMovingEntry({ kind: 'note', id: viewingNote.id });
+            setViewingNote(null);
+            setFolderSheetMode('move');
+          }}
         />
       )}
 
+      {/* ItemViewer modal */}
+      {viewingItem && (
+        <ItemViewer
+          key={viewingItem.id}
+          item={viewingItem}
+          onClose={() => setViewingItem(null)}
+          onSend={handleItemSend}
+          onDelete={handleItemDelete}
+          onMove={() => {
+            setMovingEntry({ kind: 'item', id: viewingItem.id });
+            setViewingItem(null);
+            setFolderSheetMode('move');
+          }}
+        />
+      )}
+
+      {/* Прогресс пакетной отправки */}
+      {sendJob && isSendJobActive && <SendProgress job={sendJob} />}
+
       {/* StatsSheet modal */}
       <StatsSheet
         isOpen={isStatsOpen}
         onClose={() => setIsStatsOpen(false)}
         files={files}
         stats={stats}
+        folderCount={folderCount}
         trashCount={trashCount}
         onCategoryClick={handleCategoryClick}
         onSourceClick={handleSourceClick}
+        onSettingsClick={() => setIsSettingsOpen(true)}
+      />
+
+      {/* SettingsSheet modal - открывается из StatsSheet */}
+      <SettingsSheet
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={settings}
+        onChange={updateSettings}
       />
 
       {/* CaptionSheet modal for batch caption editing */}
@@ -933,6 +1213,23 @@ function App() {
         onSave={handleSaveBatchCaption}
       />
 
+      {/* FolderSheet modal - выбор папки / перемещение выделенных */}
+      <FolderSheet
+        isOpen={folderSheetMode !== null}
+        onClose={() => {
+          setFolderSheetMode(null);
+          setMovingEntry(null);
+        }}
+        mode={folderSheetMode || 'browse'}
+        folders={folders}
+        selectedFolderId={selectedFolderId}
+        itemCount={movingEntry ? 1 : selectionType === 'files' ? selectedFiles.size : selectedLinks.size}
+        onSelect={folderSheetMode !== 'move' ? filterByFolder : movingEntry ? handleMoveEntry : handleMoveSelected}
+        onCreate={createFolder}
+        onRename={renameFolder}
+        onDelete={handleDeleteFolder}
+      />
+
       {/* Floating video player - renders on top of EVERYTHING */}
       {floatingVideo && (
         <FloatingVideoPlayer
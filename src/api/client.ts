@@ -1,10 +1,15 @@
+import type { Locale } from '../i18n';
+
 // Using HTTPS API with Let's Encrypt certificate
 const API_URL = import.meta.env.VITE_API_URL || 'https://api.factchain-traker.online';
 
 console.log('[ApiClient] API_URL:', API_URL);
 
 // Types
-export type MediaType = 'photo' | 'video' | 'document' | 'audio' | 'voice' | 'video_note' | 'link';
+export type MediaType = 'photo' | 'video' | 'document' | 'audio' | 'voice' | 'video_note' | 'animation' | 'sticker' | 'link' | 'note' | ItemKind;
+
+// Structured messages without a file (geo, contacts, polls)
+export type ItemKind = 'location' | 'venue' | 'contact' | 'poll';
 
 export interface FileRecord {
   id: number;
@@ -21,6 +26,10 @@ export interface FileRecord {
   width?: number | null;
   height?: number | null;
   caption?: string | null;
+  // JSON array of MessageEntityRecord (caption formatting)
+  captionEntities?: string | null;
+  // Sticker emoji
+  emoji?: string | null;
   thumbnailFileId?: string | null;
   thumbnailUrl?: string | null;
   forwardFromName?: string | null;
@@ -31,6 +40,10 @@ export interface FileRecord {
   hasShare?: boolean;
   // Favorite status
   isFavorite?: boolean;
+  // Folder (null = root)
+  folderId?: number | null;
+  // Album (Telegram media_group_id) - files of one album share it
+  mediaGroupId?: string | null;
   // Search result fields (only present in search results)
   matchedField?: 'file_name' | 'caption' | 'forward_from_name' | 'forward_from_chat_title';
   matchedSnippet?: string;
@@ -44,6 +57,7 @@ export interface LinkRecord {
   description?: string | null;
   imageUrl?: string | null;
   siteName?: string | null;
+  folderId?: number | null;
   createdAt: string;
   deletedAt?: string | null;
   // Search result fields (only present in search results)
@@ -51,6 +65,84 @@ export interface LinkRecord {
   matchedSnippet?: string;
 }
 
+// Telegram message entity (formatting of a note), offsets in UTF-16 code units
+export interface MessageEntityRecord {
+  type: string;
+  offset: number;
+  length: number;
+  url?: string;
+  language?: string;
+}
+
+export interface NoteRecord {
+  id: number;
+  userId: number;
+  text: string;
+  // JSON array of MessageEntityRecord (null after editing in Mini App)
+  entities?: string | null;
+  forwardFromName?: string | null;
+  forwardFromChatTitle?: string | null;
+  folderId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+  // Search result fields (only present in search results)
+  matchedField?: 'text' | 'forward_from_name' | 'forward_from_chat_title';
+  matchedSnippet?: string;
+}
+
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  horizontalAccuracy?: number;
+}
+
+export interface VenueData extends LocationData {
+  title: string;
+  address: string;
+  foursquareId?: string;
+  foursquareType?: string;
+  googlePlaceId?: string;
+  googlePlaceType?: string;
+}
+
+export interface ContactData {
+  phoneNumber: string;
+  firstName: string;
+  lastName?: string;
+  userId?: number;
+  vcard?: string;
+}
+
+export interface PollData {
+  question: string;
+  options: string[];
+  type: 'regular' | 'quiz';
+  allowsMultipleAnswers: boolean;
+  isAnonymous: boolean;
+  correctOptionId?: number;
+  explanation?: string;
+}
+
+export interface ItemRecord {
+  id: number;
+  userId: number;
+  kind: ItemKind;
+  title: string;
+  description?: string | null;
+  details?: string | null;
+  // JSON of LocationData | VenueData | ContactData | PollData (depends on kind)
+  data: string;
+  forwardFromName?: string | null;
+  forwardFromChatTitle?: string | null;
+  folderId?: number | null;
+  createdAt: string;
+  deletedAt?: string | null;
+  // Search result fields (only present in search results)
+  matchedField?: 'title' | 'description' | 'details' | 'forward_from_name' | 'forward_from_chat_title';
+  matchedSnippet?: string;
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
@@ -58,11 +150,30 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+export interface FolderRecord {
+  id: number;
+  userId: number;
+  parentId: number | null;
+  name: string;
+  fileCount: number;
+  linkCount: number;
+  noteCount: number;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface CategoryStats {
   mediaType: MediaType;
   count: number;
 }
 
+// GET /api/files/stats
+export interface FileStats {
+  categories: CategoryStats[];
+  folderCount: number;
+}
+
 export interface ShareInfo {
   id: number;
   fileId: number;
@@ -82,6 +193,78 @@ export interface ShareResponse {
   recipients?: number;
 }
 
+export type ExportStatus = 'pending' | 'running' | 'done' | 'failed' | 'expired';
+
+export interface ExportJobRecord {
+  id: number;
+  status: ExportStatus;
+  totalFiles: number;
+  processedFiles: number;
+  skippedFiles: number;
+  archiveSize: number | null;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+  downloadUrl: string | null;
+  expiresAt: string | null;
+}
+
+// Фоновые задачи (пакетная отправка и т.п.) - GET /api/jobs/:id
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface JobRecord<R = unknown> {
+  id: number;
+  type: string;
+  status: JobStatus;
+  progress: { done: number; total: number };
+  result: R | null;
+  error: string | null;
+  attempts: number;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+// Результат задачи send_files (обновляется по мере отправки)
+export interface SendFilesResult {
+  sent: number[];
+  errors: string[];
+}
+
+export type SendFilesJob = JobRecord<SendFilesResult>;
+
+// Настройки пользователя (те же, что /settings в боте)
+export interface UserSettings {
+  silentMode: boolean;
+  saveLinks: boolean;
+  saveStickers: boolean;
+  notifyDuplicates: boolean;
+  trashRetentionDays: number;
+  defaultShareExpiryHours: number | null;
+  language: Locale | null; // null - язык Telegram
+}
+
+// Предыдущая версия подписи файла (история правок)
+export interface CaptionVersion {
+  id: number;
+  fileId: number;
+  caption: string | null;
+  captionEntities: string | null;
+  // Откуда пришла правка, заменившая эту версию
+  source: 'telegram' | 'app' | 'revert';
+  createdAt: string;
+}
+
+// Общее пространство - группа или канал, куда добавлен бот
+export interface SpaceRecord {
+  id: number; // id чата Telegram
+  type: 'group' | 'supergroup' | 'channel';
+  title: string;
+  role: 'admin' | 'member';
+  canDelete: boolean; // удалять могут только администраторы чата
+  fileCount: number;
+  linkCount: number;
+}
+
 class ApiClient {
   private initData: string = '';
 
@@ -108,11 +291,13 @@ class ApiClient {
 
   async getFiles(options: {
     type?: MediaType;
+    folderId?: number;
     page?: number;
     limit?: number;
   } = {}): Promise<PaginatedResponse<FileRecord>> {
     const params = new URLSearchParams();
     if (options.type) params.set('type', options.type);
+    if (options.folderId !== undefined) params.set('folderId', String(options.folderId));
     if (options.page) params.set('page', String(options.page));
     if (options.limit) params.set('limit', String(options.limit));
 
@@ -153,6 +338,8 @@ class ApiClient {
       from?: string;
       chat?: string;
       mimeType?: string; // File extension filter (e.g., "image/jpeg" for .jpg)
+      folderId?: number;
+      tags?: string; // Comma-separated tags (without #)
     }
   ): Promise<{ items: FileRecord[]; total: number }> {
     const params = new URLSearchParams();
@@ -198,6 +385,12 @@ class ApiClient {
     if (options?.mimeType) {
       params.set('mimeType', options.mimeType);
     }
+    if (options?.folderId !== undefined) {
+      params.set('folderId', String(options.folderId));
+    }
+    if (options?.tags) {
+      params.set('tags', options.tags);
+    }
 
     const response = await fetch(`${API_URL}/api/files/search?${params}`, {
       headers: this.getHeaders(),
@@ -226,8 +419,9 @@ class ApiClient {
     return response.json();
   }
 
-  async getFileStats(): Promise<CategoryStats[]> {
-    const response = await fetch(`${API_URL}/api/files/stats`, {
+  async getFileStats(folderId?: number): Promise<FileStats> {
+    const params = folderId !== undefined ? `?folderId=${folderId}` : '';
+    const response = await fetch(`${API_URL}/api/files/stats${params}`, {
       headers: this.getHeaders(),
     });
 
@@ -238,7 +432,8 @@ class ApiClient {
     return response.json();
   }
 
-  async sendFiles(fileIds: number[]): Promise<{ success: boolean; sent: number[]; errors?: string[] }> {
+  // Отправка идёт в фоне - возвращается задача, прогресс через getJob
+  async sendFiles(fileIds: number[]): Promise<SendFilesJob> {
     const response = await fetch(`${API_URL}/api/files/send`, {
       method: 'POST',
       headers: this.getHeaders(),
@@ -249,7 +444,8 @@ class ApiClient {
       throw new Error('Failed to send files');
     }
 
-    return response.json();
+    const data = await response.json();
+    return data.job;
   }
 
   async sendFile(id: number): Promise<{ success: boolean }> {
@@ -309,6 +505,12 @@ class ApiClient {
     };
   }
 
+  // GIFs and stickers: direct stream URL for <video>/<img> (animated previews)
+  // initData goes in query since media tags can't set headers
+  getAnimationUrl(fileId: number): string {
+    return `${API_URL}/api/files/${fileId}/video-stream?initData=${encodeURIComponent(this.initData)}`;
+  }
+
   // Audio streaming API
 
   async getAudioUrl(fileId: number): Promise<{
@@ -368,10 +570,12 @@ class ApiClient {
   // Links API
 
   async getLinks(options: {
+    folderId?: number;
     page?: number;
     limit?: number;
   } = {}): Promise<PaginatedResponse<LinkRecord>> {
     const params = new URLSearchParams();
+    if (options.folderId !== undefined) params.set('folderId', String(options.folderId));
     if (options.page) params.set('page', String(options.page));
     if (options.limit) params.set('limit', String(options.limit));
 
@@ -549,6 +753,37 @@ class ApiClient {
     return response.json();
   }
 
+  /**
+   * Previous captions of a file, newest first
+   */
+  async getCaptionHistory(fileId: number): Promise<{ items: CaptionVersion[] }> {
+    const response = await fetch(`${API_URL}/api/files/${fileId}/captions`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch caption history');
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Restore a previous caption (the current one goes to history)
+   */
+  async revertCaption(fileId: number, versionId: number): Promise<{ caption: string | null; captionEntities: string | null }> {
+    const response = await fetch(`${API_URL}/api/files/${fileId}/captions/${versionId}/revert`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to revert caption');
+    }
+
+    return response.json();
+  }
+
   async restoreFile(id: number): Promise<void> {
     const response = await fetch(`${API_URL}/api/files/${id}/restore`, {
       method: 'POST',
@@ -645,11 +880,453 @@ class ApiClient {
     }
   }
 
+  // Notes API
+
+  async getNotes(options: {
+    folderId?: number;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<PaginatedResponse<NoteRecord>> {
+    const params = new URLSearchParams();
+    if (options.folderId !== undefined) params.set('folderId', String(options.folderId));
+    if (options.page) params.set('page', String(options.page));
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const response = await fetch(`${API_URL}/api/notes?${params}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch notes');
+    }
+
+    return response.json();
+  }
+
+  async searchNotes(query: string, limit = 50): Promise<{ items: NoteRecord[]; total: number }> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+
+    const response = await fetch(`${API_URL}/api/notes/search?${params}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to search notes');
+    }
+
+    return response.json();
+  }
+
+  async updateNote(id: number, text: string): Promise<NoteRecord> {
+    const response = await fetch(`${API_URL}/api/notes/${id}`, {
+      method: 'PATCH',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ text }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update note');
+    }
+
+    return response.json();
+  }
+
+  async sendNote(id: number): Promise<{ success: boolean }> {
+    const response = await fetch(`${API_URL}/api/notes/${id}/send`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to send note');
+    }
+
+    return response.json();
+  }
+
+  async deleteNote(id: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/notes/${id}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete note');
+    }
+  }
+
+  async getNotesCount(): Promise<{ count: number }> {
+    const response = await fetch(`${API_URL}/api/notes/count`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch notes count');
+    }
+
+    return response.json();
+  }
+
+  // Trash API - Notes
+
+  async getTrashNotes(): Promise<{ items: NoteRecord[]; total: number }> {
+    const response = await fetch(`${API_URL}/api/notes/trash`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch trash notes');
+    }
+
+    return response.json();
+  }
+
+  async getTrashNotesCount(): Promise<{ count: number }> {
+    const response = await fetch(`${API_URL}/api/notes/trash/count`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch trash notes count');
+    }
+
+    return response.json();
+  }
+
+  async restoreNote(id: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/notes/${id}/restore`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to restore note');
+    }
+  }
+
+  async permanentDeleteNote(id: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/notes/${id}/permanent`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to permanently delete note');
+    }
+  }
+
+  // Items API (locations, venues, contacts, polls)
+
+  async getItems(options: {
+    kinds?: ItemKind[];
+    folderId?: number;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<PaginatedResponse<ItemRecord>> {
+    const params = new URLSearchParams();
+    if (options.kinds?.length) params.set('kind', options.kinds.join(','));
+    if (options.folderId !== undefined) params.set('folderId', String(options.folderId));
+    if (options.page) params.set('page', String(options.page));
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const response = await fetch(`${API_URL}/api/items?${params}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch items');
+    }
+
+    return response.json();
+  }
+
+  async searchItems(query: string, kinds?: ItemKind[], limit = 50): Promise<{ items: ItemRecord[]; total: number }> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    if (kinds?.length) params.set('kind', kinds.join(','));
+
+    const response = await fetch(`${API_URL}/api/items/search?${params}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to search items');
+    }
+
+    return response.json();
+  }
+
+  async sendItem(id: number): Promise<{ success: boolean }> {
+    const response = await fetch(`${API_URL}/api/items/${id}/send`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to send item');
+    }
+
+    return response.json();
+  }
+
+  async deleteItem(id: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/items/${id}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete item');
+    }
+  }
+
+  async getItemsCount(): Promise<{ count: number; byKind: Record<ItemKind, number> }> {
+    const response = await fetch(`${API_URL}/api/items/count`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch items count');
+    }
+
+    return response.json();
+  }
+
+  // Trash API - Items
+
+  async getTrashItems(): Promise<{ items: ItemRecord[]; total: number }> {
+    const response = await fetch(`${API_URL}/api/items/trash`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch trash items');
+    }
+
+    return response.json();
+  }
+
+  async getTrashItemsCount(): Promise<{ count: number }> {
+    const response = await fetch(`${API_URL}/api/items/trash/count`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch trash items count');
+    }
+
+    return response.json();
+  }
+
+  async restoreItem(id: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/items/${id}/restore`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to restore item');
+    }
+  }
+
+  async permanentDeleteItem(id: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/items/${id}/permanent`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to permanently delete item');
+    }
+  }
+
+  // Folders API
+
+  async getFolders(): Promise<{ items: FolderRecord[]; total: number }> {
+    const response = await fetch(`${API_URL}/api/folders`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch folders');
+    }
+
+    return response.json();
+  }
+
+  async createFolder(name: string, parentId: number | null = null): Promise<FolderRecord> {
+    const response = await fetch(`${API_URL}/api/folders`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ name, parentId }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to create folder');
+    }
+
+    return response.json();
+  }
+
+  async updateFolder(
+    id: number,
+    updates: { name?: string; parentId?: number | null }
+  ): Promise<FolderRecord> {
+    const response = await fetch(`${API_URL}/api/folders/${id}`, {
+      method: 'PATCH',
+      headers: this.getHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update folder');
+    }
+
+    return response.json();
+  }
+
+  async deleteFolder(id: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/folders/${id}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete folder');
+    }
+  }
+
+  async moveFilesToFolder(fileIds: number[], folderId: number | null): Promise<{ success: boolean; moved: number }> {
+    const response = await fetch(`${API_URL}/api/files/move-many`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ fileIds, folderId }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to move files');
+    }
+
+    return response.json();
+  }
+
+  async moveLinksToFolder(linkIds: number[], folderId: number | null): Promise<{ success: boolean; moved: number }> {
+    const response = await fetch(`${API_URL}/api/links/move-many`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ linkIds, folderId }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to move links');
+    }
+
+    return response.json();
+  }
+
+  async moveNotesToFolder(noteIds: number[], folderId: number | null): Promise<{ success: boolean; moved: number }> {
+    const response = await fetch(`${API_URL}/api/notes/move-many`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ noteIds, folderId }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to move notes');
+    }
+
+    return response.json();
+  }
+
+  async moveItemsToFolder(itemIds: number[], folderId: number | null): Promise<{ success: boolean; moved: number }> {
+    const response = await fetch(`${API_URL}/api/items/move-many`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ itemIds, folderId }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to move items');
+    }
+
+    return response.json();
+  }
+
+  // Export API
+
+  async startExport(): Promise<ExportJobRecord> {
+    const response = await fetch(`${API_URL}/api/exports`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    // 409 - экспорт уже идёт, возвращаем текущую задачу
+    if (!response.ok && response.status !== 409) {
+      throw new Error('Failed to start export');
+    }
+
+    const data = await response.json();
+    return data.job;
+  }
+
+  async getLatestExport(): Promise<ExportJobRecord | null> {
+    const response = await fetch(`${API_URL}/api/exports/latest`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch export');
+    }
+
+    const data = await response.json();
+    return data.job;
+  }
+
+  async getExport(id: number): Promise<ExportJobRecord> {
+    const response = await fetch(`${API_URL}/api/exports/${id}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch export');
+    }
+
+    const data = await response.json();
+    return data.job;
+  }
+
+  // Jobs API
+
+  async getJob<R = unknown>(id: number): Promise<JobRecord<R>> {
+    const response = await fetch(`${API_URL}/api/jobs/${id}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch job');
+    }
+
+    const data = await response.json();
+    return data.job;
+  }
+
+  async getActiveJobs(): Promise<JobRecord[]> {
+    const response = await fetch(`${API_URL}/api/jobs`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch jobs');
+    }
+
+    const data = await response.json();
+    return data.items;
+  }
+
   // Share API
 
   async createShareLink(fileId: number, options?: {
     maxRecipients?: number;
-    expiresIn?: number; // hours
+    expiresIn?: number | null; // hours, null - бессрочно, не передан - срок из настроек
   }): Promise<ShareResponse> {
     const response = await fetch(`${API_URL}/api/files/${fileId}/share`, {
       method: 'POST',
@@ -690,6 +1367,144 @@ class ApiClient {
       throw new Error('Failed to delete share link');
     }
   }
+
+  // Settings API
+
+  async getSettings(): Promise<UserSettings> {
+    const response = await fetch(`${API_URL}/api/settings`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch settings');
+    }
+
+    return response.json();
+  }
+
+  async updateSettings(changes: Partial<UserSettings>): Promise<UserSettings> {
+    const response = await fetch(`${API_URL}/api/settings`, {
+      method: 'PATCH',
+      headers: this.getHeaders(),
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update settings');
+    }
+
+    return response.json();
+  }
+
+  // Spaces API (groups and channels)
+
+  async getSpaces(): Promise<{ items: SpaceRecord[] }> {
+    const response = await fetch(`${API_URL}/api/spaces`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch spaces');
+    }
+
+    return response.json();
+  }
+
+  async getSpaceFiles(spaceId: number, options: {
+    type?: MediaType;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<PaginatedResponse<FileRecord>> {
+    const params = new URLSearchParams();
+    if (options.type) params.set('type', options.type);
+    if (options.page) params.set('page', String(options.page));
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const response = await fetch(`${API_URL}/api/spaces/${spaceId}/files?${params}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch space files');
+    }
+
+    return response.json();
+  }
+
+  async getSpaceLinks(spaceId: number, options: {
+    page?: number;
+    limit?: number;
+  } = {}): Promise<PaginatedResponse<LinkRecord>> {
+    const params = new URLSearchParams();
+    if (options.page) params.set('page', String(options.page));
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const response = await fetch(`${API_URL}/api/spaces/${spaceId}/links?${params}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch space links');
+    }
+
+    return response.json();
+  }
+
+  async deleteSpaceFile(spaceId: number, fileId: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/spaces/${spaceId}/files/${fileId}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete space file');
+    }
+  }
+
+  async deleteSpaceLink(spaceId: number, linkId: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/spaces/${spaceId}/links/${linkId}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete space link');
+    }
+  }
+
+  async getSpaceTrash(spaceId: number): Promise<{ files: FileRecord[]; links: LinkRecord[] }> {
+    const response = await fetch(`${API_URL}/api/spaces/${spaceId}/trash`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch space trash');
+    }
+
+    return response.json();
+  }
+
+  async restoreSpaceFile(spaceId: number, fileId: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/spaces/${spaceId}/files/${fileId}/restore`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to restore space file');
+    }
+  }
+
+  async restoreSpaceLink(spaceId: number, linkId: number): Promise<void> {
+    const response = await fetch(`${API_URL}/api/spaces/${spaceId}/links/${linkId}/restore`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to restore space link');
+    }
+  }
 }
 
 export const apiClient = new ApiClient();
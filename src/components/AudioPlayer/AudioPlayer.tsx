@@ -1,5 +1,7 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
 import { FileRecord, apiClient } from '../../api/client';
+import { thumbnailOfWidth } from '../../shared/utils';
+import { useTranslation } from '../../i18n';
 import styles from './AudioPlayer.module.css';
 
 interface AudioPlayerProps {
@@ -16,6 +18,7 @@ function formatTime(seconds: number): string {
 }
 
 export function AudioPlayer({ file }: AudioPlayerProps) {
+  const { t } = useTranslation();
   const audioRef = useRef<HTMLAudioElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
   const [loadingState, setLoadingState] = useState<LoadingState>('idle');
@@ -46,9 +49,9 @@ export function AudioPlayer({ file }: AudioPlayerProps) {
           console.error('[AudioPlayer] Failed to load audio:', error);
           setLoadingState('error');
           if (error.message === 'AUDIO_UNAVAILABLE') {
-            setErrorMessage('Аудио недоступно');
+            setErrorMessage(t('player.audioUnavailable'));
           } else {
-            setErrorMessage('Ошибка загрузки');
+            setErrorMessage(t('common.loadError'));
           }
         }
       });
@@ -121,7 +124,7 @@ export function AudioPlayer({ file }: AudioPlayerProps) {
       {/* Cover image or icon */}
       <div className={styles.coverWrapper}>
         {file.thumbnailUrl && !isVoice ? (
-          <img src={file.thumbnailUrl} alt="" className={styles.cover} />
+          <img src={thumbnailOfWidth(file.thumbnailUrl, 320)} alt="" className={styles.cover} />
         ) : (
           <div className={styles.iconPlaceholder}>
             {isVoice ? (
@@ -161,7 +164,7 @@ export function AudioPlayer({ file }: AudioPlayerProps) {
             <line x1="12" y1="8" x2="12" y2="12" />
             <line x1="12" y1="16" x2="12.01" y2="16" />
           </svg>
-          <span>{errorMessage || 'Ошибка'}</span>
+          <span>{errorMessage || t('common.error')}</span>
         </div>
       )}
 
@@ -204,7 +207,7 @@ export function AudioPlayer({ file }: AudioPlayerProps) {
           <button
             className={styles.playButton}
             onClick={togglePlay}
-            aria-label={isPlaying ? 'Пауза' : 'Воспроизвести'}
+            aria-label={t(isPlaying ? 'player.pause' : 'player.play')}
           >
             {isPlaying ? (
               <svg viewBox="0 0 24 24" fill="currentColor">
@@ -1,7 +1,12 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { FileRecord } from '../../api/client';
+import { parseEntities, renderMessageEntities } from '../../shared/messageEntities';
+import { useTranslation } from '../../i18n';
 import styles from './CaptionSheet.module.css';
 
+// Сколько разных текущих описаний показываем над полем ввода
+const MAX_CAPTION_PREVIEWS = 3;
+
 interface CaptionSheetProps {
   isOpen: boolean;
   onClose: () => void;
@@ -17,6 +22,7 @@ export function CaptionSheet({
   files,
   onSave,
 }: CaptionSheetProps) {
+  const { t } = useTranslation();
   const [isClosing, setIsClosing] = useState(false);
   const [caption, setCaption] = useState('');
   const [isSaving, setIsSaving] = useState(false);
@@ -32,6 +38,18 @@ export function CaptionSheet({
     return selectedFilesData.filter(f => f.caption && f.caption.trim()).length;
   }, [selectedFilesData]);
 
+  // Distinct existing captions (formatted preview of what will be replaced)
+  const existingCaptions = useMemo(() => {
+    const seen = new Set<string>();
+    return selectedFilesData
+      .filter(f => {
+        if (!f.caption || !f.caption.trim() || seen.has(f.caption)) return false;
+        seen.add(f.caption);
+        return true;
+      })
+      .slice(0, MAX_CAPTION_PREVIEWS);
+  }, [selectedFilesData]);
+
   const fileCount = selectedFiles.size;
 
   // Auto-focus textarea when opened
@@ -102,8 +120,8 @@ export function CaptionSheet({
         <div className={styles.header}>
           <div className={styles.handle} />
           <div className={styles.titleBlock}>
-            <h2 className={styles.title}>Изменить описание</h2>
-            <span className={styles.subtitle}>{fileCount} файлов</span>
+            <h2 className={styles.title}>{t('caption.title')}</h2>
+            <span className={styles.subtitle}>{t('common.files', { count: fileCount })}</span>
           </div>
           <button className={styles.closeButton} onClick={handleAnimatedClose}>
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -125,13 +143,24 @@ export function CaptionSheet({
               </svg>
               <span>
                 {filesWithCaption === fileCount
-                  ? 'Все файлы уже имеют описание'
-                  : `${filesWithCaption} из ${fileCount} уже имеют описание`
+                  ? t('caption.allHave')
+                  : t('caption.someHave', { count: filesWithCaption, total: fileCount })
                 }
               </span>
             </div>
           )}
 
+          {/* Current captions with formatting */}
+          {existingCaptions.length > 0 && (
+            <div className={styles.currentCaptions}>
+              {existingCaptions.map(f => (
+                <div key={f.id} className={styles.currentCaption}>
+                  {renderMessageEntities(f.caption!, parseEntities(f.captionEntities))}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Textarea */}
           <div className={styles.textareaWrapper}>
             <textarea
@@ -139,7 +168,7 @@ export function CaptionSheet({
               className={styles.textarea}
               value={caption}
               onChange={(e) => setCaption(e.target.value)}
-              placeholder="Введите новое описание..."
+              placeholder={t('caption.placeholder')}
               rows={4}
               maxLength={maxChars}
             />
@@ -152,7 +181,7 @@ export function CaptionSheet({
 
           {/* Hint */}
           <p className={styles.hint}>
-            Описание будет применено ко всем выбранным файлам. Существующие описания будут заменены.
+            {t('caption.hint')}
           </p>
         </div>
 
@@ -163,14 +192,14 @@ export function CaptionSheet({
             onClick={handleAnimatedClose}
             disabled={isSaving}
           >
-            Отмена
+            {t('common.cancel')}
           </button>
           <button
             className={styles.saveButton}
             onClick={handleSave}
             disabled={isSaving}
           >
-            {isSaving ? 'Сохранение...' : `Сохранить (${fileCount})`}
+            {isSaving ? t('common.saving') : t('caption.saveCount', { count: fileCount })}
           </button>
         </div>
       </div>
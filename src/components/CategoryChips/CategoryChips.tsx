@@ -1,9 +1,10 @@
 import { useRef, useCallback } from 'react';
-import { MediaType, CategoryStats } from '../../api/client';
+import { MediaType, ItemKind, CategoryStats } from '../../api/client';
+import { useTranslation, MessageKey } from '../../i18n';
 import styles from './CategoryChips.module.css';
 
-// Extended type to include 'trash', 'shared', and 'favorite' as special categories
-export type CategoryType = MediaType | 'trash' | 'shared' | 'favorite' | null;
+// Extended type to include 'trash', 'shared', 'favorite' and 'spaces' as special categories
+export type CategoryType = MediaType | 'trash' | 'shared' | 'favorite' | 'spaces' | null;
 
 interface CategoryChipsProps {
   stats: CategoryStats[];
@@ -12,8 +13,16 @@ interface CategoryChipsProps {
   trashCount?: number;
   sharedCount?: number;
   linksCount?: number;
+  notesCount?: number;
+  // Геопозиции, места, контакты и опросы по видам
+  itemCounts?: Record<ItemKind, number>;
   favoritesCount?: number;
+  // Файлы и ссылки в пространствах групп/каналов (чип скрыт, пока пространств нет)
+  spacesCount?: number;
   disabledTypes?: 'trash' | 'not-trash';
+  // Папка: имя текущей папки (null = все файлы) и открытие FolderSheet
+  folderName?: string | null;
+  onFolderClick?: () => void;
 }
 
 // SF Symbols style icons (inline SVG)
@@ -47,12 +56,48 @@ const Icons = {
       <path d="M16 17H8" />
     </svg>
   ),
+  animation: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="2" y="4" width="20" height="16" rx="2" />
+      <path d="M10 9H8a1 1 0 0 0-1 1v4a1 1 0 0 0 1 1h2v-2.5H9" />
+      <path d="M13 9v6" />
+      <path d="M16 15V9h2.5" />
+      <path d="M16 12h2" />
+    </svg>
+  ),
   link: (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
       <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
       <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
     </svg>
   ),
+  note: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M4 4h16v11l-5 5H4Z" />
+      <path d="M15 20v-5h5" />
+      <path d="M8 9h8" />
+      <path d="M8 13h4" />
+    </svg>
+  ),
+  location: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z" />
+      <circle cx="12" cy="10" r="3" />
+    </svg>
+  ),
+  contact: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="12" cy="8" r="4" />
+      <path d="M4 21v-1a6 6 0 0 1 6-6h4a6 6 0 0 1 6 6v1" />
+    </svg>
+  ),
+  poll: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M4 6h10" />
+      <path d="M4 12h16" />
+      <path d="M4 18h7" />
+    </svg>
+  ),
   audio: (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
       <path d="M9 18V5l12-2v13" />
@@ -91,6 +136,19 @@ const Icons = {
       <line x1="15.41" y1="6.51" x2="8.59" y2="10.49" />
     </svg>
   ),
+  spaces: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+      <circle cx="9" cy="7" r="4" />
+      <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
+      <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+    </svg>
+  ),
+  folder: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z" />
+    </svg>
+  ),
   favorite: (
     <svg viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
       <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" />
@@ -100,26 +158,33 @@ const Icons = {
 
 interface Category {
   type: CategoryType;
-  label: string;
+  label: MessageKey;
   icon: keyof typeof Icons;
   color: string;
 }
 
 const CATEGORIES: Category[] = [
-  { type: null, label: 'Все', icon: 'all', color: 'var(--app-button-color)' },
-  { type: 'favorite', label: 'Избранное', icon: 'favorite', color: 'var(--color-favorite)' },
-  { type: 'photo', label: 'Фото', icon: 'photo', color: 'var(--color-photo)' },
-  { type: 'video', label: 'Видео', icon: 'video', color: 'var(--color-video)' },
-  { type: 'document', label: 'Доки', icon: 'document', color: 'var(--color-document)' },
-  { type: 'link', label: 'Ссылки', icon: 'link', color: 'var(--color-link)' },
-  { type: 'audio', label: 'Аудио', icon: 'audio', color: 'var(--color-audio)' },
-  { type: 'voice', label: 'Голос', icon: 'voice', color: 'var(--color-voice)' },
-  { type: 'video_note', label: 'Кружки', icon: 'video_note', color: 'var(--color-video-note, #5856d6)' },
-  { type: 'shared', label: 'Общие', icon: 'shared', color: 'var(--color-shared, #22c55e)' },
-  { type: 'trash', label: 'Корзина', icon: 'trash', color: 'var(--app-destructive-text-color, #ff3b30)' },
+  { type: null, label: 'category.all', icon: 'all', color: 'var(--app-button-color)' },
+  { type: 'favorite', label: 'category.favorite', icon: 'favorite', color: 'var(--color-favorite)' },
+  { type: 'photo', label: 'category.photo', icon: 'photo', color: 'var(--color-photo)' },
+  { type: 'video', label: 'category.video', icon: 'video', color: 'var(--color-video)' },
+  { type: 'document', label: 'category.document', icon: 'document', color: 'var(--color-document)' },
+  { type: 'link', label: 'category.link', icon: 'link', color: 'var(--color-link)' },
+  { type: 'note', label: 'category.note', icon: 'note', color: 'var(--color-note)' },
+  { type: 'location', label: 'category.location', icon: 'location', color: 'var(--color-location)' },
+  { type: 'contact', label: 'category.contact', icon: 'contact', color: 'var(--color-contact)' },
+  { type: 'poll', label: 'category.poll', icon: 'poll', color: 'var(--color-poll)' },
+  { type: 'audio', label: 'category.audio', icon: 'audio', color: 'var(--color-audio)' },
+  { type: 'voice', label: 'category.voice', icon: 'voice', color: 'var(--color-voice)' },
+  { type: 'video_note', label: 'category.video_note', icon: 'video_note', color: 'var(--color-video-note, #5856d6)' },
+  { type: 'animation', label: 'category.animation', icon: 'animation', color: 'var(--color-animation)' },
+  { type: 'shared', label: 'category.shared', icon: 'shared', color: 'var(--color-shared, #22c55e)' },
+  { type: 'spaces', label: 'category.spaces', icon: 'spaces', color: 'var(--color-spaces, #0ea5e9)' },
+  { type: 'trash', label: 'category.trash', icon: 'trash', color: 'var(--app-destructive-text-color, #ff3b30)' },
 ];
 
-export function CategoryChips({ stats, selectedType, onSelect, trashCount = 0, sharedCount = 0, linksCount = 0, favoritesCount = 0, disabledTypes }: CategoryChipsProps) {
+export function CategoryChips({ stats, selectedType, onSelect, trashCount = 0, sharedCount = 0, linksCount = 0, notesCount = 0, itemCounts, favoritesCount = 0, spacesCount, disabledTypes, folderName = null, onFolderClick }: CategoryChipsProps) {
+  const { t } = useTranslation();
   const scrollRef = useRef<HTMLDivElement>(null);
 
 
@@ -134,7 +199,8 @@ export function CategoryChips({ stats, selectedType, onSelect, trashCount = 0, s
 
   const getCount = (type: CategoryType): number => {
     if (type === null) {
-      return stats.reduce((sum, s) => sum + s.count, 0) + linksCount;
+      const itemsCount = itemCounts ? Object.values(itemCounts).reduce((sum, c) => sum + c, 0) : 0;
+      return stats.reduce((sum, s) => sum + s.count, 0) + linksCount + notesCount + itemsCount;
     }
     if (type === 'trash') {
       return trashCount;
@@ -145,9 +211,28 @@ export function CategoryChips({ stats, selectedType, onSelect, trashCount = 0, s
     if (type === 'favorite') {
       return favoritesCount;
     }
+    if (type === 'spaces') {
+      return spacesCount || 0;
+    }
     if (type === 'link') {
       return linksCount;
     }
+    if (type === 'note') {
+      return notesCount;
+    }
+    // Чип "Места" объединяет геопозиции и места (venue)
+    if (type === 'location') {
+      return (itemCounts?.location || 0) + (itemCounts?.venue || 0);
+    }
+    if (type === 'contact' || type === 'poll') {
+      return itemCounts?.[type] || 0;
+    }
+    // Чип "GIF" - гифки и стикеры вместе
+    if (type === 'animation') {
+      return stats
+        .filter(s => s.mediaType === 'animation' || s.mediaType === 'sticker')
+        .reduce((sum, s) => sum + s.count, 0);
+    }
     return stats.find(s => s.mediaType === type)?.count || 0;
   };
 
@@ -165,7 +250,25 @@ export function CategoryChips({ stats, selectedType, onSelect, trashCount = 0, s
         className={styles.scroll}
         onWheel={handleWheel}
       >
+        {/* Folder chip - показывает текущую папку, открывает выбор папки */}
+        {onFolderClick && (
+          <button
+            className={`${styles.chip} ${folderName ? styles.selected : ''}`}
+            style={{
+              '--chip-color': 'var(--app-link-color)',
+            } as React.CSSProperties}
+            onClick={(e) => {
+              e.stopPropagation();
+              onFolderClick();
+            }}
+          >
+            <span className={styles.icon}>{Icons.folder}</span>
+            <span className={styles.label}>{folderName || t('category.folders')}</span>
+          </button>
+        )}
         {CATEGORIES.map(category => {
+          // Пространства появляются только после добавления бота в группу или канал
+          if (category.type === 'spaces' && spacesCount === undefined && selectedType !== 'spaces') return null;
           const count = getCount(category.type);
           const isSelected = selectedType === category.type;
 
@@ -184,7 +287,7 @@ export function CategoryChips({ stats, selectedType, onSelect, trashCount = 0, s
               disabled={isDisabled(category.type)}
             >
               <span className={styles.icon}>{Icons[category.icon]}</span>
-              <span className={styles.label}>{category.label}</span>
+              <span className={styles.label}>{t(category.label)}</span>
               {count > 0 && (
                 <span className={styles.count}>{count}</span>
               )}
@@ -0,0 +1,62 @@
+import { useExport } from '../../hooks/useExport';
+import { formatFileSize } from '../../shared/formatters';
+import { useTranslation } from '../../i18n';
+import styles from './ExportSection.module.css';
+
+/**
+ * Экспорт всего архива в ZIP (файлы + manifest.json с метаданными)
+ */
+export function ExportSection() {
+  const { t } = useTranslation();
+  const { job, isActive, isStarting, startExport } = useExport();
+
+  const progress = job && job.totalFiles > 0
+    ? Math.round((job.processedFiles / job.totalFiles) * 100)
+    : 0;
+
+  return (
+    <div className={styles.card}>
+      {isActive && job ? (
+        <>
+          <div className={styles.statusRow}>
+            <span className={styles.statusText}>{t('export.building')}</span>
+            <span className={styles.statusValue}>{job.processedFiles} / {job.totalFiles}</span>
+          </div>
+          <div className={styles.progressBar}>
+            <div className={styles.progressFill} style={{ width: `${progress}%` }} />
+          </div>
+        </>
+      ) : job?.status === 'done' && job.downloadUrl ? (
+        <>
+          <div className={styles.statusRow}>
+            <span className={styles.statusText}>{t('export.ready')}</span>
+            <span className={styles.statusValue}>{formatFileSize(job.archiveSize)}</span>
+          </div>
+          {job.skippedFiles > 0 && (
+            <p className={styles.hint}>
+              {t('export.skipped', { count: job.skippedFiles })}
+            </p>
+          )}
+          <a className={styles.button} href={job.downloadUrl} target="_blank" rel="noopener noreferrer">
+            {t('export.download')}
+          </a>
+          <button className={styles.linkButton} onClick={startExport} disabled={isStarting}>
+            {t('export.rebuild')}
+          </button>
+        </>
+      ) : (
+        <>
+          {job?.status === 'failed' && (
+            <p className={`${styles.hint} ${styles.error}`}>{t('export.failed')}</p>
+          )}
+          <p className={styles.hint}>
+            {t('export.hint')}
+          </p>
+          <button className={styles.button} onClick={startExport} disabled={isStarting}>
+            {t('export.start')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
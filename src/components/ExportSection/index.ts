@@ -0,0 +1 @@
+export { ExportSection } from './ExportSection';
@@ -2,7 +2,8 @@ import { ReactNode } from 'react';
 import { FileRecord } from '../../api/client';
 import { MediaTypeIcons, ForwardIcon, FolderIcon } from '../../shared/icons';
 import { formatDuration, formatFileSize } from '../../shared/formatters';
-import { getEffectiveMediaType } from '../../shared/mediaType';
+import { getEffectiveMediaType, getAnimatedPreview } from '../../shared/mediaType';
+import { thumbnailOfWidth } from '../../shared/utils';
 import { useLongPress } from '../../hooks/useLongPress';
 import cardStyles from '../../styles/Card.module.css';
 
@@ -23,6 +24,8 @@ interface FileCardProps {
   includeDataFileId?: boolean;
   /** Search match info for highlighting */
   searchMatch?: { field: string; snippet: string };
+  /** Number of files in album (stacked card if > 1) */
+  albumCount?: number;
 }
 
 // Inline подсветка совпадений в тексте
@@ -58,11 +61,17 @@ export function FileCard({
   disableActiveScale,
   includeDataFileId,
   searchMatch,
+  albumCount = 1,
 }: FileCardProps) {
   // When includeDataFileId is true, Timeline manages long press for drag selection
   // FileCard's useLongPress only handles click vs long-press distinction (to prevent onClick after long press)
   const effectiveLongPress = includeDataFileId ? undefined : onFileLongPress;
   const longPress = useLongPress(file, effectiveLongPress, onFileClick);
+  const animated = getAnimatedPreview(file);
+  // Стикеры прозрачные - вписываем целиком, без обрезки
+  const thumbnailClassName = file.mediaType === 'sticker'
+    ? `${cardStyles.thumbnail} ${cardStyles.contain}`
+    : cardStyles.thumbnail;
 
   const cardClassName = [
     cardStyles.card,
@@ -70,6 +79,7 @@ export function FileCard({
     isOnCooldown ? cardStyles.cooldown : '',
     isFavorite ? cardStyles.favorite : '',
     disableActiveScale ? cardStyles.noActiveScale : '',
+    albumCount > 1 ? cardStyles.album : '',
   ].filter(Boolean).join(' ');
 
   return (
@@ -94,6 +104,17 @@ export function FileCard({
         <div className={cardStyles.cooldownBadge}>✓</div>
       )}
 
+      {/* Album badge - stacked card for media group */}
+      {albumCount > 1 && (
+        <div className={cardStyles.albumBadge}>
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <rect x="7" y="7" width="14" height="14" rx="2" />
+            <path d="M3 17V5a2 2 0 0 1 2-2h12" />
+          </svg>
+          <span>{albumCount}</span>
+        </div>
+      )}
+
       {/* Selection checkbox - shows for ALL files including cooldown */}
       {isSelectionMode && (
         <div className={cardStyles.checkbox}>
@@ -101,16 +122,30 @@ export function FileCard({
         </div>
       )}
 
-      {file.thumbnailUrl ? (
+      {file.thumbnailUrl || animated ? (
         /* === КАРТОЧКА С ПРЕВЬЮ === */
         <>
           <div className={cardStyles.preview}>
-            <img
-              src={file.thumbnailUrl}
-              alt=""
-              className={cardStyles.thumbnail}
-              loading="lazy"
-            />
+            {animated?.isVideo ? (
+              /* GIF / видеостикер - играет в сетке без звука */
+              <video
+                src={animated.src}
+                poster={file.thumbnailUrl ? thumbnailOfWidth(file.thumbnailUrl, 320) : undefined}
+                className={thumbnailClassName}
+                autoPlay
+                muted
+                loop
+                playsInline
+                preload="metadata"
+              />
+            ) : (
+              <img
+                src={animated ? animated.src : thumbnailOfWidth(file.thumbnailUrl!, 320)}
+                alt=""
+                className={thumbnailClassName}
+                loading="lazy"
+              />
+            )}
             {file.duration && (
               <span className={cardStyles.duration}>
                 {formatDuration(file.duration)}
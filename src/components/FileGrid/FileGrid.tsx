@@ -1,5 +1,7 @@
 import { FileRecord } from '../../api/client';
 import { FileCard } from '../FileCard';
+import { collapseAlbums } from '../../shared/utils';
+import { useTranslation } from '../../i18n';
 import cardStyles from '../../styles/Card.module.css';
 import gridStyles from '../../styles/Grid.module.css';
 import localStyles from './FileGrid.module.css';
@@ -18,28 +20,29 @@ interface FileGridProps {
 }
 
 export function FileGrid({ files, onFileClick, onFileLongPress, selectedFiles, isSelectionMode, searchQuery, isOnCooldown }: FileGridProps) {
+  const { t } = useTranslation();
   if (files.length === 0) {
     // Search empty state - с подсказками
     if (searchQuery) {
       return (
         <div className={styles.empty}>
           <span className={styles.emptyIcon}>🔍</span>
-          <h3 className={styles.emptyTitle}>Ничего не найдено</h3>
+          <h3 className={styles.emptyTitle}>{t('common.nothingFound')}</h3>
           <p className={styles.emptyQuery}>«{searchQuery}»</p>
 
           <div className={styles.emptyTips}>
-            <div className={styles.emptyTipsTitle}>Советы</div>
+            <div className={styles.emptyTipsTitle}>{t('search.tips')}</div>
             <ul className={styles.emptyTipsList}>
-              <li>Проверьте правописание</li>
-              <li>Попробуйте другие слова</li>
-              <li>Используйте часть слова</li>
+              <li>{t('search.tipSpelling')}</li>
+              <li>{t('search.tipOtherWords')}</li>
+              <li>{t('search.tipPartial')}</li>
             </ul>
           </div>
 
           <div className={styles.emptyFields}>
-            <span className={styles.emptyFieldChip}>📝 Подписи</span>
-            <span className={styles.emptyFieldChip}>📄 Имена</span>
-            <span className={styles.emptyFieldChip}>↗️ От кого</span>
+            <span className={styles.emptyFieldChip}>{t('search.fieldCaptions')}</span>
+            <span className={styles.emptyFieldChip}>{t('search.fieldNames')}</span>
+            <span className={styles.emptyFieldChip}>{t('search.fieldSenders')}</span>
           </div>
         </div>
       );
@@ -49,20 +52,22 @@ export function FileGrid({ files, onFileClick, onFileLongPress, selectedFiles, i
     return (
       <div className={styles.empty}>
         <span className={styles.emptyIcon}>📭</span>
-        <h3 className={styles.emptyTitle}>Файлы не найдены</h3>
+        <h3 className={styles.emptyTitle}>{t('empty.files')}</h3>
         <p className={styles.emptyHint}>
-          Пересылайте файлы боту,<br />чтобы они появились здесь
+          {t('empty.forwardHint')}<br />{t('empty.forwardHintEnd')}
         </p>
       </div>
     );
   }
 
   const isSearchResult = searchQuery && files.some(f => f.matchedField);
+  // Альбомы показываем одной карточкой-стопкой
+  const cards = collapseAlbums(files);
 
   if (!searchQuery) {
     return (
       <div className={styles.grid}>
-        {files.map(file => (
+        {cards.map(({ file, albumCount }) => (
           <FileCard
             key={file.id}
             file={file}
@@ -71,6 +76,7 @@ export function FileGrid({ files, onFileClick, onFileLongPress, selectedFiles, i
             isSelected={selectedFiles?.has(file.id)}
             isSelectionMode={isSelectionMode}
             isOnCooldown={isOnCooldown?.(file.id)}
+            albumCount={albumCount}
           />
         ))}
       </div>
@@ -82,13 +88,13 @@ export function FileGrid({ files, onFileClick, onFileLongPress, selectedFiles, i
       {isSearchResult && (
         <div className={styles.searchHeader}>
           <span className={styles.searchCount}>
-            Найдено: {files.length}
+            {t('search.found', { count: files.length })}
           </span>
         </div>
       )}
 
       <div className={styles.grid}>
-        {files.map(file => (
+        {cards.map(({ file, albumCount }) => (
           <FileCard
             key={file.id}
             file={file}
@@ -97,6 +103,7 @@ export function FileGrid({ files, onFileClick, onFileLongPress, selectedFiles, i
             isSelected={selectedFiles?.has(file.id)}
             isSelectionMode={isSelectionMode}
             isOnCooldown={isOnCooldown?.(file.id)}
+            albumCount={albumCount}
             searchMatch={file.matchedField && file.matchedSnippet ? {
               field: file.matchedField,
               snippet: file.matchedSnippet,
@@ -1,13 +1,15 @@
 import { useCallback, useState, useEffect, useRef } from 'react';
-import { FileRecord, ShareResponse, apiClient } from '../../api/client';
+import { FileRecord, ShareResponse, CaptionVersion, apiClient } from '../../api/client';
 import { MediaTypeIcons, ShareIcon } from '../../shared/icons';
 import { formatFileSize, formatDuration, formatDate, getMediaTypeLabel, highlightMatch } from '../../shared/formatters';
-import { getEffectiveMediaType } from '../../shared/mediaType';
+import { getEffectiveMediaType, getAnimatedPreview } from '../../shared/mediaType';
+import { parseEntities, renderMessageEntities } from '../../shared/messageEntities';
 import { ShareSection } from '../ShareSection';
 import { VideoPlayer } from '../VideoPlayer';
 import { AudioPlayer } from '../AudioPlayer';
 import { useSwipeNavigation } from '../../hooks/useSwipeNavigation';
 import { useFileViewerKeyboard } from '../../hooks/useFileViewerKeyboard';
+import { useTranslation, MessageKey } from '../../i18n';
 import styles from './FileViewer.module.css';
 
 // Helper to check if file is a video
@@ -22,11 +24,18 @@ function isAudioFile(mediaType: string): boolean {
 
 // Preset options for share creation
 const RECIPIENT_PRESETS = [1, 5, 10] as const;
-const EXPIRES_PRESETS = [
-  { value: 24, label: '1 день' },
-  { value: 168, label: '7 дней' },
-  { value: 720, label: '30 дней' },
-] as const;
+const EXPIRES_PRESETS: readonly { value: number; label: MessageKey }[] = [
+  { value: 24, label: 'viewer.oneDay' },
+  { value: 168, label: 'viewer.sevenDays' },
+  { value: 720, label: 'viewer.thirtyDays' },
+];
+
+// Подпись к версии из истории: чем её заменили
+const CAPTION_SOURCE_LABELS: Record<CaptionVersion['source'], MessageKey> = {
+  telegram: 'viewer.editedInTelegram',
+  app: 'viewer.editedInApp',
+  revert: 'viewer.editedByRevert',
+};
 
 interface FileViewerProps {
   file: FileRecord;
@@ -41,11 +50,17 @@ interface FileViewerProps {
   onClose: () => void;
   onSend: (file: FileRecord) => void;
   onCaptionUpdate?: (fileId: number, newCaption: string | null) => void;
+  // Вернуть подпись из истории правок
+  onCaptionRevert?: (fileId: number, versionId: number) => Promise<void>;
   isOnCooldown?: boolean;
   isSending?: boolean;
   searchQuery?: string;
   // Fullscreen video - opens FloatingVideoPlayer at App level
   onEnterVideoFullscreen?: (file: FileRecord, videoUrl: string, currentTime: number, isMuted: boolean) => void;
+  // Срок новой ссылки по умолчанию (часы, null - бессрочно) из настроек пользователя
+  defaultShareExpiry?: number | null;
+  // false - файл из пространства группы/канала: публичные ссылки только для своих файлов
+  canShare?: boolean;
 }
 
 type ShareMode = 'idle' | 'creating';
@@ -61,11 +76,15 @@ export function FileViewer({
   onClose,
   onSend,
   onCaptionUpdate,
+  onCaptionRevert,
   isOnCooldown,
   isSending,
   searchQuery,
-  onEnterVideoFullscreen
+  onEnterVideoFullscreen,
+  defaultShareExpiry = null,
+  canShare = true
 }: FileViewerProps) {
+  const { t } = useTranslation();
   const [isClosing, setIsClosing] = useState(false);
   const [slideDirection, setSlideDirection] = useState<'next' | 'prev' | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);  // Блокировка rapid swipes
@@ -80,13 +99,14 @@ export function FileViewer({
   const [isEditingCaption, setIsEditingCaption] = useState(false);
   const [captionDraft, setCaptionDraft] = useState('');
   const [isSavingCaption, setIsSavingCaption] = useState(false);
+  const [captionHistory, setCaptionHistory] = useState<CaptionVersion[]>([]);
   const captionTextareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Share creation state
   const [shareMode, setShareMode] = useState<ShareMode>('idle');
   const [isCreatingShare, setIsCreatingShare] = useState(false);
   const [maxRecipients, setMaxRecipients] = useState<number | null>(null);
-  const [expiresIn, setExpiresIn] = useState<number | null>(null);
+  const [expiresIn, setExpiresIn] = useState<number | null>(defaultShareExpiry);
 
   // Custom input state
   const [isCustomRecipients, setIsCustomRecipients] = useState(false);
@@ -144,8 +164,17 @@ export function FileViewer({
   useEffect(() => {
     setIsEditingCaption(false);
     setCaptionDraft('');
+    setCaptionHistory([]);
   }, [file.id]);
 
+  // Previous captions - loaded when the editor opens
+  useEffect(() => {
+    if (!isEditingCaption || !onCaptionRevert) return;
+    apiClient.getCaptionHistory(file.id)
+      .then(result => setCaptionHistory(result.items))
+      .catch(() => setCaptionHistory([]));
+  }, [isEditingCaption, file.id, onCaptionRevert]);
+
   // Caption editing handlers
   const startCaptionEdit = useCallback(() => {
     setCaptionDraft(file.caption || '');
@@ -178,29 +207,41 @@ export function FileViewer({
     }
   }, [file.id, file.caption, captionDraft, onCaptionUpdate]);
 
+  const revertCaption = useCallback(async (version: CaptionVersion) => {
+    if (!onCaptionRevert) return;
+
+    setIsSavingCaption(true);
+    try {
+      await onCaptionRevert(file.id, version.id);
+      setIsEditingCaption(false);
+    } catch (error) {
+      console.error('Failed to revert caption:', error);
+    } finally {
+      setIsSavingCaption(false);
+    }
+  }, [file.id, onCaptionRevert]);
+
   // Reset share creation state
   const resetShareCreation = useCallback(() => {
     setShareMode('idle');
     setMaxRecipients(null);
-    setExpiresIn(null);
+    setExpiresIn(defaultShareExpiry);
     setIsCustomRecipients(false);
     setIsCustomExpires(false);
     setCustomRecipientsValue('');
     setCustomExpiresValue('');
     setExpiresUnit('days');
-  }, []);
+  }, [defaultShareExpiry]);
 
   // Handle create share
   const handleCreateShare = useCallback(async () => {
     setIsCreatingShare(true);
     try {
-      const options: { maxRecipients?: number; expiresIn?: number } = {};
+      // expiresIn передаём всегда: null - бессрочно (иначе сервер подставит срок из настроек)
+      const options: { maxRecipients?: number; expiresIn: number | null } = { expiresIn };
       if (maxRecipients !== null) {
         options.maxRecipients = maxRecipients;
       }
-      if (expiresIn !== null) {
-        options.expiresIn = expiresIn;
-      }
 
       const data = await apiClient.createShareLink(file.id, options);
       setShareData(data);
@@ -311,6 +352,26 @@ export function FileViewer({
     if (isAudioFile(f.mediaType)) {
       return <AudioPlayer file={f} />;
     }
+    const animated = getAnimatedPreview(f);
+    if (animated) {
+      // GIF и стикеры: без плеера, просто зацикленная анимация
+      const aspectRatio = f.width && f.height ? f.width / f.height : undefined;
+      const style = aspectRatio ? { aspectRatio: String(aspectRatio) } : undefined;
+      return animated.isVideo ? (
+        <video
+          src={animated.src}
+          poster={f.thumbnailUrl || undefined}
+          className={styles.preview}
+          style={style}
+          autoPlay
+          muted
+          loop
+          playsInline
+        />
+      ) : (
+        <img src={animated.src} alt={f.emoji || ''} className={styles.preview} style={style} />
+      );
+    }
     if (f.thumbnailUrl) {
       // Вычислить aspect-ratio из размеров файла для резервирования места
       // Это предотвращает layout shift при загрузке высоких фото
@@ -341,12 +402,9 @@ export function FileViewer({
       if (!isCurrentFile) {
         if (f.caption) {
           return (
-            <div
-              className={`${styles.caption} ${styles.captionEditable}`}
-              dangerouslySetInnerHTML={{
-                __html: highlightMatch(f.caption.replace(/\n/g, '<br/>'), searchQuery)
-              }}
-            />
+            <div className={`${styles.caption} ${styles.captionEditable}`}>
+              {renderMessageEntities(f.caption, parseEntities(f.captionEntities), searchQuery)}
+            </div>
           );
         }
         // Показываем placeholder для резервирования места (без onClick)
@@ -355,7 +413,7 @@ export function FileViewer({
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
             </svg>
-            Добавить описание
+            {t('viewer.addCaption')}
           </div>
         );
       }
@@ -369,7 +427,7 @@ export function FileViewer({
               className={styles.captionTextarea}
               value={captionDraft}
               onChange={(e) => setCaptionDraft(e.target.value)}
-              placeholder="Введите описание..."
+              placeholder={t('viewer.captionPlaceholder')}
               rows={3}
               maxLength={4096}
             />
@@ -383,17 +441,37 @@ export function FileViewer({
                   onClick={cancelCaptionEdit}
                   disabled={isSavingCaption}
                 >
-                  Отмена
+                  {t('common.cancel')}
                 </button>
                 <button
                   className={styles.captionSaveBtn}
                   onClick={saveCaptionEdit}
                   disabled={isSavingCaption}
                 >
-                  {isSavingCaption ? 'Сохранение...' : 'Сохранить'}
+                  {t(isSavingCaption ? 'common.saving' : 'common.save')}
                 </button>
               </div>
             </div>
+            {captionHistory.length > 0 && (
+              <div className={styles.captionHistory}>
+                <div className={styles.captionHistoryTitle}>{t('viewer.captionHistory')}</div>
+                {captionHistory.map(version => (
+                  <button
+                    key={version.id}
+                    className={styles.captionVersion}
+                    onClick={() => revertCaption(version)}
+                    disabled={isSavingCaption}
+                  >
+                    <span className={styles.captionVersionText}>
+                      {version.caption || t('viewer.emptyCaption')}
+                    </span>
+                    <span className={styles.captionVersionMeta}>
+                      {t(CAPTION_SOURCE_LABELS[version.source])} · {formatDate(version.createdAt)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         );
       }
@@ -403,11 +481,13 @@ export function FileViewer({
         return (
           <div
             className={`${styles.caption} ${onCaptionUpdate ? styles.captionEditable : ''}`}
-            onClick={onCaptionUpdate ? startCaptionEdit : undefined}
-            dangerouslySetInnerHTML={{
-              __html: highlightMatch(f.caption.replace(/\n/g, '<br/>'), searchQuery)
-            }}
-          />
+            onClick={onCaptionUpdate ? (e) => {
+              // Клик по ссылке в подписи - открываем ссылку, а не редактор
+              if (!(e.target as HTMLElement).closest('a')) startCaptionEdit();
+            } : undefined}
+          >
+            {renderMessageEntities(f.caption, parseEntities(f.captionEntities), searchQuery)}
+          </div>
         );
       }
 
@@ -418,7 +498,7 @@ export function FileViewer({
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
             </svg>
-            Добавить описание
+            {t('viewer.addCaption')}
           </button>
         );
       }
@@ -433,46 +513,52 @@ export function FileViewer({
 
         {/* Meta info */}
         <div className={styles.meta}>
+          {f.emoji && (
+            <div className={styles.metaItem}>
+              <span className={styles.metaLabel}>{t('viewer.emoji')}</span>
+              <span>{f.emoji}</span>
+            </div>
+          )}
           {f.fileName && (
             <div className={styles.metaItem}>
-              <span className={styles.metaLabel}>Название:</span>
+              <span className={styles.metaLabel}>{t(f.mediaType === 'sticker' ? 'viewer.stickerSet' : 'viewer.name')}</span>
               <span dangerouslySetInnerHTML={{ __html: highlightMatch(f.fileName, searchQuery) }} />
             </div>
           )}
           {f.mimeType && (
             <div className={styles.metaItem}>
-              <span className={styles.metaLabel}>Тип:</span>
+              <span className={styles.metaLabel}>{t('viewer.type')}</span>
               <span>{f.mimeType}</span>
             </div>
           )}
           {f.fileSize && (
             <div className={styles.metaItem}>
-              <span className={styles.metaLabel}>Размер:</span>
+              <span className={styles.metaLabel}>{t('viewer.size')}</span>
               <span>{formatFileSize(f.fileSize)}</span>
             </div>
           )}
           {f.duration && (
             <div className={styles.metaItem}>
-              <span className={styles.metaLabel}>Длительность:</span>
+              <span className={styles.metaLabel}>{t('viewer.duration')}</span>
               <span>{formatDuration(f.duration)}</span>
             </div>
           )}
           {(f.width && f.height) && (
             <div className={styles.metaItem}>
-              <span className={styles.metaLabel}>Разрешение:</span>
+              <span className={styles.metaLabel}>{t('viewer.resolution')}</span>
               <span>{f.width} × {f.height}</span>
             </div>
           )}
           {(f.forwardFromName || f.forwardFromChatTitle) && (
             <div className={styles.metaItem}>
-              <span className={styles.metaLabel}>От:</span>
+              <span className={styles.metaLabel}>{t('viewer.from')}</span>
               <span dangerouslySetInnerHTML={{
                 __html: highlightMatch(f.forwardFromName || f.forwardFromChatTitle || '', searchQuery)
               }} />
             </div>
           )}
           <div className={styles.metaItem}>
-            <span className={styles.metaLabel}>Добавлено:</span>
+            <span className={styles.metaLabel}>{t('viewer.added')}</span>
             <span>{formatDate(f.createdAt)}</span>
           </div>
         </div>
@@ -493,7 +579,7 @@ export function FileViewer({
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="m15 18-6-6 6-6" />
             </svg>
-            <span>Назад</span>
+            <span>{t('common.back')}</span>
           </button>
 
           <div className={styles.headerTitle}>
@@ -519,7 +605,7 @@ export function FileViewer({
                   <circle cx="12" cy="12" r="10" />
                   <polyline points="12 6 12 12 16 14" />
                 </svg>
-                <span>Отправлено</span>
+                <span>{t('common.sent')}</span>
               </>
             ) : (
               <>
@@ -527,7 +613,7 @@ export function FileViewer({
                   <path d="M22 2 11 13" />
                   <path d="M22 2 15 22 11 13 2 9 22 2z" />
                 </svg>
-                <span>Отправить</span>
+                <span>{t('common.send')}</span>
               </>
             )}
           </button>
@@ -549,7 +635,7 @@ export function FileViewer({
             <div className={styles.info}>
               {renderInfo(file, true)}
               {/* Share Section - только для текущего файла */}
-          {shareLoading ? (
+          {!canShare ? null : shareLoading ? (
             <div className={styles.shareLoading}>
               <div className={styles.miniSpinner} />
             </div>
@@ -564,7 +650,7 @@ export function FileViewer({
               <div className={styles.settingsBlock}>
                 {/* Expires Row - first */}
                 <div className={styles.settingRow}>
-                  <div className={styles.settingLabel}>Срок</div>
+                  <div className={styles.settingLabel}>{t('viewer.expiry')}</div>
                   <div className={styles.chips}>
                     {isCustomExpires ? (
                       <div className={styles.inlineInputWithToggle}>
@@ -599,7 +685,7 @@ export function FileViewer({
                               }
                             }}
                           >
-                            ч
+                            {t('common.hoursShort')}
                           </button>
                           <button
                             className={`${styles.unitBtn} ${expiresUnit === 'days' ? styles.active : ''}`}
@@ -610,7 +696,7 @@ export function FileViewer({
                               }
                             }}
                           >
-                            дн
+                            {t('common.daysShort')}
                           </button>
                         </div>
                         <button
@@ -644,7 +730,7 @@ export function FileViewer({
                           setIsCustomExpires(false);
                         }}
                       >
-                        {option.label}
+                        {t(option.label)}
                       </button>
                     ))}
                     <button
@@ -664,7 +750,7 @@ export function FileViewer({
 
                 {/* Recipients Row - second */}
                 <div className={styles.settingRow}>
-                  <div className={styles.settingLabel}>Лимит</div>
+                  <div className={styles.settingLabel}>{t('viewer.limit')}</div>
                   <div className={styles.chips}>
                     {isCustomRecipients ? (
                       <div className={styles.inlineInput}>
@@ -738,14 +824,14 @@ export function FileViewer({
                   className={styles.cancelBtn}
                   onClick={resetShareCreation}
                 >
-                  Отмена
+                  {t('common.cancel')}
                 </button>
                 <button
                   className={styles.createBtn}
                   onClick={handleCreateShare}
                   disabled={isCreatingShare}
                 >
-                  {isCreatingShare ? 'Создание...' : 'Создать ссылку'}
+                  {t(isCreatingShare ? 'viewer.creating' : 'viewer.createLink')}
                 </button>
               </div>
             </div>
@@ -755,7 +841,7 @@ export function FileViewer({
               onClick={() => setShareMode('creating')}
             >
               <span className={styles.shareIcon}>{ShareIcon}</span>
-              Поделиться
+              {t('viewer.share')}
             </button>
           )}
             </div>
@@ -775,10 +861,12 @@ export function FileViewer({
               {/* Info СНАРУЖИ previewWrapper - как у current layer */}
               <div className={styles.info}>
                 {renderInfo(incomingFile, false)}
-                <div className={styles.sharePlaceholder}>
-                  <span className={styles.shareIcon}>{ShareIcon}</span>
-                  Поделиться
-                </div>
+                {canShare && (
+                  <div className={styles.sharePlaceholder}>
+                    <span className={styles.shareIcon}>{ShareIcon}</span>
+                    {t('viewer.share')}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -1,6 +1,7 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
 import { FileRecord } from '../../api/client';
 import { useTelegram } from '../../hooks/useTelegram';
+import { useTranslation } from '../../i18n';
 import styles from './FloatingVideoPlayer.module.css';
 
 interface FloatingVideoPlayerProps {
@@ -26,6 +27,7 @@ export function FloatingVideoPlayer({
   initialMuted,
   onClose
 }: FloatingVideoPlayerProps) {
+  const { t } = useTranslation();
   const videoRef = useRef<HTMLVideoElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -238,7 +240,7 @@ export function FloatingVideoPlayer({
             <button
               className={styles.controlButton}
               onClick={toggleMute}
-              aria-label={isMuted ? 'Включить звук' : 'Выключить звук'}
+              aria-label={t(isMuted ? 'player.unmute' : 'player.mute')}
             >
               {isMuted ? (
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -259,7 +261,7 @@ export function FloatingVideoPlayer({
             <button
               className={styles.controlButton}
               onClick={handleClose}
-              aria-label="Выйти из полноэкранного режима"
+              aria-label={t('player.exitFullscreen')}
             >
               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                 <path d="M8 3v3a2 2 0 0 1-2 2H3" />
@@ -277,7 +279,7 @@ export function FloatingVideoPlayer({
         <button
           className={styles.bigPlayButton}
           onClick={togglePlay}
-          aria-label="Воспроизвести"
+          aria-label={t('player.play')}
         >
           <svg viewBox="0 0 24 24" fill="currentColor">
             <polygon points="5,3 19,12 5,21" />
@@ -0,0 +1,306 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { FolderRecord } from '../../api/client';
+import { useTranslation } from '../../i18n';
+import styles from './FolderSheet.module.css';
+
+const MAX_FOLDER_NAME_LENGTH = 64;
+
+interface FolderSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // browse - выбор папки для просмотра, move - выбор папки для перемещения выделенных элементов
+  mode: 'browse' | 'move';
+  folders: FolderRecord[];
+  selectedFolderId: number | null;
+  itemCount?: number;
+  onSelect: (folderId: number | null) => void | Promise<void>;
+  onCreate: (name: string, parentId: number | null) => Promise<void>;
+  onRename: (id: number, name: string) => Promise<void>;
+  onDelete: (id: number) => Promise<void>;
+}
+
+interface FolderNode {
+  folder: FolderRecord;
+  depth: number;
+}
+
+// Everything directly inside the folder: files, links, notes, places / contacts / polls
+function getFolderItemCount(folder: FolderRecord): number {
+  return folder.fileCount + folder.linkCount + folder.noteCount + folder.itemCount;
+}
+
+// Flatten folders into tree order (parent, then its children) with depth
+function buildTree(folders: FolderRecord[]): FolderNode[] {
+  const byParent = new Map<number | null, FolderRecord[]>();
+  folders.forEach((folder) => {
+    const list = byParent.get(folder.parentId) || [];
+    list.push(folder);
+    byParent.set(folder.parentId, list);
+  });
+
+  const result: FolderNode[] = [];
+  const walk = (parentId: number | null, depth: number) => {
+    (byParent.get(parentId) || []).forEach((folder) => {
+      result.push({ folder, depth });
+      walk(folder.id, depth + 1);
+    });
+  };
+  walk(null, 0);
+
+  return result;
+}
+
+const FolderIcon = (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z" />
+  </svg>
+);
+
+export function FolderSheet({
+  isOpen,
+  onClose,
+  mode,
+  folders,
+  selectedFolderId,
+  itemCount = 0,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: FolderSheetProps) {
+  const { t } = useTranslation();
+  const [isClosing, setIsClosing] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const tree = useMemo(() => buildTree(folders), [folders]);
+
+  // Reset state when opened
+  useEffect(() => {
+    if (isOpen) {
+      setNewName('');
+      setEditingId(null);
+      setConfirmDeleteId(null);
+      setIsBusy(false);
+    }
+  }, [isOpen]);
+
+  // Animated close handler
+  const handleAnimatedClose = useCallback(() => {
+    setIsClosing(true);
+    setTimeout(() => {
+      setIsClosing(false);
+      onClose();
+    }, 200);
+  }, [onClose]);
+
+  // Handle backdrop click
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget) {
+        handleAnimatedClose();
+      }
+    },
+    [handleAnimatedClose]
+  );
+
+  const handleSelect = useCallback(async (folderId: number | null) => {
+    setIsBusy(true);
+    try {
+      await onSelect(folderId);
+      handleAnimatedClose();
+    } catch (error) {
+      console.error('Failed to select folder:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [onSelect, handleAnimatedClose]);
+
+  // Новая папка создаётся внутри текущей (в режиме просмотра) или в корне
+  const handleCreate = useCallback(async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    setIsBusy(true);
+    try {
+      await onCreate(name, mode === 'browse' ? selectedFolderId : null);
+      setNewName('');
+    } catch (error) {
+      console.error('Failed to create folder:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [newName, mode, selectedFolderId, onCreate]);
+
+  const handleRename = useCallback(async () => {
+    const name = editingName.trim();
+    if (editingId === null || !name) return;
+
+    setIsBusy(true);
+    try {
+      await onRename(editingId, name);
+      setEditingId(null);
+    } catch (error) {
+      console.error('Failed to rename folder:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [editingId, editingName, onRename]);
+
+  // Удаление в два нажатия: первое показывает подтверждение
+  const handleDelete = useCallback(async (id: number) => {
+    if (confirmDeleteId !== id) {
+      setConfirmDeleteId(id);
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await onDelete(id);
+      setConfirmDeleteId(null);
+    } catch (error) {
+      console.error('Failed to delete folder:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [confirmDeleteId, onDelete]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className={`${styles.overlay} ${isClosing ? styles.closing : ''}`}
+      onClick={handleBackdropClick}
+    >
+      <div className={`${styles.sheet} ${isClosing ? styles.closing : ''}`}>
+        {/* Header */}
+        <div className={styles.header}>
+          <div className={styles.handle} />
+          <div className={styles.titleBlock}>
+            <h2 className={styles.title}>{t(mode === 'move' ? 'folders.move' : 'folders.title')}</h2>
+            {mode === 'move' && (
+              <span className={styles.subtitle}>{t('folders.items', { count: itemCount })}</span>
+            )}
+          </div>
+          <button className={styles.closeButton} onClick={handleAnimatedClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className={styles.content}>
+          <div className={styles.folderList}>
+            {/* Root row */}
+            <button
+              className={`${styles.folderRow} ${mode === 'browse' && selectedFolderId === null ? styles.selected : ''}`}
+              onClick={() => handleSelect(null)}
+              disabled={isBusy}
+            >
+              <span className={styles.folderIcon}>{FolderIcon}</span>
+              <span className={styles.folderName}>{t(mode === 'move' ? 'folders.none' : 'folders.allFiles')}</span>
+            </button>
+
+            {tree.map(({ folder, depth }) => (
+              <div
+                key={folder.id}
+                className={`${styles.folderRow} ${mode === 'browse' && selectedFolderId === folder.id ? styles.selected : ''}`}
+                style={{ paddingLeft: `calc(var(--spacing-md) + ${depth * 20}px)` }}
+              >
+                {editingId === folder.id ? (
+                  <input
+                    className={styles.input}
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    onBlur={() => setEditingId(null)}
+                    maxLength={MAX_FOLDER_NAME_LENGTH}
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    className={styles.folderMain}
+                    onClick={() => handleSelect(folder.id)}
+                    disabled={isBusy}
+                  >
+                    <span className={styles.folderIcon}>{FolderIcon}</span>
+                    <span className={styles.folderName}>{folder.name}</span>
+                    {getFolderItemCount(folder) > 0 && (
+                      <span className={styles.folderCount}>{getFolderItemCount(folder)}</span>
+                    )}
+                  </button>
+                )}
+
+                {/* Rename/delete - только в режиме просмотра */}
+                {mode === 'browse' && editingId !== folder.id && (
+                  <div className={styles.rowActions}>
+                    <button
+                      className={styles.iconButton}
+                      onClick={() => {
+                        setEditingId(folder.id);
+                        setEditingName(folder.name);
+                        setConfirmDeleteId(null);
+                      }}
+                      disabled={isBusy}
+                    >
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
+                      </svg>
+                    </button>
+                    <button
+                      className={`${styles.iconButton} ${confirmDeleteId === folder.id ? styles.danger : ''}`}
+                      onClick={() => handleDelete(folder.id)}
+                      disabled={isBusy}
+                    >
+                      {confirmDeleteId === folder.id ? t('folders.confirmDelete') : (
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          <path d="M3 6h18" />
+                          <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6" />
+                        </svg>
+                      )}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {mode === 'browse' && (
+            <p className={styles.hint}>
+              {t('folders.deleteHint')}
+            </p>
+          )}
+        </div>
+
+        {/* Footer - создание папки */}
+        <div className={styles.footer}>
+          <input
+            className={styles.input}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+            }}
+            placeholder={t('folders.newPlaceholder')}
+            maxLength={MAX_FOLDER_NAME_LENGTH}
+          />
+          <button
+            className={styles.createButton}
+            onClick={handleCreate}
+            disabled={isBusy || !newName.trim()}
+          >
+            {t('folders.create')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { FolderSheet } from './FolderSheet';
@@ -0,0 +1,63 @@
+import { ItemRecord, ItemKind } from '../../api/client';
+import { formatRelativeDate, getMediaTypeLabel } from '../../shared/formatters';
+import { MediaTypeIcons } from '../../shared/icons';
+import { useTranslation, MessageKey } from '../../i18n';
+import styles from './ItemCard.module.css';
+
+interface ItemCardProps {
+  item: ItemRecord;
+  onClick: (item: ItemRecord) => void;
+}
+
+export function ItemCard({ item, onClick }: ItemCardProps) {
+  const source = item.forwardFromChatTitle || item.forwardFromName;
+
+  return (
+    <button className={`${styles.card} ${styles[item.kind]}`} onClick={() => onClick(item)}>
+      <span className={styles.icon}>{MediaTypeIcons[item.kind]}</span>
+      <span className={styles.info}>
+        <span className={styles.title}>{item.title}</span>
+        {item.description && <span className={styles.description}>{item.description}</span>}
+        <span className={styles.meta}>
+          {getMediaTypeLabel(item.kind)} • {source && <span className={styles.source}>{source} • </span>}
+          {formatRelativeDate(item.createdAt)}
+        </span>
+      </span>
+    </button>
+  );
+}
+
+// Пустое состояние для каждого чипа
+const EMPTY_STATES: Record<'location' | 'contact' | 'poll', { icon: string; title: MessageKey; hint: MessageKey }> = {
+  location: { icon: '📍', title: 'empty.locations', hint: 'empty.locationsHint' },
+  contact: { icon: '👤', title: 'empty.contacts', hint: 'empty.contactsHint' },
+  poll: { icon: '📊', title: 'empty.polls', hint: 'empty.pollsHint' },
+};
+
+interface ItemListProps {
+  items: ItemRecord[];
+  kind: ItemKind;
+  onItemClick: (item: ItemRecord) => void;
+}
+
+export function ItemList({ items, kind, onItemClick }: ItemListProps) {
+  const { t } = useTranslation();
+  if (items.length === 0) {
+    const empty = EMPTY_STATES[kind === 'venue' ? 'location' : kind];
+    return (
+      <div className={styles.empty}>
+        <span className={styles.emptyIcon}>{empty.icon}</span>
+        <p>{t(empty.title)}</p>
+        <p className={styles.emptyHint}>{t(empty.hint)}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.list}>
+      {items.map(item => (
+        <ItemCard key={item.id} item={item} onClick={onItemClick} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useCallback, useMemo } from 'react';
+import { ItemRecord, LocationData, VenueData, ContactData, PollData } from '../../api/client';
+import { formatDate, getMediaTypeLabel } from '../../shared/formatters';
+import { useTranslation } from '../../i18n';
+import styles from './ItemViewer.module.css';
+
+interface ItemViewerProps {
+  item: ItemRecord;
+  onClose: () => void;
+  // Обычный режим: отправка в чат, удаление в корзину
+  onSend?: () => Promise<void>;
+  onDelete: () => Promise<void>;
+  // Переместить в папку (viewer закрывается, открывается выбор папки)
+  onMove?: () => void;
+  // Корзина: восстановление (onDelete - удаление навсегда)
+  onRestore?: () => Promise<void>;
+}
+
+// Ссылка на точку в OpenStreetMap
+function getMapUrl(data: LocationData): string {
+  return `https://www.openstreetmap.org/?mlat=${data.latitude}&mlon=${data.longitude}#map=16/${data.latitude}/${data.longitude}`;
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className={styles.field}>
+      <span className={styles.fieldLabel}>{label}</span>
+      <span className={styles.fieldValue}>{children}</span>
+    </div>
+  );
+}
+
+function LocationDetails({ item, data }: { item: ItemRecord; data: LocationData | VenueData }) {
+  const { t } = useTranslation();
+  const venue = item.kind === 'venue' ? data as VenueData : null;
+
+  return (
+    <div className={styles.fields}>
+      {venue && <Field label={t('item.title')}>{venue.title}</Field>}
+      {venue?.address && <Field label={t('item.address')}>{venue.address}</Field>}
+      <Field label={t('item.coordinates')}>
+        {data.latitude.toFixed(6)}, {data.longitude.toFixed(6)}
+        {data.horizontalAccuracy ? t('item.accuracy', { meters: Math.round(data.horizontalAccuracy) }) : ''}
+      </Field>
+      <Field label={t('item.map')}>
+        <a href={getMapUrl(data)} target="_blank" rel="noopener noreferrer">{t('item.openMap')}</a>
+      </Field>
+    </div>
+  );
+}
+
+function ContactDetails({ data }: { data: ContactData }) {
+  const { t } = useTranslation();
+  const name = [data.firstName, data.lastName].filter(Boolean).join(' ');
+
+  return (
+    <div className={styles.fields}>
+      <Field label={t('item.name')}>{name}</Field>
+      <Field label={t('item.phone')}>
+        <a href={`tel:${data.phoneNumber.replace(/[^\d+]/g, '')}`}>{data.phoneNumber}</a>
+      </Field>
+      {data.vcard && (
+        <div className={styles.field}>
+          <span className={styles.fieldLabel}>vCard</span>
+          <pre className={styles.vcard}>{data.vcard}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PollDetails({ data }: { data: PollData }) {
+  const { t } = useTranslation();
+  const isQuiz = data.type === 'quiz';
+
+  return (
+    <>
+      <p className={styles.question}>{data.question}</p>
+      <div className={styles.badges}>
+        <span className={styles.badge}>{t(isQuiz ? 'item.quiz' : 'item.poll')}</span>
+        {data.allowsMultipleAnswers && <span className={styles.badge}>{t('item.multipleAnswers')}</span>}
+        {data.isAnonymous && <span className={styles.badge}>{t('item.anonymous')}</span>}
+      </div>
+      <ul className={styles.options}>
+        {data.options.map((option, index) => (
+          <li
+            key={index}
+            className={`${styles.option} ${isQuiz && data.correctOptionId === index ? styles.correct : ''}`}
+          >
+            {option}
+          </li>
+        ))}
+      </ul>
+      {data.explanation && <p className={styles.explanation}>{data.explanation}</p>}
+    </>
+  );
+}
+
+export function ItemViewer({ item, onClose, onSend, onDelete, onMove, onRestore }: ItemViewerProps) {
+  const [isClosing, setIsClosing] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const { t } = useTranslation();
+
+  const isTrash = !!onRestore;
+  const source = item.forwardFromChatTitle || item.forwardFromName;
+  const data = useMemo(() => JSON.parse(item.data), [item.data]);
+
+  // Animated close handler
+  const handleAnimatedClose = useCallback(() => {
+    setIsClosing(true);
+    setTimeout(() => {
+      setIsClosing(false);
+      onClose();
+    }, 200);
+  }, [onClose]);
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget) {
+        handleAnimatedClose();
+      }
+    },
+    [handleAnimatedClose]
+  );
+
+  // Обёртка для действий: блокируем кнопки пока идёт запрос
+  const runAction = useCallback(async (action: () => Promise<void>, closeAfter: boolean) => {
+    setIsBusy(true);
+    try {
+      await action();
+      if (closeAfter) handleAnimatedClose();
+    } catch (error) {
+      console.error('[ItemViewer] Action failed:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [handleAnimatedClose]);
+
+  const handleSend = useCallback(() => {
+    if (!onSend) return;
+    runAction(async () => {
+      await onSend();
+      setIsSent(true);
+    }, false);
+  }, [onSend, runAction]);
+
+  return (
+    <div
+      className={`${styles.overlay} ${isClosing ? styles.closing : ''}`}
+      onClick={handleBackdropClick}
+    >
+      <div className={`${styles.sheet} ${isClosing ? styles.closing : ''}`}>
+        {/* Header */}
+        <div className={styles.header}>
+          <div className={styles.handle} />
+          <div className={styles.titleBlock}>
+            <h2 className={styles.title}>{getMediaTypeLabel(item.kind)}</h2>
+            <span className={styles.subtitle}>
+              {source ? `${source} • ` : ''}{formatDate(item.createdAt)}
+            </span>
+          </div>
+          <button className={styles.closeButton} onClick={handleAnimatedClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className={styles.content}>
+          {(item.kind === 'location' || item.kind === 'venue') && <LocationDetails item={item} data={data} />}
+          {item.kind === 'contact' && <ContactDetails data={data} />}
+          {item.kind === 'poll' && <PollDetails data={data} />}
+        </div>
+
+        {/* Footer */}
+        <div className={styles.footer}>
+          {isTrash ? (
+            <>
+              <button className={styles.deleteButton} onClick={() => runAction(onDelete, true)} disabled={isBusy}>
+                {t('common.deleteForever')}
+              </button>
+              <button className={styles.primaryButton} onClick={() => runAction(onRestore!, true)} disabled={isBusy}>
+                {t('common.restore')}
+              </button>
+            </>
+          ) : (
+            <>
+              <button className={styles.deleteButton} onClick={() => runAction(onDelete, true)} disabled={isBusy}>
+                {t('common.delete')}
+              </button>
+              {onMove && (
+                <button className={styles.secondaryButton} onClick={onMove} disabled={isBusy}>
+                  {t('common.toFolder')}
+                </button>
+              )}
+              {onSend && (
+                <button className={styles.primaryButton} onClick={handleSend} disabled={isBusy || isSent}>
+                  {t(isSent ? 'common.sentCheck' : 'common.sendToChat')}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ItemViewer } from './ItemViewer';
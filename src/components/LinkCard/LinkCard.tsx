@@ -2,6 +2,7 @@ import { LinkRecord } from '../../api/client';
 import { useLongPress } from '../../hooks/useLongPress';
 import { extractDomain } from '../../shared/utils';
 import { formatRelativeDate } from '../../shared/formatters';
+import { useTranslation } from '../../i18n';
 import styles from './LinkCard.module.css';
 
 interface LinkCardProps {
@@ -75,12 +76,13 @@ interface LinkListProps {
 }
 
 export function LinkList({ links, onLinkClick, onLinkLongPress, selectedLinks, isSelectionMode }: LinkListProps) {
+  const { t } = useTranslation();
   if (links.length === 0) {
     return (
       <div className={styles.empty}>
         <span className={styles.emptyIcon}>🔗</span>
-        <p>Ссылки не найдены</p>
-        <p className={styles.emptyHint}>Отправляйте ссылки боту, чтобы сохранить их с превью</p>
+        <p>{t('empty.links')}</p>
+        <p className={styles.emptyHint}>{t('empty.linksHint')}</p>
       </div>
     );
   }
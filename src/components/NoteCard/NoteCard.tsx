@@ -0,0 +1,49 @@
+import { NoteRecord } from '../../api/client';
+import { formatRelativeDate } from '../../shared/formatters';
+import { useTranslation } from '../../i18n';
+import styles from './NoteCard.module.css';
+
+interface NoteCardProps {
+  note: NoteRecord;
+  onClick: (note: NoteRecord) => void;
+}
+
+export function NoteCard({ note, onClick }: NoteCardProps) {
+  const source = note.forwardFromChatTitle || note.forwardFromName;
+
+  return (
+    <button className={styles.card} onClick={() => onClick(note)}>
+      <span className={styles.text}>{note.text}</span>
+      <span className={styles.meta}>
+        {source && <span className={styles.source}>{source} • </span>}
+        {formatRelativeDate(note.createdAt)}
+      </span>
+    </button>
+  );
+}
+
+interface NoteListProps {
+  notes: NoteRecord[];
+  onNoteClick: (note: NoteRecord) => void;
+}
+
+export function NoteList({ notes, onNoteClick }: NoteListProps) {
+  const { t } = useTranslation();
+  if (notes.length === 0) {
+    return (
+      <div className={styles.empty}>
+        <span className={styles.emptyIcon}>📝</span>
+        <p>{t('empty.notes')}</p>
+        <p className={styles.emptyHint}>{t('empty.notesHint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.list}>
+      {notes.map(note => (
+        <NoteCard key={note.id} note={note} onClick={onNoteClick} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useCallback, useMemo } from 'react';
+import { NoteRecord } from '../../api/client';
+import { formatDate } from '../../shared/formatters';
+import { parseEntities, renderMessageEntities } from '../../shared/messageEntities';
+import { useTranslation } from '../../i18n';
+import styles from './NoteViewer.module.css';
+
+const MAX_NOTE_LENGTH = 4096;
+
+interface NoteViewerProps {
+  note: NoteRecord;
+  onClose: () => void;
+  // Обычный режим: правка, отправка в чат, удаление в корзину
+  onSave?: (text: string) => Promise<void>;
+  onSend?: () => Promise<void>;
+  onDelete: () => Promise<void>;
+  // Переместить в папку (viewer закрывается, открывается выбор папки)
+  onMove?: () => void;
+  // Корзина: восстановление (onDelete - удаление навсегда)
+  onRestore?: () => Promise<void>;
+}
+
+export function NoteViewer({ note, onClose, onSave, onSend, onDelete, onMove, onRestore }: NoteViewerProps) {
+  const { t } = useTranslation();
+  const [isClosing, setIsClosing] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(note.text);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const isTrash = !!onRestore;
+  const entities = useMemo(() => parseEntities(note.entities), [note.entities]);
+  const body = useMemo(() => renderMessageEntities(note.text, entities), [note.text, entities]);
+  const source = note.forwardFromChatTitle || note.forwardFromName;
+
+  // Animated close handler
+  const handleAnimatedClose = useCallback(() => {
+    setIsClosing(true);
+    setTimeout(() => {
+      setIsClosing(false);
+      onClose();
+    }, 200);
+  }, [onClose]);
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget && !isEditing) {
+        handleAnimatedClose();
+      }
+    },
+    [handleAnimatedClose, isEditing]
+  );
+
+  // Обёртка для действий: блокируем кнопки пока идёт запрос
+  const runAction = useCallback(async (action: () => Promise<void>, closeAfter: boolean) => {
+    setIsBusy(true);
+    try {
+      await action();
+      if (closeAfter) handleAnimatedClose();
+    } catch (error) {
+      console.error('[NoteViewer] Action failed:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [handleAnimatedClose]);
+
+  const handleSave = useCallback(() => {
+    if (!onSave || !draft.trim()) return;
+    runAction(async () => {
+      await onSave(draft);
+      setIsEditing(false);
+    }, false);
+  }, [onSave, draft, runAction]);
+
+  const handleSend = useCallback(() => {
+    if (!onSend) return;
+    runAction(async () => {
+      await onSend();
+      setIsSent(true);
+    }, false);
+  }, [onSend, runAction]);
+
+  const startEditing = useCallback(() => {
+    setDraft(note.text);
+    setIsEditing(true);
+  }, [note.text]);
+
+  return (
+    <div
+      className={`${styles.overlay} ${isClosing ? styles.closing : ''}`}
+      onClick={handleBackdropClick}
+    >
+      <div className={`${styles.sheet} ${isClosing ? styles.closing : ''}`}>
+        {/* Header */}
+        <div className={styles.header}>
+          <div className={styles.handle} />
+          <div className={styles.titleBlock}>
+            <h2 className={styles.title}>{t('note.title')}</h2>
+            <span className={styles.subtitle}>
+              {source ? `${source} • ` : ''}{formatDate(note.createdAt)}
+            </span>
+          </div>
+          <button className={styles.closeButton} onClick={handleAnimatedClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className={styles.content}>
+          {isEditing ? (
+            <>
+              <div className={styles.textareaWrapper}>
+                <textarea
+                  className={styles.textarea}
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={8}
+                  maxLength={MAX_NOTE_LENGTH}
+                  autoFocus
+                />
+                <span className={styles.charCounter}>
+                  {draft.length} / {MAX_NOTE_LENGTH}
+                </span>
+              </div>
+              {entities.length > 0 && (
+                <p className={styles.hint}>
+                  {t('note.formattingKept')}
+                </p>
+              )}
+            </>
+          ) : (
+            <div className={styles.body}>{body}</div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={styles.footer}>
+          {isTrash ? (
+            <>
+              <button className={styles.deleteButton} onClick={() => runAction(onDelete, true)} disabled={isBusy}>
+                {t('common.deleteForever')}
+              </button>
+              <button className={styles.primaryButton} onClick={() => runAction(onRestore!, true)} disabled={isBusy}>
+                {t('common.restore')}
+              </button>
+            </>
+          ) : isEditing ? (
+            <>
+              <button className={styles.secondaryButton} onClick={() => setIsEditing(false)} disabled={isBusy}>
+                {t('common.cancel')}
+              </button>
+              <button className={styles.primaryButton} onClick={handleSave} disabled={isBusy || !draft.trim()}>
+                {isBusy ? t('common.saving') : t('common.save')}
+              </button>
+            </>
+          ) : (
+            <>
+              <button className={styles.deleteButton} onClick={() => runAction(onDelete, true)} disabled={isBusy}>
+                {t('common.delete')}
+              </button>
+              {onSave && (
+                <button className={styles.secondaryButton} onClick={startEditing} disabled={isBusy}>
+                  {t('common.edit')}
+                </button>
+              )}
+              {onMove && (
+                <button className={styles.secondaryButton} onClick={onMove} disabled={isBusy}>
+                  {t('common.toFolder')}
+                </button>
+              )}
+              {onSend && (
+                <button className={styles.primaryButton} onClick={handleSend} disabled={isBusy || isSent}>
+                  {t(isSent ? 'common.sentCheck' : 'common.sendToChat')}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { NoteViewer } from './NoteViewer';
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { SearchTag } from '../../utils/searchTagParser';
+import { useTranslation } from '../../i18n';
 import styles from './SearchBar.module.css';
 
 // SVG Search Icon (SF Symbols style)
@@ -110,7 +111,7 @@ export function SearchBar({
   onChange,
   onClear,
   onSearch,
-  placeholder = 'Поиск...',
+  placeholder,
   history = [],
   onHistorySelect,
   onHistoryRemove,
@@ -122,6 +123,7 @@ export function SearchBar({
   suggestions = [],
   onSuggestionSelect,
 }: SearchBarProps) {
+  const { t } = useTranslation();
   const [isFocused, setIsFocused] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [selectedSuggestionIdx, setSelectedSuggestionIdx] = useState(-1);
@@ -286,7 +288,7 @@ export function SearchBar({
             onFocus={() => setIsFocused(true)}
             onBlur={() => setTimeout(() => setIsFocused(false), 150)}
             onKeyDown={handleKeyDown}
-            placeholder={tags.length > 0 ? '' : placeholder}
+            placeholder={tags.length > 0 ? '' : placeholder ?? t('search.placeholder')}
           />
         </div>
         {showClear && (
@@ -340,7 +342,7 @@ export function SearchBar({
         <div className={styles.dropdown}>
           <div className={styles.dropdownHeader}>
             <span className={styles.dropdownTitle}>
-              {autocompleteMode === 'from' ? 'От кого' : 'Из канала'}
+              {t(autocompleteMode === 'from' ? 'search.fromTitle' : 'search.chatTitle')}
             </span>
           </div>
           {autocompleteOptions.map(item => (
@@ -361,14 +363,14 @@ export function SearchBar({
       {showHistory && !showAutocomplete && (
         <div className={styles.dropdown}>
           <div className={styles.dropdownHeader}>
-            <span className={styles.dropdownTitle}>Недавние</span>
+            <span className={styles.dropdownTitle}>{t('search.recent')}</span>
             {onHistoryClear && (
               <button
                 className={styles.dropdownClear}
                 onClick={onHistoryClear}
                 onMouseDown={(e) => e.preventDefault()}
               >
-                Очистить
+                {t('search.clear')}
               </button>
             )}
           </div>
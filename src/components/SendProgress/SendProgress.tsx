@@ -0,0 +1,29 @@
+import { SendFilesJob } from '../../api/client';
+import { useTranslation } from '../../i18n';
+import styles from './SendProgress.module.css';
+
+interface SendProgressProps {
+  job: SendFilesJob;
+}
+
+/**
+ * Прогресс пакетной отправки файлов в чат (задача выполняется на сервере)
+ */
+export function SendProgress({ job }: SendProgressProps) {
+  const { t } = useTranslation();
+  const { done, total } = job.progress;
+  const progress = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <div className={styles.toast}>
+      <span className={styles.text}>
+        {job.status === 'pending' && done === 0
+          ? t('app.sendQueued')
+          : t('app.sendProgress', { done, total })}
+      </span>
+      <div className={styles.progressBar}>
+        <div className={styles.progressFill} style={{ width: `${progress}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { SendProgress } from './SendProgress';
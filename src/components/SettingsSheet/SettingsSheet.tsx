@@ -0,0 +1,166 @@
+import { useCallback, useState } from 'react';
+import { UserSettings } from '../../api/client';
+import { useTranslation, Locale, MessageKey } from '../../i18n';
+import styles from './SettingsSheet.module.css';
+
+// Пресеты - те же, что в меню /settings бота
+const RETENTION_OPTIONS: { value: number; label: MessageKey }[] = [
+  { value: 7, label: 'settings.sevenDays' },
+  { value: 30, label: 'settings.thirtyDays' },
+  { value: 90, label: 'settings.ninetyDays' },
+  { value: 365, label: 'settings.year' },
+];
+
+const SHARE_EXPIRY_OPTIONS: { value: number | null; label: MessageKey | null }[] = [
+  { value: null, label: null }, // ∞
+  { value: 24, label: 'settings.oneDay' },
+  { value: 168, label: 'settings.sevenDays' },
+  { value: 720, label: 'settings.thirtyDays' },
+];
+
+// Названия языков не переводятся
+const LANGUAGE_OPTIONS: { value: Locale | null; label: string | null }[] = [
+  { value: null, label: null }, // Авто
+  { value: 'ru', label: 'Русский' },
+  { value: 'en', label: 'English' },
+];
+
+type BooleanSetting = 'silentMode' | 'saveLinks' | 'saveStickers' | 'notifyDuplicates';
+
+interface SettingsSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: UserSettings | null;
+  onChange: (changes: Partial<UserSettings>) => void;
+}
+
+export function SettingsSheet({ isOpen, onClose, settings, onChange }: SettingsSheetProps) {
+  const [isClosing, setIsClosing] = useState(false);
+  const { t } = useTranslation();
+
+  // Animated close handler
+  const handleAnimatedClose = useCallback(() => {
+    setIsClosing(true);
+    setTimeout(() => {
+      setIsClosing(false);
+      onClose();
+    }, 200);
+  }, [onClose]);
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget) {
+        handleAnimatedClose();
+      }
+    },
+    [handleAnimatedClose]
+  );
+
+  if (!isOpen) return null;
+
+  const renderToggle = (key: BooleanSetting, title: string, hint: string) => (
+    <button
+      className={styles.row}
+      onClick={() => settings && onChange({ [key]: !settings[key] })}
+      disabled={!settings}
+    >
+      <span className={styles.rowText}>
+        <span className={styles.rowTitle}>{title}</span>
+        <span className={styles.rowHint}>{hint}</span>
+      </span>
+      <span className={`${styles.switch} ${settings?.[key] ? styles.on : ''}`} />
+    </button>
+  );
+
+  return (
+    <div className={`${styles.overlay} ${isClosing ? styles.closing : ''}`} onClick={handleBackdropClick}>
+      <div className={`${styles.sheet} ${isClosing ? styles.closing : ''}`}>
+        {/* Header */}
+        <div className={styles.header}>
+          <div className={styles.handle} />
+          <h2 className={styles.title}>{t('settings.title')}</h2>
+          <button className={styles.closeButton} onClick={handleAnimatedClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className={styles.content}>
+          {!settings ? (
+            <div className={styles.loading}>
+              <div className={styles.spinner} />
+            </div>
+          ) : (
+            <>
+              <div className={styles.section}>
+                <h3 className={styles.sectionTitle}>{t('settings.botSaving')}</h3>
+                <div className={styles.list}>
+                  {renderToggle('saveLinks', t('settings.saveLinks'), t('settings.saveLinksHint'))}
+                  {renderToggle('saveStickers', t('settings.saveStickers'), t('settings.saveStickersHint'))}
+                </div>
+              </div>
+
+              <div className={styles.section}>
+                <h3 className={styles.sectionTitle}>{t('settings.reactions')}</h3>
+                <div className={styles.list}>
+                  {renderToggle('silentMode', t('settings.silentMode'), t('settings.silentModeHint'))}
+                  {renderToggle('notifyDuplicates', t('settings.duplicates'), t('settings.duplicatesHint'))}
+                </div>
+              </div>
+
+              <div className={styles.section}>
+                <h3 className={styles.sectionTitle}>{t('settings.trashRetention')}</h3>
+                <div className={styles.chips}>
+                  {RETENTION_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      className={`${styles.chip} ${settings.trashRetentionDays === option.value ? styles.active : ''}`}
+                      onClick={() => onChange({ trashRetentionDays: option.value })}
+                    >
+                      {t(option.label)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className={styles.section}>
+                <h3 className={styles.sectionTitle}>{t('settings.shareExpiry')}</h3>
+                <div className={styles.chips}>
+                  {SHARE_EXPIRY_OPTIONS.map((option) => (
+                    <button
+                      key={option.value ?? 'never'}
+                      className={`${styles.chip} ${settings.defaultShareExpiryHours === option.value ? styles.active : ''}`}
+                      onClick={() => onChange({ defaultShareExpiryHours: option.value })}
+                    >
+                      {option.label ? t(option.label) : '∞'}
+                    </button>
+                  ))}
+                </div>
+                <p className={styles.hint}>{t('settings.shareExpiryHint')}</p>
+              </div>
+
+              <div className={styles.section}>
+                <h3 className={styles.sectionTitle}>{t('settings.language')}</h3>
+                <div className={styles.chips}>
+                  {LANGUAGE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value ?? 'auto'}
+                      className={`${styles.chip} ${settings.language === option.value ? styles.active : ''}`}
+                      onClick={() => onChange({ language: option.value })}
+                    >
+                      {option.label ?? t('settings.languageAuto')}
+                    </button>
+                  ))}
+                </div>
+                <p className={styles.hint}>{t('settings.languageHint')}</p>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
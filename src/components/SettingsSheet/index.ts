@@ -0,0 +1 @@
+export { SettingsSheet } from './SettingsSheet';
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { ShareResponse } from '../../api/client';
 import { CopyIcon, CheckIcon } from '../../shared/icons';
+import { useTranslation } from '../../i18n';
 import styles from './ShareSection.module.css';
 
 interface ShareSectionProps {
@@ -12,6 +13,7 @@ interface ShareSectionProps {
 type CopiedType = 'telegram' | 'web' | null;
 
 export function ShareSection({ shareData, onDisable, isDisabling }: ShareSectionProps) {
+  const { t } = useTranslation();
   const [copied, setCopied] = useState<CopiedType>(null);
 
   const handleCopy = useCallback(async (type: 'telegram' | 'web') => {
@@ -28,20 +30,20 @@ export function ShareSection({ shareData, onDisable, isDisabling }: ShareSection
   }, [shareData.shareUrl, shareData.webUrl]);
 
   const formatExpiresAt = (expiresAt: string | null): string => {
-    if (!expiresAt) return 'Бессрочно';
+    if (!expiresAt) return t('share.never');
     const date = new Date(expiresAt);
     const now = new Date();
     const diff = date.getTime() - now.getTime();
 
-    if (diff < 0) return 'Истекла';
+    if (diff < 0) return t('share.expired');
 
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
     const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
 
     if (days > 0) {
-      return `${days} дн. ${hours} ч.`;
+      return t('share.daysHours', { days, hours });
     }
-    return `${hours} ч.`;
+    return t('share.hours', { hours });
   };
 
   return (
@@ -63,7 +65,7 @@ export function ShareSection({ shareData, onDisable, isDisabling }: ShareSection
       {/* Web URL */}
       {shareData.webUrl && (
         <div className={styles.urlBlock}>
-          <div className={styles.urlLabel}>Веб-ссылка:</div>
+          <div className={styles.urlLabel}>{t('share.webLink')}</div>
           <div className={styles.urlRow}>
             <span className={styles.url}>{shareData.webUrl}</span>
             <button
@@ -79,11 +81,11 @@ export function ShareSection({ shareData, onDisable, isDisabling }: ShareSection
       {/* Stats */}
       <div className={styles.stats}>
         <span>
-          Скачали: {shareData.share.useCount}
+          {t('share.downloads', { count: shareData.share.useCount })}
           {shareData.share.maxRecipients && ` / ${shareData.share.maxRecipients}`}
         </span>
         <span className={styles.separator}>•</span>
-        <span>Срок: {formatExpiresAt(shareData.share.expiresAt)}</span>
+        <span>{t('share.expiry', { value: formatExpiresAt(shareData.share.expiresAt) })}</span>
       </div>
 
       {/* Disable button */}
@@ -92,7 +94,7 @@ export function ShareSection({ shareData, onDisable, isDisabling }: ShareSection
         onClick={onDisable}
         disabled={isDisabling}
       >
-        {isDisabling ? 'Отключение...' : 'Отключить ссылку'}
+        {t(isDisabling ? 'share.disabling' : 'share.disable')}
       </button>
     </div>
   );
@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient, FileRecord, LinkRecord, SpaceRecord } from '../../api/client';
+import { toggleInSet } from '../../shared/utils';
+import { TRASH_RETENTION_DAYS } from '../../constants/config';
+import { FileGrid } from '../FileGrid/FileGrid';
+import { LinkList } from '../LinkCard/LinkCard';
+import { FileViewer } from '../FileViewer/FileViewer';
+import { useTranslation } from '../../i18n';
+import styles from './SpaceView.module.css';
+
+interface SpaceViewProps {
+  hapticFeedback: {
+    light: () => void;
+    medium: () => void;
+    success: () => void;
+    error: () => void;
+    warning: () => void;
+  };
+  isOnCooldown: (fileId: number) => boolean;
+  // Файл отправлен в личный чат (кулдаун общий с основной лентой)
+  onFileSent: (fileId: number) => void;
+  // Изменилось содержимое пространства (удаление, восстановление) - обновить счётчики
+  onChange: () => void;
+}
+
+export function SpaceView({ hapticFeedback, isOnCooldown, onFileSent, onChange }: SpaceViewProps) {
+  const { t } = useTranslation();
+  const [spaces, setSpaces] = useState<SpaceRecord[]>([]);
+  const [spaceId, setSpaceId] = useState<number | null>(null);
+  const [files, setFiles] = useState<FileRecord[]>([]);
+  const [links, setLinks] = useState<LinkRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Корзина пространства (только для администраторов)
+  const [isTrash, setIsTrash] = useState(false);
+
+  // Selection state (только для администраторов пространства)
+  const [selectedFiles, setSelectedFiles] = useState<Set<number>>(new Set());
+  const [selectedLinks, setSelectedLinks] = useState<Set<number>>(new Set());
+  const [isSelectionMode, setIsSelectionMode] = useState(false);
+
+  // FileViewer state
+  const [viewingFile, setViewingFile] = useState<FileRecord | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const space = spaces.find(s => s.id === spaceId) || null;
+
+  // Load spaces list, keep current space if still available
+  useEffect(() => {
+    apiClient.getSpaces()
+      .then(result => {
+        setSpaces(result.items);
+        setSpaceId(prev => result.items.some(s => s.id === prev) ? prev : result.items[0]?.id ?? null);
+        if (result.items.length === 0) setIsLoading(false);
+      })
+      .catch(error => {
+        console.error('Error loading spaces:', error);
+        setIsLoading(false);
+      });
+  }, []);
+
+  // Load content (or trash) of the selected space
+  const loadSpace = useCallback(async (id: number, trash: boolean) => {
+    setIsLoading(true);
+    try {
+      if (trash) {
+        const result = await apiClient.getSpaceTrash(id);
+        setFiles(result.files);
+        setLinks(result.links);
+      } else {
+        const [filesResult, linksResult] = await Promise.all([
+          apiClient.getSpaceFiles(id, { page: 1, limit: 50 }),
+          apiClient.getSpaceLinks(id, { page: 1, limit: 50 }),
+        ]);
+        setFiles(filesResult.items);
+        setLinks(linksResult.items);
+      }
+    } catch (error) {
+      console.error('Error loading space:', error);
+      setFiles([]);
+      setLinks([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (spaceId !== null) {
+      loadSpace(spaceId, isTrash);
+    }
+  }, [spaceId, isTrash, loadSpace]);
+
+  // Exit selection mode
+  const exitSelectionMode = useCallback(() => {
+    setIsSelectionMode(false);
+    setSelectedFiles(new Set());
+    setSelectedLinks(new Set());
+  }, []);
+
+  const handleSelectSpace = useCallback((id: number) => {
+    hapticFeedback.light();
+    exitSelectionMode();
+    setIsTrash(false);
+    setSpaceId(id);
+  }, [hapticFeedback, exitSelectionMode]);
+
+  const handleToggleTrash = useCallback(() => {
+    hapticFeedback.light();
+    exitSelectionMode();
+    setIsTrash(prev => !prev);
+  }, [hapticFeedback, exitSelectionMode]);
+
+  // Handle file click (в корзине нажатие сразу выбирает - для восстановления)
+  const handleFileClick = useCallback((file: FileRecord) => {
+    hapticFeedback.light();
+
+    if (isSelectionMode || isTrash) {
+      setIsSelectionMode(true);
+      setSelectedFiles(prev => toggleInSet(prev, file.id));
+    } else {
+      setViewingFile(file);
+    }
+  }, [hapticFeedback, isSelectionMode, isTrash]);
+
+  // Handle link click
+  const handleLinkClick = useCallback((link: LinkRecord) => {
+    hapticFeedback.light();
+
+    if (isSelectionMode || isTrash) {
+      setIsSelectionMode(true);
+      setSelectedLinks(prev => toggleInSet(prev, link.id));
+    } else {
+      window.open(link.url, '_blank');
+    }
+  }, [hapticFeedback, isSelectionMode, isTrash]);
+
+  // Long press - enter selection mode (участники без прав удаления только смотрят)
+  const handleFileLongPress = useCallback((file: FileRecord) => {
+    if (!space?.canDelete) return;
+    hapticFeedback.medium();
+    setIsSelectionMode(true);
+    setSelectedFiles(new Set([file.id]));
+  }, [hapticFeedback, space?.canDelete]);
+
+  const handleLinkLongPress = useCallback((link: LinkRecord) => {
+    if (!space?.canDelete) return;
+    hapticFeedback.medium();
+    setIsSelectionMode(true);
+    setSelectedLinks(new Set([link.id]));
+  }, [hapticFeedback, space?.canDelete]);
+
+  // Send file to the user's own chat
+  const handleSend = useCallback(async (file: FileRecord) => {
+    if (isOnCooldown(file.id)) {
+      hapticFeedback.warning();
+      return;
+    }
+    if (isSending) return;
+
+    setIsSending(true);
+    try {
+      await apiClient.sendFile(file.id);
+      onFileSent(file.id);
+      hapticFeedback.success();
+      setViewingFile(null);
+    } catch (error) {
+      console.error('Error sending space file:', error);
+      hapticFeedback.error();
+    } finally {
+      setIsSending(false);
+    }
+  }, [hapticFeedback, isOnCooldown, isSending, onFileSent]);
+
+  // Delete selected files and links (moves them to trash of the space)
+  const handleDeleteSelected = useCallback(async () => {
+    if (!space || (selectedFiles.size === 0 && selectedLinks.size === 0)) return;
+
+    hapticFeedback.medium();
+    try {
+      await Promise.all([
+        ...Array.from(selectedFiles).map(id => apiClient.deleteSpaceFile(space.id, id)),
+        ...Array.from(selectedLinks).map(id => apiClient.deleteSpaceLink(space.id, id)),
+      ]);
+
+      setFiles(prev => prev.filter(f => !selectedFiles.has(f.id)));
+      setLinks(prev => prev.filter(l => !selectedLinks.has(l.id)));
+      exitSelectionMode();
+      hapticFeedback.success();
+      onChange();
+    } catch (error) {
+      console.error('Error deleting from space:', error);
+      hapticFeedback.error();
+    }
+  }, [space, selectedFiles, selectedLinks, hapticFeedback, exitSelectionMode, onChange]);
+
+  // Restore selected files and links from trash of the space
+  const handleRestoreSelected = useCallback(async () => {
+    if (!space || (selectedFiles.size === 0 && selectedLinks.size === 0)) return;
+
+    hapticFeedback.light();
+    try {
+      await Promise.all([
+        ...Array.from(selectedFiles).map(id => apiClient.restoreSpaceFile(space.id, id)),
+        ...Array.from(selectedLinks).map(id => apiClient.restoreSpaceLink(space.id, id)),
+      ]);
+
+      setFiles(prev => prev.filter(f => !selectedFiles.has(f.id)));
+      setLinks(prev => prev.filter(l => !selectedLinks.has(l.id)));
+      exitSelectionMode();
+      hapticFeedback.success();
+      onChange();
+    } catch (error) {
+      console.error('Error restoring in space:', error);
+      hapticFeedback.error();
+    }
+  }, [space, selectedFiles, selectedLinks, hapticFeedback, exitSelectionMode, onChange]);
+
+  // No spaces yet - explain how to add the bot to a group or channel
+  if (!isLoading && spaces.length === 0) {
+    return (
+      <div className={styles.empty}>
+        <span className={styles.emptyIcon}>👥</span>
+        <h3 className={styles.emptyTitle}>{t('spaces.empty')}</h3>
+        <p className={styles.emptyHint}>{t('spaces.emptyHint')}</p>
+      </div>
+    );
+  }
+
+  const selectedCount = selectedFiles.size + selectedLinks.size;
+
+  return (
+    <div className={styles.container}>
+      {/* Selection header */}
+      {isSelectionMode ? (
+        <div className={styles.selectionHeader}>
+          <button onClick={exitSelectionMode} className={styles.cancelBtn}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+          <span className={styles.selectionCount}>{t('common.selected', { count: selectedCount })}</span>
+          {isTrash ? (
+            <button
+              onClick={handleRestoreSelected}
+              className={styles.restoreBtn}
+              disabled={selectedCount === 0}
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+                <path d="M3 3v5h5" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              onClick={handleDeleteSelected}
+              className={styles.deleteBtn}
+              disabled={selectedCount === 0}
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M3 6h18" />
+                <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6" />
+              </svg>
+            </button>
+          )}
+        </div>
+      ) : (
+        /* Space switcher */
+        <div className={styles.switcher}>
+          {spaces.map(s => (
+            <button
+              key={s.id}
+              className={`${styles.spaceChip} ${s.id === spaceId ? styles.selected : ''}`}
+              onClick={() => handleSelectSpace(s.id)}
+            >
+              <span className={styles.spaceTitle}>{s.title}</span>
+              <span className={styles.role}>{t(s.role === 'admin' ? 'spaces.admin' : 'spaces.member')}</span>
+            </button>
+          ))}
+          {space?.canDelete && (
+            <button
+              className={`${styles.spaceChip} ${isTrash ? styles.selected : ''}`}
+              onClick={handleToggleTrash}
+            >
+              <span className={styles.spaceTitle}>🗑 {t('spaces.trash')}</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {space && !space.canDelete && !isLoading && (
+        <div className={styles.viewOnly}>{t('spaces.viewOnly')}</div>
+      )}
+
+      {isTrash && !isLoading && (files.length > 0 || links.length > 0) && (
+        <div className={styles.viewOnly}>{t('spaces.trashHint', { count: TRASH_RETENTION_DAYS })}</div>
+      )}
+
+      {isLoading ? (
+        <div className={styles.loading}>
+          <div className="spinner" />
+        </div>
+      ) : files.length === 0 && links.length === 0 && isTrash ? (
+        <div className={styles.empty}>
+          <span className={styles.emptyIcon}>🗑</span>
+          <h3 className={styles.emptyTitle}>{t('trash.empty')}</h3>
+          <p className={styles.emptyHint}>{t('trash.emptyHint', { count: TRASH_RETENTION_DAYS })}</p>
+        </div>
+      ) : files.length === 0 && links.length === 0 ? (
+        <div className={styles.empty}>
+          <span className={styles.emptyIcon}>📭</span>
+          <h3 className={styles.emptyTitle}>{t('spaces.noContent')}</h3>
+          <p className={styles.emptyHint}>{t('spaces.noContentHint')}</p>
+        </div>
+      ) : (
+        <>
+          {links.length > 0 && (
+            <LinkList
+              links={links}
+              onLinkClick={handleLinkClick}
+              onLinkLongPress={handleLinkLongPress}
+              selectedLinks={selectedLinks}
+              isSelectionMode={isSelectionMode}
+            />
+          )}
+          {files.length > 0 && (
+            <FileGrid
+              files={files}
+              onFileClick={handleFileClick}
+              onFileLongPress={handleFileLongPress}
+              selectedFiles={selectedFiles}
+              isSelectionMode={isSelectionMode}
+              isOnCooldown={isOnCooldown}
+            />
+          )}
+        </>
+      )}
+
+      {/* File Viewer modal - без подписи и публичных ссылок: файл принадлежит чату */}
+      {viewingFile && (
+        <FileViewer
+          file={viewingFile}
+          onClose={() => setViewingFile(null)}
+          onSend={handleSend}
+          isOnCooldown={isOnCooldown(viewingFile.id)}
+          isSending={isSending}
+          canShare={false}
+        />
+      )}
+    </div>
+  );
+}
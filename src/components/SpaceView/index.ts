@@ -0,0 +1 @@
+export { SpaceView } from './SpaceView';
@@ -2,6 +2,8 @@ import { useMemo, useCallback, useState } from 'react';
 import { FileRecord, CategoryStats, MediaType } from '../../api/client';
 import { formatFileSize, getMediaTypeLabel } from '../../shared/formatters';
 import { MediaTypeIcons } from '../../shared/icons';
+import { ExportSection } from '../ExportSection';
+import { useTranslation } from '../../i18n';
 import styles from './StatsSheet.module.css';
 
 // Categories to display (ordered)
@@ -12,9 +14,11 @@ interface StatsSheetProps {
   onClose: () => void;
   files: FileRecord[];
   stats: CategoryStats[];
+  folderCount: number;
   trashCount: number;
   onCategoryClick: (category: string) => void;
   onSourceClick: (source: string) => void;
+  onSettingsClick: () => void;
 }
 
 interface SourceStats {
@@ -28,10 +32,13 @@ export function StatsSheet({
   onClose,
   files,
   stats,
+  folderCount,
   trashCount,
   onCategoryClick,
   onSourceClick,
+  onSettingsClick,
 }: StatsSheetProps) {
+  const { t } = useTranslation();
   const [isClosing, setIsClosing] = useState(false);
 
   // Animated close handler
@@ -63,7 +70,14 @@ export function StatsSheet({
       audio: 0,
       voice: 0,
       video_note: 0,
+      animation: 0,
+      sticker: 0,
       link: 0,
+      note: 0,
+      location: 0,
+      venue: 0,
+      contact: 0,
+      poll: 0,
     };
 
     files.forEach((file) => {
@@ -139,6 +153,11 @@ export function StatsSheet({
     [handleAnimatedClose, onSourceClick]
   );
 
+  const handleSettingsClick = useCallback(() => {
+    handleAnimatedClose();
+    onSettingsClick();
+  }, [handleAnimatedClose, onSettingsClick]);
+
   if (!isOpen) return null;
 
   return (
@@ -147,7 +166,7 @@ export function StatsSheet({
         {/* Header */}
         <div className={styles.header}>
           <div className={styles.handle} />
-          <h2 className={styles.title}>Статистика</h2>
+          <h2 className={styles.title}>{t('stats.title')}</h2>
           <button className={styles.closeButton} onClick={handleAnimatedClose}>
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="M18 6 6 18" />
@@ -162,19 +181,28 @@ export function StatsSheet({
           <div className={styles.summary}>
             <div className={styles.summaryItem}>
               <span className={styles.summaryValue}>{totalFiles}</span>
-              <span className={styles.summaryLabel}>Всего файлов</span>
+              <span className={styles.summaryLabel}>{t('stats.totalFiles')}</span>
             </div>
             <div className={styles.summaryDivider} />
             <div className={styles.summaryItem}>
               <span className={styles.summaryValue}>{formatFileSize(totalSize) || '0 B'}</span>
-              <span className={styles.summaryLabel}>Общий размер</span>
+              <span className={styles.summaryLabel}>{t('stats.totalSize')}</span>
             </div>
+            {folderCount > 0 && (
+              <>
+                <div className={styles.summaryDivider} />
+                <div className={styles.summaryItem}>
+                  <span className={styles.summaryValue}>{folderCount}</span>
+                  <span className={styles.summaryLabel}>{t('stats.folders')}</span>
+                </div>
+              </>
+            )}
             {trashCount > 0 && (
               <>
                 <div className={styles.summaryDivider} />
                 <div className={styles.summaryItem}>
                   <span className={styles.summaryValue}>{trashCount}</span>
-                  <span className={styles.summaryLabel}>В корзине</span>
+                  <span className={styles.summaryLabel}>{t('stats.inTrash')}</span>
                 </div>
               </>
             )}
@@ -182,7 +210,7 @@ export function StatsSheet({
 
           {/* Categories */}
           <div className={styles.section}>
-            <h3 className={styles.sectionTitle}>По категориям</h3>
+            <h3 className={styles.sectionTitle}>{t('stats.byCategory')}</h3>
             <div className={styles.categoryList}>
               {CATEGORIES.map((category) => {
                 const count = getCategoryCount(category);
@@ -218,7 +246,7 @@ export function StatsSheet({
           {/* Top Sources */}
           {topSources.length > 0 && (
             <div className={styles.section}>
-              <h3 className={styles.sectionTitle}>Источники</h3>
+              <h3 className={styles.sectionTitle}>{t('stats.sources')}</h3>
               <div className={styles.sourceList}>
                 {topSources.map((source) => (
                   <button
@@ -246,6 +274,30 @@ export function StatsSheet({
               </div>
             </div>
           )}
+
+          {/* Export */}
+          <div className={styles.section}>
+            <h3 className={styles.sectionTitle}>{t('stats.export')}</h3>
+            <ExportSection />
+          </div>
+
+          {/* Settings */}
+          <div className={styles.section}>
+            <div className={styles.categoryList}>
+              <button className={styles.categoryRow} onClick={handleSettingsClick}>
+                <span className={styles.sourceIcon}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z" />
+                    <circle cx="12" cy="12" r="3" />
+                  </svg>
+                </span>
+                <span className={styles.categoryName}>{t('stats.settings')}</span>
+                <svg className={styles.chevron} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </button>
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -3,9 +3,10 @@ import { FileRecord } from '../../api/client';
 import { FileCard } from '../FileCard';
 import { DayCheckbox } from '../DayCheckbox';
 import { formatDateHeader } from '../../shared/formatters';
-import { groupByDateField } from '../../shared/utils';
+import { groupByDateField, collapseAlbums } from '../../shared/utils';
 import { useAutoScroll } from '../../hooks/useAutoScroll';
 import { LONG_PRESS_MS } from '../../constants/config';
+import { useTranslation } from '../../i18n';
 import gridStyles from '../../styles/Grid.module.css';
 import dateHeaderStyles from '../../styles/DateHeader.module.css';
 import layoutStyles from './Timeline.module.css';
@@ -38,6 +39,7 @@ export function Timeline({
   hapticFeedback,
   scrollContainerRef
 }: TimelineProps) {
+  const { t } = useTranslation();
   const groupedFiles = useMemo(() => groupByDateField(files, 'createdAt'), [files]);
 
   // Drag selection state
@@ -278,8 +280,8 @@ export function Timeline({
             <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z" />
           </svg>
         </div>
-        <h3 className={styles.emptyTitle}>Хранилище пусто</h3>
-        <p className={styles.emptyHint}>Пересылайте файлы боту,<br />чтобы они появились здесь</p>
+        <h3 className={styles.emptyTitle}>{t('empty.storage')}</h3>
+        <p className={styles.emptyHint}>{t('empty.forwardHint')}<br />{t('empty.forwardHintEnd')}</p>
       </div>
     );
   }
@@ -316,7 +318,7 @@ export function Timeline({
             </div>
           </div>
           <div className={styles.grid}>
-            {dateFiles.map(file => (
+            {collapseAlbums(dateFiles).map(({ file, albumCount }) => (
               <FileCard
                 key={file.id}
                 file={file}
@@ -327,6 +329,7 @@ export function Timeline({
                 isOnCooldown={isOnCooldown?.(file.id)}
                 isFavorite={file.isFavorite}
                 includeDataFileId
+                albumCount={albumCount}
               />
             ))}
           </div>
@@ -3,6 +3,7 @@ import { FileRecord } from '../../api/client';
 import { MediaTypeIcons } from '../../shared/icons';
 import { formatFileSize, formatDuration, formatDate, getDaysRemaining, getMediaTypeLabel } from '../../shared/formatters';
 import { getEffectiveMediaType } from '../../shared/mediaType';
+import { useTranslation } from '../../i18n';
 import styles from './TrashFileViewer.module.css';
 
 interface TrashFileViewerProps {
@@ -12,6 +13,7 @@ interface TrashFileViewerProps {
   onDelete: (file: FileRecord) => void;
   isRestoring?: boolean;
   isDeleting?: boolean;
+  retentionDays?: number;
 }
 
 export function TrashFileViewer({
@@ -20,9 +22,11 @@ export function TrashFileViewer({
   onRestore,
   onDelete,
   isRestoring,
-  isDeleting
+  isDeleting,
+  retentionDays
 }: TrashFileViewerProps) {
-  const daysRemaining = getDaysRemaining(file.deletedAt!);
+  const { t } = useTranslation();
+  const daysRemaining = getDaysRemaining(file.deletedAt!, retentionDays);
   const isProcessing = isRestoring || isDeleting;
 
   const handleRestore = useCallback(() => {
@@ -52,7 +56,7 @@ export function TrashFileViewer({
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="m15 18-6-6 6-6" />
             </svg>
-            <span>Назад</span>
+            <span>{t('common.back')}</span>
           </button>
 
           <div className={styles.headerTitle}>
@@ -86,8 +90,8 @@ export function TrashFileViewer({
           {/* Days remaining warning */}
           <div className={styles.deleteWarning}>
             {daysRemaining === 0
-              ? 'Будет удалён сегодня автоматически'
-              : `Удалится автоматически через ${daysRemaining} дн.`
+              ? t('trash.deletesToday')
+              : t('trash.deletesIn', { count: daysRemaining })
             }
           </div>
 
@@ -105,49 +109,49 @@ export function TrashFileViewer({
           <div className={styles.meta}>
             {file.fileName && (
               <div className={styles.metaItem}>
-                <span className={styles.metaLabel}>Название:</span>
+                <span className={styles.metaLabel}>{t('viewer.name')}</span>
                 <span>{file.fileName}</span>
               </div>
             )}
 
             {file.mimeType && (
               <div className={styles.metaItem}>
-                <span className={styles.metaLabel}>Тип:</span>
+                <span className={styles.metaLabel}>{t('viewer.type')}</span>
                 <span>{file.mimeType}</span>
               </div>
             )}
 
             {file.fileSize && (
               <div className={styles.metaItem}>
-                <span className={styles.metaLabel}>Размер:</span>
+                <span className={styles.metaLabel}>{t('viewer.size')}</span>
                 <span>{formatFileSize(file.fileSize)}</span>
               </div>
             )}
 
             {file.duration && (
               <div className={styles.metaItem}>
-                <span className={styles.metaLabel}>Длительность:</span>
+                <span className={styles.metaLabel}>{t('viewer.duration')}</span>
                 <span>{formatDuration(file.duration)}</span>
               </div>
             )}
 
             {(file.width && file.height) && (
               <div className={styles.metaItem}>
-                <span className={styles.metaLabel}>Разрешение:</span>
+                <span className={styles.metaLabel}>{t('viewer.resolution')}</span>
                 <span>{file.width} × {file.height}</span>
               </div>
             )}
 
             {(file.forwardFromName || file.forwardFromChatTitle) && (
               <div className={styles.metaItem}>
-                <span className={styles.metaLabel}>От:</span>
+                <span className={styles.metaLabel}>{t('viewer.from')}</span>
                 <span>{file.forwardFromName || file.forwardFromChatTitle}</span>
               </div>
             )}
 
             {file.deletedAt && (
               <div className={styles.metaItem}>
-                <span className={styles.metaLabel}>Удалено:</span>
+                <span className={styles.metaLabel}>{t('viewer.deleted')}</span>
                 <span>{formatDate(file.deletedAt)}</span>
               </div>
             )}
@@ -169,7 +173,7 @@ export function TrashFileViewer({
                 <path d="M3 3v5h5" />
               </svg>
             )}
-            <span>Восстановить</span>
+            <span>{t('common.restore')}</span>
           </button>
           <button
             className={styles.deleteBtn}
@@ -187,7 +191,7 @@ export function TrashFileViewer({
                 <line x1="14" y1="11" x2="14" y2="17" />
               </svg>
             )}
-            <span>Удалить навсегда</span>
+            <span>{t('common.deleteForever')}</span>
           </button>
         </div>
       </div>
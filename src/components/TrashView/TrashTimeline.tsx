@@ -4,6 +4,8 @@ import { FileCard } from '../FileCard';
 import { DayCheckbox } from '../DayCheckbox';
 import { formatDateHeader } from '../../shared/formatters';
 import { groupByDateField } from '../../shared/utils';
+import { TRASH_RETENTION_DAYS } from '../../constants/config';
+import { useTranslation } from '../../i18n';
 import gridStyles from '../../styles/Grid.module.css';
 import dateHeaderStyles from '../../styles/DateHeader.module.css';
 import cardStyles from '../../styles/Card.module.css';
@@ -21,6 +23,7 @@ interface TrashTimelineProps {
   onSelectDay: (files: FileRecord[], action: 'add' | 'remove') => void;
   onToggleFile: (file: FileRecord) => void;
   hapticFeedback: { light: () => void };
+  retentionDays?: number;
 }
 
 export function TrashTimeline({
@@ -31,8 +34,10 @@ export function TrashTimeline({
   isSelectionMode,
   onSelectDay,
   onToggleFile,
-  hapticFeedback
+  hapticFeedback,
+  retentionDays = TRASH_RETENTION_DAYS
 }: TrashTimelineProps) {
+  const { t } = useTranslation();
   const groupedFiles = useMemo(() => groupByDateField(files, 'deletedAt'), [files]);
 
   // Drag selection state
@@ -93,8 +98,8 @@ export function TrashTimeline({
     return (
       <div className={styles.empty}>
         <span className={styles.emptyIcon}>🗑️</span>
-        <p>Корзина пуста</p>
-        <p className={styles.emptyHint}>Удалённые файлы будут храниться здесь 30 дней</p>
+        <p>{t('trash.empty')}</p>
+        <p className={styles.emptyHint}>{t('trash.emptyHint', { count: retentionDays })}</p>
       </div>
     );
   }
@@ -115,7 +120,7 @@ export function TrashTimeline({
       {sortedGroups.map(([dateKey, dateFiles]) => (
         <div key={dateKey} className={styles.group}>
           <div className={styles.dateHeader}>
-            <span className={styles.dateText}>{formatDateHeader(dateKey, 'Удалено')}</span>
+            <span className={styles.dateText}>{formatDateHeader(dateKey, t('trash.deletedPrefix'))}</span>
             <div className={styles.dateActions}>
               {!isSelectionMode && (
                 <span className={styles.dateCount}>{dateFiles.length}</span>
@@ -1,8 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
-import { apiClient, FileRecord } from '../../api/client';
+import { apiClient, FileRecord, NoteRecord, ItemRecord } from '../../api/client';
 import { toggleInSet } from '../../shared/utils';
 import { TrashTimeline } from './TrashTimeline';
 import { TrashFileViewer } from './TrashFileViewer';
+import { NoteList } from '../NoteCard/NoteCard';
+import { NoteViewer } from '../NoteViewer';
+import { ItemList } from '../ItemCard/ItemCard';
+import { ItemViewer } from '../ItemViewer';
+import { useTranslation } from '../../i18n';
 import styles from './TrashView.module.css';
 
 interface TrashViewProps {
@@ -15,10 +20,15 @@ interface TrashViewProps {
     error: () => void;
     selection: () => void;
   };
+  // Срок хранения из настроек пользователя (undefined - по умолчанию)
+  retentionDays?: number;
 }
 
-export function TrashView({ searchQuery, onRestore, hapticFeedback }: TrashViewProps) {
+export function TrashView({ searchQuery, onRestore, hapticFeedback, retentionDays }: TrashViewProps) {
+  const { t } = useTranslation();
   const [files, setFiles] = useState<FileRecord[]>([]);
+  const [notes, setNotes] = useState<NoteRecord[]>([]);
+  const [items, setItems] = useState<ItemRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // Selection state
@@ -30,6 +40,10 @@ export function TrashView({ searchQuery, onRestore, hapticFeedback }: TrashViewP
   const [isRestoring, setIsRestoring] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // NoteViewer state
+  const [viewingNote, setViewingNote] = useState<NoteRecord | null>(null);
+  const [viewingItem, setViewingItem] = useState<ItemRecord | null>(null);
+
   // Load trash files
   const loadTrash = useCallback(async () => {
     setIsLoading(true);
@@ -38,10 +52,18 @@ export function TrashView({ searchQuery, onRestore, hapticFeedback }: TrashViewP
         // Search in trash
         const result = await apiClient.searchFiles(searchQuery, { deleted: true });
         setFiles(result.items);
+        setNotes([]);
+        setItems([]);
       } else {
-        // All trash files
-        const result = await apiClient.getTrashFiles();
-        setFiles(result.items);
+        // All trash files, notes and items
+        const [filesResult, notesResult, itemsResult] = await Promise.all([
+          apiClient.getTrashFiles(),
+          apiClient.getTrashNotes(),
+          apiClient.getTrashItems(),
+        ]);
+        setFiles(filesResult.items);
+        setNotes(notesResult.items);
+        setItems(itemsResult.items);
       }
     } catch (error) {
       console.error('Error loading trash:', error);
@@ -138,6 +160,72 @@ export function TrashView({ searchQuery, onRestore, hapticFeedback }: TrashViewP
     }
   }, [hapticFeedback]);
 
+  // Restore note (from viewer)
+  const handleRestoreNote = useCallback(async () => {
+    if (!viewingNote) return;
+    hapticFeedback.light();
+
+    try {
+      await apiClient.restoreNote(viewingNote.id);
+      setNotes(prev => prev.filter(n => n.id !== viewingNote.id));
+      hapticFeedback.success();
+      onRestore();
+    } catch (error) {
+      console.error('Error restoring note:', error);
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [viewingNote, hapticFeedback, onRestore]);
+
+  // Delete note permanently (from viewer)
+  const handleDeleteNote = useCallback(async () => {
+    if (!viewingNote) return;
+    hapticFeedback.medium();
+
+    try {
+      await apiClient.permanentDeleteNote(viewingNote.id);
+      setNotes(prev => prev.filter(n => n.id !== viewingNote.id));
+      hapticFeedback.success();
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [viewingNote, hapticFeedback]);
+
+  // Restore item (from viewer)
+  const handleRestoreItem = useCallback(async () => {
+    if (!viewingItem) return;
+    hapticFeedback.light();
+
+    try {
+      await apiClient.restoreItem(viewingItem.id);
+      setItems(prev => prev.filter(i => i.id !== viewingItem.id));
+      hapticFeedback.success();
+      onRestore();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [viewingItem, hapticFeedback, onRestore]);
+
+  // Delete item permanently (from viewer)
+  const handleDeleteItem = useCallback(async () => {
+    if (!viewingItem) return;
+    hapticFeedback.medium();
+
+    try {
+      await apiClient.permanentDeleteItem(viewingItem.id);
+      setItems(prev => prev.filter(i => i.id !== viewingItem.id));
+      hapticFeedback.success();
+    } catch (error) {
+      console.error('Error deleting item:', error);
+      hapticFeedback.error();
+      throw error;
+    }
+  }, [viewingItem, hapticFeedback]);
+
   // Restore selected files (batch)
   const handleRestoreSelected = useCallback(async () => {
     if (selectedFiles.size === 0) return;
@@ -199,7 +287,7 @@ export function TrashView({ searchQuery, onRestore, hapticFeedback }: TrashViewP
               <path d="m6 6 12 12" />
             </svg>
           </button>
-          <span className={styles.selectionCount}>Выбрано: {selectedFiles.size}</span>
+          <span className={styles.selectionCount}>{t('common.selected', { count: selectedFiles.size })}</span>
           <div className={styles.selectionActions}>
             <button
               onClick={handleRestoreSelected}
@@ -226,17 +314,43 @@ export function TrashView({ searchQuery, onRestore, hapticFeedback }: TrashViewP
         </div>
       )}
 
-      {/* Timeline or empty state */}
-      <TrashTimeline
-        files={files}
-        onFileClick={handleFileClick}
-        onFileLongPress={handleFileLongPress}
-        selectedFiles={selectedFiles}
-        isSelectionMode={isSelectionMode}
-        onSelectDay={handleSelectDay}
-        onToggleFile={handleToggleFile}
-        hapticFeedback={hapticFeedback}
-      />
+      {/* Deleted notes */}
+      {notes.length > 0 && !isSelectionMode && (
+        <NoteList
+          notes={notes}
+          onNoteClick={(note) => {
+            hapticFeedback.light();
+            setViewingNote(note);
+          }}
+        />
+      )}
+
+      {/* Deleted locations, contacts, polls */}
+      {items.length > 0 && !isSelectionMode && (
+        <ItemList
+          items={items}
+          kind={items[0].kind}
+          onItemClick={(item) => {
+            hapticFeedback.light();
+            setViewingItem(item);
+          }}
+        />
+      )}
+
+      {/* Timeline or empty state (пустое состояние не показываем, если есть заметки или items) */}
+      {(files.length > 0 || (notes.length === 0 && items.length === 0)) && (
+        <TrashTimeline
+          files={files}
+          onFileClick={handleFileClick}
+          onFileLongPress={handleFileLongPress}
+          selectedFiles={selectedFiles}
+          isSelectionMode={isSelectionMode}
+          onSelectDay={handleSelectDay}
+          onToggleFile={handleToggleFile}
+          hapticFeedback={hapticFeedback}
+          retentionDays={retentionDays}
+        />
+      )}
 
       {/* File Viewer modal */}
       {viewingFile && (
@@ -247,6 +361,29 @@ export function TrashView({ searchQuery, onRestore, hapticFeedback }: TrashViewP
           onDelete={handleDeleteFromViewer}
           isRestoring={isRestoring}
           isDeleting={isDeleting}
+          retentionDays={retentionDays}
+        />
+      )}
+
+      {/* Note Viewer modal (trash mode) */}
+      {viewingNote && (
+        <NoteViewer
+          key={viewingNote.id}
+          note={viewingNote}
+          onClose={() => setViewingNote(null)}
+          onRestore={handleRestoreNote}
+          onDelete={handleDeleteNote}
+        />
+      )}
+
+      {/* Item Viewer modal (trash mode) */}
+      {viewingItem && (
+        <ItemViewer
+          key={viewingItem.id}
+          item={viewingItem}
+          onClose={() => setViewingItem(null)}
+          onRestore={handleRestoreItem}
+          onDelete={handleDeleteItem}
         />
       )}
     </div>
@@ -1,6 +1,7 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
 import { FileRecord, apiClient } from '../../api/client';
 import { useTelegram } from '../../hooks/useTelegram';
+import { useTranslation } from '../../i18n';
 import styles from './VideoPlayer.module.css';
 
 interface VideoPlayerProps {
@@ -22,6 +23,7 @@ function formatTime(seconds: number): string {
 }
 
 export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFullscreen }: VideoPlayerProps) {
+  const { t } = useTranslation();
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
@@ -62,9 +64,9 @@ export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFul
           console.error('[VideoPlayer] Failed to load video:', error);
           setLoadingState('error');
           if (error.message === 'VIDEO_UNAVAILABLE') {
-            setErrorMessage('Видео недоступно');
+            setErrorMessage(t('player.videoUnavailable'));
           } else {
-            setErrorMessage('Ошибка загрузки');
+            setErrorMessage(t('common.loadError'));
           }
         }
       });
@@ -342,7 +344,7 @@ export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFul
                 <button
                   className={styles.controlButton}
                   onClick={togglePlay}
-                  aria-label={isPlaying ? 'Пауза' : 'Воспроизвести'}
+                  aria-label={t(isPlaying ? 'player.pause' : 'player.play')}
                 >
                   {isPlaying ? (
                     <svg viewBox="0 0 24 24" fill="currentColor">
@@ -360,7 +362,7 @@ export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFul
                 <button
                   className={styles.controlButton}
                   onClick={toggleMute}
-                  aria-label={isMuted ? 'Включить звук' : 'Выключить звук'}
+                  aria-label={t(isMuted ? 'player.unmute' : 'player.mute')}
                 >
                   {isMuted ? (
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -381,7 +383,7 @@ export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFul
                 <button
                   className={styles.controlButton}
                   onClick={toggleFullscreen}
-                  aria-label={isFullscreen ? 'Выйти из полноэкранного режима' : 'Полноэкранный режим'}
+                  aria-label={t(isFullscreen ? 'player.exitFullscreen' : 'player.fullscreen')}
                 >
                   {isFullscreen ? (
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -408,7 +410,7 @@ export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFul
             <button
               className={styles.bigPlayButton}
               onClick={togglePlay}
-              aria-label="Воспроизвести"
+              aria-label={t('player.play')}
             >
               <svg viewBox="0 0 24 24" fill="currentColor">
                 <polygon points="5,3 19,12 5,21" />
@@ -421,7 +423,7 @@ export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFul
             <button
               className={styles.closeFullscreenButton}
               onClick={exitFullscreen}
-              aria-label="Выйти из полноэкранного режима"
+              aria-label={t('player.exitFullscreen')}
             >
               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                 <path d="M18 6L6 18M6 6l12 12" />
@@ -439,7 +441,7 @@ export function VideoPlayer({ file, thumbnailUrl, onFullscreenChange, onEnterFul
             <line x1="12" y1="8" x2="12" y2="12" />
             <line x1="12" y1="16" x2="12.01" y2="16" />
           </svg>
-          <span>{errorMessage || 'Ошибка'}</span>
+          <span>{errorMessage || t('common.error')}</span>
         </div>
       )}
     </div>
@@ -12,10 +12,9 @@ export const MS_PER_DAY = 24 * MS_PER_HOUR;
 export const COOLDOWN_MS = 24 * MS_PER_HOUR;
 
 /**
- * Время хранения файлов в корзине (30 дней)
+ * Время хранения файлов в корзине по умолчанию (пользователь меняет в настройках)
  */
 export const TRASH_RETENTION_DAYS = 30;
-export const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * MS_PER_DAY;
 
 /**
  * UI таймеры
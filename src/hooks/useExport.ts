@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient, ExportJobRecord } from '../api/client';
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Hook для экспорта архива (ZIP со всеми файлами и manifest.json)
+ *
+ * Загружает последнюю задачу экспорта и опрашивает её прогресс,
+ * пока она в статусе pending/running
+ */
+export function useExport() {
+  const [job, setJob] = useState<ExportJobRecord | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    apiClient.getLatestExport()
+      .then(setJob)
+      .catch(e => console.error('[useExport] Failed to load export', e));
+  }, []);
+
+  const isActive = job?.status === 'pending' || job?.status === 'running';
+  const jobId = job?.id;
+
+  // Polling прогресса активной задачи
+  useEffect(() => {
+    if (!isActive || jobId === undefined) return;
+
+    const interval = setInterval(async () => {
+      try {
+        setJob(await apiClient.getExport(jobId));
+      } catch (e) {
+        console.error('[useExport] Failed to poll export', e);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, jobId]);
+
+  const startExport = useCallback(async () => {
+    setIsStarting(true);
+    try {
+      setJob(await apiClient.startExport());
+    } catch (e) {
+      console.error('[useExport] Failed to start export', e);
+    } finally {
+      setIsStarting(false);
+    }
+  }, []);
+
+  return {
+    job,
+    isActive,
+    isStarting,
+    startExport,
+  };
+}
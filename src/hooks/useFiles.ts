@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { apiClient, FileRecord, LinkRecord, CategoryStats } from '../api/client';
+import { apiClient, FileRecord, LinkRecord, NoteRecord, ItemRecord, ItemKind, CategoryStats } from '../api/client';
 import { CategoryType } from '../components/CategoryChips/CategoryChips';
+import { t } from '../i18n';
 
 export interface SearchFilters {
   dateFrom?: string;
@@ -9,20 +10,41 @@ export interface SearchFilters {
   sizeMax?: number;
   from?: string;
   chat?: string;
+  tags?: string; // Comma-separated #tags
+}
+
+const EMPTY_ITEM_COUNTS: Record<ItemKind, number> = { location: 0, venue: 0, contact: 0, poll: 0 };
+
+// Виды items для категории (чип "Места" показывает и геопозиции, и места), null - не items
+export function getItemKinds(type: CategoryType): ItemKind[] | null {
+  if (type === 'location' || type === 'venue') return ['location', 'venue'];
+  if (type === 'contact' || type === 'poll') return [type];
+  return null;
 }
 
 export function useFiles(apiReady = true) {
   const [files, setFiles] = useState<FileRecord[]>([]);
   const [links, setLinks] = useState<LinkRecord[]>([]);
+  const [notes, setNotes] = useState<NoteRecord[]>([]);
+  const [items, setItems] = useState<ItemRecord[]>([]);
   const [stats, setStats] = useState<CategoryStats[]>([]);
+  // Папок всего (или подпапок текущей папки)
+  const [folderCount, setFolderCount] = useState(0);
   const [trashCount, setTrashCount] = useState(0);
   const [sharedCount, setSharedCount] = useState(0);
   const [linksCount, setLinksCount] = useState(0);
+  const [notesCount, setNotesCount] = useState(0);
+  const [itemCounts, setItemCounts] = useState<Record<ItemKind, number>>(EMPTY_ITEM_COUNTS);
   const [favoritesCount, setFavoritesCount] = useState(0);
+  // undefined - пользователь не состоит ни в одном пространстве (группе/канале с ботом)
+  const [spacesCount, setSpacesCount] = useState<number | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedType, setSelectedType] = useState<CategoryType>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  // Текущая папка (null = все файлы, без фильтра по папке)
+  const [selectedFolderId, setSelectedFolderId] = useState<number | null>(null);
+  const currentFolderRef = useRef<number | null>(null);
 
   // Ref для отслеживания текущего запроса (для отмены устаревших)
   const currentRequestId = useRef(0);
@@ -32,6 +54,7 @@ export function useFiles(apiReady = true) {
     if (!apiReady) return;
 
     const requestId = ++currentRequestId.current;
+    const folderId = currentFolderRef.current ?? undefined;
     console.log('[useFiles] loadDataForQuery called, query:', query, 'type:', type, 'filters:', filters, 'requestId:', requestId);
 
     setIsLoading(true);
@@ -39,23 +62,39 @@ export function useFiles(apiReady = true) {
     // Очищаем данные чтобы показался спиннер и не было чёрного экрана при переключении категорий
     setFiles([]);
     setLinks([]);
+    setNotes([]);
+    setItems([]);
 
     try {
-      const hasFilters = filters && (filters.dateFrom || filters.dateTo || filters.sizeMin || filters.sizeMax || filters.from || filters.chat);
+      const hasFilters = filters && (filters.dateFrom || filters.dateTo || filters.sizeMin || filters.sizeMax || filters.from || filters.chat || filters.tags);
 
       if ((query && query.trim()) || hasFilters) {
         const isTrash = type === 'trash';
         const isLinks = type === 'link';
+        const isNotes = type === 'note';
+        const itemKinds = getItemKinds(type);
 
         // Определяем что искать в зависимости от секции
         let filesResult = { items: [] as FileRecord[] };
         let linksResult = { items: [] as LinkRecord[] };
+        let notesResult = { items: [] as NoteRecord[] };
+        let itemsResult = { items: [] as ItemRecord[] };
 
         if (isLinks) {
           // В секции "Ссылки" ищем ТОЛЬКО ссылки
           if (query && query.trim()) {
             linksResult = await apiClient.searchLinks(query);
           }
+        } else if (isNotes) {
+          // В секции "Заметки" ищем ТОЛЬКО заметки
+          if (query && query.trim()) {
+            notesResult = await apiClient.searchNotes(query);
+          }
+        } else if (itemKinds) {
+          // В секциях "Места" / "Контакты" / "Опросы" ищем ТОЛЬКО items этого вида
+          if (query && query.trim()) {
+            itemsResult = await apiClient.searchItems(query, itemKinds);
+          }
         } else if (isTrash) {
           // В корзине ищем удалённые файлы
           filesResult = await apiClient.searchFiles(query || '', {
@@ -67,6 +106,7 @@ export function useFiles(apiReady = true) {
           const searchType = type || undefined;
           filesResult = await apiClient.searchFiles(query || '', {
             type: searchType,
+            folderId,
             ...filters,
           });
         }
@@ -79,17 +119,29 @@ export function useFiles(apiReady = true) {
         console.log('[useFiles] Search result - files:', filesResult, 'links:', linksResult);
         setFiles(filesResult.items || []);
         setLinks(linksResult.items || []);
-      } else if (type === 'trash') {
-        // Load trash - handled separately by TrashView component
+        setNotes(notesResult.items || []);
+        setItems(itemsResult.items || []);
+      } else if (type === 'trash' || type === 'spaces') {
+        // Load trash / spaces - handled separately by TrashView and SpaceView components
         if (requestId !== currentRequestId.current) return;
         setFiles([]);
         setLinks([]);
       } else if (type === 'link') {
-        const result = await apiClient.getLinks({ page: 1, limit: 50 });
+        const result = await apiClient.getLinks({ folderId, page: 1, limit: 50 });
         if (requestId !== currentRequestId.current) return;
         console.log('[useFiles] Links result:', result);
         setLinks(result.items || []);
         setFiles([]);
+      } else if (type === 'note') {
+        const result = await apiClient.getNotes({ folderId, page: 1, limit: 50 });
+        if (requestId !== currentRequestId.current) return;
+        setNotes(result.items || []);
+        setFiles([]);
+      } else if (getItemKinds(type)) {
+        const result = await apiClient.getItems({ kinds: getItemKinds(type)!, folderId, page: 1, limit: 50 });
+        if (requestId !== currentRequestId.current) return;
+        setItems(result.items || []);
+        setFiles([]);
       } else if (type === 'shared') {
         const result = await apiClient.getSharedFiles();
         if (requestId !== currentRequestId.current) return;
@@ -105,6 +157,7 @@ export function useFiles(apiReady = true) {
       } else {
         const result = await apiClient.getFiles({
           type: type || undefined,
+          folderId,
           page: 1,
           limit: 50,
         });
@@ -116,10 +169,12 @@ export function useFiles(apiReady = true) {
     } catch (err) {
       if (requestId !== currentRequestId.current) return;
       console.error('[useFiles] Error:', err);
-      setError('Не удалось загрузить файлы');
+      setError(t('app.loadFailed'));
       // Очищаем данные при ошибке чтобы не показывать старые
       setFiles([]);
       setLinks([]);
+      setNotes([]);
+      setItems([]);
     } finally {
       // ВСЕГДА сбрасываем isLoading, иначе он может застрять
       if (requestId === currentRequestId.current) {
@@ -132,20 +187,31 @@ export function useFiles(apiReady = true) {
   const loadStats = useCallback(async () => {
     if (!apiReady) return;
     try {
-      const [statsResult, trashFilesCount, trashLinksCount, sharedFilesCount, linksCountResult, favoritesCountResult] = await Promise.all([
-        apiClient.getFileStats(),
+      const [statsResult, trashFilesCount, trashLinksCount, trashNotesCount, trashItemsCount, sharedFilesCount, linksCountResult, notesCountResult, itemsCountResult, favoritesCountResult, spacesResult] = await Promise.all([
+        apiClient.getFileStats(currentFolderRef.current ?? undefined),
         apiClient.getTrashFilesCount(),
         apiClient.getTrashLinksCount(),
+        apiClient.getTrashNotesCount(),
+        apiClient.getTrashItemsCount(),
         apiClient.getSharedFilesCount(),
         apiClient.getLinksCount(),
+        apiClient.getNotesCount(),
+        apiClient.getItemsCount(),
         apiClient.getFavoritesCount(),
+        apiClient.getSpaces(),
       ]);
       console.log('[useFiles] Stats:', statsResult, 'Links count:', linksCountResult.count, 'Favorites:', favoritesCountResult.count);
-      setStats(statsResult || []);
-      setTrashCount(trashFilesCount.count + trashLinksCount.count);
+      setStats(statsResult.categories);
+      setFolderCount(statsResult.folderCount);
+      setTrashCount(trashFilesCount.count + trashLinksCount.count + trashNotesCount.count + trashItemsCount.count);
       setSharedCount(sharedFilesCount.count);
       setLinksCount(linksCountResult.count);
+      setNotesCount(notesCountResult.count);
+      setItemCounts(itemsCountResult.byKind);
       setFavoritesCount(favoritesCountResult.count);
+      setSpacesCount(spacesResult.items.length > 0
+        ? spacesResult.items.reduce((sum, s) => sum + s.fileCount + s.linkCount, 0)
+        : undefined);
     } catch (err) {
       console.error('[useFiles] Stats error:', err);
     }
@@ -171,6 +237,15 @@ export function useFiles(apiReady = true) {
     loadDataForQuery(searchQuery, type, currentFiltersRef.current);
   }, [loadDataForQuery, searchQuery]);
 
+  // Filter by folder - сохраняет категорию и поиск, перезагружает данные и счётчики
+  const filterByFolder = useCallback((folderId: number | null) => {
+    console.log('[useFiles] filterByFolder:', folderId);
+    currentFolderRef.current = folderId;
+    setSelectedFolderId(folderId);
+    loadDataForQuery(searchQuery, selectedType, currentFiltersRef.current);
+    loadStats();
+  }, [loadDataForQuery, loadStats, searchQuery, selectedType]);
+
   // Search - для debounced ввода с опциональными фильтрами
   const search = useCallback((query: string, filters?: SearchFilters) => {
     console.log('[useFiles] search called with:', query, 'filters:', filters);
@@ -187,6 +262,7 @@ export function useFiles(apiReady = true) {
 
     // Отменяем любые pending запросы
     const requestId = ++currentRequestId.current;
+    const folderId = currentFolderRef.current ?? undefined;
 
     // Очищаем фильтры
     currentFiltersRef.current = undefined;
@@ -198,12 +274,22 @@ export function useFiles(apiReady = true) {
       // Загружаем данные в зависимости от текущей категории
       if (selectedType === 'link') {
         // Для категории "ссылки" загружаем links
-        const result = await apiClient.getLinks({ page: 1, limit: 50 });
+        const result = await apiClient.getLinks({ folderId, page: 1, limit: 50 });
         if (requestId !== currentRequestId.current) return;
         setLinks(result.items || []);
         setFiles([]);
-      } else if (selectedType === 'trash') {
-        // Trash обрабатывается отдельно в TrashView
+      } else if (selectedType === 'note') {
+        const result = await apiClient.getNotes({ folderId, page: 1, limit: 50 });
+        if (requestId !== currentRequestId.current) return;
+        setNotes(result.items || []);
+        setFiles([]);
+      } else if (getItemKinds(selectedType)) {
+        const result = await apiClient.getItems({ kinds: getItemKinds(selectedType)!, folderId, page: 1, limit: 50 });
+        if (requestId !== currentRequestId.current) return;
+        setItems(result.items || []);
+        setFiles([]);
+      } else if (selectedType === 'trash' || selectedType === 'spaces') {
+        // Trash и пространства обрабатываются отдельно в TrashView и SpaceView
         if (requestId !== currentRequestId.current) return;
         setFiles([]);
         setLinks([]);
@@ -223,6 +309,7 @@ export function useFiles(apiReady = true) {
         // Для остальных категорий загружаем files
         const result = await apiClient.getFiles({
           type: selectedType || undefined,
+          folderId,
           page: 1,
           limit: 50,
         });
@@ -235,9 +322,11 @@ export function useFiles(apiReady = true) {
     } catch (err) {
       if (requestId !== currentRequestId.current) return;
       console.error('[useFiles] clearSearch error:', err);
-      setError('Не удалось загрузить файлы');
+      setError(t('app.loadFailed'));
       setFiles([]);
       setLinks([]);
+      setNotes([]);
+      setItems([]);
     } finally {
       // ВСЕГДА сбрасываем isLoading для актуального запроса
       if (requestId === currentRequestId.current) {
@@ -286,23 +375,37 @@ export function useFiles(apiReady = true) {
     }
   }, []);
 
+  // Update a note in place (after editing in NoteViewer)
+  const updateNote = useCallback((note: NoteRecord) => {
+    setNotes(prev => prev.map(n => n.id === note.id ? { ...n, ...note } : n));
+  }, []);
+
   return {
     files,
     links,
+    notes,
+    items,
     stats,
+    folderCount,
     trashCount,
     sharedCount,
     linksCount,
+    notesCount,
+    itemCounts,
     favoritesCount,
+    spacesCount,
     isLoading,
     error,
     selectedType,
+    selectedFolderId,
     searchQuery,
     filterByType,
+    filterByFolder,
     search,
     clearSearch,
     refresh,
     toggleFavorite,
     setFavoriteMany,
+    updateNote,
   };
 }
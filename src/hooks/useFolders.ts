@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient, FolderRecord } from '../api/client';
+
+/**
+ * Hook для папок (коллекций)
+ *
+ * Загружает плоский список папок после авторизации,
+ * дерево строится в FolderSheet по parentId
+ *
+ * @param apiReady - API готов к использованию
+ */
+export function useFolders(apiReady: boolean) {
+  const [folders, setFolders] = useState<FolderRecord[]>([]);
+
+  const loadFolders = useCallback(async () => {
+    if (!apiReady) return;
+    try {
+      const result = await apiClient.getFolders();
+      setFolders(result.items || []);
+    } catch (e) {
+      console.error('[useFolders] Failed to load folders', e);
+    }
+  }, [apiReady]);
+
+  useEffect(() => {
+    loadFolders();
+  }, [loadFolders]);
+
+  const createFolder = useCallback(async (name: string, parentId: number | null) => {
+    await apiClient.createFolder(name, parentId);
+    await loadFolders();
+  }, [loadFolders]);
+
+  const renameFolder = useCallback(async (id: number, name: string) => {
+    await apiClient.updateFolder(id, { name });
+    await loadFolders();
+  }, [loadFolders]);
+
+  const deleteFolder = useCallback(async (id: number) => {
+    await apiClient.deleteFolder(id);
+    await loadFolders();
+  }, [loadFolders]);
+
+  return {
+    folders,
+    loadFolders,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+  };
+}
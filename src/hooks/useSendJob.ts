@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { apiClient, SendFilesJob } from '../api/client';
+
+const POLL_INTERVAL_MS = 1500;
+
+interface SendJobCallbacks {
+  // Новые отправленные файлы (вызывается по мере прогресса)
+  onSent: (fileIds: number[]) => void;
+  // Задача завершилась (done или failed)
+  onFinished: (job: SendFilesJob) => void;
+}
+
+/**
+ * Hook для пакетной отправки файлов в чат (фоновая задача send_files)
+ *
+ * Отправка не блокирует UI: сервер сразу возвращает задачу, а hook
+ * опрашивает её прогресс. После перезагрузки Mini App подхватывает
+ * незавершённую отправку
+ */
+export function useSendJob(apiReady: boolean, callbacks: SendJobCallbacks) {
+  const [job, setJob] = useState<SendFilesJob | null>(null);
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+  const reportedRef = useRef<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!apiReady) return;
+    apiClient.getActiveJobs()
+      .then(jobs => {
+        const active = jobs.find(j => j.type === 'send_files');
+        if (active) setJob(active as SendFilesJob);
+      })
+      .catch(e => console.error('[useSendJob] Failed to load jobs', e));
+  }, [apiReady]);
+
+  const isActive = job?.status === 'pending' || job?.status === 'running';
+  const jobId = job?.id;
+
+  // Polling прогресса активной задачи
+  useEffect(() => {
+    if (!isActive || jobId === undefined) return;
+
+    const interval = setInterval(async () => {
+      try {
+        setJob(await apiClient.getJob(jobId));
+      } catch (e) {
+        console.error('[useSendJob] Failed to poll job', e);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, jobId]);
+
+  // Сообщаем о новых отправленных файлах и о завершении
+  useEffect(() => {
+    if (!job) return;
+
+    const fresh = (job.result?.sent ?? []).filter(id => !reportedRef.current.has(id));
+    if (fresh.length > 0) {
+      fresh.forEach(id => reportedRef.current.add(id));
+      callbacksRef.current.onSent(fresh);
+    }
+
+    if (job.status === 'done' || job.status === 'failed') {
+      callbacksRef.current.onFinished(job);
+      setJob(null);
+    }
+  }, [job]);
+
+  const startSend = useCallback(async (fileIds: number[]) => {
+    reportedRef.current = new Set();
+    setJob(await apiClient.sendFiles(fileIds));
+  }, []);
+
+  return {
+    job,
+    isActive,
+    startSend,
+  };
+}
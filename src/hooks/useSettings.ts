@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient, UserSettings } from '../api/client';
+
+/**
+ * Hook для настроек пользователя (GET/PATCH /api/settings)
+ *
+ * Изменения применяются сразу (optimistic), при ошибке сохранения -
+ * откатываются к предыдущему значению
+ *
+ * @param apiReady - API готов к использованию
+ */
+export function useSettings(apiReady: boolean) {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+
+  useEffect(() => {
+    if (!apiReady) return;
+    apiClient.getSettings()
+      .then(setSettings)
+      .catch(e => console.error('[useSettings] Failed to load settings', e));
+  }, [apiReady]);
+
+  const updateSettings = useCallback(async (changes: Partial<UserSettings>) => {
+    let previous: UserSettings | null = null;
+    setSettings(current => {
+      previous = current;
+      return current ? { ...current, ...changes } : current;
+    });
+
+    try {
+      setSettings(await apiClient.updateSettings(changes));
+    } catch (e) {
+      console.error('[useSettings] Failed to update settings', e);
+      setSettings(previous);
+    }
+  }, []);
+
+  return {
+    settings,
+    updateSettings,
+  };
+}
@@ -0,0 +1,274 @@
+import type { ru } from './ru';
+
+/**
+ * English Mini App strings (same keys as ru.ts)
+ */
+export const en: Record<keyof typeof ru, string> = {
+  // Общее
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.delete': 'Delete',
+  'common.deleteForever': 'Delete forever',
+  'common.restore': 'Restore',
+  'common.back': 'Back',
+  'common.send': 'Send',
+  'common.sent': 'Sent',
+  'common.sendToChat': 'Send to chat',
+  'common.sentCheck': 'Sent ✓',
+  'common.edit': 'Edit',
+  'common.toFolder': 'To folder',
+  'common.error': 'Error',
+  'common.loadError': 'Loading error',
+  'common.retry': 'Retry',
+  'common.nothingFound': 'Nothing found',
+  'common.selected': 'Selected: {count}',
+  'common.days': '{count} d',
+  'common.hoursShort': 'h',
+  'common.daysShort': 'd',
+  'common.files': '{count} files',
+  'common.position': '{current} of {total}',
+
+  // Типы медиа (getMediaTypeLabel)
+  'type.photo': 'Photo',
+  'type.video': 'Video',
+  'type.document': 'Document',
+  'type.audio': 'Audio',
+  'type.voice': 'Voice message',
+  'type.video_note': 'Video message',
+  'type.animation': 'GIF',
+  'type.sticker': 'Sticker',
+  'type.link': 'Link',
+  'type.note': 'Note',
+  'type.location': 'Location',
+  'type.venue': 'Place',
+  'type.contact': 'Contact',
+  'type.poll': 'Poll',
+
+  // Даты (formatters)
+  'date.today': 'Today',
+  'date.yesterday': 'Yesterday',
+  'date.todayAt': 'Today, {time}',
+  'date.yesterdayAt': 'Yesterday, {time}',
+  'date.daysAgo': '{count} d ago',
+  'date.months': 'January,February,March,April,May,June,July,August,September,October,November,December',
+  'date.monthsShort': 'Jan,Feb,Mar,Apr,May,Jun,Jul,Aug,Sep,Oct,Nov,Dec',
+
+  // Поиск
+  'search.placeholder': 'Search...',
+  'search.appPlaceholder': 'Name, caption, today, .pdf...',
+  'search.from': 'From: {value}',
+  'search.chat': 'Chat: {value}',
+  'search.fromPrefix': 'from',
+  'search.week': 'Week',
+  'search.month': 'Month',
+  'search.fromTitle': 'From',
+  'search.chatTitle': 'From channel',
+  'search.recent': 'Recent',
+  'search.clear': 'Clear',
+  'search.found': 'Found: {count}',
+  'search.tips': 'Tips',
+  'search.tipSpelling': 'Check the spelling',
+  'search.tipOtherWords': 'Try other words',
+  'search.tipPartial': 'Use part of a word',
+  'search.fieldCaptions': '📝 Captions',
+  'search.fieldNames': '📄 Names',
+  'search.fieldSenders': '↗️ Senders',
+
+  // Категории (CategoryChips)
+  'category.all': 'All',
+  'category.favorite': 'Favorites',
+  'category.photo': 'Photos',
+  'category.video': 'Videos',
+  'category.document': 'Docs',
+  'category.link': 'Links',
+  'category.note': 'Notes',
+  'category.location': 'Places',
+  'category.contact': 'Contacts',
+  'category.poll': 'Polls',
+  'category.audio': 'Audio',
+  'category.voice': 'Voice',
+  'category.video_note': 'Video msgs',
+  'category.animation': 'GIF',
+  'category.shared': 'Shared',
+  'category.spaces': 'Groups',
+  'category.trash': 'Trash',
+  'category.folders': 'Folders',
+
+  // Главный экран (App)
+  'app.sendCount': 'Send ({count})',
+  'app.fileUnavailable': 'File is unavailable',
+  'app.sendFailed': 'Failed to send the file',
+  'app.sendQueued': 'Sending is queued…',
+  'app.sendProgress': 'Sent {done} of {total}',
+  'app.voicePrivacy': 'Could not send the video/voice message.\n\nAllow it in Telegram settings:\nPrivacy → Voice messages → Everybody',
+  'app.loadFailed': 'Failed to load files',
+  'app.noShared': 'No shared files',
+  'app.noSharedHint': 'Files you have shared will appear here',
+  'app.noGifs': 'No GIFs or stickers',
+  'app.noGifsHint': 'Send /gifs on to the bot - GIFs and stickers will be saved here',
+  'app.allLoaded': 'That\'s all files',
+
+  // Пустые списки
+  'empty.storage': 'Storage is empty',
+  // Две строки подсказки (между ними <br />)
+  'empty.forwardHint': 'Forward files to the bot',
+  'empty.forwardHintEnd': 'to see them here',
+  'empty.files': 'No files found',
+  'empty.links': 'No links found',
+  'empty.linksHint': 'Send links to the bot to save them with a preview',
+  'empty.notes': 'No notes found',
+  'empty.notesHint': 'Send text to the bot or forward posts without media - they will be saved as notes',
+  'empty.locations': 'No places found',
+  'empty.locationsHint': 'Send locations and places to the bot - they will be saved here',
+  'empty.contacts': 'No contacts found',
+  'empty.contactsHint': 'Send or forward contacts to the bot - they will be saved here',
+  'empty.polls': 'No polls found',
+  'empty.pollsHint': 'Forward polls and quizzes to the bot - they will be saved here',
+
+  // Просмотр файла
+  'viewer.addCaption': 'Add caption',
+  'viewer.captionPlaceholder': 'Enter a caption...',
+  'viewer.captionHistory': 'Previous versions',
+  'viewer.emptyCaption': 'No caption',
+  'viewer.editedInTelegram': 'edited in Telegram',
+  'viewer.editedInApp': 'edited in the app',
+  'viewer.editedByRevert': 'replaced by a revert',
+  'viewer.emoji': 'Emoji:',
+  'viewer.stickerSet': 'Set:',
+  'viewer.name': 'Name:',
+  'viewer.type': 'Type:',
+  'viewer.size': 'Size:',
+  'viewer.duration': 'Duration:',
+  'viewer.resolution': 'Resolution:',
+  'viewer.from': 'From:',
+  'viewer.added': 'Added:',
+  'viewer.deleted': 'Deleted:',
+  'viewer.share': 'Share',
+  'viewer.expiry': 'Expiry',
+  'viewer.limit': 'Limit',
+  'viewer.creating': 'Creating...',
+  'viewer.createLink': 'Create link',
+  'viewer.oneDay': '1 day',
+  'viewer.sevenDays': '7 days',
+  'viewer.thirtyDays': '30 days',
+
+  // Ссылка «Поделиться»
+  'share.webLink': 'Web link:',
+  'share.downloads': 'Downloads: {count}',
+  'share.expiry': 'Expires: {value}',
+  'share.never': 'Never',
+  'share.expired': 'Expired',
+  'share.daysHours': '{days} d {hours} h',
+  'share.hours': '{hours} h',
+  'share.disabling': 'Disabling...',
+  'share.disable': 'Disable link',
+
+  // Корзина
+  'trash.empty': 'Trash is empty',
+  'trash.emptyHint': 'Deleted files are kept here for {count} days',
+  'trash.deletedPrefix': 'Deleted',
+  'trash.deletesToday': 'Will be deleted automatically today',
+  'trash.deletesIn': 'Will be deleted automatically in {count} d',
+
+  // Пространства групп и каналов
+  'spaces.empty': 'No groups or channels',
+  'spaces.emptyHint': 'Add the bot to a group or channel - files and links from there will show up here. In groups the bot needs admin rights or privacy mode turned off.',
+  'spaces.noContent': 'Nothing here yet',
+  'spaces.noContentHint': 'Files and links sent to the chat will show up here',
+  'spaces.admin': 'admin',
+  'spaces.member': 'member',
+  'spaces.viewOnly': 'View only: chat admins can delete',
+  'spaces.trash': 'Trash',
+  'spaces.trashHint': 'Tap to select and restore. Deleted items are kept for {count} days.',
+
+  // Плееры
+  'player.audioUnavailable': 'Audio is unavailable',
+  'player.videoUnavailable': 'Video is unavailable',
+  'player.pause': 'Pause',
+  'player.play': 'Play',
+  'player.unmute': 'Unmute',
+  'player.mute': 'Mute',
+  'player.fullscreen': 'Fullscreen',
+  'player.exitFullscreen': 'Exit fullscreen',
+
+  // Описание для нескольких файлов (CaptionSheet)
+  'caption.title': 'Edit caption',
+  'caption.allHave': 'All files already have a caption',
+  'caption.someHave': '{count} of {total} already have a caption',
+  'caption.placeholder': 'Enter a new caption...',
+  'caption.hint': 'The caption will be applied to all selected files. Existing captions will be replaced.',
+  'caption.saveCount': 'Save ({count})',
+
+  // Папки
+  'folders.title': 'Folders',
+  'folders.move': 'Move to folder',
+  'folders.items': '{count} items',
+  'folders.none': 'No folder',
+  'folders.allFiles': 'All files',
+  'folders.confirmDelete': 'Delete?',
+  'folders.deleteHint': 'When a folder is deleted, its contents move to the parent folder.',
+  'folders.newPlaceholder': 'New folder',
+  'folders.create': 'Create',
+
+  // Заметки
+  'note.title': 'Note',
+  'note.formattingKept': 'Formatting (bold, code, links) moves with the text; partly rewritten fragments lose it.',
+
+  // Места, контакты, опросы
+  'item.title': 'Name',
+  'item.address': 'Address',
+  'item.coordinates': 'Coordinates',
+  'item.accuracy': ' (±{meters} m)',
+  'item.map': 'Map',
+  'item.openMap': 'Open in OpenStreetMap',
+  'item.name': 'Name',
+  'item.phone': 'Phone',
+  'item.quiz': 'Quiz',
+  'item.poll': 'Poll',
+  'item.multipleAnswers': 'Multiple answers',
+  'item.anonymous': 'Anonymous',
+
+  // Статистика и экспорт
+  'stats.title': 'Statistics',
+  'stats.totalFiles': 'Total files',
+  'stats.totalSize': 'Total size',
+  'stats.folders': 'Folders',
+  'stats.inTrash': 'In trash',
+  'stats.byCategory': 'By category',
+  'stats.sources': 'Sources',
+  'stats.export': 'Export',
+  'stats.settings': 'Settings',
+  'export.building': 'Building the archive…',
+  'export.ready': 'Archive is ready',
+  'export.skipped': '{count} files were not included (too large or unavailable) — they are listed in manifest.json',
+  'export.download': 'Download ZIP',
+  'export.rebuild': 'Build again',
+  'export.failed': 'Failed to build the archive, please try again',
+  'export.hint': 'ZIP with all files and manifest.json (captions, sources, favorites, dates). The link is valid for 24 hours.',
+  'export.start': 'Export archive',
+
+  // Настройки
+  'settings.title': 'Settings',
+  'settings.botSaving': 'Saving in the bot',
+  'settings.saveLinks': 'Save links',
+  'settings.saveLinksHint': 'Off — messages with links are not saved at all',
+  'settings.saveStickers': 'GIFs and stickers',
+  'settings.saveStickersHint': 'Save to a separate category (same as /gifs)',
+  'settings.reactions': 'Reactions',
+  'settings.silentMode': 'Silent mode',
+  'settings.silentModeHint': 'Save without reactions or replies',
+  'settings.duplicates': 'Duplicates',
+  'settings.duplicatesHint': 'React with 👀 if the file is already saved',
+  'settings.trashRetention': 'Trash keeps items',
+  'settings.sevenDays': '7 days',
+  'settings.thirtyDays': '30 days',
+  'settings.ninetyDays': '90 days',
+  'settings.year': 'Year',
+  'settings.shareExpiry': '«Share» link expiry',
+  'settings.oneDay': '1 day',
+  'settings.shareExpiryHint': 'Default for new links, can be changed when creating one',
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Auto',
+  'settings.languageHint': 'Auto — same as Telegram. Also changes the bot replies',
+};
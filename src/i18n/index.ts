@@ -0,0 +1,66 @@
+import { useSyncExternalStore } from 'react';
+import { ru } from './ru';
+import { en } from './en';
+
+export type Locale = 'ru' | 'en';
+export type MessageKey = keyof typeof ru;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGUES: Record<Locale, Record<MessageKey, string>> = { ru, en };
+
+// Локаль для toLocaleDateString / toLocaleTimeString
+export const DATE_LOCALES: Record<Locale, string> = {
+  ru: 'ru-RU',
+  en: 'en-US',
+};
+
+/**
+ * Язык интерфейса: выбор в настройках, иначе language_code из Telegram
+ * (так же выбирает бот - backend/src/i18n)
+ */
+export function resolveLocale(languageCode?: string | null, override?: Locale | null): Locale {
+  if (override) return override;
+  if (!languageCode) return 'ru';
+
+  const language = languageCode.toLowerCase().split('-')[0];
+  return ['ru', 'uk', 'be', 'kk'].includes(language) ? 'ru' : 'en';
+}
+
+// До загрузки настроек - язык Telegram
+let currentLocale: Locale = resolveLocale(window.Telegram?.WebApp?.initDataUnsafe.user?.language_code);
+const listeners = new Set<() => void>();
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  document.documentElement.lang = locale;
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Перевод строки на текущий язык: t('search.found', { count: 5 })
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  const message = CATALOGUES[currentLocale][key] ?? ru[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Подписка компонента на смену языка (перерисовка после setLocale)
+ */
+export function useTranslation(): { t: typeof t; locale: Locale } {
+  const locale = useSyncExternalStore(subscribe, getLocale);
+  return { t, locale };
+}
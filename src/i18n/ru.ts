@@ -0,0 +1,273 @@
+/**
+ * Русские строки Mini App - исходный каталог (en.ts с теми же ключами)
+ * Параметры: {name}
+ */
+export const ru = {
+  // Общее
+  'common.cancel': 'Отмена',
+  'common.save': 'Сохранить',
+  'common.saving': 'Сохранение...',
+  'common.delete': 'Удалить',
+  'common.deleteForever': 'Удалить навсегда',
+  'common.restore': 'Восстановить',
+  'common.back': 'Назад',
+  'common.send': 'Отправить',
+  'common.sent': 'Отправлено',
+  'common.sendToChat': 'Отправить в чат',
+  'common.sentCheck': 'Отправлено ✓',
+  'common.edit': 'Изменить',
+  'common.toFolder': 'В папку',
+  'common.error': 'Ошибка',
+  'common.loadError': 'Ошибка загрузки',
+  'common.retry': 'Повторить',
+  'common.nothingFound': 'Ничего не найдено',
+  'common.selected': 'Выбрано: {count}',
+  'common.days': '{count} дн.',
+  'common.hoursShort': 'ч',
+  'common.daysShort': 'дн',
+  'common.files': '{count} файлов',
+  'common.position': '{current} из {total}',
+
+  // Типы медиа (getMediaTypeLabel)
+  'type.photo': 'Фото',
+  'type.video': 'Видео',
+  'type.document': 'Документ',
+  'type.audio': 'Аудио',
+  'type.voice': 'Голосовое',
+  'type.video_note': 'Кружок',
+  'type.animation': 'GIF',
+  'type.sticker': 'Стикер',
+  'type.link': 'Ссылка',
+  'type.note': 'Заметка',
+  'type.location': 'Геопозиция',
+  'type.venue': 'Место',
+  'type.contact': 'Контакт',
+  'type.poll': 'Опрос',
+
+  // Даты (formatters)
+  'date.today': 'Сегодня',
+  'date.yesterday': 'Вчера',
+  'date.todayAt': 'Сегодня, {time}',
+  'date.yesterdayAt': 'Вчера, {time}',
+  'date.daysAgo': '{count} дн. назад',
+  'date.months': 'января,февраля,марта,апреля,мая,июня,июля,августа,сентября,октября,ноября,декабря',
+  'date.monthsShort': 'янв,фев,мар,апр,мая,июн,июл,авг,сен,окт,ноя,дек',
+
+  // Поиск
+  'search.placeholder': 'Поиск...',
+  'search.appPlaceholder': 'Имя, подпись, сегодня, .pdf...',
+  'search.from': 'От: {value}',
+  'search.chat': 'Из: {value}',
+  'search.fromPrefix': 'от',
+  'search.week': 'Неделя',
+  'search.month': 'Месяц',
+  'search.fromTitle': 'От кого',
+  'search.chatTitle': 'Из канала',
+  'search.recent': 'Недавние',
+  'search.clear': 'Очистить',
+  'search.found': 'Найдено: {count}',
+  'search.tips': 'Советы',
+  'search.tipSpelling': 'Проверьте правописание',
+  'search.tipOtherWords': 'Попробуйте другие слова',
+  'search.tipPartial': 'Используйте часть слова',
+  'search.fieldCaptions': '📝 Подписи',
+  'search.fieldNames': '📄 Имена',
+  'search.fieldSenders': '↗️ От кого',
+
+  // Категории (CategoryChips)
+  'category.all': 'Все',
+  'category.favorite': 'Избранное',
+  'category.photo': 'Фото',
+  'category.video': 'Видео',
+  'category.document': 'Доки',
+  'category.link': 'Ссылки',
+  'category.note': 'Заметки',
+  'category.location': 'Места',
+  'category.contact': 'Контакты',
+  'category.poll': 'Опросы',
+  'category.audio': 'Аудио',
+  'category.voice': 'Голос',
+  'category.video_note': 'Кружки',
+  'category.animation': 'GIF',
+  'category.shared': 'Общие',
+  'category.spaces': 'Группы',
+  'category.trash': 'Корзина',
+  'category.folders': 'Папки',
+
+  // Главный экран (App)
+  'app.sendCount': 'Отправить ({count})',
+  'app.fileUnavailable': 'Файл недоступен',
+  'app.sendFailed': 'Не удалось отправить файл',
+  'app.sendQueued': 'Отправка в очереди…',
+  'app.sendProgress': 'Отправлено {done} из {total}',
+  'app.voicePrivacy': 'Не удалось отправить кружок/голосовое.\n\nВключите в настройках Telegram:\nКонфиденциальность → Голосовые сообщения → Все',
+  'app.loadFailed': 'Не удалось загрузить файлы',
+  'app.noShared': 'Нет общих файлов',
+  'app.noSharedHint': 'Здесь будут файлы, которыми вы поделились',
+  'app.noGifs': 'Нет GIF и стикеров',
+  'app.noGifsHint': 'Отправьте боту /gifs on - гифки и стикеры начнут сохраняться сюда',
+  'app.allLoaded': 'Это все файлы',
+
+  // Пустые списки
+  'empty.storage': 'Хранилище пусто',
+  // Две строки подсказки (между ними <br />)
+  'empty.forwardHint': 'Пересылайте файлы боту,',
+  'empty.forwardHintEnd': 'чтобы они появились здесь',
+  'empty.files': 'Файлы не найдены',
+  'empty.links': 'Ссылки не найдены',
+  'empty.linksHint': 'Отправляйте ссылки боту, чтобы сохранить их с превью',
+  'empty.notes': 'Заметки не найдены',
+  'empty.notesHint': 'Отправляйте боту текст или пересылайте посты без медиа - они сохранятся как заметки',
+  'empty.locations': 'Места не найдены',
+  'empty.locationsHint': 'Отправляйте боту геопозиции и места - они сохранятся здесь',
+  'empty.contacts': 'Контакты не найдены',
+  'empty.contactsHint': 'Отправляйте или пересылайте боту контакты - они сохранятся здесь',
+  'empty.polls': 'Опросы не найдены',
+  'empty.pollsHint': 'Пересылайте боту опросы и викторины - они сохранятся здесь',
+
+  // Просмотр файла
+  'viewer.addCaption': 'Добавить описание',
+  'viewer.captionPlaceholder': 'Введите описание...',
+  'viewer.captionHistory': 'Предыдущие версии',
+  'viewer.emptyCaption': 'Без описания',
+  'viewer.editedInTelegram': 'изменено в Telegram',
+  'viewer.editedInApp': 'изменено в приложении',
+  'viewer.editedByRevert': 'заменено при восстановлении',
+  'viewer.emoji': 'Эмодзи:',
+  'viewer.stickerSet': 'Набор:',
+  'viewer.name': 'Название:',
+  'viewer.type': 'Тип:',
+  'viewer.size': 'Размер:',
+  'viewer.duration': 'Длительность:',
+  'viewer.resolution': 'Разрешение:',
+  'viewer.from': 'От:',
+  'viewer.added': 'Добавлено:',
+  'viewer.deleted': 'Удалено:',
+  'viewer.share': 'Поделиться',
+  'viewer.expiry': 'Срок',
+  'viewer.limit': 'Лимит',
+  'viewer.creating': 'Создание...',
+  'viewer.createLink': 'Создать ссылку',
+  'viewer.oneDay': '1 день',
+  'viewer.sevenDays': '7 дней',
+  'viewer.thirtyDays': '30 дней',
+
+  // Ссылка «Поделиться»
+  'share.webLink': 'Веб-ссылка:',
+  'share.downloads': 'Скачали: {count}',
+  'share.expiry': 'Срок: {value}',
+  'share.never': 'Бессрочно',
+  'share.expired': 'Истекла',
+  'share.daysHours': '{days} дн. {hours} ч.',
+  'share.hours': '{hours} ч.',
+  'share.disabling': 'Отключение...',
+  'share.disable': 'Отключить ссылку',
+
+  // Корзина
+  'trash.empty': 'Корзина пуста',
+  'trash.emptyHint': 'Удалённые файлы будут храниться здесь {count} дн.',
+  'trash.deletedPrefix': 'Удалено',
+  'trash.deletesToday': 'Будет удалён сегодня автоматически',
+  'trash.deletesIn': 'Удалится автоматически через {count} дн.',
+
+  // Пространства групп и каналов
+  'spaces.empty': 'Нет групп и каналов',
+  'spaces.emptyHint': 'Добавьте бота в группу или канал - файлы и ссылки оттуда появятся здесь. В группе боту нужны права администратора или отключённый privacy mode.',
+  'spaces.noContent': 'Здесь пока пусто',
+  'spaces.noContentHint': 'Файлы и ссылки, отправленные в чат, появятся здесь',
+  'spaces.admin': 'админ',
+  'spaces.member': 'участник',
+  'spaces.viewOnly': 'Только просмотр: удалять могут администраторы чата',
+  'spaces.trash': 'Корзина',
+  'spaces.trashHint': 'Нажмите, чтобы выбрать и восстановить. Удалённое хранится {count} дн.',
+
+  // Плееры
+  'player.audioUnavailable': 'Аудио недоступно',
+  'player.videoUnavailable': 'Видео недоступно',
+  'player.pause': 'Пауза',
+  'player.play': 'Воспроизвести',
+  'player.unmute': 'Включить звук',
+  'player.mute': 'Выключить звук',
+  'player.fullscreen': 'Полноэкранный режим',
+  'player.exitFullscreen': 'Выйти из полноэкранного режима',
+
+  // Описание для нескольких файлов (CaptionSheet)
+  'caption.title': 'Изменить описание',
+  'caption.allHave': 'Все файлы уже имеют описание',
+  'caption.someHave': '{count} из {total} уже имеют описание',
+  'caption.placeholder': 'Введите новое описание...',
+  'caption.hint': 'Описание будет применено ко всем выбранным файлам. Существующие описания будут заменены.',
+  'caption.saveCount': 'Сохранить ({count})',
+
+  // Папки
+  'folders.title': 'Папки',
+  'folders.move': 'Переместить в папку',
+  'folders.items': '{count} элементов',
+  'folders.none': 'Без папки',
+  'folders.allFiles': 'Все файлы',
+  'folders.confirmDelete': 'Удалить?',
+  'folders.deleteHint': 'При удалении папки её содержимое переносится в родительскую папку.',
+  'folders.newPlaceholder': 'Новая папка',
+  'folders.create': 'Создать',
+
+  // Заметки
+  'note.title': 'Заметка',
+  'note.formattingKept': 'Форматирование (жирный, код, ссылки) сдвигается вместе с текстом; частично переписанные фрагменты его теряют.',
+
+  // Места, контакты, опросы
+  'item.title': 'Название',
+  'item.address': 'Адрес',
+  'item.coordinates': 'Координаты',
+  'item.accuracy': ' (±{meters} м)',
+  'item.map': 'Карта',
+  'item.openMap': 'Открыть в OpenStreetMap',
+  'item.name': 'Имя',
+  'item.phone': 'Телефон',
+  'item.quiz': 'Викторина',
+  'item.poll': 'Опрос',
+  'item.multipleAnswers': 'Несколько ответов',
+  'item.anonymous': 'Анонимный',
+
+  // Статистика и экспорт
+  'stats.title': 'Статистика',
+  'stats.totalFiles': 'Всего файлов',
+  'stats.totalSize': 'Общий размер',
+  'stats.folders': 'Папки',
+  'stats.inTrash': 'В корзине',
+  'stats.byCategory': 'По категориям',
+  'stats.sources': 'Источники',
+  'stats.export': 'Экспорт',
+  'stats.settings': 'Настройки',
+  'export.building': 'Собираем архив…',
+  'export.ready': 'Архив готов',
+  'export.skipped': '{count} файлов не вошли в архив (слишком большие или недоступны) — они перечислены в manifest.json',
+  'export.download': 'Скачать ZIP',
+  'export.rebuild': 'Собрать заново',
+  'export.failed': 'Не удалось собрать архив, попробуйте ещё раз',
+  'export.hint': 'ZIP со всеми файлами и manifest.json (подписи, источники, избранное, даты). Ссылка действует 24 часа.',
+  'export.start': 'Экспортировать архив',
+
+  // Настройки
+  'settings.title': 'Настройки',
+  'settings.botSaving': 'Сохранение в боте',
+  'settings.saveLinks': 'Сохранять ссылки',
+  'settings.saveLinksHint': 'Выключено — сообщения со ссылками не сохраняются совсем',
+  'settings.saveStickers': 'GIF и стикеры',
+  'settings.saveStickersHint': 'Сохранять в отдельную категорию (как /gifs)',
+  'settings.reactions': 'Реакции',
+  'settings.silentMode': 'Тихий режим',
+  'settings.silentModeHint': 'Сохранять без реакций и ответов',
+  'settings.duplicates': 'Повторы',
+  'settings.duplicatesHint': 'Реакция 👀, если файл уже сохранён',
+  'settings.trashRetention': 'Корзина хранит',
+  'settings.sevenDays': '7 дней',
+  'settings.thirtyDays': '30 дней',
+  'settings.ninetyDays': '90 дней',
+  'settings.year': 'Год',
+  'settings.shareExpiry': 'Срок ссылок «Поделиться»',
+  'settings.oneDay': '1 день',
+  'settings.shareExpiryHint': 'По умолчанию для новых ссылок, можно изменить при создании',
+  'settings.language': 'Язык',
+  'settings.languageAuto': 'Авто',
+  'settings.languageHint': 'Авто — как в Telegram. Язык меняется и для ответов бота',
+};
@@ -1,5 +1,6 @@
 import { MediaType } from '../api/client';
-import { BYTES_PER_KB, BYTES_PER_MB, TRASH_RETENTION_MS, MS_PER_DAY } from '../constants/config';
+import { BYTES_PER_KB, BYTES_PER_MB, TRASH_RETENTION_DAYS, MS_PER_DAY } from '../constants/config';
+import { t, getLocale, DATE_LOCALES } from '../i18n';
 
 /**
  * Format file size in human readable format
@@ -22,37 +23,43 @@ export function formatDuration(seconds: number | null | undefined): string {
 }
 
 /**
- * Вычисляет дни до автоудаления (30 дней с момента удаления)
+ * Вычисляет дни до автоудаления (срок хранения корзины из настроек, по умолчанию 30 дней)
  */
-export function getDaysRemaining(deletedAt: string): number {
+export function getDaysRemaining(deletedAt: string, retentionDays = TRASH_RETENTION_DAYS): number {
   const deleted = new Date(deletedAt);
   const now = new Date();
-  const deleteDate = new Date(deleted.getTime() + TRASH_RETENTION_MS);
+  const deleteDate = new Date(deleted.getTime() + retentionDays * MS_PER_DAY);
   const remaining = Math.ceil((deleteDate.getTime() - now.getTime()) / MS_PER_DAY);
   return Math.max(0, remaining);
 }
 
 /**
- * Возвращает русское название типа медиа
+ * Возвращает название типа медиа на текущем языке
  */
 export function getMediaTypeLabel(type: MediaType): string {
   const labels: Record<MediaType, string> = {
-    photo: 'Фото',
-    video: 'Видео',
-    document: 'Документ',
-    audio: 'Аудио',
-    voice: 'Голосовое',
-    video_note: 'Кружок',
-    link: 'Ссылка',
+    photo: t('type.photo'),
+    video: t('type.video'),
+    document: t('type.document'),
+    audio: t('type.audio'),
+    voice: t('type.voice'),
+    video_note: t('type.video_note'),
+    animation: t('type.animation'),
+    sticker: t('type.sticker'),
+    link: t('type.link'),
+    note: t('type.note'),
+    location: t('type.location'),
+    venue: t('type.venue'),
+    contact: t('type.contact'),
+    poll: t('type.poll'),
   };
   return labels[type] || type;
 }
 
-// Русские названия месяцев в родительном падеже
-const MONTHS_RU = [
-  'января', 'февраля', 'марта', 'апреля', 'мая', 'июня',
-  'июля', 'августа', 'сентября', 'октября', 'ноября', 'декабря'
-];
+// Названия месяцев (в русском - родительный падеж: "5 января")
+function getMonthName(month: number, short = false): string {
+  return t(short ? 'date.monthsShort' : 'date.months').split(',')[month];
+}
 
 /**
  * Форматирование даты с временем
@@ -65,16 +72,17 @@ export function formatDate(dateStr: string): string {
   yesterday.setDate(yesterday.getDate() - 1);
   const fileDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
 
-  const time = date.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+  const dateLocale = DATE_LOCALES[getLocale()];
+  const time = date.toLocaleTimeString(dateLocale, { hour: '2-digit', minute: '2-digit' });
 
   if (fileDate.getTime() === today.getTime()) {
-    return `Сегодня, ${time}`;
+    return t('date.todayAt', { time });
   }
   if (fileDate.getTime() === yesterday.getTime()) {
-    return `Вчера, ${time}`;
+    return t('date.yesterdayAt', { time });
   }
 
-  return date.toLocaleDateString('ru-RU', {
+  return date.toLocaleDateString(dateLocale, {
     day: 'numeric',
     month: 'long',
     year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined,
@@ -86,7 +94,7 @@ export function formatDate(dateStr: string): string {
 /**
  * Форматирование даты для заголовка группы (без времени)
  * @param dateStr - ISO дата
- * @param prefix - опциональный префикс (например "Удалено")
+ * @param prefix - опциональный префикс (например t('trash.deletedPrefix'))
  */
 export function formatDateHeader(dateStr: string, prefix?: string): string {
   const date = new Date(dateStr);
@@ -99,16 +107,16 @@ export function formatDateHeader(dateStr: string, prefix?: string): string {
   const addPrefix = (text: string) => prefix ? `${prefix} ${text.toLowerCase()}` : text;
 
   if (fileDate.getTime() === today.getTime()) {
-    return addPrefix('Сегодня');
+    return addPrefix(t('date.today'));
   }
   if (fileDate.getTime() === yesterday.getTime()) {
-    return addPrefix('Вчера');
+    return addPrefix(t('date.yesterday'));
   }
 
   const isCurrentYear = date.getFullYear() === now.getFullYear();
   const dateText = isCurrentYear
-    ? `${date.getDate()} ${MONTHS_RU[date.getMonth()]}`
-    : `${date.getDate()} ${MONTHS_RU[date.getMonth()]} ${date.getFullYear()}`;
+    ? `${date.getDate()} ${getMonthName(date.getMonth())}`
+    : `${date.getDate()} ${getMonthName(date.getMonth())} ${date.getFullYear()}`;
 
   return prefix ? `${prefix} ${dateText}` : dateText;
 }
@@ -126,9 +134,6 @@ export function highlightMatch(text: string, query?: string): string {
   return text.replace(regex, '<mark>$1</mark>');
 }
 
-// Короткие названия месяцев
-const MONTHS_SHORT_RU = ['янв', 'фев', 'мар', 'апр', 'мая', 'июн', 'июл', 'авг', 'сен', 'окт', 'ноя', 'дек'];
-
 /**
  * Форматирование относительной даты (Сегодня, Вчера, X дн. назад, дата)
  * Используется для карточек ссылок
@@ -143,13 +148,13 @@ export function formatRelativeDate(dateStr: string): string {
 
   const diffDays = Math.floor((today.getTime() - dateDay.getTime()) / (1000 * 60 * 60 * 24));
 
-  if (diffDays === 0) return 'Сегодня';
-  if (diffDays === 1) return 'Вчера';
-  if (diffDays < 7) return `${diffDays} дн. назад`;
+  if (diffDays === 0) return t('date.today');
+  if (diffDays === 1) return t('date.yesterday');
+  if (diffDays < 7) return t('date.daysAgo', { count: diffDays });
 
   // Форматируем как "5 янв" или "5 янв 2024"
   const day = date.getDate();
-  const month = MONTHS_SHORT_RU[date.getMonth()];
+  const month = getMonthName(date.getMonth(), true);
 
   if (date.getFullYear() === now.getFullYear()) {
     return `${day} ${month}`;
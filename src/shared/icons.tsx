@@ -43,12 +43,63 @@ export const MediaTypeIcons: Record<MediaType, React.ReactElement> = {
       <path d="m10 9 5 3-5 3V9Z" fill="currentColor" stroke="none" />
     </svg>
   ),
+  animation: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="2" y="4" width="20" height="16" rx="2" />
+      <path d="M10 9H8a1 1 0 0 0-1 1v4a1 1 0 0 0 1 1h2v-2.5H9" />
+      <path d="M13 9v6" />
+      <path d="M16 15V9h2.5" />
+      <path d="M16 12h2" />
+    </svg>
+  ),
+  sticker: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M21 12a9 9 0 1 1-9-9h3a6 6 0 0 0 6 6Z" />
+      <path d="M15 3v3a3 3 0 0 0 3 3h3" />
+      <path d="M8.5 14.5a4 4 0 0 0 7 0" />
+      <path d="M9 10h.01" />
+      <path d="M15 10h.01" />
+    </svg>
+  ),
   link: (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
       <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
       <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
     </svg>
   ),
+  note: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M4 4h16v11l-5 5H4Z" />
+      <path d="M15 20v-5h5" />
+      <path d="M8 9h8" />
+      <path d="M8 13h4" />
+    </svg>
+  ),
+  location: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z" />
+      <circle cx="12" cy="10" r="3" />
+    </svg>
+  ),
+  venue: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z" />
+      <circle cx="12" cy="10" r="3" />
+    </svg>
+  ),
+  contact: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="12" cy="8" r="4" />
+      <path d="M4 21v-1a6 6 0 0 1 6-6h4a6 6 0 0 1 6 6v1" />
+    </svg>
+  ),
+  poll: (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M4 6h10" />
+      <path d="M4 12h16" />
+      <path d="M4 18h7" />
+    </svg>
+  ),
 };
 
 // Forward icon (mirrored arrow)
@@ -1,4 +1,4 @@
-import { MediaType } from '../api/client';
+import { apiClient, FileRecord, MediaType } from '../api/client';
 
 /**
  * Determines the visual/effective media type for UI display based on mimeType
@@ -12,3 +12,15 @@ export function getEffectiveMediaType(mediaType: MediaType, mimeType?: string |
   }
   return mediaType;
 }
+
+/**
+ * Animated preview source for GIFs and stickers (null = use the static thumbnail)
+ * TGS stickers (Lottie) are not rendered - only their thumbnail is shown
+ */
+export function getAnimatedPreview(file: FileRecord): { src: string; isVideo: boolean } | null {
+  if (file.mediaType !== 'animation' && file.mediaType !== 'sticker') return null;
+  if (file.mimeType === 'application/x-tgsticker') return null;
+
+  // MP4-гифки и WebM-стикеры - <video>, GIF и WebP - <img>
+  return { src: apiClient.getAnimationUrl(file.id), isVideo: !file.mimeType?.startsWith('image/') };
+}
@@ -0,0 +1,115 @@
+import { ReactNode } from 'react';
+import { MessageEntityRecord } from '../api/client';
+
+/**
+ * Parse entities JSON stored with a note or caption (null/invalid -> no formatting)
+ */
+export function parseEntities(json: string | null | undefined): MessageEntityRecord[] {
+  if (!json) return [];
+  try {
+    const entities = JSON.parse(json);
+    return Array.isArray(entities) ? entities : [];
+  } catch {
+    return [];
+  }
+}
+
+// Разрешаем только обычные ссылки (в text_link может прийти что угодно)
+function safeUrl(url: string): string | undefined {
+  const normalized = /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`;
+  return /^(https?|tg|mailto):/i.test(normalized) ? normalized : undefined;
+}
+
+function wrapEntity(entity: MessageEntityRecord, text: string, children: ReactNode[], key: number): ReactNode {
+  switch (entity.type) {
+    case 'bold':
+      return <strong key={key}>{children}</strong>;
+    case 'italic':
+      return <em key={key}>{children}</em>;
+    case 'underline':
+      return <u key={key}>{children}</u>;
+    case 'strikethrough':
+      return <s key={key}>{children}</s>;
+    case 'spoiler':
+      return <span key={key} data-spoiler="">{children}</span>;
+    case 'code':
+      return <code key={key}>{children}</code>;
+    case 'pre':
+      return <pre key={key} data-language={entity.language}><code>{children}</code></pre>;
+    case 'blockquote':
+    case 'expandable_blockquote':
+      return <blockquote key={key}>{children}</blockquote>;
+    case 'text_link':
+      return <a key={key} href={safeUrl(entity.url || '')} target="_blank" rel="noopener noreferrer">{children}</a>;
+    case 'url':
+      return <a key={key} href={safeUrl(text)} target="_blank" rel="noopener noreferrer">{children}</a>;
+    case 'email':
+      return <a key={key} href={`mailto:${text}`}>{children}</a>;
+    default:
+      // mention, hashtag, bot_command, ... - без оформления
+      return <span key={key}>{children}</span>;
+  }
+}
+
+// Подсветка поискового запроса в куске текста без сущностей
+function renderPlain(text: string, highlight: RegExp | null, key: number): ReactNode {
+  if (!highlight) return text;
+  const parts = text.split(highlight);
+  if (parts.length === 1) return text;
+  // split с группой: нечётные элементы - совпадения
+  return parts.map((part, i) => (i % 2 === 1 ? <mark key={`${key}-${i}`}>{part}</mark> : part));
+}
+
+/**
+ * Render range [start, end) of the text with entities inside it
+ * Telegram entities are either nested or disjoint - nested ones are rendered recursively
+ */
+function renderRange(
+  text: string,
+  start: number,
+  end: number,
+  entities: MessageEntityRecord[],
+  highlight: RegExp | null
+): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let pos = start;
+  let index = 0;
+
+  while (index < entities.length) {
+    const entity = entities[index];
+    const entityEnd = Math.min(entity.offset + entity.length, end);
+
+    // Пересекается с предыдущей сущностью - пропускаем
+    if (entity.offset < pos || entityEnd <= entity.offset) {
+      index++;
+      continue;
+    }
+
+    // Вложенные сущности - все следующие, которые начинаются внутри текущей
+    let next = index + 1;
+    while (next < entities.length && entities[next].offset < entityEnd) next++;
+
+    if (entity.offset > pos) nodes.push(renderPlain(text.slice(pos, entity.offset), highlight, pos));
+    const children = renderRange(text, entity.offset, entityEnd, entities.slice(index + 1, next), highlight);
+    nodes.push(wrapEntity(entity, text.slice(entity.offset, entityEnd), children, entity.offset));
+
+    pos = entityEnd;
+    index = next;
+  }
+
+  if (pos < end) nodes.push(renderPlain(text.slice(pos, end), highlight, pos));
+  return nodes;
+}
+
+/**
+ * Render Telegram message text with entities (bold, code, links, ...) as React nodes
+ * Offsets are in UTF-16 code units - same as JS string indices
+ * @param highlight - search query to wrap in <mark> (like highlightMatch)
+ */
+export function renderMessageEntities(text: string, entities: MessageEntityRecord[], highlight?: string): ReactNode[] {
+  const sorted = [...entities].sort((a, b) => a.offset - b.offset || b.length - a.length);
+  const regex = highlight
+    ? new RegExp(`(${highlight.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
+    : null;
+  return renderRange(text, 0, text.length, sorted, regex);
+}
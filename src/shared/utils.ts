@@ -14,6 +14,14 @@ export function toggleInSet<T>(set: Set<T>, item: T): Set<T> {
   return next;
 }
 
+/**
+ * Request preview of a given width from the thumbnail proxy
+ * (backend rounds it up to one of the standard widths)
+ */
+export function thumbnailOfWidth(url: string, width: number): string {
+  return `${url}${url.includes('?') ? '&' : '?'}w=${width}`;
+}
+
 /**
  * Extract domain from URL, removing www. prefix
  */
@@ -51,3 +59,46 @@ export function groupByDateField(
 
   return groups;
 }
+
+/**
+ * Collapse albums (files with the same mediaGroupId) into one stacked card
+ * Returns first file of each album with album size, other files as is
+ */
+export function collapseAlbums(files: FileRecord[]): { file: FileRecord; albumCount: number }[] {
+  const result: { file: FileRecord; albumCount: number }[] = [];
+  const albumIndex = new Map<string, number>();
+
+  for (const file of files) {
+    if (!file.mediaGroupId) {
+      result.push({ file, albumCount: 1 });
+      continue;
+    }
+
+    const index = albumIndex.get(file.mediaGroupId);
+    if (index === undefined) {
+      albumIndex.set(file.mediaGroupId, result.length);
+      result.push({ file, albumCount: 1 });
+    } else {
+      result[index].albumCount++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expand file IDs with IDs of all files from the same albums
+ * (selecting a stacked card selects the whole album)
+ */
+export function expandAlbumIds(files: FileRecord[], ids: number[]): number[] {
+  const idSet = new Set(ids);
+  const groupIds = new Set(
+    files.filter(f => f.mediaGroupId && idSet.has(f.id)).map(f => f.mediaGroupId)
+  );
+  if (groupIds.size === 0) return ids;
+
+  files.forEach(f => {
+    if (f.mediaGroupId && groupIds.has(f.mediaGroupId)) idSet.add(f.id);
+  });
+  return Array.from(idSet);
+}
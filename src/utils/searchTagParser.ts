@@ -1,8 +1,11 @@
 // Smart Tags Parser - распознаёт фильтры в поисковом запросе
+// Слова дат и префиксы от:/из: понимаются на обоих языках, подписи тегов - на текущем
+
+import { t } from '../i18n';
 
 export interface SearchTag {
   id: string;
-  type: 'date' | 'size' | 'from' | 'chat' | 'extension';
+  type: 'date' | 'size' | 'from' | 'chat' | 'extension' | 'tag';
   label: string;
   value: unknown;
   raw: string;
@@ -75,22 +78,22 @@ const DATE_PATTERNS: Array<{
   {
     pattern: /^(сегодня|today)$/i,
     getValue: () => ({ type: 'today' }),
-    getLabel: () => 'Сегодня',
+    getLabel: () => t('date.today'),
   },
   {
     pattern: /^(вчера|yesterday)$/i,
     getValue: () => ({ type: 'yesterday' }),
-    getLabel: () => 'Вчера',
+    getLabel: () => t('date.yesterday'),
   },
   {
     pattern: /^(неделя|week)$/i,
     getValue: () => ({ type: 'week' }),
-    getLabel: () => 'Неделя',
+    getLabel: () => t('search.week'),
   },
   {
     pattern: /^(месяц|month)$/i,
     getValue: () => ({ type: 'month' }),
-    getLabel: () => 'Месяц',
+    getLabel: () => t('search.month'),
   },
   {
     pattern: /^(\d{4}-\d{2}-\d{2})$/,
@@ -184,7 +187,7 @@ function tryParseTag(word: string): SearchTag | null {
     return {
       id: generateTagId(),
       type: 'from',
-      label: `От: ${fromMatch[1]}`,
+      label: t('search.from', { value: fromMatch[1] }),
       value: fromMatch[1],
       raw: word,
     };
@@ -196,12 +199,25 @@ function tryParseTag(word: string): SearchTag | null {
     return {
       id: generateTagId(),
       type: 'chat',
-      label: `Из: ${chatMatch[1]}`,
+      label: t('search.chat', { value: chatMatch[1] }),
       value: chatMatch[1],
       raw: word,
     };
   }
 
+  // #тег - фильтр по тегам файла (буквы, цифры, _)
+  const hashtagMatch = word.match(/^#([\p{L}\d_]+)$/u);
+  if (hashtagMatch) {
+    const tag = hashtagMatch[1].toLowerCase();
+    return {
+      id: generateTagId(),
+      type: 'tag',
+      label: `#${tag}`,
+      value: tag,
+      raw: word,
+    };
+  }
+
   // Расширения файлов: .jpg, .pdf, jpg, pdf
   const extMatch = word.match(/^\.?([a-z0-9]{2,5})$/i);
   if (extMatch) {
@@ -308,6 +324,11 @@ export function tagsToQueryParams(tags: SearchTag[]): Record<string, string> {
       case 'extension':
         params.mimeType = String(tag.value);
         break;
+
+      case 'tag':
+        // Несколько #тегов - файл должен иметь все
+        params.tags = params.tags ? `${params.tags},${tag.value}` : String(tag.value);
+        break;
     }
   }
 